@@ -33,6 +33,8 @@ export interface AutocompleteInputProps {
   ariaLabel?: string;
   /** Additional className for the outer wrapper */
   className?: string;
+  /** Only offer securities of these types (e.g. ETFs for a benchmark) */
+  types?: Array<SecurityResult["type"]>;
 }
 
 const MAX_RESULTS = 20;
@@ -48,6 +50,7 @@ export default function AutocompleteInput({
   hasError = false,
   ariaLabel = "Search securities",
   className = "",
+  types,
 }: AutocompleteInputProps) {
   const [inputValue, setInputValue] = useState("");
   const [open, setOpen] = useState(false);
@@ -111,8 +114,10 @@ export default function AutocompleteInput({
       }
     }
 
-    return merged.slice(0, MAX_RESULTS);
-  }, [securities, inputValue, searchResults]);
+    return merged
+      .filter((s) => !types || types.includes(s.type))
+      .slice(0, MAX_RESULTS);
+  }, [securities, inputValue, searchResults, types]);
 
   /* ── Close on outside click ── */
   useEffect(() => {
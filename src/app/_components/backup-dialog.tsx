@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertCircleIcon,
+  ArchiveRestoreIcon,
+  DatabaseBackupIcon,
+  DownloadIcon,
+  ShieldAlertIcon,
+  TrashIcon,
+  UploadIcon,
+} from "lucide-react";
+import { type PortfolioCollection, type QuarantinedData } from "~/types/portfolio";
+import { discardQuarantined, exportCollection, loadQuarantine, restoreCollection } from "~/lib/storage";
+import {
+  type BackupDiff,
+  type PortfolioChange,
+  backupFileName,
+  createBackup,
+  diffCollections,
+  readBackup,
+} from "~/lib/backup";
+
+/* ─── Types ─── */
+export interface BackupDialogProps {
+  onClose: () => void;
+  /** Called after a backup replaced the stored portfolios */
+  onRestore: () => void;
+}
+
+interface PendingRestore {
+  source: string;
+  collection: PortfolioCollection;
+  exportedAt: string | null;
+  diff: BackupDiff;
+}
+
+const CHANGE_STYLES: Record<PortfolioChange, { label: string; className: string }> = {
+  added: { label: "New", className: "bg-emerald-500/15 text-emerald-400" },
+  changed: { label: "Changed", className: "bg-yellow-500/15 text-yellow-400" },
+  removed: { label: "Removed", className: "bg-red-500/15 text-red-400" },
+  unchanged: { label: "Unchanged", className: "bg-white/5 text-gray-500" },
+};
+
+function downloadText(text: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   BackupDialog — download a JSON backup, restore one with a diff preview,
+   and recover quarantined data
+   ═══════════════════════════════════════════════════════════════════════════════ */
+export default function BackupDialog({ onClose, onRestore }: BackupDialogProps) {
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [error, setError] = useState("");
+  const [quarantine, setQuarantine] = useState<QuarantinedData[]>(() => loadQuarantine());
+
+  const handleDownload = () => {
+    const now = new Date();
+    downloadText(JSON.stringify(createBackup(exportCollection(), now), null, 2), backupFileName(now));
+  };
+
+  /** Validate a backup (file or quarantined copy) and preview what it changes */
+  const preview = (text: string, source: string) => {
+    setError("");
+    setPending(null);
+    const result = readBackup(text);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setPending({
+      source,
+      collection: result.collection,
+      exportedAt: result.exportedAt,
+      diff: diffCollections(exportCollection(), result.collection),
+    });
+  };
+
+  const handleRestore = () => {
+    if (!pending) return;
+    restoreCollection(pending.collection);
+    onRestore();
+    onClose();
+  };
+
+  const handleDiscard = (id: string) => {
+    discardQuarantined(id);
+    setQuarantine(loadQuarantine());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      {/* Dialog */}
+      <div className="relative z-10 mx-4 max-h-[90vh] w-full max-w-xl overflow-y-auto rounded-2xl border border-white/10 bg-gray-900 p-6 text-left shadow-2xl shadow-black/50">
+        <div className="mb-4 flex items-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-emerald-500/15">
+            <DatabaseBackupIcon className="h-5 w-5 text-emerald-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-white">Backup &amp; restore</h2>
+            <p className="text-xs text-gray-500">All portfolios and their settings as one JSON file</p>
+          </div>
+        </div>
+
+        {/* Download + file picker */}
+        <div className="mb-4 flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={handleDownload}
+            className="inline-flex h-10 items-center gap-2 rounded-lg bg-emerald-500 px-4 text-sm font-semibold text-gray-950 transition hover:bg-emerald-400"
+          >
+            <DownloadIcon className="h-4 w-4" />
+            Download backup
+          </button>
+          <label className="flex min-w-0 flex-1 cursor-pointer items-center gap-3 rounded-lg border border-dashed border-white/10 bg-gray-800/50 px-4 py-2.5 text-sm text-gray-400 transition hover:border-emerald-500/30 hover:text-emerald-400">
+            <UploadIcon className="h-4 w-4 shrink-0" />
+            <span className="truncate">{pending?.source ?? "Restore from a .json backup…"}</span>
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void file.text().then((text) => preview(text, file.name));
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </div>
+
+        {/* Diff preview */}
+        {pending && (
+          <div className="mb-4 space-y-3">
+            <p className="text-sm text-gray-300">
+              {pending.exportedAt
+                ? `Backup from ${new Date(pending.exportedAt).toLocaleString()}`
+                : "Backup without an export date"}
+              {pending.diff.hasChanges ? ":" : " matches the stored portfolios."}
+            </p>
+            <ul className="custom-scrollbar max-h-64 space-y-1.5 overflow-auto">
+              {pending.diff.portfolios.map((p) => (
+                <li key={p.id} className="rounded-lg border border-white/5 bg-gray-800/50 px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-medium text-white">{p.name}</span>
+                    <span
+                      className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider ${CHANGE_STYLES[p.change].className}`}
+                    >
+                      {CHANGE_STYLES[p.change].label}
+                    </span>
+                    {p.id === pending.collection.activeId && (
+                      <span className="shrink-0 text-[11px] text-gray-500">
+                        {pending.diff.activeChanged ? "becomes active" : "active"}
+                      </span>
+                    )}
+                  </div>
+                  {p.details.length > 0 && <p className="mt-0.5 text-xs text-gray-400">{p.details.join(" · ")}</p>}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex items-start gap-2.5 rounded-lg border border-yellow-500/20 bg-yellow-500/5 px-3.5 py-2.5">
+              <AlertCircleIcon className="mt-0.5 h-4 w-4 shrink-0 text-yellow-500/70" />
+              <p className="text-xs leading-relaxed text-yellow-200/70">
+                <span className="font-medium text-yellow-200/90">This replaces all stored portfolios.</span>{" "}
+                The current data is kept in the quarantine below, so the restore can be reverted.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Error message */}
+        {error && (
+          <div className="mb-4 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/5 px-3.5 py-2.5">
+            <AlertCircleIcon className="mt-0.5 h-4 w-4 shrink-0 text-red-400" />
+            <p className="text-xs leading-relaxed text-red-300">{error}</p>
+          </div>
+        )}
+
+        {/* Quarantine */}
+        {quarantine.length > 0 && (
+          <div className="mb-5">
+            <p className="mb-2 flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-gray-500">
+              <ShieldAlertIcon className="h-3.5 w-3.5" />
+              Quarantined data
+            </p>
+            <ul className="space-y-1.5">
+              {quarantine.map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-center gap-2 rounded-lg border border-white/5 bg-gray-800/50 px-3 py-2"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-xs text-gray-300">{entry.reason}</p>
+                    <p className="text-[11px] text-gray-500">
+                      {new Date(entry.quarantinedAt).toLocaleString()} · {(entry.raw.length / 1024).toFixed(1)} KB
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => preview(entry.raw, `Quarantined copy (${entry.reason.toLowerCase()})`)}
+                    className="rounded p-1 text-gray-500 transition hover:bg-white/5 hover:text-white"
+                    title="Restore"
+                  >
+                    <ArchiveRestoreIcon className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => downloadText(entry.raw, `seetf-quarantine-${entry.quarantinedAt.slice(0, 10)}.json`)}
+                    className="rounded p-1 text-gray-500 transition hover:bg-white/5 hover:text-white"
+                    title="Download"
+                  >
+                    <DownloadIcon className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDiscard(entry.id)}
+                    className="rounded p-1 text-gray-500 transition hover:bg-red-500/10 hover:text-red-400"
+                    title="Delete permanently"
+                  >
+                    <TrashIcon className="h-3.5 w-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm font-medium text-gray-300 transition hover:bg-white/10 hover:text-white"
+          >
+            {pending ? "Cancel" : "Close"}
+          </button>
+          {pending && (
+            <button
+              type="button"
+              onClick={handleRestore}
+              disabled={!pending.diff.hasChanges}
+              className="inline-flex items-center gap-2 rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-gray-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <ArchiveRestoreIcon className="h-4 w-4" />
+              Restore backup
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
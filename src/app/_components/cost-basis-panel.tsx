@@ -0,0 +1,391 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import { ChevronRightIcon, CoinsIcon, PlusIcon, XIcon } from "lucide-react";
+import {
+  type CostBasisMethod,
+  type Position,
+  type Transaction,
+  type TransactionType,
+  CURRENCY_OPTIONS,
+  CURRENCY_SYMBOLS,
+} from "~/types/portfolio";
+import {
+  COST_BASIS_METHOD_LABELS,
+  computeCostBasis,
+  createTransactionId,
+  sortTransactions,
+  type CostBasis,
+} from "~/lib/cost-basis";
+import { PANEL_INPUT_CLASS, formatSignedPct } from "~/app/_components/panel-utils";
+
+/* ─── Types ─── */
+export interface CostBasisPanelProps {
+  positions: Position[];
+  method: CostBasisMethod;
+  /** Current price per share by position id in the portfolio currency */
+  prices: Record<number, number>;
+  currency: string;
+  /** Conversion rates into the portfolio currency */
+  rates: Record<string, number>;
+  readOnly: boolean;
+  onTransactionsChange: (id: number, transactions: Transaction[]) => void;
+  onMethodChange: (method: CostBasisMethod) => void;
+}
+
+const COST_BASIS_METHODS: CostBasisMethod[] = ["fifo", "average"];
+
+function gainColor(value: number | null): string {
+  if (value === null || Math.abs(value) < 0.005) return "text-gray-400";
+  return value > 0 ? "text-emerald-400" : "text-red-400";
+}
+
+/** Today as ISO `yyyy-mm-dd` in local time, the default trade date */
+function todayIso(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function TransactionLedger({
+  position,
+  readOnly,
+  onChange,
+}: {
+  position: Position;
+  readOnly: boolean;
+  onChange: (transactions: Transaction[]) => void;
+}) {
+  const transactions = useMemo(() => sortTransactions(position.transactions ?? []), [position.transactions]);
+  const [type, setType] = useState<TransactionType>("buy");
+  const [date, setDate] = useState(todayIso);
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [fees, setFees] = useState("");
+  const [currency, setCurrency] = useState(position.currency);
+
+  const addTransaction = () => {
+    const qty = parseFloat(quantity);
+    const px = parseFloat(price);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !(qty > 0) || isNaN(px) || px < 0) return;
+    onChange([
+      ...(position.transactions ?? []),
+      {
+        id: createTransactionId(),
+        type,
+        date,
+        quantity: qty,
+        price: px,
+        fees: Math.max(0, parseFloat(fees) || 0),
+        currency,
+      },
+    ]);
+    setQuantity("");
+    setPrice("");
+    setFees("");
+  };
+
+  return (
+    <div className="space-y-2 bg-gray-950/30 px-4 py-3">
+      {transactions.length === 0 ? (
+        <p className="text-xs text-gray-500">No transactions recorded for this position yet.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[11px] text-gray-500">
+              <th className="py-1 pr-2 text-left font-medium">Date</th>
+              <th className="px-2 py-1 text-left font-medium">Type</th>
+              <th className="px-2 py-1 text-right font-medium">Quantity</th>
+              <th className="px-2 py-1 text-right font-medium">Price</th>
+              <th className="px-2 py-1 text-right font-medium">Fees</th>
+              <th className="w-6 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.map((t) => (
+              <tr key={t.id} className="border-t border-white/5">
+                <td className="py-1 pr-2 tabular-nums text-gray-300">{t.date}</td>
+                <td className={`px-2 py-1 font-semibold ${t.type === "buy" ? "text-emerald-400" : "text-red-400"}`}>
+                  {t.type === "buy" ? "Buy" : "Sell"}
+                </td>
+                <td className="px-2 py-1 text-right tabular-nums text-gray-300">{t.quantity.toLocaleString()}</td>
+                <td className="px-2 py-1 text-right tabular-nums text-gray-300">
+                  {(CURRENCY_SYMBOLS[t.currency] ?? `${t.currency} `)}
+                  {t.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 })}
+                </td>
+                <td className="px-2 py-1 text-right tabular-nums text-gray-400">
+                  {t.fees > 0 ? `${(CURRENCY_SYMBOLS[t.currency] ?? `${t.currency} `)}${t.fees.toFixed(2)}` : "—"}
+                </td>
+                <td className="py-1 text-right">
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      onClick={() => onChange((position.transactions ?? []).filter((x) => x.id !== t.id))}
+                      aria-label={`Remove ${t.type} on ${t.date}`}
+                      className="text-gray-500 transition-colors hover:text-red-400"
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as TransactionType)}
+            className="rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-xs text-white outline-none focus:border-emerald-500/50"
+          >
+            <option value="buy">Buy</option>
+            <option value="sell">Sell</option>
+          </select>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            aria-label="Trade date"
+            className="rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-xs text-white outline-none transition-colors focus:border-emerald-500/50"
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            placeholder="Quantity"
+            className={`${PANEL_INPUT_CLASS} w-24`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            placeholder="Price"
+            className={`${PANEL_INPUT_CLASS} w-24`}
+          />
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={fees}
+            onChange={(e) => setFees(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addTransaction()}
+            placeholder="Fees"
+            className={`${PANEL_INPUT_CLASS} w-20`}
+          />
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            aria-label="Trade currency"
+            className="rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-xs text-white outline-none focus:border-emerald-500/50"
+          >
+            {CURRENCY_OPTIONS.map((c) => (
+              <option key={c.value} value={c.value}>
+                {c.value}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={addTransaction}
+            className="inline-flex items-center gap-1 rounded-md bg-white/5 px-2.5 py-1 text-xs font-semibold text-gray-300 transition-colors hover:bg-white/10 hover:text-white"
+          >
+            <PlusIcon className="h-3 w-3" />
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CostBasisPanel({
+  positions,
+  method,
+  prices,
+  currency,
+  rates,
+  readOnly,
+  onTransactionsChange,
+  onMethodChange,
+}: CostBasisPanelProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const bases = useMemo(() => {
+    const result = new Map<number, CostBasis>();
+    for (const p of positions) {
+      if (!p.transactions?.length) continue;
+      result.set(
+        p.id,
+        computeCostBasis(p.transactions, method, prices[p.id] ?? null, (c) => (c === currency ? 1 : (rates[c] ?? 1))),
+      );
+    }
+    return result;
+  }, [positions, method, prices, currency, rates]);
+
+  const totals = useMemo(() => {
+    const all = [...bases.values()];
+    const priced = all.filter((b) => b.unrealizedGain !== null);
+    return {
+      costBasis: all.reduce((sum, b) => sum + b.costBasis, 0),
+      realizedGain: all.reduce((sum, b) => sum + b.realizedGain, 0),
+      unrealizedGain: priced.length > 0 ? priced.reduce((sum, b) => sum + (b.unrealizedGain ?? 0), 0) : null,
+      fees: all.reduce((sum, b) => sum + b.fees, 0),
+      unpriced: all.length - priced.length,
+    };
+  }, [bases]);
+
+  const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+  const formatMoney = (v: number | null, signed = false) =>
+    v === null
+      ? "—"
+      : `${signed && v > 0.005 ? "+" : v < -0.005 ? "−" : ""}${symbol}${Math.abs(v).toLocaleString(undefined, {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        })}`;
+  const oversold = positions.filter((p) => bases.get(p.id)?.oversold);
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        <CoinsIcon className="h-4 w-4 text-emerald-400" />
+        <h3 className="text-sm font-bold text-white">Cost Basis & Gains</h3>
+        <div className="ml-auto flex items-center gap-1 rounded-lg bg-gray-950/60 p-0.5">
+          {COST_BASIS_METHODS.map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => onMethodChange(m)}
+              disabled={readOnly}
+              className={`rounded-md px-2.5 py-1 text-xs font-semibold transition-colors disabled:cursor-not-allowed ${
+                method === m ? "bg-emerald-500/15 text-emerald-400" : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {COST_BASIS_METHOD_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[11px] text-gray-500">
+              <th className="px-4 py-2 text-left font-medium">Position</th>
+              <th className="px-2 py-2 text-right font-medium">Held</th>
+              <th className="px-2 py-2 text-right font-medium">Avg. cost</th>
+              <th className="px-2 py-2 text-right font-medium">Cost basis</th>
+              <th className="px-2 py-2 text-right font-medium">Market value</th>
+              <th className="px-2 py-2 text-right font-medium">Unrealized</th>
+              <th className="px-4 py-2 text-right font-medium">Realized</th>
+            </tr>
+          </thead>
+          <tbody>
+            {positions.map((p) => {
+              const basis = bases.get(p.id);
+              const isOpen = expanded === p.id;
+              return (
+                <Fragment key={p.id}>
+                  <tr
+                    onClick={() => setExpanded(isOpen ? null : p.id)}
+                    className="cursor-pointer border-t border-white/5 transition-colors hover:bg-white/[0.02]"
+                  >
+                    <td className="max-w-[14rem] px-4 py-1.5">
+                      <span className="flex items-center gap-1.5">
+                        <ChevronRightIcon
+                          className={`h-3 w-3 shrink-0 text-gray-500 transition-transform ${isOpen ? "rotate-90" : ""}`}
+                        />
+                        <span className="truncate text-gray-300">{p.name || p.ticker || "—"}</span>
+                        {basis && (
+                          <span className="shrink-0 text-[11px] text-gray-500">
+                            {p.transactions?.length} trade{p.transactions?.length === 1 ? "" : "s"}
+                          </span>
+                        )}
+                      </span>
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-gray-300">
+                      {basis ? basis.quantity.toLocaleString() : "—"}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-gray-400">
+                      {formatMoney(basis?.averageCost ?? null)}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-gray-400">
+                      {basis ? formatMoney(basis.costBasis) : "—"}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-gray-300">
+                      {formatMoney(basis?.marketValue ?? null)}
+                    </td>
+                    <td className={`px-2 py-1.5 text-right font-semibold tabular-nums ${gainColor(basis?.unrealizedGain ?? null)}`}>
+                      {formatMoney(basis?.unrealizedGain ?? null, true)}
+                      {basis?.unrealizedPct != null && (
+                        <span className="ml-1 text-[11px] font-normal">({formatSignedPct(basis.unrealizedPct, 1)})</span>
+                      )}
+                    </td>
+                    <td className={`px-4 py-1.5 text-right font-semibold tabular-nums ${gainColor(basis?.realizedGain ?? null)}`}>
+                      {basis ? formatMoney(basis.realizedGain, true) : "—"}
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr>
+                      <td colSpan={7} className="p-0">
+                        <TransactionLedger
+                          position={p}
+                          readOnly={readOnly}
+                          onChange={(transactions) => onTransactionsChange(p.id, transactions)}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+          {bases.size > 0 && (
+            <tfoot>
+              <tr className="border-t border-white/10 text-[11px] font-semibold">
+                <td className="px-4 py-2 text-gray-400">Total</td>
+                <td colSpan={2} />
+                <td className="px-2 py-2 text-right tabular-nums text-gray-300">{formatMoney(totals.costBasis)}</td>
+                <td />
+                <td className={`px-2 py-2 text-right tabular-nums ${gainColor(totals.unrealizedGain)}`}>
+                  {formatMoney(totals.unrealizedGain, true)}
+                </td>
+                <td className={`px-4 py-2 text-right tabular-nums ${gainColor(totals.realizedGain)}`}>
+                  {formatMoney(totals.realizedGain, true)}
+                </td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      <div className="space-y-1 border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+        {bases.size === 0 ? (
+          <p>Click a position to record its buys and sells and track cost basis and gains.</p>
+        ) : (
+          <p>
+            Buy fees are included in the cost basis and sell fees deducted from proceeds ({formatMoney(totals.fees)} in
+            total). Trades in other currencies are converted at today&apos;s rates.
+          </p>
+        )}
+        {totals.unpriced > 0 && (
+          <p>
+            {totals.unpriced} position{totals.unpriced > 1 ? "s" : ""} without a live price — unrealized P/L is not
+            shown for {totals.unpriced > 1 ? "them" : "it"}.
+          </p>
+        )}
+        {oversold.length > 0 && (
+          <p className="text-amber-400/90">
+            Sales exceed the shares bought for {oversold.map((p) => p.name || p.ticker).join(", ")}; the excess is
+            ignored.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { HandCoinsIcon } from "lucide-react";
+import { CURRENCY_SYMBOLS } from "~/types/portfolio";
+import { MONTH_LABELS, type IncomeProjection } from "~/lib/income";
+
+/* ─── Types ─── */
+export interface DistributionIncomePanelProps {
+  projection: IncomeProjection;
+  currency: string;
+}
+
+export default function DistributionIncomePanel({
+  projection,
+  currency,
+}: DistributionIncomePanelProps) {
+  const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+  const formatMoney = (v: number) =>
+    `${symbol}${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const hasValues = projection.totalAnnual !== null;
+  const maxMonth = Math.max(...projection.monthly, 0.0001);
+  const assumed = projection.rows.filter((r) => r.frequencyAssumed);
+  const noYield = projection.rows.filter((r) => r.yieldPct === null);
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        <HandCoinsIcon className="h-4 w-4 text-lime-400" />
+        <h3 className="text-sm font-bold text-white">Distribution Income</h3>
+        <span className="ml-auto rounded-full bg-lime-500/10 px-2.5 py-0.5 text-xs font-semibold tabular-nums text-lime-400">
+          {hasValues ? `${formatMoney(projection.totalAnnual ?? 0)} / year · ` : ""}
+          Yield {projection.portfolioYieldPct.toFixed(2)}%
+        </span>
+      </div>
+
+      {/* Calendar — projected payouts per month */}
+      {hasValues && (
+        <div className="grid grid-cols-6 gap-2 border-b border-white/5 p-3 md:grid-cols-12">
+          {projection.monthly.map((amount, m) => (
+            <div key={m} className="flex flex-col items-center gap-1 rounded-lg border border-white/5 bg-gray-800/50 px-1 py-2">
+              <div className="flex h-12 w-full items-end justify-center">
+                <div
+                  className="w-3 rounded-t bg-lime-400/70"
+                  style={{ height: `${amount > 0 ? Math.max((amount / maxMonth) * 100, 6) : 0}%` }}
+                />
+              </div>
+              <span className="text-[11px] text-gray-500">{MONTH_LABELS[m]}</span>
+              <span className={`text-[11px] font-semibold tabular-nums ${amount > 0 ? "text-gray-200" : "text-gray-600"}`}>
+                {amount > 0 ? formatMoney(amount) : "—"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Per position */}
+      <div className="grid grid-cols-1 gap-2 p-3 md:grid-cols-2">
+        {projection.rows.map((row) => (
+          <div key={row.key} className="flex items-center gap-2 rounded-lg border border-white/5 bg-gray-800/50 px-3 py-2">
+            <div className="min-w-0 flex-1">
+              <div className="flex min-w-0 items-center gap-2">
+                <span className="min-w-0 truncate text-xs font-medium text-gray-300">{row.name}</span>
+                {row.ticker && <span className="shrink-0 text-[11px] text-gray-500">{row.ticker}</span>}
+              </div>
+              <span className="text-[11px] text-gray-500">
+                {row.frequency || "Frequency unknown"} · {row.yieldPct !== null ? `${row.yieldPct.toFixed(2)}% yield` : "no yield reported"}
+              </span>
+            </div>
+            <span className="shrink-0 text-xs font-semibold tabular-nums text-lime-400">
+              {row.annualIncome !== null ? formatMoney(row.annualIncome) : "—"}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1 border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+        <p>
+          Projected from each fund&apos;s trailing 12-month yield. Payout months follow the fund&apos;s frequency on the
+          usual calendar, so the monthly split is an estimate.
+        </p>
+        {!hasValues && <p>Enter a total portfolio value in the editor to turn yields into amounts.</p>}
+        {assumed.length > 0 && (
+          <p>
+            No payout frequency reported for {assumed.map((r) => r.ticker ?? r.name).join(", ")}; one payout a year in
+            December is assumed.
+          </p>
+        )}
+        {noYield.length > 0 && (
+          <p className="text-amber-400/90">
+            No dividend yield reported for {noYield.map((r) => r.ticker ?? r.name).join(", ")}; counted as 0%.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { BellIcon, PlusIcon, XIcon } from "lucide-react";
+import {
+  type DriftSettings,
+  type ExposureDimension,
+  type ExposureTarget,
+} from "~/types/portfolio";
+import { evaluateExposureDrift, type DriftAlert, type DriftKind } from "~/lib/drift";
+import { type ExposureItem } from "~/lib/benchmark";
+import { PANEL_INPUT_CLASS, formatPp } from "~/app/_components/panel-utils";
+
+/* ─── Types ─── */
+export interface DriftAlertsPanelProps {
+  settings: DriftSettings;
+  positionAlerts: DriftAlert[];
+  /** Aggregated ETF exposures; `null` while loading or without ETFs */
+  exposures: Record<ExposureDimension, ExposureItem[]> | null;
+  readOnly: boolean;
+  onChange: (settings: DriftSettings) => void;
+}
+
+const DRIFT_KIND_LABELS: Record<DriftKind, string> = {
+  position: "Position",
+  country: "Country",
+  sector: "Sector",
+};
+
+/** Compact over/underweight marker for the positions table */
+export function DriftBadge({ alert }: { alert: DriftAlert }) {
+  const over = alert.drift > 0;
+  return (
+    <span
+      title={`Target ${alert.target.toFixed(1)}% (band ${alert.lower.toFixed(1)}–${alert.upper.toFixed(1)}%)`}
+      className={`mt-1 inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-semibold tabular-nums ${
+        over ? "bg-amber-500/10 text-amber-400" : "bg-sky-500/10 text-sky-400"
+      }`}
+    >
+      {over ? "▲" : "▼"} {formatPp(alert.drift)}
+    </span>
+  );
+}
+
+export default function DriftAlertsPanel({
+  settings,
+  positionAlerts,
+  exposures,
+  readOnly,
+  onChange,
+}: DriftAlertsPanelProps) {
+  const [dimension, setDimension] = useState<ExposureDimension>("country");
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("");
+
+  const exposureAlerts = useMemo(
+    () => (exposures ? evaluateExposureDrift(exposures, settings) : []),
+    [exposures, settings],
+  );
+  const alerts = [...positionAlerts, ...exposureAlerts];
+  const bandsOff = settings.absolutePp === null && settings.relativePct === null;
+
+  const setBand = (field: "absolutePp" | "relativePct", raw: string) => {
+    const value = parseFloat(raw);
+    onChange({ ...settings, [field]: isNaN(value) || value < 0 ? null : value });
+  };
+
+  const addTarget = () => {
+    const value = parseFloat(target);
+    if (!name.trim() || isNaN(value) || value < 0) return;
+    onChange({
+      ...settings,
+      exposureTargets: [
+        ...settings.exposureTargets.filter(
+          (t) => !(t.dimension === dimension && t.name.toLowerCase() === name.trim().toLowerCase()),
+        ),
+        { dimension, name: name.trim(), target: value },
+      ],
+    });
+    setName("");
+    setTarget("");
+  };
+
+  const removeTarget = (index: number) =>
+    onChange({ ...settings, exposureTargets: settings.exposureTargets.filter((_, i) => i !== index) });
+
+  /** Current weight of a targeted bucket, for the target list */
+  const currentExposure = (t: ExposureTarget) =>
+    exposures?.[t.dimension]
+      .filter((e) => e.name.toLowerCase() === t.name.toLowerCase())
+      .reduce((sum, e) => sum + e.weight, 0) ?? null;
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        <BellIcon className="h-4 w-4 text-amber-400" />
+        <h3 className="text-sm font-bold text-white">Drift Alerts</h3>
+        <span
+          className={`ml-auto rounded-full px-2.5 py-0.5 text-xs font-semibold ${
+            alerts.length > 0 ? "bg-amber-500/10 text-amber-400" : "bg-emerald-500/10 text-emerald-400"
+          }`}
+        >
+          {alerts.length > 0
+            ? `${alerts.length} outside band${alerts.length === 1 ? "" : "s"}`
+            : "All within bands"}
+        </span>
+      </div>
+
+      {/* Bands */}
+      <div className="flex flex-wrap items-end gap-4 border-b border-white/5 px-4 py-3">
+        <label className="text-[11px] text-gray-500">
+          Absolute band (± pp)
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={settings.absolutePp ?? ""}
+            onChange={(e) => setBand("absolutePp", e.target.value)}
+            disabled={readOnly}
+            placeholder="off"
+            className={`${PANEL_INPUT_CLASS} mt-1 w-24 disabled:opacity-50`}
+          />
+        </label>
+        <label className="text-[11px] text-gray-500">
+          Relative band (± % of target)
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={settings.relativePct ?? ""}
+            onChange={(e) => setBand("relativePct", e.target.value)}
+            disabled={readOnly}
+            placeholder="off"
+            className={`${PANEL_INPUT_CLASS} mt-1 w-24 disabled:opacity-50`}
+          />
+        </label>
+        <p className="pb-1 text-[11px] text-gray-500">
+          A weight is flagged as soon as it leaves either band.
+        </p>
+      </div>
+
+      {/* Exposure targets */}
+      <div className="border-b border-white/5 px-4 py-3">
+        <p className="mb-2 text-[11px] font-medium uppercase tracking-wide text-gray-500">
+          Country & sector targets
+        </p>
+        {settings.exposureTargets.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {settings.exposureTargets.map((t, i) => {
+              const current = currentExposure(t);
+              return (
+                <span
+                  key={`${t.dimension}-${t.name}`}
+                  className="inline-flex items-center gap-1.5 rounded-lg border border-white/5 bg-gray-800/50 px-2.5 py-1 text-xs text-gray-300"
+                >
+                  <span className="text-[11px] text-gray-500">{DRIFT_KIND_LABELS[t.dimension]}</span>
+                  {t.name}
+                  <span className="font-semibold tabular-nums text-white">{t.target}%</span>
+                  {current !== null && (
+                    <span className="tabular-nums text-gray-500">now {current.toFixed(1)}%</span>
+                  )}
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      onClick={() => removeTarget(i)}
+                      aria-label={`Remove target for ${t.name}`}
+                      className="text-gray-500 transition-colors hover:text-red-400"
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </button>
+                  )}
+                </span>
+              );
+            })}
+          </div>
+        )}
+        {!readOnly && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={dimension}
+              onChange={(e) => setDimension(e.target.value as ExposureDimension)}
+              className="rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-xs text-white outline-none focus:border-emerald-500/50"
+            >
+              <option value="country">Country</option>
+              <option value="sector">Sector</option>
+            </select>
+            <input
+              list="drift-exposure-names"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={dimension === "country" ? "United States" : "Technology"}
+              className="w-44 rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-xs text-white outline-none transition-colors focus:border-emerald-500/50"
+            />
+            <datalist id="drift-exposure-names">
+              {exposures?.[dimension]
+                .filter((e) => e.name !== "Other")
+                .map((e) => <option key={e.name} value={e.name} />)}
+            </datalist>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addTarget()}
+              placeholder="Target %"
+              className={`${PANEL_INPUT_CLASS} w-24`}
+            />
+            <button
+              type="button"
+              onClick={addTarget}
+              className="inline-flex items-center gap-1 rounded-md bg-white/5 px-2.5 py-1 text-xs font-semibold text-gray-300 transition-colors hover:bg-white/10 hover:text-white"
+            >
+              <PlusIcon className="h-3 w-3" />
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Alerts */}
+      {bandsOff ? (
+        <p className="px-4 py-3 text-xs text-gray-500">Both bands are off; set at least one to get alerts.</p>
+      ) : alerts.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-gray-500">
+          {positionAlerts.length === 0 && settings.exposureTargets.length === 0
+            ? "Set target weights in the rebalancing table or add a country / sector target to watch for drift."
+            : "Every targeted weight is within its band."}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 gap-2 p-3 md:grid-cols-2">
+          {alerts.map((a) => {
+            const over = a.drift > 0;
+            return (
+              <div
+                key={`${a.kind}-${a.key}`}
+                className="flex items-center gap-2 rounded-lg border border-white/5 bg-gray-800/50 px-3 py-2"
+              >
+                <span className="shrink-0 text-[11px] text-gray-500">{DRIFT_KIND_LABELS[a.kind]}</span>
+                <span className="min-w-0 flex-1 truncate text-xs font-medium text-gray-300">{a.name}</span>
+                <span className={`shrink-0 text-xs font-semibold tabular-nums ${over ? "text-amber-400" : "text-sky-400"}`}>
+                  {a.current.toFixed(1)}% {over ? ">" : "<"} {(over ? a.upper : a.lower).toFixed(1)}%
+                </span>
+                <span className="shrink-0 text-[11px] tabular-nums text-gray-500">
+                  target {a.target.toFixed(1)}%
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {exposures === null && settings.exposureTargets.length > 0 && (
+        <div className="border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+          Country and sector targets are checked once the ETF compositions have loaded.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AlertTriangleIcon,
+  CheckIcon,
+  PlusIcon,
+  ShieldCheckIcon,
+  XCircleIcon,
+  XIcon,
+} from "lucide-react";
+import { type ExposureRule, type ExposureRuleScope } from "~/types/portfolio";
+import {
+  RULE_PRESETS,
+  createRuleId,
+  evaluateRules,
+  type RuleExposure,
+  type RuleStatus,
+} from "~/lib/exposure-rules";
+import { PANEL_INPUT_CLASS } from "~/app/_components/panel-utils";
+
+/* ─── Types ─── */
+export interface ExposureRulesReportProps {
+  rules: ExposureRule[];
+  holdings: RuleExposure[];
+  countries: RuleExposure[];
+  sectors: RuleExposure[];
+  readOnly: boolean;
+  onChange: (rules: ExposureRule[]) => void;
+}
+
+const RULE_SCOPE_LABELS: Record<ExposureRuleScope, string> = {
+  holding: "Holding",
+  country: "Country",
+  sector: "Sector",
+};
+
+const RULE_STATUS_STYLES: Record<RuleStatus, { label: string; className: string }> = {
+  pass: { label: "Pass", className: "bg-emerald-500/10 text-emerald-400" },
+  warn: { label: "Warn", className: "bg-amber-500/10 text-amber-400" },
+  fail: { label: "Fail", className: "bg-red-500/10 text-red-400" },
+};
+
+const RULE_OFFENDERS_VISIBLE = 5;
+
+/** "10–15%", "≤ 30%" or "≥ 10%" */
+function formatLimits(rule: Pick<ExposureRule, "min" | "max">): string {
+  if (rule.min !== null && rule.max !== null) return `${rule.min}–${rule.max}%`;
+  return rule.max !== null ? `≤ ${rule.max}%` : `≥ ${rule.min}%`;
+}
+
+export default function ExposureRulesReport({
+  rules,
+  holdings,
+  countries,
+  sectors,
+  readOnly,
+  onChange,
+}: ExposureRulesReportProps) {
+  const [scope, setScope] = useState<ExposureRuleScope>("holding");
+  const [match, setMatch] = useState("");
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+
+  const results = useMemo(
+    () => evaluateRules(rules, { holding: holdings, country: countries, sector: sectors }),
+    [rules, holdings, countries, sectors],
+  );
+  const counts = results.reduce<Record<RuleStatus, number>>(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { pass: 0, warn: 0, fail: 0 },
+  );
+
+  const addRule = (rule: Omit<ExposureRule, "id">) => onChange([...rules, { ...rule, id: createRuleId() }]);
+
+  const addCustomRule = () => {
+    const minPct = parseFloat(min);
+    const maxPct = parseFloat(max);
+    if (isNaN(minPct) && isNaN(maxPct)) return;
+    const names = match.split(",").map((m) => m.trim()).filter(Boolean);
+    const limits = { min: isNaN(minPct) ? null : minPct, max: isNaN(maxPct) ? null : maxPct };
+    addRule({
+      label: `${names.length > 0 ? names.join(", ") : `Any ${RULE_SCOPE_LABELS[scope].toLowerCase()}`} ${formatLimits(limits)}`,
+      scope,
+      match: names,
+      ...limits,
+      warnPp: 1,
+    });
+    setMatch("");
+    setMin("");
+    setMax("");
+  };
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        <ShieldCheckIcon className="h-4 w-4 text-emerald-400" />
+        <h3 className="text-sm font-bold text-white">Exposure Rules</h3>
+        {results.length > 0 && (
+          <div className="ml-auto flex gap-1.5">
+            {(["fail", "warn", "pass"] as const).map((status) =>
+              counts[status] > 0 ? (
+                <span
+                  key={status}
+                  className={`rounded-full px-2.5 py-0.5 text-xs font-semibold ${RULE_STATUS_STYLES[status].className}`}
+                >
+                  {counts[status]} {RULE_STATUS_STYLES[status].label.toLowerCase()}
+                </span>
+              ) : null,
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Report */}
+      {results.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-gray-500">
+          No rules yet. Start from a preset below or add your own limit.
+        </p>
+      ) : (
+        <div className="space-y-2 p-3">
+          {results.map(({ rule, status, value, offenders }) => (
+            <div key={rule.id} className="rounded-lg border border-white/5 bg-gray-800/50 px-3 py-2">
+              <div className="flex items-center gap-2">
+                {status === "pass" ? (
+                  <CheckIcon className="h-3.5 w-3.5 shrink-0 text-emerald-400" />
+                ) : status === "warn" ? (
+                  <AlertTriangleIcon className="h-3.5 w-3.5 shrink-0 text-amber-400" />
+                ) : (
+                  <XCircleIcon className="h-3.5 w-3.5 shrink-0 text-red-400" />
+                )}
+                <span className="min-w-0 flex-1 truncate text-xs font-medium text-gray-200">
+                  {rule.label || formatLimits(rule)}
+                </span>
+                <span className="shrink-0 text-[11px] text-gray-500">
+                  {RULE_SCOPE_LABELS[rule.scope]} · {formatLimits(rule)}
+                </span>
+                <span className="shrink-0 text-xs font-semibold tabular-nums text-white">
+                  {rule.match.length === 0 && "max "}
+                  {value.toFixed(1)}%
+                </span>
+                <span
+                  className={`shrink-0 rounded-full px-2 py-0.5 text-[11px] font-semibold ${RULE_STATUS_STYLES[status].className}`}
+                >
+                  {RULE_STATUS_STYLES[status].label}
+                </span>
+                {!readOnly && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+                    aria-label={`Remove rule ${rule.label}`}
+                    className="shrink-0 text-gray-500 transition-colors hover:text-red-400"
+                  >
+                    <XIcon className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+
+              {/* Offending buckets and the ETFs behind them */}
+              {offenders.length > 0 && (
+                <div className="mt-1.5 space-y-0.5 pl-5">
+                  {offenders.slice(0, RULE_OFFENDERS_VISIBLE).map((o) => (
+                    <div key={o.name} className="flex items-baseline gap-2 text-[11px]">
+                      <span className="min-w-0 truncate text-gray-300">{o.name}</span>
+                      <span className="shrink-0 font-semibold tabular-nums text-gray-200">{o.weight.toFixed(2)}%</span>
+                      {o.sources.length > 0 && (
+                        <span className="min-w-0 truncate text-gray-500">
+                          via{" "}
+                          {o.sources
+                            .map((src) => `${src.label} ${src.weight.toFixed(2)}%`)
+                            .join(", ")}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                  {offenders.length > RULE_OFFENDERS_VISIBLE && (
+                    <p className="text-[11px] text-gray-500">
+                      …and {offenders.length - RULE_OFFENDERS_VISIBLE} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Editor */}
+      {!readOnly && (
+        <div className="space-y-2 border-t border-white/5 px-4 py-3">
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-[11px] text-gray-500">Presets:</span>
+            {RULE_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                type="button"
+                onClick={() => addRule(preset)}
+                className="inline-flex items-center gap-1 rounded-full bg-white/5 px-2.5 py-0.5 text-[11px] font-medium text-gray-300 transition-colors hover:bg-white/10 hover:text-white"
+              >
+                <PlusIcon className="h-3 w-3" />
+                {preset.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as ExposureRuleScope)}
+              className="rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-xs text-white outline-none focus:border-emerald-500/50"
+            >
+              <option value="holding">Holding</option>
+              <option value="country">Country</option>
+              <option value="sector">Sector</option>
+            </select>
+            <input
+              value={match}
+              onChange={(e) => setMatch(e.target.value)}
+              placeholder="Names, comma-separated (empty = each one)"
+              className="w-64 rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-xs text-white outline-none transition-colors focus:border-emerald-500/50"
+            />
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              value={min}
+              onChange={(e) => setMin(e.target.value)}
+              placeholder="Min %"
+              className={`${PANEL_INPUT_CLASS} w-20`}
+            />
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="any"
+              value={max}
+              onChange={(e) => setMax(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addCustomRule()}
+              placeholder="Max %"
+              className={`${PANEL_INPUT_CLASS} w-20`}
+            />
+            <button
+              type="button"
+              onClick={addCustomRule}
+              className="inline-flex items-center gap-1 rounded-md bg-white/5 px-2.5 py-1 text-xs font-semibold text-gray-300 transition-colors hover:bg-white/10 hover:text-white"
+            >
+              <PlusIcon className="h-3 w-3" />
+              Add rule
+            </button>
+          </div>
+          <p className="text-[11px] text-gray-500">
+            Holdings are checked against the whole portfolio, countries and sectors against the ETF part.
+            Within 1 pp of a limit counts as a warning.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
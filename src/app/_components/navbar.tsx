@@ -7,6 +7,7 @@ import { useEffect, useState } from "react";
 const navLinks = [
   { href: "/#features", label: "Features" },
   { href: "/#how-it-works", label: "How It Works" },
+  { href: "/compare", label: "Compare" },
   { href: "/pricing", label: "Pricing" },
 ];
 
@@ -14,9 +15,11 @@ export default function Navbar() {
   const pathname = usePathname();
   const [scrolled, setScrolled] = useState(false);
 
-  // Hide the regular navbar on portfolio builder, overview, and ETF detail pages
+  // Hide the regular navbar on portfolio builder, overview, ETF detail and compare pages
   const hidden =
-    pathname.startsWith("/portfolio") || pathname.startsWith("/etf");
+    pathname.startsWith("/portfolio") ||
+    pathname.startsWith("/etf") ||
+    pathname.startsWith("/compare");
 
   useEffect(() => {
     const handleScroll = () => {
@@ -0,0 +1,153 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { holdingsOverlap, overlapMatrix, type WeightedHolding } from "~/lib/overlap";
+
+/* ─── Types ─── */
+export interface OverlapFund {
+  label: string;
+  /** Dot colour in the headers and the shared-holdings list */
+  color?: string;
+  holdings: WeightedHolding[];
+}
+
+export interface OverlapMatrixProps {
+  /** Memoize: the matrix is recomputed whenever this array changes */
+  funds: OverlapFund[];
+  /** Shared holdings listed for the selected pair */
+  commonVisible?: number;
+}
+
+/** Amber cell background scaled by overlap (0% transparent → 100% strong) */
+function cellColor(pct: number): string {
+  return `rgba(251, 191, 36, ${(Math.min(pct, 100) / 100) * 0.6})`;
+}
+
+function FundDot({ color }: { color?: string }) {
+  if (!color) return null;
+  return <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: color }} />;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   OverlapMatrix — weight-based pairwise overlap heatmap; click a cell to see
+   the holdings both funds share
+   ═══════════════════════════════════════════════════════════════════════════════ */
+export default function OverlapMatrix({ funds, commonVisible = 10 }: OverlapMatrixProps) {
+  const matrix = useMemo(() => overlapMatrix(funds.map((f) => f.holdings)), [funds]);
+
+  // Start on the most redundant pair
+  const mostOverlapping = useMemo(() => {
+    let best: [number, number] = [0, 1];
+    matrix.forEach((row, i) =>
+      row.forEach((pct, j) => {
+        if (i < j && pct > (matrix[best[0]]?.[best[1]] ?? -1)) best = [i, j];
+      }),
+    );
+    return best;
+  }, [matrix]);
+
+  const [picked, setPicked] = useState<[number, number] | null>(null);
+  const [a, b] = picked && picked[0] < funds.length && picked[1] < funds.length ? picked : mostOverlapping;
+
+  const overlap = useMemo(
+    () => holdingsOverlap(funds[a]?.holdings ?? [], funds[b]?.holdings ?? []),
+    [funds, a, b],
+  );
+
+  if (funds.length < 2) return null;
+
+  return (
+    <>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[11px] text-gray-500">
+              <th className="px-4 py-2 text-left font-medium" />
+              {funds.map((f, j) => (
+                <th key={j} className="px-2 py-2 text-center font-medium">
+                  <span className="inline-flex max-w-[8rem] items-center gap-1.5">
+                    <FundDot color={f.color} />
+                    <span className="truncate">{f.label}</span>
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.map((row, i) => (
+              <tr key={i} className="border-t border-white/5">
+                <td className="max-w-[12rem] px-4 py-1.5">
+                  <span className="flex items-center gap-1.5">
+                    <FundDot color={funds[i]?.color} />
+                    <span className="truncate text-gray-300">{funds[i]?.label}</span>
+                  </span>
+                </td>
+                {row.map((pct, j) => {
+                  const isSelected = (i === a && j === b) || (i === b && j === a);
+                  return (
+                    <td key={j} className="px-2 py-1.5 text-center">
+                      {i === j ? (
+                        <span className="text-gray-600">—</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setPicked(i < j ? [i, j] : [j, i])}
+                          title={`${funds[i]?.label} × ${funds[j]?.label}: show shared holdings`}
+                          className={`w-full rounded px-1.5 py-1 font-semibold tabular-nums text-white transition ${
+                            isSelected ? "ring-1 ring-amber-400" : "hover:ring-1 hover:ring-white/20"
+                          }`}
+                          style={{ backgroundColor: cellColor(pct) }}
+                        >
+                          {pct.toFixed(1)}%
+                        </button>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Shared holdings of the selected pair */}
+      <div className="border-t border-white/5 px-4 py-3">
+        <div className="mb-2 flex flex-wrap items-center gap-1.5 text-[11px] text-gray-500">
+          <FundDot color={funds[a]?.color} />
+          <span className="max-w-[12rem] truncate text-gray-300">{funds[a]?.label}</span>
+          ×
+          <FundDot color={funds[b]?.color} />
+          <span className="max-w-[12rem] truncate text-gray-300">{funds[b]?.label}</span>
+          <span className="ml-auto tabular-nums">
+            {overlap.common.length} shared · {overlap.overlapPct.toFixed(1)}% overlap
+          </span>
+        </div>
+        {overlap.common.length === 0 ? (
+          <p className="text-xs text-gray-500">No holdings in common.</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-1.5 md:grid-cols-2">
+            {overlap.common.slice(0, commonVisible).map((h) => (
+              <div
+                key={h.name}
+                className="flex items-center gap-2 rounded-lg border border-white/5 bg-gray-800/50 px-3 py-1.5"
+              >
+                <span className="min-w-0 flex-1 truncate text-xs text-gray-300">{h.name}</span>
+                <span className="shrink-0 text-[11px] tabular-nums text-gray-400" style={{ color: funds[a]?.color }}>
+                  {h.weights[0].toFixed(2)}%
+                </span>
+                <span className="shrink-0 text-[11px] tabular-nums text-gray-400" style={{ color: funds[b]?.color }}>
+                  {h.weights[1].toFixed(2)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        {overlap.common.length > commonVisible && (
+          <p className="mt-1.5 text-[11px] text-gray-500">
+            …and {overlap.common.length - commonVisible} more
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,15 @@
+/* ─── Shared by the overview panels ─── */
+
+/** Compact right-aligned number input used in the panel toolbars and tables */
+export const PANEL_INPUT_CLASS =
+  "w-full rounded-md border border-white/10 bg-gray-950/60 px-2 py-1 text-right text-xs tabular-nums text-white outline-none transition-colors focus:border-emerald-500/50";
+
+/** "+1.23%" / "-0.50%" */
+export function formatSignedPct(value: number, digits = 2): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}%`;
+}
+
+/** Difference in percentage points, e.g. "+1.20 pp" */
+export function formatPp(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)} pp`;
+}
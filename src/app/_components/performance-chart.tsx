@@ -0,0 +1,188 @@
+"use client";
+
+import { type ReactNode, useMemo } from "react";
+import { Loader2Icon, AlertCircleIcon, LineChartIcon } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ResponsiveContainer,
+} from "recharts";
+import { BACKTEST_RANGES, type BacktestRange } from "~/lib/backtest";
+
+/* ─── Types ─── */
+export interface ChartSeries {
+  key: string;
+  label: string;
+  /** Stroke colour (hex) */
+  color: string;
+  /** Oldest first; `t` in epoch ms */
+  points: Array<{ t: number; value: number }>;
+}
+
+export interface PerformanceChartProps {
+  title: string;
+  series: ChartSeries[];
+  range: BacktestRange;
+  onRangeChange: (range: BacktestRange) => void;
+  isLoading?: boolean;
+  /** Shown instead of the chart when there is nothing to plot */
+  error?: string | null;
+  /** Tooltip and axis formatting for values */
+  formatValue?: (value: number) => string;
+  /** Rendered next to the title (e.g. the return over the range) */
+  headline?: ReactNode;
+  /** Rendered below the chart (notes on missing data, currency, …) */
+  footer?: ReactNode;
+}
+
+const dateFormat = new Intl.DateTimeFormat(undefined, { year: "numeric", month: "short", day: "numeric" });
+const axisDateFormat = new Intl.DateTimeFormat(undefined, { year: "2-digit", month: "short" });
+
+/** Merge the series into recharts rows keyed by timestamp */
+function toRows(series: ChartSeries[]): Array<Record<string, number>> {
+  const rows = new Map<number, Record<string, number>>();
+  for (const s of series) {
+    for (const p of s.points) {
+      const row = rows.get(p.t) ?? { t: p.t };
+      row[s.key] = p.value;
+      rows.set(p.t, row);
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.t! - b.t!);
+}
+
+function ChartTooltipContent({
+  active,
+  payload,
+  label,
+  series,
+  formatValue,
+}: {
+  active?: boolean;
+  payload?: Array<{ dataKey: string; value: number }>;
+  label?: number;
+  series: ChartSeries[];
+  formatValue: (value: number) => string;
+}) {
+  if (!active || !payload?.length || label === undefined) return null;
+  return (
+    <div className="rounded-lg border border-white/10 bg-gray-900 px-3 py-2 shadow-xl">
+      <p className="text-xs text-gray-400">{dateFormat.format(label)}</p>
+      {payload.map((entry) => {
+        const s = series.find((x) => x.key === entry.dataKey);
+        return (
+          <div key={entry.dataKey} className="mt-0.5 flex items-center gap-2">
+            <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: s?.color }} />
+            <span className="text-sm text-gray-200">{s?.label ?? entry.dataKey}</span>
+            <span className="ml-auto pl-3 text-sm font-semibold tabular-nums text-white">
+              {formatValue(entry.value)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   PerformanceChart — line chart with a 1Y / 3Y / 5Y / Max range selector
+   ═══════════════════════════════════════════════════════════════════════════════ */
+export default function PerformanceChart({
+  title,
+  series,
+  range,
+  onRangeChange,
+  isLoading = false,
+  error,
+  formatValue = (v) => v.toFixed(2),
+  headline,
+  footer,
+}: PerformanceChartProps) {
+  const rows = useMemo(() => toRows(series), [series]);
+  const hasData = rows.length > 1;
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        <LineChartIcon className="h-4 w-4 text-emerald-400" />
+        <h3 className="text-sm font-bold text-white">{title}</h3>
+        {headline}
+        <div className="ml-auto flex gap-1">
+          {BACKTEST_RANGES.map((r) => (
+            <button
+              key={r.key}
+              type="button"
+              onClick={() => onRangeChange(r.key)}
+              className={`rounded-full px-2.5 py-0.5 text-xs font-semibold transition-colors ${
+                r.key === range
+                  ? "bg-emerald-500/15 text-emerald-400"
+                  : "text-gray-500 hover:bg-white/5 hover:text-gray-300"
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-64 px-2 py-3">
+        {isLoading ? (
+          <div className="flex h-full items-center justify-center gap-2 text-sm text-gray-500">
+            <Loader2Icon className="h-4 w-4 animate-spin text-emerald-400" />
+            Loading price history…
+          </div>
+        ) : !hasData ? (
+          <div className="flex h-full items-center justify-center gap-2 px-6 text-center text-sm text-gray-500">
+            <AlertCircleIcon className="h-4 w-4 shrink-0" />
+            {error ?? "No price history available for this range."}
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows} margin={{ top: 4, right: 12, bottom: 0, left: 0 }}>
+              <CartesianGrid stroke="rgba(255,255,255,0.05)" vertical={false} />
+              <XAxis
+                dataKey="t"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(t: number) => axisDateFormat.format(t)}
+                tick={{ fill: "#6b7280", fontSize: 11 }}
+                axisLine={false}
+                tickLine={false}
+                minTickGap={40}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tickFormatter={(v: number) => formatValue(v)}
+                tick={{ fill: "#6b7280", fontSize: 11 }}
+                axisLine={false}
+                tickLine={false}
+                width={56}
+              />
+              <Tooltip
+                content={<ChartTooltipContent series={series} formatValue={formatValue} />}
+              />
+              {series.map((s) => (
+                <Line
+                  key={s.key}
+                  dataKey={s.key}
+                  stroke={s.color}
+                  strokeWidth={1.75}
+                  dot={false}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {footer && <div className="border-t border-white/5 px-4 py-2 text-xs text-gray-500">{footer}</div>}
+    </div>
+  );
+}
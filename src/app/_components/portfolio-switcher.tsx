@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useRef, useEffect, useCallback } from "react";
+import {
+  CheckIcon,
+  ChevronDownIcon,
+  CopyIcon,
+  DatabaseBackupIcon,
+  FolderIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from "lucide-react";
+import { type PortfolioSummary } from "~/types/portfolio";
+import {
+  listPortfolios,
+  getActivePortfolioId,
+  setActivePortfolio,
+  createPortfolio,
+  renamePortfolio,
+  duplicatePortfolio,
+  deletePortfolio,
+} from "~/lib/storage";
+import BackupDialog from "~/app/_components/backup-dialog";
+
+/* ─── Types ─── */
+export interface PortfolioSwitcherProps {
+  /**
+   * Called after the active portfolio changed (switch, create, duplicate,
+   * or deleting the active one). The page should reload its state from storage.
+   */
+  onSwitch: () => void;
+  /** Optional additional className for the outer wrapper */
+  className?: string;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   PortfolioSwitcher — list, create, rename, duplicate, delete & switch
+   portfolios, and back them all up / restore them
+   ═══════════════════════════════════════════════════════════════════════════════ */
+export default function PortfolioSwitcher({
+  onSwitch,
+  className = "",
+}: PortfolioSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [portfolios, setPortfolios] = useState<PortfolioSummary[]>([]);
+  const [activeId, setActiveId] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [showBackup, setShowBackup] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /* ── Re-read the collection from localStorage ── */
+  const refresh = useCallback(() => {
+    setPortfolios(listPortfolios());
+    setActiveId(getActivePortfolioId());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  /* ── Close on outside click ── */
+  useEffect(() => {
+    if (!open) return;
+    function handleClickOutside(e: MouseEvent) {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(e.target as Node)
+      ) {
+        setOpen(false);
+        setEditingId(null);
+        setConfirmDeleteId(null);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [open]);
+
+  /* ── Actions ── */
+  const handleSelect = (id: string) => {
+    setOpen(false);
+    if (id === activeId) return;
+    setActivePortfolio(id);
+    refresh();
+    onSwitch();
+  };
+
+  const handleCreate = () => {
+    const id = createPortfolio(`Portfolio ${portfolios.length + 1}`);
+    refresh();
+    onSwitch();
+    // Jump straight into renaming the new portfolio
+    setEditingId(id);
+    setEditingName(`Portfolio ${portfolios.length + 1}`);
+  };
+
+  const handleDuplicate = (id: string) => {
+    duplicatePortfolio(id);
+    refresh();
+    onSwitch();
+  };
+
+  const commitRename = () => {
+    if (editingId) renamePortfolio(editingId, editingName);
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirmDeleteId !== id) {
+      setConfirmDeleteId(id);
+      return;
+    }
+    const wasActive = id === activeId;
+    deletePortfolio(id);
+    setConfirmDeleteId(null);
+    refresh();
+    if (wasActive) onSwitch();
+  };
+
+  const activeName =
+    portfolios.find((p) => p.id === activeId)?.name ?? "Portfolio";
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      {/* ── Trigger Button ── */}
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-haspopup="menu"
+        aria-label="Switch portfolio"
+        onClick={() => {
+          if (!open) refresh();
+          setOpen((prev) => !prev);
+        }}
+        className={`inline-flex h-9 max-w-[14rem] items-center gap-1.5 rounded-lg border bg-gray-900 px-3 text-sm font-medium transition ${
+          open
+            ? "border-emerald-500/50 text-white"
+            : "border-white/10 text-gray-300 hover:border-emerald-500/30 hover:text-emerald-400"
+        }`}
+      >
+        <FolderIcon className="h-4 w-4 shrink-0" />
+        <span className="truncate">{activeName}</span>
+        <ChevronDownIcon
+          className={`h-4 w-4 shrink-0 text-gray-400 transition-transform duration-200 ${
+            open ? "rotate-180" : "rotate-0"
+          }`}
+        />
+      </button>
+
+      {/* ── Dropdown ── */}
+      {open && (
+        <div className="absolute left-0 top-full z-50 mt-1.5 w-72 overflow-hidden rounded-xl border border-white/10 bg-gray-900 shadow-xl shadow-black/40">
+          <ul role="menu" className="custom-scrollbar max-h-72 overflow-auto py-1.5">
+            {portfolios.map((p) => {
+              const isActive = p.id === activeId;
+              const isEditing = p.id === editingId;
+              const isConfirmingDelete = p.id === confirmDeleteId;
+              return (
+                <li
+                  key={p.id}
+                  role="menuitem"
+                  className={`group flex items-center gap-2 px-3 py-2 text-sm transition-colors ${
+                    isActive ? "text-emerald-400" : "text-gray-300 hover:bg-white/[0.04] hover:text-white"
+                  }`}
+                >
+                  <span className="flex h-4 w-4 shrink-0 items-center justify-center">
+                    {isActive && <CheckIcon className="h-3.5 w-3.5" />}
+                  </span>
+
+                  {isEditing ? (
+                    <input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          e.preventDefault();
+                          commitRename();
+                        } else if (e.key === "Escape") {
+                          e.preventDefault();
+                          setEditingId(null);
+                        }
+                      }}
+                      onBlur={commitRename}
+                      aria-label="Portfolio name"
+                      className="h-7 min-w-0 flex-1 rounded-md border border-emerald-500/50 bg-gray-800 px-2 text-sm text-white outline-none"
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleSelect(p.id)}
+                      className="flex min-w-0 flex-1 items-baseline gap-2 text-left"
+                    >
+                      <span className="truncate font-medium">{p.name}</span>
+                      <span className="shrink-0 text-[11px] text-gray-500">
+                        {p.positionCount} {p.positionCount === 1 ? "position" : "positions"}
+                      </span>
+                    </button>
+                  )}
+
+                  {!isEditing && (
+                    <div className="flex shrink-0 items-center gap-0.5">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(p.id);
+                          setEditingName(p.name);
+                          setConfirmDeleteId(null);
+                        }}
+                        className="rounded p-1 text-gray-500 transition hover:bg-white/5 hover:text-white"
+                        title="Rename"
+                      >
+                        <PencilIcon className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDuplicate(p.id)}
+                        className="rounded p-1 text-gray-500 transition hover:bg-white/5 hover:text-white"
+                        title="Duplicate"
+                      >
+                        <CopyIcon className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(p.id)}
+                        disabled={portfolios.length === 1}
+                        className={`rounded p-1 transition disabled:cursor-not-allowed disabled:opacity-30 ${
+                          isConfirmingDelete
+                            ? "bg-red-500/15 text-red-400"
+                            : "text-gray-500 hover:bg-red-500/10 hover:text-red-400"
+                        }`}
+                        title={isConfirmingDelete ? "Click again to delete" : "Delete"}
+                      >
+                        <TrashIcon className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex border-t border-white/5">
+            <button
+              type="button"
+              onClick={handleCreate}
+              className="flex flex-1 items-center gap-2 px-3 py-2.5 text-sm font-semibold text-emerald-400 transition hover:bg-emerald-500/10"
+            >
+              <PlusIcon className="h-4 w-4" />
+              New portfolio
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setOpen(false);
+                setShowBackup(true);
+              }}
+              className="flex items-center gap-1.5 border-l border-white/5 px-3 py-2.5 text-sm font-medium text-gray-400 transition hover:bg-white/5 hover:text-white"
+              title="Download or restore a backup of all portfolios"
+            >
+              <DatabaseBackupIcon className="h-4 w-4" />
+              Backup
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showBackup && (
+        <BackupDialog
+          onClose={() => setShowBackup(false)}
+          onRestore={() => {
+            refresh();
+            onSwitch();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ScaleIcon } from "lucide-react";
+import { type Position } from "~/types/portfolio";
+import { computeRebalance } from "~/lib/rebalance";
+import { PANEL_INPUT_CLASS } from "~/app/_components/panel-utils";
+
+/* ─── Types ─── */
+export interface RebalancePanelProps {
+  positions: Position[];
+  /** Current values by position id in the portfolio currency; `null` when unknown */
+  values: Record<number, number> | null;
+  /** Price per share by position id in the portfolio currency; empty when not rounding */
+  prices: Record<number, number>;
+  /** Quotes or FX rates still loading, so missing prices are not reported yet */
+  pricesLoading: boolean;
+  wholeShares: boolean;
+  onWholeSharesChange: (wholeShares: boolean) => void;
+  currencySymbol: string;
+  readOnly: boolean;
+  onTargetChange: (id: number, target: string) => void;
+}
+
+export default function RebalancePanel({
+  positions,
+  values,
+  prices,
+  pricesLoading,
+  wholeShares,
+  onWholeSharesChange,
+  currencySymbol,
+  readOnly,
+  onTargetChange,
+}: RebalancePanelProps) {
+  const [contribution, setContribution] = useState("");
+  const [minTrade, setMinTrade] = useState("");
+  const [allowSell, setAllowSell] = useState(false);
+
+  const result = useMemo(
+    () =>
+      values &&
+      computeRebalance(
+        positions.map((p) => {
+          const target = parseFloat(p.target ?? "");
+          return {
+            id: p.id,
+            value: values[p.id] ?? 0,
+            targetPct: isNaN(target) ? null : target,
+            price: prices[p.id] ?? null,
+          };
+        }),
+        {
+          contribution: parseFloat(contribution) || 0,
+          allowSell,
+          minTrade: parseFloat(minTrade) || 0,
+        },
+      ),
+    [positions, values, prices, contribution, minTrade, allowSell],
+  );
+
+  const totalValue = values ? positions.reduce((s, p) => s + (values[p.id] ?? 0), 0) : 0;
+  const tradeById = new Map(result?.trades.map((t) => [t.id, t]));
+  const hasTargets = (result?.trades.length ?? 0) > 0;
+  const unpricedNames =
+    wholeShares && !pricesLoading
+      ? positions
+          .filter((p) => tradeById.has(p.id) && prices[p.id] === undefined)
+          .map((p) => p.name || p.ticker || "Unknown")
+      : [];
+  const targetsOff = hasTargets && Math.abs((result?.totalTargetPct ?? 0) - 100) > 0.05;
+  const formatMoney = (v: number) =>
+    `${currencySymbol}${Math.abs(v).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        <ScaleIcon className="h-4 w-4 text-violet-400" />
+        <h3 className="text-sm font-bold text-white">Rebalancing</h3>
+        {hasTargets && (
+          <span
+            className={`ml-auto rounded-full px-2.5 py-0.5 text-xs font-semibold tabular-nums ${
+              targetsOff ? "bg-amber-500/10 text-amber-400" : "bg-violet-500/10 text-violet-400"
+            }`}
+          >
+            Targets: {result?.totalTargetPct.toFixed(1)}%
+          </span>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-end gap-4 border-b border-white/5 px-4 py-3">
+        <label className="text-[11px] text-gray-500">
+          New contribution ({currencySymbol})
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={contribution}
+            onChange={(e) => setContribution(e.target.value)}
+            placeholder="0"
+            className={`${PANEL_INPUT_CLASS} mt-1 w-32`}
+          />
+        </label>
+        <label className="text-[11px] text-gray-500">
+          Minimum trade ({currencySymbol})
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={minTrade}
+            onChange={(e) => setMinTrade(e.target.value)}
+            placeholder="0"
+            className={`${PANEL_INPUT_CLASS} mt-1 w-28`}
+          />
+        </label>
+        <label className="flex cursor-pointer items-center gap-2 pb-1 text-xs text-gray-300">
+          <input
+            type="checkbox"
+            checked={allowSell}
+            onChange={(e) => setAllowSell(e.target.checked)}
+            className="h-3.5 w-3.5 accent-violet-500"
+          />
+          Selling allowed
+        </label>
+        <label className="flex cursor-pointer items-center gap-2 pb-1 text-xs text-gray-300">
+          <input
+            type="checkbox"
+            checked={wholeShares}
+            onChange={(e) => onWholeSharesChange(e.target.checked)}
+            className="h-3.5 w-3.5 accent-violet-500"
+          />
+          Whole shares
+        </label>
+      </div>
+
+      {!values ? (
+        <p className="px-4 py-4 text-xs text-gray-500">
+          Enter a total portfolio value in the editor to turn percentages into trade amounts.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[11px] text-gray-500">
+                <th className="px-4 py-2 text-left font-medium">Position</th>
+                <th className="px-2 py-2 text-right font-medium">Current</th>
+                <th className="px-2 py-2 text-right font-medium">Target %</th>
+                <th className="px-2 py-2 text-right font-medium">Trade</th>
+                <th className="px-2 py-2 text-right font-medium">Shares</th>
+                <th className="px-4 py-2 text-right font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map((p) => {
+                const trade = tradeById.get(p.id);
+                const currentPct = totalValue > 0 ? ((values[p.id] ?? 0) / totalValue) * 100 : 0;
+                return (
+                  <tr key={p.id} className="border-t border-white/5">
+                    <td className="max-w-[14rem] truncate px-4 py-1.5 text-gray-300">
+                      {p.name || p.ticker || "—"}
+                      {p.ticker && <span className="ml-1.5 text-[11px] text-gray-500">{p.ticker}</span>}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-gray-400">{currentPct.toFixed(1)}%</td>
+                    <td className="w-24 px-2 py-1.5">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="any"
+                        value={p.target ?? ""}
+                        onChange={(e) => onTargetChange(p.id, e.target.value)}
+                        disabled={readOnly}
+                        placeholder="—"
+                        aria-label={`Target weight for ${p.name || p.ticker}`}
+                        className={`${PANEL_INPUT_CLASS} disabled:opacity-50`}
+                      />
+                    </td>
+                    <td
+                      className={`px-2 py-1.5 text-right font-semibold tabular-nums ${
+                        !trade || trade.amount === 0
+                          ? "text-gray-600"
+                          : trade.amount > 0
+                            ? "text-emerald-400"
+                            : "text-red-400"
+                      }`}
+                    >
+                      {!trade ? "—" : trade.amount === 0 ? "Hold" : `${trade.amount > 0 ? "Buy" : "Sell"} ${formatMoney(trade.amount)}`}
+                    </td>
+                    <td className="px-2 py-1.5 text-right tabular-nums text-gray-400">
+                      {trade?.shares ? `${trade.shares > 0 ? "+" : ""}${trade.shares}` : "—"}
+                    </td>
+                    <td className="px-4 py-1.5 text-right tabular-nums text-gray-300">
+                      {trade ? `${trade.afterPct.toFixed(1)}%` : "—"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {values && (
+        <div className="space-y-1 border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+          {!hasTargets && <p>Set a target weight on at least one position to get trade suggestions.</p>}
+          {targetsOff && (
+            <p className="text-amber-400/90">
+              Targets add up to {result?.totalTargetPct.toFixed(1)}%; they are scaled to 100% of the targeted positions.
+            </p>
+          )}
+          {hasTargets && result && result.unallocatedCash > 0.005 && (
+            <p>Uninvested cash after minimum trade size and rounding: {formatMoney(result.unallocatedCash)}</p>
+          )}
+          {hasTargets && wholeShares && pricesLoading && <p>Loading live prices for whole-share rounding…</p>}
+          {unpricedNames.length > 0 && (
+            <p className="text-amber-400/90">
+              No live price for {unpricedNames.join(", ")}; {unpricedNames.length === 1 ? "its trade is" : "their trades are"}{" "}
+              not rounded to whole shares.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
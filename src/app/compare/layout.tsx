@@ -0,0 +1,35 @@
+import { type Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Compare ETFs",
+  description:
+    "Compare two to four ETFs side by side: TER, returns, country and sector differences, and how much their holdings overlap.",
+  openGraph: {
+    title: "Compare ETFs — SeeTF",
+    description:
+      "Compare ETFs side by side: TER, returns, country and sector differences, and weight-based holdings overlap.",
+    images: [
+      {
+        url: "/og-image.png",
+        width: 1200,
+        height: 630,
+        alt: "SeeTF — ETF Portfolio Analyzer",
+      },
+    ],
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: "Compare ETFs — SeeTF",
+    description:
+      "Compare ETFs side by side: TER, returns, country and sector differences, and weight-based holdings overlap.",
+    images: ["/og-image.png"],
+  },
+};
+
+export default function CompareLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <>{children}</>;
+}
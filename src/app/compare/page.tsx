@@ -0,0 +1,431 @@
+"use client";
+
+import { Suspense, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import {
+  AlertCircleIcon,
+  ArrowLeftIcon,
+  ColumnsIcon,
+  GlobeIcon,
+  LayersIcon,
+  Loader2Icon,
+  PieChartIcon,
+  XIcon,
+} from "lucide-react";
+import { api, type RouterOutputs } from "~/trpc/react";
+import AutocompleteInput from "~/app/_components/autocomplete";
+import OverlapMatrix from "~/app/_components/overlap-matrix";
+import { type SecurityResult } from "~/types/portfolio";
+import { RETURN_HORIZONS } from "~/lib/returns";
+import { alignExposures, type AlignedBucket } from "~/lib/benchmark";
+
+type EtfData = RouterOutputs["securities"]["getEtfFullComposition"];
+
+/* ─── Constants ─── */
+const MIN_FUNDS = 2;
+const MAX_FUNDS = 4;
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+const ETF_ONLY: Array<SecurityResult["type"]> = ["etf"];
+const BUCKETS_VISIBLE = 12;
+
+/** One colour per fund column (emerald, sky, violet, amber) */
+const FUND_COLORS = ["#34d399", "#38bdf8", "#a78bfa", "#fbbf24"];
+
+/** Unique, valid ISINs from the `isins` query parameter, at most MAX_FUNDS */
+function parseIsins(raw: string | null): string[] {
+  const isins = (raw ?? "")
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter((s) => ISIN_PATTERN.test(s));
+  return [...new Set(isins)].slice(0, MAX_FUNDS);
+}
+
+function formatSignedPct(value: number | null): string {
+  if (value === null) return "—";
+  return `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+}
+
+/* ─── Shared card shell ─── */
+function Card({
+  icon,
+  title,
+  badge,
+  children,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  badge?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        {icon}
+        <h3 className="text-sm font-bold text-white">{title}</h3>
+        {badge}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+/* ─── Column header with the fund's colour dot ─── */
+function FundHeader({ index, label }: { index: number; label: string }) {
+  return (
+    <th className="px-3 py-2 text-right font-medium">
+      <span className="inline-flex max-w-[10rem] items-center gap-1.5">
+        <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: FUND_COLORS[index] }} />
+        <span className="truncate">{label}</span>
+      </span>
+    </th>
+  );
+}
+
+/* ─── Country / sector differences ─── */
+function BucketComparison({
+  icon,
+  title,
+  rows,
+  labels,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  rows: AlignedBucket[];
+  labels: string[];
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? rows : rows.slice(0, BUCKETS_VISIBLE);
+  if (rows.length === 0) return null;
+
+  return (
+    <Card
+      icon={icon}
+      title={title}
+      badge={
+        <span className="ml-auto rounded-full bg-white/5 px-2 py-0.5 text-xs font-medium text-gray-400">
+          Largest differences first
+        </span>
+      }
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[11px] text-gray-500">
+              <th className="px-4 py-2 text-left font-medium">Name</th>
+              {labels.map((label, i) => (
+                <FundHeader key={i} index={i} label={label} />
+              ))}
+              <th className="px-4 py-2 text-right font-medium">Spread</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((row) => {
+              const max = Math.max(...row.weights);
+              return (
+                <tr key={row.name} className="border-t border-white/5">
+                  <td className="max-w-[14rem] truncate px-4 py-1.5 text-gray-300">{row.name}</td>
+                  {row.weights.map((w, i) => (
+                    <td
+                      key={i}
+                      className={`px-3 py-1.5 text-right tabular-nums ${
+                        w === max && row.spread > 0 ? "font-semibold text-white" : "text-gray-400"
+                      }`}
+                    >
+                      {w > 0 ? `${w.toFixed(2)}%` : "—"}
+                    </td>
+                  ))}
+                  <td className="px-4 py-1.5 text-right font-semibold tabular-nums text-amber-400">
+                    {row.spread.toFixed(2)} pp
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > BUCKETS_VISIBLE && (
+        <button
+          type="button"
+          onClick={() => setShowAll((v) => !v)}
+          className="w-full border-t border-white/5 px-4 py-2 text-xs font-medium text-gray-400 transition-colors hover:bg-white/[0.03] hover:text-white"
+        >
+          {showAll ? "Show less" : `Show all ${rows.length}`}
+        </button>
+      )}
+    </Card>
+  );
+}
+
+/* ─── Key figures, one column per fund ─── */
+function KeyFiguresTable({ funds, labels }: { funds: EtfData[]; labels: string[] }) {
+  const ters = funds.map((f) => f.terPct).filter((t): t is number => t !== null);
+  const lowestTer = ters.length > 1 ? Math.min(...ters) : null;
+
+  const textRows: Array<{ label: string; value: (f: EtfData) => string }> = [
+    { label: "Fund size", value: (f) => f.fundSize },
+    { label: "Holdings", value: (f) => f.totalHoldings.replace(/\s*holdings?\s*/i, "").trim() },
+    { label: "Replication", value: (f) => f.replication },
+    { label: "Distribution", value: (f) => f.distributionPolicy },
+    { label: "Payout frequency", value: (f) => f.distributionFrequency },
+    { label: "Dividend yield", value: (f) => f.distributionYield },
+  ];
+
+  return (
+    <Card icon={<ColumnsIcon className="h-4 w-4 text-emerald-400" />} title="Key Figures">
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-[11px] text-gray-500">
+              <th className="px-4 py-2 text-left font-medium" />
+              {labels.map((label, i) => (
+                <FundHeader key={i} index={i} label={label} />
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-white/5">
+              <td className="px-4 py-1.5 text-gray-500">TER</td>
+              {funds.map((f, i) => (
+                <td
+                  key={i}
+                  className={`px-3 py-1.5 text-right font-semibold tabular-nums ${
+                    f.terPct !== null && f.terPct === lowestTer ? "text-emerald-400" : "text-gray-200"
+                  }`}
+                >
+                  {f.terPct !== null ? `${f.terPct.toFixed(2)}%` : "—"}
+                </td>
+              ))}
+            </tr>
+            {textRows.map((row) => (
+              <tr key={row.label} className="border-t border-white/5">
+                <td className="px-4 py-1.5 text-gray-500">{row.label}</td>
+                {funds.map((f, i) => (
+                  <td key={i} className="px-3 py-1.5 text-right tabular-nums text-gray-300">
+                    {row.value(f) || "—"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {RETURN_HORIZONS.map(({ key, label }) => {
+              const values = funds.map((f) => f.returnsPct[key]);
+              if (values.every((v) => v === null)) return null;
+              const known = values.filter((v): v is number => v !== null);
+              const best = known.length > 1 ? Math.max(...known) : null;
+              return (
+                <tr key={key} className="border-t border-white/5">
+                  <td className="px-4 py-1.5 text-gray-500">{label} return</td>
+                  {values.map((v, i) => (
+                    <td
+                      key={i}
+                      className={`px-3 py-1.5 text-right tabular-nums ${
+                        v === null ? "text-gray-600" : v < 0 ? "text-red-400" : "text-emerald-400"
+                      } ${v !== null && v === best ? "font-bold" : ""}`}
+                    >
+                      {formatSignedPct(v)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+        Lowest TER in green; the best return per horizon in bold.
+      </div>
+    </Card>
+  );
+}
+
+/* ─── Pairwise holdings overlap ─── */
+function OverlapSection({ funds, labels }: { funds: EtfData[]; labels: string[] }) {
+  const overlapFunds = useMemo(
+    () => funds.map((f, i) => ({ label: labels[i] ?? f.etfName, color: FUND_COLORS[i], holdings: f.holdings })),
+    [funds, labels],
+  );
+  const partial = funds.some((f) =>
+    f.sources.find((s) => s.providerId === f.provenance.holdings?.providerId)?.holdingsCoverage === "top",
+  );
+
+  return (
+    <Card
+      icon={<LayersIcon className="h-4 w-4 text-amber-400" />}
+      title="Holdings Overlap"
+      badge={
+        <span className="ml-auto rounded-full bg-white/5 px-2 py-0.5 text-xs font-medium text-gray-400">
+          Weight-based
+        </span>
+      }
+    >
+      <OverlapMatrix funds={overlapFunds} />
+      <div className="border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+        Overlap sums the smaller weight of every holding both funds own. Click a cell for the shared holdings.
+        {partial && " Some funds only publish their top holdings, so their overlap is a lower bound."}
+      </div>
+    </Card>
+  );
+}
+
+function CompareSections({ funds }: { funds: EtfData[] }) {
+  const labels = funds.map((f, i) => f.etfName || `ETF ${i + 1}`);
+
+  return (
+    <>
+      <KeyFiguresTable funds={funds} labels={labels} />
+      <BucketComparison
+        icon={<GlobeIcon className="h-4 w-4 text-sky-400" />}
+        title="Countries"
+        rows={alignExposures(funds.map((f) => f.countries))}
+        labels={labels}
+      />
+      <BucketComparison
+        icon={<PieChartIcon className="h-4 w-4 text-violet-400" />}
+        title="Sectors"
+        rows={alignExposures(funds.map((f) => f.sectors))}
+        labels={labels}
+      />
+      <OverlapSection funds={funds} labels={labels} />
+    </>
+  );
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   COMPARE PAGE
+   ═══════════════════════════════════════════════════════════════════════════════ */
+export default function ComparePage() {
+  return (
+    <Suspense>
+      <ComparePageInner />
+    </Suspense>
+  );
+}
+
+function ComparePageInner() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const isins = useMemo(() => parseIsins(searchParams.get("isins")), [searchParams]);
+
+  const setIsins = (next: string[]) => {
+    const query = next.length > 0 ? `?isins=${next.join(",")}` : "";
+    router.replace(`/compare${query}`, { scroll: false });
+  };
+
+  const handleAdd = (security: SecurityResult | null) => {
+    if (!security?.isin || isins.includes(security.isin) || isins.length >= MAX_FUNDS) return;
+    setIsins([...isins, security.isin]);
+  };
+
+  const queries = api.useQueries((t) =>
+    isins.map((isin) =>
+      t.securities.getEtfFullComposition({ isin }, { staleTime: 24 * 60 * 60 * 1000, retry: 1 }),
+    ),
+  );
+
+  const funds = isins.map((isin, i) => ({ isin, query: queries[i]! }));
+  const loaded = funds.filter((f) => f.query.data);
+  const anyLoading = funds.some((f) => f.query.isLoading);
+
+  return (
+    <main className="min-h-screen bg-gray-950 font-sans text-gray-100 overflow-x-hidden">
+      {/* ─── Header ─── */}
+      <section className="border-b border-white/5 bg-gray-900/40">
+        <div className="mx-auto max-w-5xl px-6 py-6">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+            <div className="min-w-0">
+              <div className="mb-2 flex items-center gap-3">
+                <Link href="/" className="text-xl font-bold tracking-tight text-white">
+                  See<span className="text-emerald-400">TF</span>
+                </Link>
+                <div className="h-5 w-px bg-white/10" />
+                <span className="text-sm text-gray-500">Compare ETFs</span>
+              </div>
+              <h1 className="text-lg font-bold text-white sm:text-2xl">
+                Side by side
+              </h1>
+            </div>
+            <button
+              onClick={() => router.push("/portfolio/overview")}
+              className="inline-flex shrink-0 items-center gap-2 rounded-lg border border-white/10 bg-gray-900 px-3 py-1.5 text-sm font-medium text-gray-300 transition hover:bg-white/[0.04] hover:text-emerald-400"
+            >
+              <ArrowLeftIcon className="h-4 w-4" />
+              Back to Portfolio
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <section className="pb-24 pt-8">
+        <div className="mx-auto grid max-w-5xl gap-8 px-6">
+          {/* ─── Fund picker ─── */}
+          <div className="flex flex-wrap items-center gap-2">
+            {funds.map((f, i) => (
+              <span
+                key={f.isin}
+                className="inline-flex max-w-xs items-center gap-2 rounded-full border border-white/10 bg-gray-900 py-1 pl-3 pr-2 text-xs text-gray-200"
+              >
+                <span className="h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: FUND_COLORS[i] }} />
+                <Link href={`/etf/${f.isin}`} className="truncate transition hover:text-emerald-400">
+                  {f.query.data && f.query.data.etfName !== "" ? f.query.data.etfName : f.isin}
+                </Link>
+                {f.query.isLoading && <Loader2Icon className="h-3 w-3 shrink-0 animate-spin text-gray-500" />}
+                <button
+                  type="button"
+                  onClick={() => setIsins(isins.filter((x) => x !== f.isin))}
+                  aria-label={`Remove ${f.isin}`}
+                  className="text-gray-500 transition-colors hover:text-red-400"
+                >
+                  <XIcon className="h-3.5 w-3.5" />
+                </button>
+              </span>
+            ))}
+            {isins.length < MAX_FUNDS && (
+              <AutocompleteInput
+                securities={[]}
+                selected={null}
+                onSelect={handleAdd}
+                types={ETF_ONLY}
+                placeholder="Add an ETF…"
+                ariaLabel="Add ETF to compare"
+                className="w-full sm:w-72"
+              />
+            )}
+          </div>
+
+          {funds
+            .filter((f) => f.query.isError)
+            .map((f) => (
+              <div
+                key={f.isin}
+                className="flex items-center gap-3 rounded-2xl border border-red-500/20 bg-red-500/5 px-5 py-3"
+              >
+                <AlertCircleIcon className="h-4 w-4 shrink-0 text-red-400" />
+                <p className="text-sm text-red-300">
+                  Could not load <span className="font-mono">{f.isin}</span>: {f.query.error?.message}
+                </p>
+              </div>
+            ))}
+
+          {loaded.length < MIN_FUNDS ? (
+            <div className="flex flex-col items-center gap-3 rounded-2xl border border-white/5 bg-gray-900/60 px-6 py-12 text-center">
+              {anyLoading ? (
+                <Loader2Icon className="h-6 w-6 animate-spin text-emerald-500" />
+              ) : (
+                <ColumnsIcon className="h-6 w-6 text-gray-500" />
+              )}
+              <p className="text-sm text-gray-400">
+                {anyLoading
+                  ? "Loading ETF data…"
+                  : `Pick ${MIN_FUNDS} to ${MAX_FUNDS} ETFs to compare their figures, exposures and overlap.`}
+              </p>
+            </div>
+          ) : (
+            <CompareSections
+              funds={loaded.map((f) => f.query.data!)}
+            />
+          )}
+        </div>
+      </section>
+    </main>
+  );
+}
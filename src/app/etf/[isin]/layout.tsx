@@ -13,7 +13,7 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
     const title = `${name} (${isin})`;
 
     const parts = [`Detailed composition breakdown of ${name} (${isin}).`];
-    if (data.ter) parts.push(`TER: ${data.ter}.`);
+    if (data.terPct !== null) parts.push(`TER: ${data.terPct.toFixed(2)}% p.a.`);
     if (data.totalHoldings) parts.push(`${data.totalHoldings}.`);
     parts.push("View holdings, countries, sectors, and returns on SeeTF.");
     const description = parts.join(" ");
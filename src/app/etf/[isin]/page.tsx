@@ -16,6 +16,7 @@ import {
   TrendingDownIcon,
   CopyIcon,
   CheckIcon,
+  ColumnsIcon,
 } from "lucide-react";
 import {
   PieChart,
@@ -25,6 +26,8 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { api } from "~/trpc/react";
+import PerformanceChart from "~/app/_components/performance-chart";
+import { type BacktestRange } from "~/lib/backtest";
 
 /* ─── Color palettes for pie charts ─── */
 const PIE_PALETTES = {
@@ -284,27 +287,25 @@ function HoldingsGridSection({
 function StatCard({
   label,
   value,
-  isReturn = false,
+  change,
 }: {
   label: string;
   value: string;
-  isReturn?: boolean;
+  /** Signed numeric value; when given, colours the card as a gain or loss */
+  change?: number | null;
 }) {
   if (!value) return null;
 
   let valueColor = "text-white";
   let Icon: typeof TrendingUpIcon | null = null;
 
-  if (isReturn && value) {
-    const numeric = parseFloat(value.replace(",", ".").replace("%", "").trim());
-    if (!isNaN(numeric)) {
-      if (numeric > 0) {
-        valueColor = "text-emerald-400";
-        Icon = TrendingUpIcon;
-      } else if (numeric < 0) {
-        valueColor = "text-red-400";
-        Icon = TrendingDownIcon;
-      }
+  if (change != null) {
+    if (change > 0) {
+      valueColor = "text-emerald-400";
+      Icon = TrendingUpIcon;
+    } else if (change < 0) {
+      valueColor = "text-red-400";
+      Icon = TrendingDownIcon;
     }
   }
 
@@ -376,6 +377,11 @@ function KeyFigures({
       fiveYears: string;
       max: string;
     };
+    returnsPct: {
+      oneYear: number | null;
+      threeYears: number | null;
+      fiveYears: number | null;
+    };
   };
   isin: string;
 }) {
@@ -385,9 +391,9 @@ function KeyFigures({
 
   return (
     <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-4">
-      <StatCard label="1Y Return" value={data.returns.oneYear} isReturn />
-      <StatCard label="3Y Return" value={data.returns.threeYears} isReturn />
-      <StatCard label="5Y Return" value={data.returns.fiveYears} isReturn />
+      <StatCard label="1Y Return" value={data.returns.oneYear} change={data.returnsPct.oneYear} />
+      <StatCard label="3Y Return" value={data.returns.threeYears} change={data.returnsPct.threeYears} />
+      <StatCard label="5Y Return" value={data.returns.fiveYears} change={data.returnsPct.fiveYears} />
       <StatCard label="Fund Size" value={data.fundSize} />
       <StatCard
         label="Holdings"
@@ -404,16 +410,59 @@ function KeyFigures({
   );
 }
 
+/* ─── Price performance chart ─── */
+function EtfPerformanceChart({ isin }: { isin: string }) {
+  const [range, setRange] = useState<BacktestRange>("1y");
+  const { data, isLoading, error } = api.securities.getPriceHistory.useQuery(
+    { ticker: "", isin, type: "etf", range },
+    { staleTime: 12 * 60 * 60 * 1000, retry: 1 },
+  );
+
+  const first = data?.points[0]?.close;
+  const last = data?.points[data.points.length - 1]?.close;
+  const change = first && last ? (last / first - 1) * 100 : null;
+
+  return (
+    <PerformanceChart
+      title="Performance"
+      range={range}
+      onRangeChange={setRange}
+      isLoading={isLoading}
+      error={error?.message}
+      series={[
+        {
+          key: "close",
+          label: data?.symbol ?? isin,
+          color: "#34d399", // emerald-400
+          points: data?.points.map((p) => ({ t: p.t, value: p.close })) ?? [],
+        },
+      ]}
+      headline={
+        change !== null && (
+          <span
+            className={`rounded-full px-2.5 py-0.5 text-xs font-semibold tabular-nums ${
+              change >= 0 ? "bg-emerald-500/10 text-emerald-400" : "bg-red-500/10 text-red-400"
+            }`}
+          >
+            {change > 0 ? "+" : ""}
+            {change.toFixed(2)}%
+          </span>
+        )
+      }
+      footer={data && `Adjusted daily closes of ${data.symbol} in ${data.currency}`}
+    />
+  );
+}
+
 /* ─── Header action buttons with dots menu ─── */
 function HeaderActions({
   isin,
-  cbondsId,
-  investEngineUrl,
+  sources,
   router,
 }: {
   isin: string;
-  cbondsId?: string | null;
-  investEngineUrl?: string | null;
+  /** Additional providers that returned data (JustETF is always linked) */
+  sources: Array<{ providerId: string; label: string; url: string }>;
   router: ReturnType<typeof useRouter>;
 }) {
   const [open, setOpen] = useState(false);
@@ -454,6 +503,14 @@ function HeaderActions({
 
           {open && (
             <div className="absolute right-0 top-full z-50 mt-1.5 w-48 overflow-hidden rounded-lg border border-white/10 bg-gray-900 shadow-xl shadow-black/40">
+              <Link
+                href={`/compare?isins=${encodeURIComponent(isin)}`}
+                onClick={() => setOpen(false)}
+                className="flex items-center gap-2.5 border-b border-white/5 px-3.5 py-2.5 text-sm text-gray-300 transition hover:bg-white/[0.06] hover:text-amber-400"
+              >
+                <ColumnsIcon className="h-4 w-4 shrink-0" />
+                Compare with…
+              </Link>
               <a
                 href={`https://www.justetf.com/en/etf-profile.html?isin=${encodeURIComponent(isin)}`}
                 target="_blank"
@@ -464,30 +521,21 @@ function HeaderActions({
                 <ExternalLinkIcon className="h-4 w-4 shrink-0" />
                 JustETF
               </a>
-              {cbondsId && (
-                <a
-                  href={`https://cbonds.com/etf/${cbondsId}/`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  onClick={() => setOpen(false)}
-                  className="flex items-center gap-2.5 border-t border-white/5 px-3.5 py-2.5 text-sm text-gray-300 transition hover:bg-white/[0.06] hover:text-emerald-400"
-                >
-                  <ExternalLinkIcon className="h-4 w-4 shrink-0" />
-                  cbonds
-                </a>
-              )}
-              {investEngineUrl && (
-                <a
-                  href={investEngineUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  onClick={() => setOpen(false)}
-                  className="flex items-center gap-2.5 border-t border-white/5 px-3.5 py-2.5 text-sm text-gray-300 transition hover:bg-white/[0.06] hover:text-emerald-400"
-                >
-                  <ExternalLinkIcon className="h-4 w-4 shrink-0" />
-                  InvestEngine
-                </a>
-              )}
+              {sources
+                .filter((src) => src.providerId !== "justetf" && src.url)
+                .map((src) => (
+                  <a
+                    key={src.providerId}
+                    href={src.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => setOpen(false)}
+                    className="flex items-center gap-2.5 border-t border-white/5 px-3.5 py-2.5 text-sm text-gray-300 transition hover:bg-white/[0.06] hover:text-emerald-400"
+                  >
+                    <ExternalLinkIcon className="h-4 w-4 shrink-0" />
+                    {src.label}
+                  </a>
+                ))}
             </div>
           )}
         </div>
@@ -574,28 +622,20 @@ export default function EtfDetailPage() {
 
   const displayName = data.etfName ?? `ETF ${isin}`;
   const hasAnyData =
-    data.holdings.length > 0 || data.investEngineHoldings.length > 0 || data.cbondsHoldings.length > 0 || data.countries.length > 0 || data.sectors.length > 0;
-
-  // Prefer InvestEngine (all holdings) > cbonds (~100) > JustETF (top 10)
-  const holdingsSource =
-    data.investEngineHoldings.length > 0 ? "investengine" :
-    data.cbondsHoldings.length > 0 ? "cbonds" : "justetf";
-  const holdingsItems =
-    data.investEngineHoldings.length > 0 ? data.investEngineHoldings :
-    data.cbondsHoldings.length > 0 ? data.cbondsHoldings : data.holdings;
+    data.holdings.length > 0 || data.countries.length > 0 || data.sectors.length > 0;
+
+  // The server picked the most complete holdings list; show where it came from
+  const holdingsProviderId = data.provenance.holdings?.providerId;
+  const holdingsItems = data.holdings;
   const holdingsTitle =
-    holdingsSource === "justetf"
+    data.sources.find((s) => s.providerId === holdingsProviderId)?.holdingsCoverage === "top"
       ? "Top Holdings"
       : "Holdings";
 
-  // Build dynamic source tags: which sources have data
-  const holdingsSources: { label: string; active: boolean }[] = [];
-  if (data.investEngineHoldings.length > 0)
-    holdingsSources.push({ label: "InvestEngine", active: holdingsSource === "investengine" });
-  if (data.cbondsHoldings.length > 0)
-    holdingsSources.push({ label: "cbonds", active: holdingsSource === "cbonds" });
-  if (data.holdings.length > 0)
-    holdingsSources.push({ label: "JustETF", active: holdingsSource === "justetf" });
+  // Source tags: every provider that returned holdings, the one in use highlighted
+  const holdingsSources = data.sources
+    .filter((s) => s.fields.includes("holdings"))
+    .map((s) => ({ label: s.label, active: s.providerId === holdingsProviderId }));
 
   return (
     <main className="min-h-screen bg-gray-950 font-sans text-gray-100 overflow-x-hidden">
@@ -615,7 +655,7 @@ export default function EtfDetailPage() {
                 {displayName}
               </h1>
             </div>
-            <HeaderActions isin={isin} cbondsId={data.cbondsId} investEngineUrl={data.investEngineUrl} router={router} />
+            <HeaderActions isin={isin} sources={data.sources} router={router} />
           </div>
         </div>
       </section>
@@ -628,6 +668,11 @@ export default function EtfDetailPage() {
             <KeyFigures data={data} isin={isin} />
           </div>
 
+          {/* Price performance */}
+          <div className="mb-8">
+            <EtfPerformanceChart isin={isin} />
+          </div>
+
           {!hasAnyData && !data.hasHoldingsSection && (
             <div className="flex items-center gap-3 rounded-2xl border border-sky-500/20 bg-sky-500/5 px-5 py-4">
               <AlertCircleIcon className="h-5 w-5 shrink-0 text-sky-400" />
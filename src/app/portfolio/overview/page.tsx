@@ -6,17 +6,70 @@ import {
   ArrowLeftIcon,
   ArrowUpDownIcon,
   AlertCircleIcon,
+  CheckIcon,
   ChevronUpIcon,
   ChevronDownIcon,
   ChevronRightIcon,
   InfoIcon,
   Loader2Icon,
   PercentIcon,
+  RefreshCwIcon,
+  SaveIcon,
+  Share2Icon,
+  TrendingDownIcon,
+  TrendingUpIcon,
 } from "lucide-react";
 import Link from "next/link";
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
-import { type PortfolioData, type Position, CURRENCY_SYMBOLS } from "~/types/portfolio";
-import { loadPortfolio } from "~/lib/storage";
+import {
+  type CostBasisMethod,
+  type DriftSettings,
+  type ExposureDimension,
+  type ExposureRule,
+  type InputMode,
+  type PortfolioData,
+  type Position,
+  type SecurityResult,
+  type Transaction,
+  CURRENCY_SYMBOLS,
+  securityIdentifier,
+} from "~/types/portfolio";
+import { createPortfolio, loadPortfolio, savePortfolio } from "~/lib/storage";
+import { buildShareUrl, decodeSharedPortfolio, readShareHash } from "~/lib/share";
+import {
+  computeWeightedReturns,
+  type HorizonReturn,
+  type ReturnHorizon,
+  type ReturnsByHorizon,
+} from "~/lib/returns";
+import PortfolioSwitcher from "~/app/_components/portfolio-switcher";
+import PerformanceChart from "~/app/_components/performance-chart";
+import AutocompleteInput from "~/app/_components/autocomplete";
+import OverlapMatrix from "~/app/_components/overlap-matrix";
+import RebalancePanel from "~/app/_components/rebalance-panel";
+import DriftAlertsPanel, { DriftBadge } from "~/app/_components/drift-alerts-panel";
+import ExposureRulesReport from "~/app/_components/exposure-rules-report";
+import DistributionIncomePanel from "~/app/_components/distribution-income-panel";
+import CostBasisPanel from "~/app/_components/cost-basis-panel";
+import { formatPp, formatSignedPct } from "~/app/_components/panel-utils";
+import { computeBacktest, convertSeries, type BacktestRange } from "~/lib/backtest";
+import { projectIncome } from "~/lib/income";
+import { DEFAULT_DRIFT_SETTINGS, checkDrift, type DriftAlert } from "~/lib/drift";
+import { type ExposureSource } from "~/lib/exposure-rules";
+import {
+  compareExposures,
+  figureDelta,
+  type ExposureDiff,
+  type ExposureItem,
+} from "~/lib/benchmark";
+import {
+  createHoldingResolver,
+  listedWeight,
+  pickDisplayName,
+  strongerMatch,
+  type HoldingMatch,
+  type HoldingRef,
+} from "~/lib/holdings";
 import { api } from "~/trpc/react";
 
 /* ═══════════════════════════════════════════════════════════════════════════════
@@ -29,67 +82,36 @@ function isEtfType(type: string | undefined | null): boolean {
   return t === "etf" || t === "etp";
 }
 
-/**
- * Normalize a holding name for deduplication.
- * Converts to uppercase, strips dots, class/share designations,
- * trailing suffixes like Inc, Corp, Ltd, etc., removes punctuation,
- * and collapses whitespace so that
- * "Apple Inc" / "APPLE INC" / "Apple Inc." all map to "APPLE",
- * "Amazon.com Inc" / "AMAZON COM INC" both map to "AMAZON COM",
- * "Alphabet Inc Class A" / "ALPHABET INC" both map to "ALPHABET".
- */
-function normalizeHoldingName(name: string): string {
-  let n = name.trim().toUpperCase();
-
-  // Replace dots with spaces ("AMAZON.COM" → "AMAZON COM", "N.V." → "N V")
-  n = n.replace(/\./g, " ");
-
-  // Strip share-class designations: "CLASS A", "CL A", "SERIES A", "SER A", etc.
-  n = n.replace(/\s+(CLASS|CL|SERIES|SER)[\s-]+[A-Z]\b/g, "");
-
-  // Strip common corporate suffixes (order matters: longer first)
-  const suffixes = [
-    "INCORPORATED",
-    "CORPORATION",
-    "LIMITED",
-    "COMPANY",
-    "HOLDINGS",
-    "GROUP",
-    "INC",
-    "CORP",
-    "LTD",
-    "CO",
-    "PLC",
-    "AG",
-    "SA",
-    "SE",
-    "NV",
-    "N V",
-  ];
-  const suffixPattern = new RegExp(
-    `\\s+(${suffixes.join("|")})\\s*$`,
+const MATCH_LABELS: Record<HoldingMatch, string> = {
+  isin: "ISIN",
+  ticker: "Ticker",
+  name: "Name",
+};
+
+const MATCH_BADGE_STYLES: Record<HoldingMatch, string> = {
+  isin: "bg-emerald-500/10 text-emerald-400",
+  ticker: "bg-sky-500/10 text-sky-400",
+  name: "bg-white/5 text-gray-400",
+};
+
+/** Small tag showing how entries from several sources were merged into one holding */
+function MatchBadge({ matchedBy }: { matchedBy: HoldingMatch | null }) {
+  if (!matchedBy) return null;
+  return (
+    <span
+      className={`shrink-0 rounded px-1 py-px text-[9px] font-semibold uppercase tracking-wide ${MATCH_BADGE_STYLES[matchedBy]}`}
+      title={`Matched by ${MATCH_LABELS[matchedBy].toLowerCase()} across ETFs and direct positions`}
+    >
+      {MATCH_LABELS[matchedBy]}
+    </span>
   );
-  // Apply suffix removal up to 2 times to handle e.g. "Holdings Inc"
-  for (let i = 0; i < 2; i++) {
-    n = n.replace(suffixPattern, "");
-  }
-  // Remove trailing commas, dots, dashes
-  n = n.replace(/[,.\-]+$/, "");
-  // Collapse multiple spaces
-  n = n.replace(/\s+/g, " ").trim();
-  return n;
 }
 
-/**
- * Pick the better display name between two variants.
- * Prefers title-case (mixed case) over ALL-CAPS.
- */
-function pickDisplayName(existing: string, incoming: string): string {
-  const isAllUpper = (s: string) => s === s.toUpperCase();
-  // If existing is all-caps and incoming is not, prefer incoming
-  if (isAllUpper(existing) && !isAllUpper(incoming)) return incoming;
-  // Otherwise keep existing (first-seen or already nice)
-  return existing;
+/** Badge colours for holdings coverage: full lists green, partial blue, top-10 amber */
+function coverageColor(pct: number): string {
+  if (pct >= 90) return "bg-emerald-500/10 text-emerald-400";
+  if (pct >= 50) return "bg-sky-500/10 text-sky-400";
+  return "bg-amber-500/10 text-amber-400";
 }
 
 /** Limit a list to `max` visible items, grouping the remainder under "Other" (so at most max + 1 entries). */
@@ -195,7 +217,7 @@ function PortfolioPieTooltipContent({
   );
 }
 
-/** Hook: fetch FULL composition for one ETF isin (includes cbondsHoldings). Returns { data, isLoading } */
+/** Hook: fetch FULL composition for one ETF isin (most complete holdings list). Returns { data, isLoading } */
 function useEtfFullComposition(isin: string | null) {
   return api.securities.getEtfFullComposition.useQuery(
     { isin: isin ?? "__placeholder__" },
@@ -210,8 +232,17 @@ function useEtfFullComposition(isin: string | null) {
 type CompositionData = {
   countries: Array<{ name: string; weight: number }>;
   sectors: Array<{ name: string; weight: number }>;
-  holdings: Array<{ name: string; weight: number }>;
-  ter?: string;
+  holdings: Array<HoldingRef & { weight: number }>;
+  /** TER in percent per year; `null` when the provider doesn't report it */
+  terPct: number | null;
+  /** Trailing cumulative returns in percent, per horizon */
+  returnsPct: ReturnsByHorizon;
+  /** Provider the holdings list came from; `null` without holdings */
+  holdingsSource: { label: string; coverage: "full" | "partial" | "top" | null } | null;
+  /** Distribution policy, trailing yield in percent and payout frequency as reported */
+  distributionPolicy: string;
+  distributionYieldPct: number | null;
+  distributionFrequency: string;
 };
 
 function EtfDataFetcher({
@@ -231,11 +262,21 @@ function EtfDataFetcher({
 
   useEffect(() => {
     if (data) {
-      // Prefer investEngineHoldings (all) > cbondsHoldings (~100) > JustETF top 10
-      const holdings =
-        data.investEngineHoldings?.length > 0 ? data.investEngineHoldings :
-        data.cbondsHoldings?.length > 0 ? data.cbondsHoldings : data.holdings;
-      onData(isin, { countries: data.countries, sectors: data.sectors, holdings, ter: data.ter });
+      // The server already picked the most complete holdings list across providers
+      onData(isin, {
+        countries: data.countries,
+        sectors: data.sectors,
+        holdings: data.holdings,
+        terPct: data.terPct,
+        returnsPct: data.returnsPct,
+        holdingsSource: (() => {
+          const source = data.sources.find((s) => s.providerId === data.provenance.holdings?.providerId);
+          return source ? { label: source.label, coverage: source.holdingsCoverage ?? null } : null;
+        })(),
+        distributionPolicy: data.distributionPolicy,
+        distributionYieldPct: data.distributionYieldPct,
+        distributionFrequency: data.distributionFrequency,
+      });
     } else if (!isLoading) {
       onData(isin, null);
     }
@@ -244,14 +285,59 @@ function EtfDataFetcher({
   return null;
 }
 
+/**
+ * Fraction of the portfolio held in each position, keyed by ISIN (or
+ * `__ticker_<ticker>` for positions without one)
+ */
+function computePositionWeights(
+  positions: Position[],
+  inputMode: InputMode,
+  convertedValues: Record<number, number>,
+): Record<string, number> {
+  const weights: Record<string, number> = {};
+  if (inputMode !== "percentage") {
+    const totalValue = positions.reduce((sum, p) => sum + (convertedValues[p.id] ?? 0), 0);
+    if (totalValue > 0) {
+      for (const p of positions) {
+        const key = p.isin || `__ticker_${p.ticker}`;
+        weights[key] = (convertedValues[p.id] ?? 0) / totalValue;
+      }
+    }
+  } else {
+    // percentage mode: value is already a percentage
+    const totalPct = positions.reduce((sum, p) => sum + (parseFloat(p.value) || 0), 0);
+    for (const p of positions) {
+      const key = p.isin || `__ticker_${p.ticker}`;
+      const pct = parseFloat(p.value) || 0;
+      weights[key] = totalPct > 0 ? pct / totalPct : 0;
+    }
+  }
+  return weights;
+}
+
 function PortfolioDistribution({
   positions,
   inputMode,
-  totalPortfolioValue: _totalPortfolioValue,
+  totalPortfolioValue,
+  convertedValues,
+  currency,
+  onExposures,
+  rules,
+  onRulesChange,
+  readOnly,
 }: {
   positions: Position[];
-  inputMode: "amount" | "percentage";
+  inputMode: InputMode;
   totalPortfolioValue: number | null;
+  /** Amount / market values by position id, converted into the portfolio currency */
+  convertedValues: Record<number, number>;
+  /** Portfolio currency, for income amounts */
+  currency: string;
+  /** Receives the aggregated country / sector exposures once every ETF has loaded */
+  onExposures: (exposures: Record<ExposureDimension, ExposureItem[]> | null) => void;
+  rules: ExposureRule[];
+  onRulesChange: (rules: ExposureRule[]) => void;
+  readOnly: boolean;
 }) {
   // Only ETF positions with ISIN
   const etfPositions = useMemo(
@@ -288,36 +374,19 @@ function PortfolioDistribution({
   );
 
   // Compute position weights (fraction of total portfolio, for ALL positions)
-  const positionWeights = useMemo(() => {
-    const weights: Record<string, number> = {};
-    if (inputMode === "amount") {
-      const totalValue = positions.reduce((sum, p) => sum + (parseFloat(p.value) || 0), 0);
-      if (totalValue > 0) {
-        for (const p of positions) {
-          const key = p.isin || `__ticker_${p.ticker}`;
-          weights[key] = (parseFloat(p.value) || 0) / totalValue;
-        }
-      }
-    } else {
-      // percentage mode: value is already a percentage
-      const totalPct = positions.reduce((sum, p) => sum + (parseFloat(p.value) || 0), 0);
-      for (const p of positions) {
-        const key = p.isin || `__ticker_${p.ticker}`;
-        const pct = parseFloat(p.value) || 0;
-        weights[key] = totalPct > 0 ? pct / totalPct : 0;
-      }
-    }
-    return weights;
-  }, [positions, inputMode]);
+  const positionWeights = useMemo(
+    () => computePositionWeights(positions, inputMode, convertedValues),
+    [positions, inputMode, convertedValues],
+  );
 
   // Compute ETF-only position weights (for country/sector aggregation, excluding stocks)
   const etfPositionWeights = useMemo(() => {
     const weights: Record<string, number> = {};
-    if (inputMode === "amount") {
-      const totalValue = etfPositions.reduce((sum, p) => sum + (parseFloat(p.value) || 0), 0);
+    if (inputMode !== "percentage") {
+      const totalValue = etfPositions.reduce((sum, p) => sum + (convertedValues[p.id] ?? 0), 0);
       if (totalValue > 0) {
         for (const p of etfPositions) {
-          weights[p.isin] = (parseFloat(p.value) || 0) / totalValue;
+          weights[p.isin] = (convertedValues[p.id] ?? 0) / totalValue;
         }
       }
     } else {
@@ -328,7 +397,7 @@ function PortfolioDistribution({
       }
     }
     return weights;
-  }, [etfPositions, inputMode]);
+  }, [etfPositions, inputMode, convertedValues]);
 
   // Check loading state
   const anyLoading = etfPositions.some((p) => loadingMap[p.isin] !== false);
@@ -357,18 +426,50 @@ function PortfolioDistribution({
 
 
   // Aggregate weighted data
-  const { aggregatedCountries, aggregatedSectors, aggregatedHoldings } = useMemo(() => {
+  const {
+    aggregatedCountries,
+    aggregatedSectors,
+    aggregatedHoldings,
+    countryExposure,
+    sectorExposure,
+  } = useMemo(() => {
     const countryMap: Record<string, number> = {};
     const sectorMap: Record<string, number> = {};
-    // Holdings use normalized keys to merge duplicates like "APPLE INC" / "Apple Inc"
+    // Holdings are merged by ISIN, then ticker, then normalized name
+    const resolveHolding = createHoldingResolver();
     const holdingsWeightMap: Record<string, number> = {};
     const holdingsDisplayMap: Record<string, string> = {};
+    const holdingsMatchMap: Record<string, HoldingMatch | null> = {};
+    const holdingsRefMap: Record<string, { isin?: string; ticker?: string }> = {};
+    // Contributions by source (ETF label, or "Direct" for stocks) for the rules report
+    const countrySourceMap: Record<string, Record<string, number>> = {};
+    const sectorSourceMap: Record<string, Record<string, number>> = {};
+    const holdingsSourceMap: Record<string, Record<string, number>> = {};
+    const addSource = (
+      map: Record<string, Record<string, number>>,
+      key: string,
+      source: string,
+      weight: number,
+    ) => {
+      const sources = (map[key] ??= {});
+      sources[source] = (sources[source] ?? 0) + weight;
+    };
 
-    /** Add a holding entry, merging by normalized name */
-    const addHolding = (rawName: string, weightContribution: number) => {
-      const displayName = rawName === "Others" ? "Other" : rawName;
-      const key = displayName === "Other" ? "Other" : normalizeHoldingName(displayName);
+    /** Add a holding entry, merging it with earlier entries for the same security */
+    const addHolding = (ref: HoldingRef, weightContribution: number, source: string) => {
+      const displayName = ref.name === "Others" ? "Other" : ref.name;
+      let key = "Other";
+      if (displayName !== "Other") {
+        const { group, matchedBy } = resolveHolding({ ...ref, name: displayName });
+        key = group;
+        holdingsMatchMap[key] = strongerMatch(holdingsMatchMap[key] ?? null, matchedBy);
+        const ids = holdingsRefMap[key] ?? {};
+        ids.isin ??= ref.isin;
+        ids.ticker ??= ref.ticker;
+        holdingsRefMap[key] = ids;
+      }
       holdingsWeightMap[key] = (holdingsWeightMap[key] ?? 0) + weightContribution;
+      addSource(holdingsSourceMap, key, source, weightContribution);
       if (holdingsDisplayMap[key]) {
         holdingsDisplayMap[key] = pickDisplayName(holdingsDisplayMap[key] ?? "", displayName);
       } else {
@@ -379,6 +480,7 @@ function PortfolioDistribution({
     for (const pos of etfPositions) {
       const comp = compositionMap[pos.isin];
       if (!comp) continue;
+      const etfLabel = pos.name || pos.ticker || pos.isin;
 
       // Countries & sectors use ETF-only weights (exclude stocks from allocation)
       const etfWeight = etfPositionWeights[pos.isin] ?? 0;
@@ -386,10 +488,12 @@ function PortfolioDistribution({
         for (const c of comp.countries) {
           const cName = c.name === "Others" ? "Other" : c.name;
           countryMap[cName] = (countryMap[cName] ?? 0) + (c.weight * etfWeight) / 100;
+          addSource(countrySourceMap, cName, etfLabel, (c.weight * etfWeight) / 100);
         }
         for (const s of comp.sectors) {
           const sName = s.name === "Others" ? "Other" : s.name;
           sectorMap[sName] = (sectorMap[sName] ?? 0) + (s.weight * etfWeight) / 100;
+          addSource(sectorSourceMap, sName, etfLabel, (s.weight * etfWeight) / 100);
         }
       }
 
@@ -397,7 +501,7 @@ function PortfolioDistribution({
       const weight = positionWeights[pos.isin] ?? 0;
       if (weight > 0) {
         for (const h of comp.holdings) {
-          addHolding(h.name, (h.weight * weight) / 100);
+          addHolding(h, (h.weight * weight) / 100, etfLabel);
         }
       }
     }
@@ -410,7 +514,7 @@ function PortfolioDistribution({
       const key = pos.isin || `__ticker_${pos.ticker}`;
       const weight = positionWeights[key] ?? 0;
       if (weight === 0) continue;
-      addHolding(name, weight);
+      addHolding({ name, isin: pos.isin, ticker: pos.ticker }, weight, "Direct");
     }
 
     // Convert to sorted arrays, multiply by 100 to get back to percentage, group < 2% into Other
@@ -434,22 +538,38 @@ function PortfolioDistribution({
       return main;
     };
 
+    /** Source contributions in percent, largest first */
+    const toSources = (sources: Record<string, number> | undefined): ExposureSource[] =>
+      Object.entries(sources ?? {})
+        .map(([label, w]) => ({ label, weight: w * 100 }))
+        .sort((a, b) => b.weight - a.weight);
+
     // For holdings, don't group into Other at aggregation level — keep all for show more/less
     // Use display names from holdingsDisplayMap instead of normalized keys
     const holdingsEntries = Object.entries(holdingsWeightMap)
-      .map(([key, w]) => ({ name: holdingsDisplayMap[key] ?? key, weight: w * 100 }))
+      .map(([key, w]) => ({
+        name: holdingsDisplayMap[key] ?? key,
+        weight: w * 100,
+        matchedBy: holdingsMatchMap[key] ?? null,
+        ...holdingsRefMap[key],
+        sources: toSources(holdingsSourceMap[key]),
+      }))
       .sort((a, b) => b.weight - a.weight);
 
     return {
       aggregatedCountries: limitWithOthers(toSortedList(countryMap)),
       aggregatedSectors: limitWithOthers(toSortedList(sectorMap)),
       aggregatedHoldings: holdingsEntries,
+      // Ungrouped exposures for comparisons (nothing folded into "Other")
+      countryExposure: toSortedList(countryMap, 0).map((e) => ({ ...e, sources: toSources(countrySourceMap[e.name]) })),
+      sectorExposure: toSortedList(sectorMap, 0).map((e) => ({ ...e, sources: toSources(sectorSourceMap[e.name]) })),
     };
   }, [etfPositions, positions, compositionMap, positionWeights, etfPositionWeights]);
 
   // Compute ETF overlap — holdings appearing in 2+ ETFs
   const overlapData = useMemo(() => {
-    const holdingEtfMap: Record<string, { displayName: string; etfWeights: Array<{ label: string; weight: number }>; totalWeight: number }> = {};
+    const holdingEtfMap: Record<string, { displayName: string; matchedBy: HoldingMatch | null; etfWeights: Array<{ label: string; weight: number }>; totalWeight: number }> = {};
+    const resolveHolding = createHoldingResolver();
 
     for (const pos of etfPositions) {
       const comp = compositionMap[pos.isin];
@@ -459,12 +579,13 @@ function PortfolioDistribution({
       for (const h of comp.holdings) {
         const displayName = h.name === "Others" ? "Other" : h.name;
         if (displayName === "Other") continue;
-        const key = normalizeHoldingName(displayName);
+        const { group: key, matchedBy } = resolveHolding({ ...h, name: displayName });
 
-        holdingEtfMap[key] ??= { displayName, etfWeights: [], totalWeight: 0 };
+        holdingEtfMap[key] ??= { displayName, matchedBy: null, etfWeights: [], totalWeight: 0 };
         const entry = holdingEtfMap[key];
         if (!entry) continue;
         entry.displayName = pickDisplayName(entry.displayName, displayName);
+        entry.matchedBy = strongerMatch(entry.matchedBy, matchedBy);
         const existing = entry.etfWeights.find(e => e.label === etfLabel);
         if (!existing) {
           entry.etfWeights.push({ label: etfLabel, weight: h.weight });
@@ -485,11 +606,104 @@ function PortfolioDistribution({
       .sort((a, b) => b.overlapPct - a.overlapPct || b.totalWeight - a.totalWeight);
   }, [etfPositions, compositionMap]);
 
+  // Weight-based pairwise overlap uses the same (most complete) holdings lists
+  const overlapFunds = useMemo(
+    () =>
+      etfPositions.flatMap((pos) => {
+        const comp = compositionMap[pos.isin];
+        return comp ? [{ label: pos.ticker || pos.name || pos.isin, holdings: comp.holdings }] : [];
+      }),
+    [etfPositions, compositionMap],
+  );
+
+  // How much of each ETF (and of the portfolio) the look-through holdings explain
+  const holdingsCoverage = useMemo(() => {
+    const etfs = etfPositions.flatMap((pos) => {
+      const comp = compositionMap[pos.isin];
+      if (!comp) return [];
+      return [{
+        isin: pos.isin,
+        label: pos.ticker || pos.name || pos.isin,
+        weight: positionWeights[pos.isin] ?? 0,
+        listedPct: listedWeight(comp.holdings),
+        source: comp.holdingsSource,
+      }];
+    });
+    // Direct stock positions are fully explained
+    const stockWeight = positions
+      .filter((p) => !isEtfType(p.security?.type))
+      .reduce((sum, p) => sum + (positionWeights[p.isin || `__ticker_${p.ticker}`] ?? 0), 0);
+    const portfolioPct = etfs.reduce((sum, e) => sum + e.weight * e.listedPct, 0) + stockWeight * 100;
+    return { etfs, portfolioPct, topOnly: etfs.filter((e) => e.source?.coverage === "top" || e.listedPct < 50) };
+  }, [etfPositions, positions, compositionMap, positionWeights]);
+
   const totalEtfCountWithData = useMemo(
     () => etfPositions.filter((p) => compositionMap[p.isin]).length,
     [etfPositions, compositionMap],
   );
 
+  // Weighted TER over the whole portfolio (stocks and ETFs without a TER count as 0%)
+  const weightedTer = useMemo(
+    () =>
+      positions.reduce((sum, p) => {
+        if (!isEtfType(p.security?.type) || !p.isin) return sum;
+        return sum + (positionWeights[p.isin] ?? 0) * (compositionMap[p.isin]?.terPct ?? 0);
+      }, 0),
+    [positions, positionWeights, compositionMap],
+  );
+
+  // Position-weighted trailing returns; stocks have no scraped returns and show as missing
+  const weightedReturns = useMemo(
+    () =>
+      computeWeightedReturns(
+        positions.map((p) => {
+          const key = p.isin || `__ticker_${p.ticker}`;
+          const comp = p.isin && isEtfType(p.security?.type) ? compositionMap[p.isin] : null;
+          return {
+            key,
+            name: p.name || p.ticker || "Unknown",
+            ticker: p.ticker !== "" ? p.ticker : undefined,
+            weight: positionWeights[key] ?? 0,
+            returns: comp?.returnsPct ?? null,
+          };
+        }),
+      ),
+    [positions, positionWeights, compositionMap],
+  );
+
+  // Projected payouts of distributing ETFs, in the portfolio currency
+  const incomeProjection = useMemo(
+    () =>
+      projectIncome(
+        etfPositions.map((p) => {
+          const comp = compositionMap[p.isin];
+          const value =
+            inputMode !== "percentage"
+              ? (convertedValues[p.id] ?? 0)
+              : totalPortfolioValue !== null
+                ? ((parseFloat(p.value) || 0) / 100) * totalPortfolioValue
+                : null;
+          return {
+            key: p.isin,
+            name: p.name || p.ticker || "Unknown",
+            ticker: p.ticker !== "" ? p.ticker : undefined,
+            value,
+            weight: positionWeights[p.isin] ?? 0,
+            policy: comp?.distributionPolicy ?? "",
+            yieldPct: comp?.distributionYieldPct ?? null,
+            frequency: comp?.distributionFrequency ?? "",
+          };
+        }),
+      ),
+    [etfPositions, compositionMap, inputMode, convertedValues, totalPortfolioValue, positionWeights],
+  );
+
+  // Drift alerts on country / sector exposures are evaluated by the page
+  useEffect(() => {
+    onExposures(allLoaded ? { country: countryExposure, sector: sectorExposure } : null);
+    return () => onExposures(null);
+  }, [allLoaded, countryExposure, sectorExposure, onExposures]);
+
   if (etfPositions.length === 0 && aggregatedHoldings.length === 0) return null;
 
   const hasData = aggregatedCountries.length > 0 || aggregatedSectors.length > 0 || aggregatedHoldings.length > 0;
@@ -546,7 +760,24 @@ function PortfolioDistribution({
             <div className="mb-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
               <div className="flex items-center gap-2 border-b border-white/5 px-4 py-3">
                 <h3 className="text-sm font-bold text-white">Holdings</h3>
-                <span className="ml-auto rounded-full bg-white/5 px-2.5 py-0.5 text-xs font-medium text-gray-400">
+                {(() => {
+                  const counts = { isin: 0, ticker: 0, name: 0 };
+                  for (const h of aggregatedHoldings) if (h.matchedBy) counts[h.matchedBy]++;
+                  const merged = counts.isin + counts.ticker + counts.name;
+                  if (merged === 0) return null;
+                  return (
+                    <span className="hidden text-[11px] text-gray-500 sm:inline">
+                      {merged} merged — {counts.isin} by ISIN, {counts.ticker} by ticker, {counts.name} by name
+                    </span>
+                  );
+                })()}
+                <span
+                  className={`ml-auto rounded-full px-2.5 py-0.5 text-xs font-semibold tabular-nums ${coverageColor(holdingsCoverage.portfolioPct)}`}
+                  title="Share of the portfolio explained by the listed holdings"
+                >
+                  {holdingsCoverage.portfolioPct.toFixed(0)}% covered
+                </span>
+                <span className="rounded-full bg-white/5 px-2.5 py-0.5 text-xs font-medium text-gray-400">
                   {aggregatedHoldings.length} {aggregatedHoldings.length === 1 ? "item" : "items"}
                 </span>
               </div>
@@ -607,6 +838,7 @@ function PortfolioDistribution({
                             <span className="min-w-0 flex-1 truncate text-xs text-gray-300">
                               {item.name}
                             </span>
+                            <MatchBadge matchedBy={item.matchedBy} />
                             <span className="shrink-0 text-xs font-medium tabular-nums text-gray-400">
                               {item.weight.toFixed(2)}%
                             </span>
@@ -644,6 +876,33 @@ function PortfolioDistribution({
                     )}
                   </div>
                 )}
+
+                {/* Coverage — how much of each ETF its holdings list explains */}
+                {holdingsCoverage.etfs.length > 0 && (
+                  <div className="border-t border-white/5 px-4 py-2">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="text-[11px] text-gray-500">Coverage:</span>
+                      {holdingsCoverage.etfs.map((e) => (
+                        <span
+                          key={e.isin}
+                          className={`rounded-full px-2 py-0.5 text-[11px] font-semibold tabular-nums ${coverageColor(e.listedPct)}`}
+                          title={e.source ? `Holdings from ${e.source.label}` : undefined}
+                        >
+                          {e.label} {e.listedPct.toFixed(0)}%
+                          {e.source && <span className="font-normal opacity-70"> · {e.source.label}</span>}
+                        </span>
+                      ))}
+                    </div>
+                    {holdingsCoverage.topOnly.length > 0 && (
+                      <p className="mt-1.5 text-[11px] text-gray-500">
+                        Only the top holdings are available for{" "}
+                        {holdingsCoverage.topOnly.map((e) => e.label).join(", ")}; the rest of{" "}
+                        {holdingsCoverage.topOnly.length === 1 ? "that fund" : "those funds"} is not broken down, so
+                        single-company weights are understated.
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
               {anyLoading && (
                 <div className="border-t border-white/5 px-4 py-2">
@@ -852,13 +1111,6 @@ function PortfolioDistribution({
         )}
       {/* TER Section — expense ratios for all positions */}
       {allLoaded && hasData && (() => {
-        // Parse TER string to number (e.g., "0.20% p.a." → 0.20)
-        const parseTer = (terStr: string | undefined): number => {
-          if (!terStr) return 0;
-          const match = /([\d.]+)\s*%/.exec(terStr);
-          return match ? parseFloat(match[1] ?? "0") : 0;
-        };
-
         // Build TER list for ETF positions only (stocks have 0% TER)
         const terItems: Array<{ name: string; ticker?: string; ter: number; terStr: string; weight: number }> = [];
 
@@ -870,19 +1122,16 @@ function PortfolioDistribution({
           const weight = positionWeights[key] ?? 0;
           const name = pos.name || pos.ticker || "Unknown";
           const comp = compositionMap[pos.isin];
-          const terNum = parseTer(comp?.ter);
+          const terPct = comp?.terPct ?? null;
           terItems.push({
             name,
             ticker: pos.ticker,
-            ter: terNum,
-            terStr: comp?.ter ? `${terNum.toFixed(2)}%` : "N/A",
+            ter: terPct ?? 0,
+            terStr: terPct !== null ? `${terPct.toFixed(2)}%` : "N/A",
             weight,
           });
         }
 
-        // Weighted TER
-        const weightedTer = terItems.reduce((sum, item) => sum + item.weight * item.ter, 0);
-
         return (
           <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
             <div className="flex items-center gap-2 border-b border-white/5 px-4 py-3">
@@ -925,6 +1174,55 @@ function PortfolioDistribution({
         );
       })()}
 
+      {/* Returns — position-weighted trailing returns per horizon */}
+      {allLoaded && weightedReturns.some((h) => h.totalPct !== null) && (
+        <PortfolioReturnsPanel returns={weightedReturns} />
+      )}
+
+      {/* Income — projected payouts of distributing ETFs */}
+      {allLoaded && incomeProjection.rows.length > 0 && (
+        <DistributionIncomePanel projection={incomeProjection} currency={currency} />
+      )}
+
+      {/* Benchmark — over/underweights against a chosen ETF */}
+      {allLoaded && hasData && (
+        <BenchmarkComparison
+          countries={countryExposure}
+          sectors={sectorExposure}
+          holdings={aggregatedHoldings}
+          weightedTer={weightedTer}
+          weightedReturns={weightedReturns}
+        />
+      )}
+
+      {/* Rules — concentration limits on look-through exposures */}
+      {allLoaded && hasData && (
+        <ExposureRulesReport
+          rules={rules}
+          holdings={aggregatedHoldings}
+          countries={countryExposure}
+          sectors={sectorExposure}
+          readOnly={readOnly}
+          onChange={onRulesChange}
+        />
+      )}
+
+      {/* Overlap matrix — how redundant each pair of ETFs is */}
+      {overlapFunds.length >= 2 && (
+        <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+          <div className="flex items-center gap-2 border-b border-white/5 px-4 py-3">
+            <h3 className="text-sm font-bold text-white">ETF Overlap Matrix</h3>
+            <span className="rounded-full bg-amber-500/10 px-2.5 py-0.5 text-xs font-semibold text-amber-400">
+              Σ min(weight A, weight B)
+            </span>
+          </div>
+          <OverlapMatrix funds={overlapFunds} />
+          <div className="border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+            Share of each fund held in common with the other, by weight. Click a cell for the shared holdings.
+          </div>
+        </div>
+      )}
+
       {/* ETF Overlap — stocks appearing in multiple ETFs */}
       {overlapData.length > 0 && (
         <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
@@ -941,7 +1239,8 @@ function PortfolioDistribution({
               return (
               <div key={i} className={`${isCollapsing ? 'animate-fade-slide-out' : 'animate-fade-slide-in'} rounded-lg border border-white/5 bg-white/[0.02] px-3 py-2 transition-colors hover:bg-white/[0.05]`} style={{ animationDelay: `${isCollapsing ? (i - 5) * 15 : i * 15}ms` }}>
                 <div className="flex items-center justify-between gap-2">
-                  <span className="min-w-0 truncate text-xs font-medium text-gray-300">{item.displayName}</span>
+                  <span className="min-w-0 flex-1 truncate text-xs font-medium text-gray-300">{item.displayName}</span>
+                  <MatchBadge matchedBy={item.matchedBy} />
                   <span className="shrink-0 rounded-full bg-amber-500/10 px-2 py-0.5 text-[11px] font-semibold text-amber-400">
                     {item.overlapPct.toFixed(0)}%
                     <span className="font-normal text-amber-400/50"> ({item.etfWeights.length}/{totalEtfCountWithData})</span>
@@ -1009,6 +1308,466 @@ function PortfolioDistribution({
   );
 }
 
+/* ═══════════════════════════════════════════════════════════════════════════════
+   PORTFOLIO RETURNS — weighted trailing returns and per-position contributions
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+function returnColor(value: number | null): string {
+  if (value === null || value === 0) return "text-gray-400";
+  return value > 0 ? "text-emerald-400" : "text-red-400";
+}
+
+function PortfolioReturnsPanel({ returns }: { returns: HorizonReturn[] }) {
+  const [selected, setSelected] = useState<ReturnHorizon>("oneYear");
+  const current = returns.find((h) => h.horizon === selected) ?? returns[0];
+  if (!current) return null;
+
+  // Scale contribution bars against the largest absolute contribution
+  const maxContribution = Math.max(
+    ...current.contributions.map((c) => Math.abs(c.contributionPct)),
+    0.0001,
+  );
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex items-center gap-2 border-b border-white/5 px-4 py-3">
+        <TrendingUpIcon className="h-4 w-4 text-emerald-400" />
+        <h3 className="text-sm font-bold text-white">Portfolio Returns</h3>
+        <span className="ml-auto text-[11px] text-gray-500">Position-weighted, cumulative</span>
+      </div>
+
+      {/* Horizon selector with the weighted return for each */}
+      <div className="grid grid-cols-4 gap-2 p-3 lg:grid-cols-8">
+        {returns.map((h) => (
+          <button
+            key={h.horizon}
+            type="button"
+            onClick={() => setSelected(h.horizon)}
+            className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+              h.horizon === current.horizon
+                ? "border-emerald-500/30 bg-emerald-500/10"
+                : "border-white/5 bg-gray-800/50 hover:bg-white/[0.05]"
+            }`}
+          >
+            <p className="text-[11px] font-medium text-gray-500">{h.label}</p>
+            <p className={`text-sm font-bold tabular-nums ${returnColor(h.totalPct)}`}>
+              {h.totalPct !== null ? formatSignedPct(h.totalPct) : "N/A"}
+            </p>
+            {h.totalPct !== null && h.coverage < 0.995 && (
+              <p className="text-[10px] text-amber-400/80">{(h.coverage * 100).toFixed(0)}% covered</p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Contribution of each position to the selected horizon */}
+      {current.contributions.length > 0 && (
+        <div className="border-t border-white/5 px-4 py-3">
+          <div className="mb-2 flex items-center justify-between text-[11px] text-gray-500">
+            <span>Contribution to {current.label} return</span>
+            <span>Return · Weight · Contribution</span>
+          </div>
+          <div className="space-y-1.5">
+            {current.contributions.map((c) => {
+              const Icon = c.contributionPct < 0 ? TrendingDownIcon : TrendingUpIcon;
+              return (
+                <div key={c.key} className="flex items-center gap-2">
+                  <Icon className={`h-3 w-3 shrink-0 ${returnColor(c.contributionPct)}`} />
+                  <span className="min-w-0 flex-1 truncate text-xs text-gray-300">
+                    {c.name}
+                    {c.ticker && <span className="ml-1.5 text-[11px] text-gray-500">{c.ticker}</span>}
+                  </span>
+                  <div className="hidden w-24 shrink-0 sm:block">
+                    <div className="h-1 w-full overflow-hidden rounded-full bg-white/5">
+                      <div
+                        className={`h-full rounded-full ${c.contributionPct < 0 ? "bg-red-500/50" : "bg-emerald-500/50"}`}
+                        style={{ width: `${(Math.abs(c.contributionPct) / maxContribution) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                  <span className={`w-16 shrink-0 text-right text-xs tabular-nums ${returnColor(c.returnPct)}`}>
+                    {formatSignedPct(c.returnPct)}
+                  </span>
+                  <span className="w-12 shrink-0 text-right text-xs tabular-nums text-gray-500">
+                    {(c.weight * 100).toFixed(1)}%
+                  </span>
+                  <span className={`w-16 shrink-0 text-right text-xs font-semibold tabular-nums ${returnColor(c.contributionPct)}`}>
+                    {formatSignedPct(c.contributionPct)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Positions left out of this horizon */}
+      {current.missing.length > 0 && (
+        <div className="flex items-start gap-2 border-t border-white/5 px-4 py-2.5 text-xs text-amber-400/90">
+          <AlertCircleIcon className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <p>
+            No {current.label} return for{" "}
+            {current.missing
+              .map((m) => `${m.ticker ?? m.name} (${(m.weight * 100).toFixed(1)}%)`)
+              .join(", ")}
+            . {current.totalPct !== null && "Remaining weights are rescaled to 100%."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   BENCHMARK — compare the aggregated portfolio with a single index ETF
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** One-click benchmarks; any other ETF can be searched */
+const BENCHMARK_PRESETS: SecurityResult[] = [
+  { ticker: "VWCE", isin: "IE00BK5BQT80", name: "Vanguard FTSE All-World UCITS ETF (USD) Accumulating", type: "etf" },
+  { ticker: "IWDA", isin: "IE00B4L5Y983", name: "iShares Core MSCI World UCITS ETF USD (Acc)", type: "etf" },
+  { ticker: "CSPX", isin: "IE00B5BMR087", name: "iShares Core S&P 500 UCITS ETF USD (Acc)", type: "etf" },
+];
+
+const ETF_ONLY: Array<SecurityResult["type"]> = ["etf"];
+const BENCHMARK_ROWS_VISIBLE = 8;
+
+/** Over/underweight list for one dimension (countries, sectors, holdings) */
+function ExposureDiffList({ title, rows }: { title: string; rows: ExposureDiff[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const visible = expanded ? rows : rows.slice(0, BENCHMARK_ROWS_VISIBLE);
+  const maxDiff = Math.max(...rows.map((r) => Math.abs(r.diff)), 0.0001);
+
+  return (
+    <div className="rounded-lg border border-white/5 bg-gray-800/50 p-3">
+      <div className="mb-2 flex items-center justify-between text-[11px] text-gray-500">
+        <span className="font-semibold text-gray-300">{title}</span>
+        <span>Portfolio · Benchmark · Δ</span>
+      </div>
+      {rows.length === 0 ? (
+        <p className="py-2 text-xs text-gray-500">No data</p>
+      ) : (
+        <div className="space-y-1">
+          {visible.map((r) => (
+            <div key={r.key} className="flex items-center gap-2">
+              <span className="min-w-0 flex-1 truncate text-xs text-gray-300">{r.name}</span>
+              {/* Diverging bar: overweight grows right, underweight left */}
+              <div className="hidden w-16 shrink-0 sm:flex">
+                <div className="flex w-1/2 justify-end">
+                  {r.diff < 0 && (
+                    <div
+                      className="h-1 rounded-l-full bg-amber-500/60"
+                      style={{ width: `${(Math.abs(r.diff) / maxDiff) * 100}%` }}
+                    />
+                  )}
+                </div>
+                <div className="w-1/2">
+                  {r.diff > 0 && (
+                    <div
+                      className="h-1 rounded-r-full bg-sky-500/60"
+                      style={{ width: `${(r.diff / maxDiff) * 100}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+              <span className="w-11 shrink-0 text-right text-[11px] tabular-nums text-gray-400">
+                {r.portfolio.toFixed(1)}%
+              </span>
+              <span className="w-11 shrink-0 text-right text-[11px] tabular-nums text-gray-500">
+                {r.benchmark.toFixed(1)}%
+              </span>
+              <span
+                className={`w-16 shrink-0 text-right text-[11px] font-semibold tabular-nums ${
+                  Math.abs(r.diff) < 0.05 ? "text-gray-500" : r.diff > 0 ? "text-sky-400" : "text-amber-400"
+                }`}
+              >
+                {formatPp(r.diff)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {rows.length > BENCHMARK_ROWS_VISIBLE && (
+        <button
+          type="button"
+          onClick={() => setExpanded((v) => !v)}
+          className="mt-2 text-[11px] font-semibold text-emerald-400 hover:text-emerald-300"
+        >
+          {expanded ? "Show less" : `Show all ${rows.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function BenchmarkComparison({
+  countries,
+  sectors,
+  holdings,
+  weightedTer,
+  weightedReturns,
+}: {
+  /** Ungrouped portfolio exposures in percent */
+  countries: ExposureItem[];
+  sectors: ExposureItem[];
+  holdings: Array<HoldingRef & { weight: number }>;
+  /** Weighted portfolio TER in percent per year */
+  weightedTer: number;
+  weightedReturns: HorizonReturn[];
+}) {
+  const [benchmark, setBenchmark] = useState<SecurityResult | null>(null);
+  const { data, isLoading, isError } = useEtfFullComposition(benchmark?.isin ?? null);
+
+  const comparison = useMemo(() => {
+    if (!data) return null;
+
+    // Holdings: merge both sides through one resolver so ISIN / ticker / name matches line up
+    const resolveHolding = createHoldingResolver();
+    const keyed = (items: Array<HoldingRef & { weight: number }>) =>
+      items
+        .filter((h) => h.name !== "Other" && h.name !== "Others")
+        .map((h) => ({ key: resolveHolding(h).group, name: h.name, weight: h.weight }));
+    const portfolioHoldings = keyed(holdings);
+    const benchmarkHoldings = keyed(data.holdings);
+
+    return {
+      countries: compareExposures(countries, data.countries),
+      sectors: compareExposures(sectors, data.sectors),
+      // Only buckets the benchmark reports, so a top-10 list doesn't flag everything else as overweight
+      holdings: compareExposures(portfolioHoldings, benchmarkHoldings).filter((r) => r.benchmark > 0),
+      holdingsCoverage: benchmarkHoldings.reduce((sum, h) => sum + h.weight, 0),
+    };
+  }, [data, countries, sectors, holdings]);
+
+  const terDelta = figureDelta(weightedTer, data?.terPct ?? null);
+
+  return (
+    <div className="mt-6 overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
+      <div className="flex flex-wrap items-center gap-2 border-b border-white/5 px-4 py-3">
+        <ArrowUpDownIcon className="h-4 w-4 text-sky-400" />
+        <h3 className="text-sm font-bold text-white">Benchmark Comparison</h3>
+        <div className="ml-auto flex flex-wrap items-center gap-1.5">
+          {BENCHMARK_PRESETS.map((preset) => (
+            <button
+              key={preset.isin}
+              type="button"
+              onClick={() => setBenchmark(preset)}
+              className={`rounded-full px-2.5 py-0.5 text-xs font-semibold transition-colors ${
+                benchmark?.isin === preset.isin
+                  ? "bg-sky-500/15 text-sky-400"
+                  : "text-gray-500 hover:bg-white/5 hover:text-gray-300"
+              }`}
+            >
+              {preset.ticker}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-b border-white/5 px-4 py-3">
+        <AutocompleteInput
+          securities={[]}
+          selected={benchmark}
+          onSelect={setBenchmark}
+          types={ETF_ONLY}
+          placeholder="Compare against any ETF…"
+          ariaLabel="Benchmark ETF"
+          className="w-full sm:max-w-md"
+        />
+      </div>
+
+      {!benchmark && (
+        <p className="px-4 py-4 text-xs text-gray-500">
+          Pick a benchmark to see where your mix is over- or underweight by country, sector and holding.
+        </p>
+      )}
+
+      {benchmark && isLoading && (
+        <div className="flex items-center gap-2 px-4 py-6 text-xs text-gray-500">
+          <Loader2Icon className="h-3.5 w-3.5 animate-spin text-sky-400" />
+          Loading {benchmark.ticker} composition…
+        </div>
+      )}
+
+      {benchmark && isError && (
+        <div className="flex items-center gap-2 px-4 py-4 text-xs text-red-400">
+          <AlertCircleIcon className="h-3.5 w-3.5 shrink-0" />
+          Could not load the composition of {benchmark.name}.
+        </div>
+      )}
+
+      {data && comparison && (
+        <>
+          {/* TER and trailing return deltas */}
+          <div className="grid grid-cols-3 gap-2 border-b border-white/5 p-3 sm:grid-cols-5 lg:grid-cols-9">
+            <div className="rounded-lg border border-white/5 bg-gray-800/50 px-3 py-2">
+              <p className="text-[11px] font-medium text-gray-500">TER</p>
+              <p className={`text-sm font-bold tabular-nums ${
+                terDelta === null ? "text-gray-500" : terDelta > 0 ? "text-amber-400" : "text-emerald-400"
+              }`}>
+                {terDelta === null ? "N/A" : formatPp(terDelta)}
+              </p>
+              <p className="text-[10px] tabular-nums text-gray-500">
+                {weightedTer.toFixed(2)}% vs {data.terPct !== null ? `${data.terPct.toFixed(2)}%` : "—"}
+              </p>
+            </div>
+            {weightedReturns.map((h) => {
+              const delta = figureDelta(h.totalPct, data.returnsPct[h.horizon]);
+              return (
+                <div key={h.horizon} className="rounded-lg border border-white/5 bg-gray-800/50 px-3 py-2">
+                  <p className="text-[11px] font-medium text-gray-500">{h.label}</p>
+                  <p className={`text-sm font-bold tabular-nums ${returnColor(delta)}`}>
+                    {delta === null ? "N/A" : formatPp(delta)}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 gap-2 p-3 lg:grid-cols-3">
+            <ExposureDiffList title="Countries" rows={comparison.countries} />
+            <ExposureDiffList title="Sectors" rows={comparison.sectors} />
+            <ExposureDiffList title="Holdings" rows={comparison.holdings} />
+          </div>
+
+          <p className="border-t border-white/5 px-4 py-2 text-[11px] text-gray-500">
+            Δ = portfolio − {benchmark?.ticker ?? "benchmark"} in percentage points; return deltas compare
+            cumulative trailing returns. Holdings are limited to the {data.holdings.length} the benchmark
+            reports ({comparison.holdingsCoverage.toFixed(0)}% of its weight).
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   BACKTEST — value of the current allocation over 1Y / 3Y / 5Y / max
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+function PortfolioBacktest({
+  positions,
+  positionWeights,
+  currency,
+}: {
+  positions: Position[];
+  /** Portfolio weights keyed like PortfolioDistribution (`isin || __ticker_<ticker>`) */
+  positionWeights: Record<string, number>;
+  /** Portfolio currency every price series is converted into */
+  currency: string;
+}) {
+  const [range, setRange] = useState<BacktestRange>("1y");
+
+  const securities = useMemo(
+    () =>
+      positions
+        .filter((p) => p.isin || p.ticker)
+        .map((p) => ({
+          key: p.isin || p.ticker,
+          name: p.name || p.ticker || p.isin,
+          weight: positionWeights[p.isin || `__ticker_${p.ticker}`] ?? 0,
+          ref: {
+            ticker: p.ticker,
+            isin: p.isin,
+            type: isEtfType(p.security?.type) ? ("etf" as const) : ("stock" as const),
+          },
+        }))
+        .filter((s) => s.weight > 0),
+    [positions, positionWeights],
+  );
+
+  const histories = api.useQueries((t) =>
+    securities.map((s) =>
+      t.securities.getPriceHistory(
+        { ...s.ref, range },
+        { staleTime: 12 * 60 * 60 * 1000, retry: 1 },
+      ),
+    ),
+  );
+
+  const historyData = histories.map((h) => h.data);
+
+  // Daily FX closes (Yahoo pairs such as "USDEUR=X") for series quoted in another currency
+  const foreignCurrencies = [
+    ...new Set(historyData.flatMap((h) => (h && h.currency !== currency ? [h.currency] : []))),
+  ].sort();
+  const fxHistories = api.useQueries((t) =>
+    foreignCurrencies.map((c) =>
+      t.securities.getPriceHistory(
+        { ticker: `${c}${currency}=X`, isin: "", type: "stock", range },
+        { staleTime: 12 * 60 * 60 * 1000, retry: 1 },
+      ),
+    ),
+  );
+  const fxByCurrency = new Map(foreignCurrencies.map((c, i) => [c, fxHistories[i]?.data?.points]));
+
+  const isLoading = histories.some((h) => h.isLoading) || fxHistories.some((h) => h.isLoading);
+  const result = computeBacktest(
+    securities.map((s, i) => {
+      const history = historyData[i];
+      if (!history || history.currency === currency) return { key: s.key, points: history?.points ?? [] };
+      const rates = fxByCurrency.get(history.currency);
+      return { key: s.key, points: rates ? convertSeries(history.points, rates) : [] };
+    }),
+    Object.fromEntries(securities.map((s) => [s.key, s.weight])),
+  );
+
+  if (securities.length === 0) return null;
+
+  const unconvertible = foreignCurrencies.filter((c) => !fxByCurrency.get(c)?.length);
+  const noFxNames = securities
+    .filter((_s, i) => unconvertible.includes(historyData[i]?.currency ?? ""))
+    .map((s) => s.name);
+  const missingNames = securities
+    .filter((s) => result.missing.includes(s.key) && !noFxNames.includes(s.name))
+    .map((s) => s.name);
+  const since = result.points[0]?.t;
+
+  return (
+    <PerformanceChart
+      title="Backtest of current allocation"
+      range={range}
+      onRangeChange={setRange}
+      isLoading={isLoading}
+      error={isLoading ? null : "No price history available for these positions."}
+      formatValue={(v) => v.toFixed(1)}
+      series={[{ key: "value", label: "Portfolio (start = 100)", color: "#34d399", points: result.points }]}
+      headline={
+        result.returnPct !== null && !isLoading && (
+          <span
+            className={`rounded-full px-2.5 py-0.5 text-xs font-semibold tabular-nums ${
+              result.returnPct >= 0 ? "bg-emerald-500/10 text-emerald-400" : "bg-red-500/10 text-red-400"
+            }`}
+          >
+            {result.returnPct > 0 ? "+" : ""}
+            {result.returnPct.toFixed(2)}%
+          </span>
+        )
+      }
+      footer={
+        !isLoading && (
+          <>
+            Buy-and-hold at today&apos;s weights
+            {since !== undefined && ` since ${new Date(since).toLocaleDateString()}`}
+            , adjusted closes in {currency}
+            {foreignCurrencies.length > 0 && ` (${foreignCurrencies.join(", ")} converted at daily FX closes)`}, no
+            rebalancing.
+            {missingNames.length > 0 && (
+              <span className="text-amber-400/90"> No price history for {missingNames.join(", ")}; left out.</span>
+            )}
+            {noFxNames.length > 0 && (
+              <span className="text-amber-400/90">
+                {" "}
+                No {unconvertible.join(", ")} → {currency} FX history for {noFxNames.join(", ")}; left out.
+              </span>
+            )}
+          </>
+        )
+      }
+    />
+  );
+}
+
 /* ═══════════════════════════════════════════════════════════════════════════════
    ETF ROW EXPANSION — inline composition inside the positions table
    ═══════════════════════════════════════════════════════════════════════════════ */
@@ -1221,6 +1980,13 @@ export default function PortfolioOverviewPage() {
   const [sortColumn, setSortColumn] = useState<"value" | "percentage">("value");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
+  /** True while showing a portfolio decoded from a share link (never persisted) */
+  const [readOnly, setReadOnly] = useState(false);
+  const [shareStatus, setShareStatus] = useState<"idle" | "copied" | "error">("idle");
+  /** Aggregated ETF exposures reported by PortfolioDistribution, for drift alerts */
+  const [exposures, setExposures] = useState<Record<ExposureDimension, ExposureItem[]> | null>(null);
+  /** Round rebalancing trades down to whole shares (needs a live quote per targeted position) */
+  const [wholeShares, setWholeShares] = useState(true);
 
   /* ─── Row expand toggle handler ─── */
   const toggleRow = useCallback((id: number) => {
@@ -1245,37 +2011,275 @@ export default function PortfolioOverviewPage() {
     }
   };
 
-  /* ─── Load portfolio from localStorage ─── */
+  /* ─── Load portfolio: a share link in the URL fragment wins over localStorage ─── */
   useEffect(() => {
-    const data = loadPortfolio();
-    if (data) {
-      setPortfolio(data);
-    }
-    setLoading(false);
+    const loadFromLocation = async () => {
+      const shared = readShareHash(window.location.hash);
+      if (shared) {
+        setPortfolio(await decodeSharedPortfolio(shared));
+        setReadOnly(true);
+      } else {
+        setPortfolio(loadPortfolio());
+        setReadOnly(false);
+      }
+      setExpandedRows(new Set());
+      setLoading(false);
+    };
+    void loadFromLocation();
+
+    const handleHashChange = () => void loadFromLocation();
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
   }, []);
 
+  /* ─── Share: copy a link that encodes the current portfolio ─── */
+  const handleShare = async () => {
+    if (!portfolio) return;
+    try {
+      const url = await buildShareUrl(window.location.origin, portfolio);
+      await navigator.clipboard.writeText(url);
+      setShareStatus("copied");
+    } catch {
+      setShareStatus("error");
+    }
+    setTimeout(() => setShareStatus("idle"), 2000);
+  };
+
+  /* ─── Save a shared portfolio as a new local portfolio (never overwrites) ─── */
+  const handleSaveSharedCopy = () => {
+    if (!portfolio) return;
+    createPortfolio("Shared portfolio");
+    savePortfolio({
+      inputMode: portfolio.inputMode,
+      currency: portfolio.currency,
+      totalPortfolioValue: portfolio.totalPortfolioValue,
+      positions: portfolio.positions,
+    });
+    window.history.replaceState(null, "", window.location.pathname);
+    setReadOnly(false);
+  };
+
+  /* ─── Live quotes for share-count positions, positions with a ledger and,
+     when rounding to whole shares, every position with a target ─── */
+  const quotedSecurities = useMemo(() => {
+    if (!portfolio) return [];
+    return portfolio.positions
+      .filter(
+        (p) =>
+          p.security &&
+          (portfolio.inputMode === "shares" ||
+            (p.transactions?.length ?? 0) > 0 ||
+            (wholeShares && !isNaN(parseFloat(p.target ?? "")))),
+      )
+      .map((p) => ({ ticker: p.ticker, isin: p.isin, type: p.security!.type }));
+  }, [portfolio, wholeShares]);
+
+  const {
+    data: quotes,
+    isLoading: quotesLoading,
+    isFetching: quotesFetching,
+    refetch: refetchQuotes,
+  } = api.securities.getQuotes.useQuery(
+    { securities: quotedSecurities },
+    { enabled: quotedSecurities.length > 0, staleTime: 5 * 60 * 1000, retry: 1 },
+  );
+
+  /* Quotes keyed by security identifier (ISIN, ticker fallback) */
+  const quoteMap = useMemo(
+    () => new Map((quotes ?? []).map((q) => [q.key, q])),
+    [quotes],
+  );
+
+  const quoteFor = useCallback(
+    (p: Position) => (p.security ? quoteMap.get(securityIdentifier(p.security)) : undefined),
+    [quoteMap],
+  );
+
+  /* Oldest fetch time across all prices, shown as "last refreshed" */
+  const pricesFetchedAt = quotes && quotes.length > 0
+    ? Math.min(...quotes.map((q) => q.fetchedAt))
+    : null;
+  const unpricedCount = portfolio?.inputMode === "shares" && !quotesLoading
+    ? portfolio.positions.filter((p) => p.security && !quoteFor(p)).length
+    : 0;
+
+  /* ─── FX rates for positions valued in another currency ─── */
+  const foreignCurrencies = useMemo(() => {
+    if (!portfolio) return [];
+    // Every loaded quote is converted (share values, ledger gains, whole-share rounding)
+    const codes = new Set((quotes ?? []).map((q) => q.currency));
+    if (portfolio.inputMode === "amount") for (const p of portfolio.positions) codes.add(p.currency);
+    // Ledger trades, in every mode
+    for (const p of portfolio.positions) {
+      for (const t of p.transactions ?? []) codes.add(t.currency);
+    }
+    codes.delete(portfolio.currency);
+    return [...codes].sort();
+  }, [portfolio, quotes]);
+
+  const { data: fxRates, isLoading: fxLoading } = api.securities.getFxRates.useQuery(
+    { base: portfolio?.currency ?? "USD", currencies: foreignCurrencies },
+    { enabled: foreignCurrencies.length > 0, staleTime: 60 * 60 * 1000, retry: 1 },
+  );
+
+  /** Currencies without a rate yet — their amounts are counted unconverted */
+  const unconvertedCurrencies = foreignCurrencies.filter(
+    (c) => fxRates?.rates[c] === undefined,
+  );
+
+  /* Amounts (or shares × price) by position id, in the portfolio currency */
+  const convertedValues = useMemo(() => {
+    const values: Record<number, number> = {};
+    if (!portfolio) return values;
+    for (const p of portfolio.positions) {
+      let amount = parseFloat(p.value) || 0;
+      let currency = p.currency;
+      if (portfolio.inputMode === "shares") {
+        const quote = quoteFor(p);
+        amount = quote ? amount * quote.price : 0;
+        currency = quote?.currency ?? portfolio.currency;
+      }
+      const rate = currency === portfolio.currency ? 1 : fxRates?.rates[currency];
+      values[p.id] = amount * (rate ?? 1);
+    }
+    return values;
+  }, [portfolio, fxRates, quoteFor]);
+
+  /* ─── Rebalancing inputs: values and share prices in the portfolio currency ─── */
+  const rebalanceValues = useMemo(() => {
+    if (!portfolio) return null;
+    if (portfolio.inputMode !== "percentage") return convertedValues;
+    const totalValue = parseFloat(portfolio.totalPortfolioValue);
+    if (!(totalValue > 0)) return null;
+    return Object.fromEntries(
+      portfolio.positions.map((p) => [p.id, ((parseFloat(p.value) || 0) / 100) * totalValue]),
+    );
+  }, [portfolio, convertedValues]);
+
+  const sharePrices = useMemo(() => {
+    const prices: Record<number, number> = {};
+    if (!portfolio || !wholeShares) return prices;
+    for (const p of portfolio.positions) {
+      const quote = quoteFor(p);
+      const rate = quote && (quote.currency === portfolio.currency ? 1 : fxRates?.rates[quote.currency]);
+      if (quote && rate) prices[p.id] = quote.price * rate;
+    }
+    return prices;
+  }, [portfolio, fxRates, quoteFor, wholeShares]);
+
+  /* Current price per share of ledger positions, in the portfolio currency */
+  const ledgerPrices = useMemo(() => {
+    const prices: Record<number, number> = {};
+    if (!portfolio) return prices;
+    for (const p of portfolio.positions) {
+      if (!p.transactions?.length) continue;
+      const quote = quoteFor(p);
+      const rate = quote && (quote.currency === portfolio.currency ? 1 : fxRates?.rates[quote.currency]);
+      if (quote && rate) prices[p.id] = quote.price * rate;
+    }
+    return prices;
+  }, [portfolio, fxRates, quoteFor]);
+
+  /* ─── Target weights are edited on the overview and saved with the portfolio ─── */
+  const handleTargetChange = (id: number, target: string) => {
+    if (!portfolio || readOnly) return;
+    const next: PortfolioData = {
+      ...portfolio,
+      positions: portfolio.positions.map((p) => {
+        if (p.id !== id) return p;
+        const updated: Position = { ...p, target };
+        if (!target.trim()) delete updated.target;
+        return updated;
+      }),
+    };
+    setPortfolio(next);
+    savePortfolio(next);
+  };
+
+  /* ─── Drift alerts: bands are saved with the portfolio ─── */
+  const driftSettings = portfolio?.drift ?? DEFAULT_DRIFT_SETTINGS;
+
+  const handleDriftChange = (drift: DriftSettings) => {
+    if (!portfolio || readOnly) return;
+    const next: PortfolioData = { ...portfolio, drift };
+    setPortfolio(next);
+    savePortfolio(next);
+  };
+
+  /* ─── Transaction ledgers and the cost basis method are saved with the portfolio ─── */
+  const handleTransactionsChange = (id: number, transactions: Transaction[]) => {
+    if (!portfolio || readOnly) return;
+    const next: PortfolioData = {
+      ...portfolio,
+      positions: portfolio.positions.map((p) => {
+        if (p.id !== id) return p;
+        const updated: Position = { ...p, transactions };
+        if (transactions.length === 0) delete updated.transactions;
+        return updated;
+      }),
+    };
+    setPortfolio(next);
+    savePortfolio(next);
+  };
+
+  const handleCostBasisMethodChange = (costBasisMethod: CostBasisMethod) => {
+    if (!portfolio || readOnly) return;
+    const next: PortfolioData = { ...portfolio, costBasisMethod };
+    setPortfolio(next);
+    savePortfolio(next);
+  };
+
+  /* ─── Exposure rules are edited in the distribution section ─── */
+  const handleRulesChange = (rules: ExposureRule[]) => {
+    if (!portfolio || readOnly) return;
+    const next: PortfolioData = { ...portfolio, rules };
+    setPortfolio(next);
+    savePortfolio(next);
+  };
+
+  /* Positions with a target whose current weight left its band, by id */
+  const positionAlerts = useMemo(() => {
+    const alerts = new Map<number, DriftAlert>();
+    // Weights are meaningless until prices and rates are in
+    if (!portfolio || quotesLoading || fxLoading) return alerts;
+    const weightOf = (p: Position) =>
+      portfolio.inputMode === "percentage" ? parseFloat(p.value) || 0 : (convertedValues[p.id] ?? 0);
+    const totalWeight = portfolio.positions.reduce((sum, p) => sum + weightOf(p), 0);
+    if (totalWeight <= 0) return alerts;
+    for (const p of portfolio.positions) {
+      const target = parseFloat(p.target ?? "");
+      if (isNaN(target)) continue;
+      const alert = checkDrift(
+        "position",
+        String(p.id),
+        p.name || p.ticker || "Unknown",
+        (weightOf(p) / totalWeight) * 100,
+        target,
+        driftSettings,
+      );
+      if (alert) alerts.set(p.id, alert);
+    }
+    return alerts;
+  }, [portfolio, convertedValues, quotesLoading, fxLoading, driftSettings]);
+
   /* ─── Sort positions by selected column & direction ─── */
+  /* Weights of every position (stocks included), for the back-test */
+  const positionWeights = useMemo(
+    () => (portfolio ? computePositionWeights(portfolio.positions, portfolio.inputMode, convertedValues) : {}),
+    [portfolio, convertedValues],
+  );
+
   const sortedPositions = useMemo(() => {
     if (!portfolio) return [];
     return [...portfolio.positions].sort((a, b) => {
-      let aVal: number;
-      let bVal: number;
-
-      if (sortColumn === "percentage" && portfolio.inputMode === "amount") {
-        const t = portfolio.positions.reduce(
-          (sum, p) => sum + (parseFloat(p.value) || 0),
-          0,
-        );
-        aVal = t > 0 ? ((parseFloat(a.value) || 0) / t) * 100 : 0;
-        bVal = t > 0 ? ((parseFloat(b.value) || 0) / t) * 100 : 0;
-      } else {
-        aVal = parseFloat(a.value) || 0;
-        bVal = parseFloat(b.value) || 0;
-      }
+      // Amounts are compared in the portfolio currency, so the value and
+      // percentage columns sort the same way in amount and shares mode
+      const aVal = portfolio.inputMode === "percentage" ? parseFloat(a.value) || 0 : (convertedValues[a.id] ?? 0);
+      const bVal = portfolio.inputMode === "percentage" ? parseFloat(b.value) || 0 : (convertedValues[b.id] ?? 0);
 
       return sortDirection === "desc" ? bVal - aVal : aVal - bVal;
     });
-  }, [portfolio, sortColumn, sortDirection]);
+  }, [portfolio, convertedValues, sortDirection]);
 
   /* ─── Derived values ─── */
   const currencySymbol =
@@ -1283,6 +2287,12 @@ export default function PortfolioOverviewPage() {
       ? (CURRENCY_SYMBOLS[portfolio.currency] ?? portfolio.currency)
       : null;
 
+  /* Symbol for market values in shares mode */
+  const marketValueSymbol =
+    portfolio?.inputMode === "shares"
+      ? (CURRENCY_SYMBOLS[portfolio.currency] ?? portfolio.currency)
+      : null;
+
   /* Total portfolio value for percentage mode */
   const totalPortfolioValue = useMemo(() => {
     if (portfolio?.inputMode !== "percentage") return null;
@@ -1298,11 +2308,14 @@ export default function PortfolioOverviewPage() {
 
   const total = useMemo(() => {
     if (!portfolio) return 0;
+    if (portfolio.inputMode !== "percentage") {
+      return portfolio.positions.reduce((sum, p) => sum + (convertedValues[p.id] ?? 0), 0);
+    }
     return portfolio.positions.reduce(
       (sum, p) => sum + (parseFloat(p.value) || 0),
       0,
     );
-  }, [portfolio]);
+  }, [portfolio, convertedValues]);
 
   /* ─── Format helpers ─── */
   const formatValue = (raw: string) => {
@@ -1314,6 +2327,9 @@ export default function PortfolioOverviewPage() {
         maximumFractionDigits: 2,
       });
     }
+    if (portfolio?.inputMode === "shares") {
+      return num.toLocaleString(undefined, { maximumFractionDigits: 4 });
+    }
     return `${num.toFixed(1)}%`;
   };
 
@@ -1346,9 +2362,13 @@ export default function PortfolioOverviewPage() {
           <AlertCircleIcon className="h-7 w-7 text-yellow-400" />
         </div>
         <div>
-          <h1 className="text-xl font-bold text-white">No portfolio found</h1>
+          <h1 className="text-xl font-bold text-white">
+            {readOnly ? "Invalid share link" : "No portfolio found"}
+          </h1>
           <p className="mt-2 text-sm text-gray-400">
-            It looks like you haven&apos;t entered any positions yet.
+            {readOnly
+              ? "This link could not be decoded. It may have been truncated when it was copied."
+              : "It looks like you haven't entered any positions yet."}
           </p>
         </div>
         <button
@@ -1358,12 +2378,26 @@ export default function PortfolioOverviewPage() {
           <ArrowLeftIcon className="h-4 w-4" />
           Build Portfolio
         </button>
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          or switch to another portfolio
+          <PortfolioSwitcher
+            onSwitch={() => {
+              if (readOnly) window.history.replaceState(null, "", window.location.pathname);
+              setReadOnly(false);
+              setPortfolio(loadPortfolio());
+            }}
+          />
+        </div>
       </main>
     );
   }
 
   /* ─── Column count for expanded rows ─── */
-  const colCount = 6 + (portfolio.inputMode === "amount" ? 1 : 0) + (totalPortfolioValue ? 1 : 0);
+  const colCount =
+    6 +
+    (portfolio.inputMode !== "percentage" ? 1 : 0) +
+    (portfolio.inputMode === "shares" ? 1 : 0) +
+    (totalPortfolioValue ? 1 : 0);
 
   /* ─── Main overview ─── */
   return (
@@ -1379,17 +2413,65 @@ export default function PortfolioOverviewPage() {
             <h1 className="text-lg font-bold text-white sm:text-xl">
               Portfolio Overview
             </h1>
+            {readOnly ? (
+              <span className="rounded-full bg-sky-500/10 px-2.5 py-0.5 text-xs font-semibold text-sky-400">
+                Shared · read-only
+              </span>
+            ) : (
+              <PortfolioSwitcher
+                onSwitch={() => {
+                  setPortfolio(loadPortfolio());
+                  setExpandedRows(new Set());
+                }}
+              />
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => void handleShare()}
+              className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-gray-900 px-3 py-1.5 text-sm font-medium text-gray-300 transition hover:border-emerald-500/30 hover:text-emerald-400"
+              title="Copy a link to this portfolio"
+            >
+              {shareStatus === "copied" ? (
+                <CheckIcon className="h-4 w-4 text-emerald-400" />
+              ) : (
+                <Share2Icon className="h-4 w-4" />
+              )}
+              {shareStatus === "copied" ? "Link copied!" : shareStatus === "error" ? "Copy failed" : "Share"}
+            </button>
+            {readOnly ? (
+              <button
+                onClick={handleSaveSharedCopy}
+                className="inline-flex items-center gap-2 rounded-lg border border-emerald-500/20 bg-emerald-500/10 px-3 py-1.5 text-sm font-medium text-emerald-400 transition hover:border-emerald-500/40 hover:bg-emerald-500/20"
+                title="Save as a new portfolio in this browser"
+              >
+                <SaveIcon className="h-4 w-4" />
+                Save a copy
+              </button>
+            ) : (
+              <button
+                onClick={() => router.push("/portfolio?edit=true")}
+                className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-gray-900 px-3 py-1.5 text-sm font-medium text-gray-300 transition hover:border-emerald-500/30 hover:text-emerald-400"
+              >
+                <ArrowLeftIcon className="h-4 w-4" />
+                Edit Portfolio
+              </button>
+            )}
           </div>
-          <button
-            onClick={() => router.push("/portfolio?edit=true")}
-            className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-gray-900 px-3 py-1.5 text-sm font-medium text-gray-300 transition hover:border-emerald-500/30 hover:text-emerald-400"
-          >
-            <ArrowLeftIcon className="h-4 w-4" />
-            Edit Portfolio
-          </button>
         </div>
       </section>
 
+      {/* ─── Shared portfolio notice ─── */}
+      {readOnly && (
+        <div className="border-b border-sky-500/10 bg-sky-500/5">
+          <div className="mx-auto flex max-w-5xl items-center gap-2 px-6 py-2.5 text-xs text-sky-300/80">
+            <AlertCircleIcon className="h-3.5 w-3.5 shrink-0 text-sky-400" />
+            You are viewing a portfolio shared via link. Nothing is saved to this browser unless you choose
+            &ldquo;Save a copy&rdquo;.
+          </div>
+        </div>
+      )}
+
       {/* ─── Table ─── */}
       <section className="pb-24 pt-6">
         <div className="mx-auto max-w-5xl px-6">
@@ -1399,8 +2481,8 @@ export default function PortfolioOverviewPage() {
               { label: "Positions", value: `${sortedPositions.length}` },
               {
                 label: "Total Value",
-                value: portfolio.inputMode === "amount"
-                  ? `${currencySymbol ?? ""}${total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+                value: portfolio.inputMode !== "percentage"
+                  ? `${currencySymbol ?? marketValueSymbol ?? ""}${total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
                   : totalPortfolioValue && percentageCurrencySymbol
                     ? `${percentageCurrencySymbol}${totalPortfolioValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
                     : `${total.toFixed(1)}%`,
@@ -1433,6 +2515,54 @@ export default function PortfolioOverviewPage() {
             ))}
           </div>
 
+          {/* Live price status (shares mode) */}
+          {portfolio.inputMode === "shares" && (
+            <div className="mb-6 flex flex-wrap items-center gap-x-3 gap-y-2 rounded-xl border border-white/5 bg-gray-900/60 px-4 py-3 text-xs text-gray-400">
+              <span>
+                {quotesLoading
+                  ? "Loading live prices…"
+                  : pricesFetchedAt
+                    ? `Prices last refreshed ${new Date(pricesFetchedAt).toLocaleString()}`
+                    : "No live prices available"}
+              </span>
+              {unpricedCount > 0 && (
+                <span className="text-yellow-400/80">
+                  {unpricedCount} position{unpricedCount > 1 ? "s" : ""} without a price — excluded from totals and weights
+                </span>
+              )}
+              <button
+                onClick={() => void refetchQuotes()}
+                disabled={quotesFetching}
+                className="ml-auto inline-flex items-center gap-1.5 rounded-lg border border-white/10 bg-gray-900 px-2.5 py-1 font-medium text-gray-300 transition hover:border-emerald-500/30 hover:text-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <RefreshCwIcon className={`h-3.5 w-3.5 ${quotesFetching ? "animate-spin" : ""}`} />
+                Refresh prices
+              </button>
+            </div>
+          )}
+
+          {/* FX conversion notice */}
+          {foreignCurrencies.length > 0 && (
+            <div
+              className={`mb-6 flex items-start gap-2 rounded-xl border px-4 py-3 text-xs ${
+                !fxLoading && unconvertedCurrencies.length > 0
+                  ? "border-yellow-500/20 bg-yellow-500/5 text-yellow-300/80"
+                  : "border-white/5 bg-gray-900/60 text-gray-400"
+              }`}
+            >
+              <AlertCircleIcon className="mt-px h-3.5 w-3.5 shrink-0" />
+              <span>
+                {fxLoading
+                  ? `Loading exchange rates for ${foreignCurrencies.join(", ")}…`
+                  : unconvertedCurrencies.length > 0
+                    ? `No exchange rate available for ${unconvertedCurrencies.join(", ")} — those amounts are counted unconverted in totals and weights.`
+                    : `Amounts in ${foreignCurrencies.join(", ")} are converted to ${portfolio.currency} at ${foreignCurrencies
+                        .map((c) => `1 ${c} = ${(fxRates?.rates[c] ?? 1).toFixed(4)} ${portfolio.currency}`)
+                        .join(", ")}${fxRates ? ` (as of ${new Date(fxRates.fetchedAt).toLocaleString()})` : ""}.`}
+              </span>
+            </div>
+          )}
+
           {/* Table container */}
           <div className="overflow-hidden rounded-2xl border border-white/5 bg-gray-900/60 backdrop-blur-sm">
             <div className="overflow-x-auto custom-scrollbar">
@@ -1461,7 +2591,9 @@ export default function PortfolioOverviewPage() {
                       >
                         {portfolio.inputMode === "amount"
                           ? `Value (${portfolio.currency})`
-                          : "Allocation"}
+                          : portfolio.inputMode === "shares"
+                            ? "Shares"
+                            : "Allocation"}
                         {sortColumn === "value" ? (
                           sortDirection === "desc" ? (
                             <ChevronDownIcon className="h-3.5 w-3.5 text-emerald-400" />
@@ -1492,7 +2624,26 @@ export default function PortfolioOverviewPage() {
                         </button>
                       </th>
                     )}
-                    {portfolio.inputMode === "amount" && (
+                    {portfolio.inputMode === "shares" && (
+                      <th className="whitespace-nowrap px-5 py-4 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">
+                        <button
+                          onClick={() => handleSort("value")}
+                          className="ml-auto inline-flex items-center gap-1.5 cursor-pointer rounded px-1 py-0.5 transition-colors hover:text-gray-300 hover:bg-white/5"
+                        >
+                          Market Value ({portfolio.currency})
+                          {sortColumn === "value" ? (
+                            sortDirection === "desc" ? (
+                              <ChevronDownIcon className="h-3.5 w-3.5 text-emerald-400" />
+                            ) : (
+                              <ChevronUpIcon className="h-3.5 w-3.5 text-emerald-400" />
+                            )
+                          ) : (
+                            <ArrowUpDownIcon className="h-3.5 w-3.5 text-gray-600" />
+                          )}
+                        </button>
+                      </th>
+                    )}
+                    {portfolio.inputMode !== "percentage" && (
                     <th className="whitespace-nowrap px-5 py-4 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">
                         <button
                           onClick={() => handleSort("percentage")}
@@ -1571,16 +2722,68 @@ export default function PortfolioOverviewPage() {
                         )}
                       </td>
 
-                      {/* Value */}
+                      {/* Value (in the position's own currency) */}
                       <td className="whitespace-nowrap px-5 py-4 text-right font-semibold tabular-nums text-white">
                         {currencySymbol && (
                           <span className="mr-1 text-gray-500">
-                            {currencySymbol}
+                            {CURRENCY_SYMBOLS[pos.currency] ?? pos.currency}
                           </span>
                         )}
                         {formatValue(pos.value)}
+                        {portfolio.inputMode === "percentage" && positionAlerts.has(pos.id) && (
+                          <div>
+                            <DriftBadge alert={positionAlerts.get(pos.id)!} />
+                          </div>
+                        )}
+                        {currencySymbol && pos.currency !== portfolio.currency && (
+                          <div className="mt-0.5 text-[11px] font-normal text-gray-500">
+                            ≈ {currencySymbol}
+                            {(convertedValues[pos.id] ?? 0).toLocaleString(undefined, {
+                              minimumFractionDigits: 2,
+                              maximumFractionDigits: 2,
+                            })}
+                          </div>
+                        )}
+                        {portfolio.inputMode === "shares" && (() => {
+                          const quote = quoteFor(pos);
+                          return (
+                            <div className="mt-0.5 text-[11px] font-normal text-gray-500">
+                              {quote ? (
+                                <span title={`${quote.symbol} · last trade ${new Date(quote.marketTime).toLocaleString()}`}>
+                                  @ {CURRENCY_SYMBOLS[quote.currency] ?? `${quote.currency} `}
+                                  {quote.price.toLocaleString(undefined, {
+                                    minimumFractionDigits: 2,
+                                    maximumFractionDigits: 4,
+                                  })}
+                                  {" · "}
+                                  {new Date(quote.marketTime).toLocaleTimeString(undefined, {
+                                    hour: "2-digit",
+                                    minute: "2-digit",
+                                  })}
+                                </span>
+                              ) : quotesLoading ? (
+                                "Loading price…"
+                              ) : (
+                                <span className="text-yellow-400/80">No price</span>
+                              )}
+                            </div>
+                          );
+                        })()}
                       </td>
 
+                      {/* Market value (shares mode) */}
+                      {portfolio.inputMode === "shares" && (
+                        <td className="whitespace-nowrap px-5 py-4 text-right font-semibold tabular-nums text-white">
+                          <span className="mr-1 text-gray-500">{marketValueSymbol}</span>
+                          {quoteFor(pos)
+                            ? (convertedValues[pos.id] ?? 0).toLocaleString(undefined, {
+                                minimumFractionDigits: 2,
+                                maximumFractionDigits: 2,
+                              })
+                            : "—"}
+                        </td>
+                      )}
+
                       {/* Computed amount (percentage mode with total value) */}
                       {totalPortfolioValue && (
                         <td className="whitespace-nowrap px-5 py-4 text-right font-semibold tabular-nums text-white">
@@ -1592,11 +2795,16 @@ export default function PortfolioOverviewPage() {
                       )}
 
                       {/* Percentage of portfolio */}
-                      {portfolio.inputMode === "amount" && (
+                      {portfolio.inputMode !== "percentage" && (
                         <td className="whitespace-nowrap px-5 py-4 text-right font-semibold tabular-nums text-gray-300">
                           {total > 0
-                            ? `${(((parseFloat(pos.value) || 0) / total) * 100).toFixed(2)}%`
+                            ? `${(((convertedValues[pos.id] ?? 0) / total) * 100).toFixed(2)}%`
                             : "0.00%"}
+                          {positionAlerts.has(pos.id) && (
+                            <div>
+                              <DriftBadge alert={positionAlerts.get(pos.id)!} />
+                            </div>
+                          )}
                         </td>
                       )}
                         </tr>
@@ -1632,8 +2840,21 @@ export default function PortfolioOverviewPage() {
                             minimumFractionDigits: 2,
                             maximumFractionDigits: 2,
                           })
-                        : `${total.toFixed(1)}%`}
+                        : portfolio.inputMode === "shares"
+                          ? "" // share counts of different securities don't add up
+                          : `${total.toFixed(1)}%`}
                     </td>
+                    {portfolio.inputMode === "shares" && (
+                      <td className="whitespace-nowrap px-5 py-4 text-right text-sm font-bold tabular-nums text-emerald-400">
+                        <span className="mr-1 text-emerald-400/60">
+                          {marketValueSymbol}
+                        </span>
+                        {total.toLocaleString(undefined, {
+                          minimumFractionDigits: 2,
+                          maximumFractionDigits: 2,
+                        })}
+                      </td>
+                    )}
                     {totalPortfolioValue && (
                       <td className="whitespace-nowrap px-5 py-4 text-right text-sm font-bold tabular-nums text-emerald-400">
                         <span className="mr-1 text-emerald-400/60">
@@ -1645,7 +2866,7 @@ export default function PortfolioOverviewPage() {
                         })}
                       </td>
                     )}
-                    {portfolio.inputMode === "amount" && (
+                    {portfolio.inputMode !== "percentage" && (
                     <td className="whitespace-nowrap px-5 py-4 text-right text-sm font-bold tabular-nums text-emerald-400">
                         {total > 0 ? "100.00%" : "0.00%"}
                       </td>
@@ -1656,16 +2877,63 @@ export default function PortfolioOverviewPage() {
             </div>
           </div>
 
+          {/* ─── Rebalancing towards target weights ─── */}
+          <RebalancePanel
+            positions={sortedPositions}
+            values={rebalanceValues}
+            prices={sharePrices}
+            pricesLoading={quotesLoading || fxLoading}
+            wholeShares={wholeShares}
+            onWholeSharesChange={setWholeShares}
+            currencySymbol={CURRENCY_SYMBOLS[portfolio.currency] ?? `${portfolio.currency} `}
+            readOnly={readOnly}
+            onTargetChange={handleTargetChange}
+          />
+
+          {/* ─── Drift alerts for position targets and ETF exposures ─── */}
+          <DriftAlertsPanel
+            settings={driftSettings}
+            positionAlerts={[...positionAlerts.values()].sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift))}
+            exposures={exposures}
+            readOnly={readOnly}
+            onChange={handleDriftChange}
+          />
+
+          {/* ─── Transaction ledger, cost basis and gains ─── */}
+          <CostBasisPanel
+            positions={sortedPositions}
+            method={portfolio.costBasisMethod ?? "fifo"}
+            prices={ledgerPrices}
+            currency={portfolio.currency}
+            rates={fxRates?.rates ?? {}}
+            readOnly={readOnly}
+            onTransactionsChange={handleTransactionsChange}
+            onMethodChange={handleCostBasisMethodChange}
+          />
+
           {/* ─── Portfolio Distribution (aggregated pie charts) ─── */}
           {sortedPositions.some((p) => isEtfType(p.security?.type)) && (
             <PortfolioDistribution
               positions={sortedPositions}
               inputMode={portfolio.inputMode}
               totalPortfolioValue={totalPortfolioValue}
+              convertedValues={convertedValues}
+              currency={portfolio.currency}
+              onExposures={setExposures}
+              rules={portfolio.rules ?? []}
+              onRulesChange={handleRulesChange}
+              readOnly={readOnly}
             />
           )}
 
-
+          {/* ─── Backtest — the current allocation replayed over past prices, stocks included ─── */}
+          <div className="mt-6">
+            <PortfolioBacktest
+              positions={sortedPositions}
+              positionWeights={positionWeights}
+              currency={portfolio.currency}
+            />
+          </div>
         </div>
       </section>
     </main>
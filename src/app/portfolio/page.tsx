@@ -1,27 +1,70 @@
 "use client";
 
-import { useState, useMemo, useEffect, Suspense } from "react";
+import { useState, useMemo, useEffect, useRef, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import {
   AlertCircleIcon,
   ArrowRightIcon,
   DownloadIcon,
+  FileSpreadsheetIcon,
+  LandmarkIcon,
   PlusIcon,
+  Redo2Icon,
   ShieldCheckIcon,
   TrashIcon,
   Trash2Icon,
+  Undo2Icon,
+  UploadIcon,
 } from "lucide-react";
 import CustomSelect from "~/app/_components/select";
 import AutocompleteInput from "~/app/_components/autocomplete";
+import PortfolioSwitcher from "~/app/_components/portfolio-switcher";
 import {
   type InputMode,
   type Position,
   type SecurityResult,
   CURRENCIES,
   CURRENCY_OPTIONS,
+  CURRENCY_SYMBOLS,
+  isSupportedCurrency,
 } from "~/types/portfolio";
-import { loadPortfolio, savePortfolio, clearPortfolio, highestPositionId, loadSecuritiesCache, saveSecuritiesCache } from "~/lib/storage";
+import {
+  loadPortfolio,
+  savePortfolio,
+  clearPortfolio,
+  getActivePortfolioId,
+  highestPositionId,
+  loadSecuritiesCache,
+  saveSecuritiesCache,
+  loadUndoHistory,
+  saveUndoHistory,
+} from "~/lib/storage";
+import {
+  type BuilderSnapshot,
+  type UndoHistory,
+  HISTORY_GROUP_MS,
+  editGroup,
+  emptyHistory,
+  pushHistory,
+  redoHistory,
+  sameSnapshot,
+  undoHistory,
+} from "~/lib/history";
+import {
+  type CsvColumnRole,
+  type CsvPositionRow,
+  type CsvTable,
+  CSV_COLUMN_ROLE_OPTIONS,
+  detectColumnRoles,
+  extractPositionRows,
+  inputModeForRoles,
+  isValueRole,
+  parseCsv,
+  pickSecurityMatch,
+  portfolioToCsv,
+  searchQueryForRow,
+} from "~/lib/csv";
 import { api } from "~/trpc/react";
 
 interface FieldErrors {
@@ -29,9 +72,31 @@ interface FieldErrors {
   value?: string;
 }
 
+/** Outcome of a CSV import, shown in the import modal */
+interface CsvImportReport {
+  imported: number;
+  unmatched: Array<CsvPositionRow & { reason: string }>;
+}
+
+/** Brokers offered in the statement import modal ("auto" detects the format) */
+const BROKER_OPTIONS = [
+  { value: "auto", label: "Auto-detect" },
+  { value: "degiro", label: "DEGIRO (Portfolio CSV)" },
+  { value: "ibkr", label: "Interactive Brokers (Flex XML)" },
+  { value: "trading212", label: "Trading 212 (History CSV)" },
+] as const;
+
+type BrokerChoice = (typeof BROKER_OPTIONS)[number]["value"];
+
 let nextId = 1;
 
-function createEmptyPosition(): Position {
+/** Compact currency picker for a single position (code only, no symbol) */
+const POSITION_CURRENCY_OPTIONS = CURRENCIES.map((c) => ({
+  value: c.value,
+  label: c.value,
+}));
+
+function createEmptyPosition(currency: string): Position {
   return {
     id: nextId++,
     name: "",
@@ -39,6 +104,7 @@ function createEmptyPosition(): Position {
     ticker: "",
     security: null,
     value: "",
+    currency,
   };
 }
 
@@ -59,7 +125,9 @@ function validateValue(
   if (raw.trim() === "") {
     return mode === "amount"
       ? "Amount is required"
-      : "Percentage is required";
+      : mode === "shares"
+        ? "Number of shares is required"
+        : "Percentage is required";
   }
   const num = parseFloat(raw);
   if (isNaN(num)) {
@@ -96,7 +164,7 @@ function PortfolioPageInner() {
   const [totalPortfolioValue, setTotalPortfolioValue] = useState("");
 
   const [positions, setPositions] = useState<Position[]>([
-    createEmptyPosition(),
+    createEmptyPosition("USD"),
   ]);
   const [submitted, setSubmitted] = useState(false); // tracks whether user tried to submit
   const [hydrated, setHydrated] = useState(false);
@@ -105,6 +173,28 @@ function PortfolioPageInner() {
   const [showImportModal, setShowImportModal] = useState(false);
   const [importUrl, setImportUrl] = useState("");
   const [importError, setImportError] = useState("");
+  const [showCsvModal, setShowCsvModal] = useState(false);
+  const [csvFileName, setCsvFileName] = useState("");
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [csvRoles, setCsvRoles] = useState<CsvColumnRole[]>([]);
+  const [csvError, setCsvError] = useState("");
+  const [csvImporting, setCsvImporting] = useState(false);
+  const [csvReport, setCsvReport] = useState<CsvImportReport | null>(null);
+  const [showBrokerModal, setShowBrokerModal] = useState(false);
+  const [broker, setBroker] = useState<BrokerChoice>("auto");
+  const [brokerFileName, setBrokerFileName] = useState("");
+  const [brokerMode, setBrokerMode] = useState<"shares" | "amount">("shares");
+  const [brokerError, setBrokerError] = useState("");
+
+  /* ── Undo / redo (snapshots of the builder state, kept for the session) ── */
+  const [history, setHistory] = useState<UndoHistory<BuilderSnapshot>>(emptyHistory);
+  /** The state the next change is recorded against */
+  const committedRef = useRef<BuilderSnapshot | null>(null);
+  /** Last recorded edit, so typing into one field becomes a single step */
+  const lastEditRef = useRef<{ group: string | null; at: number }>({ group: null, at: 0 });
+  const historyPortfolioIdRef = useRef("");
+
+  const utils = api.useUtils();
 
   /* ── Securities list (cached in localStorage, fetched via getAll) ── */
   const [securities, setSecurities] = useState<SecurityResult[]>([]);
@@ -148,6 +238,7 @@ function PortfolioPageInner() {
           type: p.type,
         },
         value: scaled[i]!.toFixed(2),
+        currency: "EUR",
       }));
 
       nextId = id;
@@ -165,6 +256,16 @@ function PortfolioPageInner() {
     },
   });
 
+  const brokerPreview = api.securities.previewBrokerImport.useMutation({
+    onSuccess: (data) => {
+      // Share counts are valued from live prices; fall back to amounts when a row lacks them
+      setBrokerMode(data.positions.every((p) => p.quantity !== null && p.quantity > 0) ? "shares" : "amount");
+    },
+    onError: (err) => {
+      setBrokerError(err.message);
+    },
+  });
+
   // On mount: try localStorage cache first
   useEffect(() => {
     const cached = loadSecuritiesCache();
@@ -197,16 +298,109 @@ function PortfolioPageInner() {
       setPositions(data.positions);
       nextId = highestPositionId(data.positions) + 1;
     }
+    historyPortfolioIdRef.current = getActivePortfolioId();
+    setHistory(loadUndoHistory(historyPortfolioIdRef.current));
     setRedirecting(false);
     setHydrated(true);
   }, [router, searchParams]);
 
+  /** Replace the builder state without recording it as a change (undo, redo, switch) */
+  const applySnapshot = (snapshot: BuilderSnapshot) => {
+    committedRef.current = snapshot;
+    lastEditRef.current = { group: null, at: 0 };
+    setInputMode(snapshot.inputMode);
+    setCurrency(snapshot.currency);
+    setTotalPortfolioValue(snapshot.totalPortfolioValue);
+    setPositions(snapshot.positions);
+    nextId = Math.max(nextId, highestPositionId(snapshot.positions) + 1);
+  };
+
+  /* ─── Reload builder state after switching to another portfolio ─── */
+  const handlePortfolioSwitch = () => {
+    const data = loadPortfolio();
+    if (data) {
+      nextId = highestPositionId(data.positions) + 1;
+      applySnapshot({
+        inputMode: data.inputMode,
+        currency: data.currency,
+        totalPortfolioValue: data.totalPortfolioValue,
+        positions: data.positions,
+      });
+    } else {
+      nextId = 1;
+      applySnapshot({
+        inputMode: "amount",
+        currency: "USD",
+        totalPortfolioValue: "",
+        positions: [createEmptyPosition("USD")],
+      });
+    }
+    // Each portfolio has its own history
+    historyPortfolioIdRef.current = getActivePortfolioId();
+    setHistory(loadUndoHistory(historyPortfolioIdRef.current));
+    setSubmitted(false);
+  };
+
   /* ─── Save to localStorage whenever state changes ─── */
   useEffect(() => {
     if (!hydrated) return;
     savePortfolio({ inputMode, currency, totalPortfolioValue, positions });
   }, [inputMode, currency, totalPortfolioValue, positions, hydrated]);
 
+  /* ─── Record every change as an undo step ─── */
+  useEffect(() => {
+    if (!hydrated) return;
+    const snapshot: BuilderSnapshot = { inputMode, currency, totalPortfolioValue, positions };
+    const prev = committedRef.current;
+    committedRef.current = snapshot;
+    if (!prev || sameSnapshot(prev, snapshot)) return;
+
+    const group = editGroup(prev, snapshot);
+    const now = Date.now();
+    const grouped =
+      group !== null && group === lastEditRef.current.group && now - lastEditRef.current.at < HISTORY_GROUP_MS;
+    lastEditRef.current = { group, at: now };
+    if (!grouped) setHistory((h) => pushHistory(h, prev));
+  }, [inputMode, currency, totalPortfolioValue, positions, hydrated]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveUndoHistory(historyPortfolioIdRef.current, history);
+  }, [history, hydrated]);
+
+  const handleUndo = () => {
+    const step = undoHistory(history, { inputMode, currency, totalPortfolioValue, positions });
+    if (!step) return;
+    setHistory(step.history);
+    applySnapshot(step.state);
+  };
+
+  const handleRedo = () => {
+    const step = redoHistory(history, { inputMode, currency, totalPortfolioValue, positions });
+    if (!step) return;
+    setHistory(step.history);
+    applySnapshot(step.state);
+  };
+
+  /* ─── Keyboard shortcuts: Ctrl/⌘+Z, Ctrl/⌘+Shift+Z and Ctrl+Y ─── */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo
+      if ((e.target as HTMLElement | null)?.closest("input, textarea, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  });
+
   const currencySymbol = CURRENCIES.find((c) => c.value === currency)?.symbol ?? "$";
 
   /* ─── Helpers ─── */
@@ -217,7 +411,19 @@ function PortfolioPageInner() {
   };
 
   const addPosition = () => {
-    setPositions((prev) => [...prev, createEmptyPosition()]);
+    setPositions((prev) => [...prev, createEmptyPosition(currency)]);
+  };
+
+  /**
+   * Change the portfolio (reporting) currency. Positions still entered in the
+   * previous portfolio currency follow along; explicitly different ones keep
+   * their own currency and are converted on the overview.
+   */
+  const handleCurrencyChange = (next: string) => {
+    setPositions((prev) =>
+      prev.map((p) => (p.currency === currency ? { ...p, currency: next } : p)),
+    );
+    setCurrency(next);
   };
 
   const removePosition = (id: number) => {
@@ -288,7 +494,7 @@ function PortfolioPageInner() {
   const handleClearPortfolio = () => {
     clearPortfolio();
     nextId = 1;
-    setPositions([createEmptyPosition()]);
+    setPositions([createEmptyPosition("USD")]);
     setInputMode("amount");
     setCurrency("USD");
     setTotalPortfolioValue("");
@@ -306,6 +512,155 @@ function PortfolioPageInner() {
     importMutation.mutate({ url: trimmed });
   };
 
+  /* ─── CSV import / export ─── */
+  const openCsvModal = () => {
+    setShowCsvModal(true);
+    setCsvFileName("");
+    setCsvTable(null);
+    setCsvRoles([]);
+    setCsvError("");
+    setCsvReport(null);
+  };
+
+  const handleCsvFile = async (file: File) => {
+    setCsvError("");
+    setCsvReport(null);
+    setCsvFileName(file.name);
+    const table = parseCsv(await file.text());
+    if (table.headers.length === 0 || table.rows.length === 0) {
+      setCsvTable(null);
+      setCsvError("The file does not contain a header row and at least one data row.");
+      return;
+    }
+    setCsvTable(table);
+    setCsvRoles(detectColumnRoles(table.headers));
+  };
+
+  const handleCsvImport = async () => {
+    if (!csvTable) return;
+    const mode = inputModeForRoles(csvRoles);
+    const hasIdentifier = csvRoles.some((r) => r === "isin" || r === "ticker" || r === "name");
+    if (!hasIdentifier || !mode) {
+      setCsvError("Map at least one of ISIN, Ticker or Name, and one Amount, Percentage or Shares column.");
+      return;
+    }
+
+    setCsvError("");
+    setCsvImporting(true);
+    try {
+      const rows = extractPositionRows(csvTable, csvRoles);
+      const unmatched: CsvImportReport["unmatched"] = [];
+
+      // Resolve every row: local securities list first, then the search procedure
+      const resolved = await Promise.all(
+        rows.map(async (row) => {
+          if (row.value === null || row.value <= 0) {
+            unmatched.push({ ...row, reason: "Missing or invalid value" });
+            return null;
+          }
+          let match = pickSecurityMatch(row, securities);
+          if (!match) {
+            try {
+              const results = await utils.securities.search.fetch({
+                query: searchQueryForRow(row).slice(0, 100),
+              });
+              match = pickSecurityMatch(row, results);
+            } catch {
+              // treated as unmatched below
+            }
+          }
+          if (!match) {
+            unmatched.push({ ...row, reason: "No matching security found" });
+            return null;
+          }
+          return { row, security: match };
+        }),
+      );
+
+      const matched = resolved.filter((r) => r !== null);
+      if (matched.length > 0) {
+        let id = 1;
+        const importedPositions: Position[] = matched.map(({ row, security }) => ({
+          id: id++,
+          name: security.name,
+          isin: security.isin,
+          ticker: security.ticker,
+          security,
+          value: String(row.value),
+          currency: isSupportedCurrency(row.currency) ? row.currency : currency,
+        }));
+        nextId = id;
+        setPositions(importedPositions);
+        setInputMode(mode);
+        setTotalPortfolioValue("");
+        setSubmitted(false);
+      }
+
+      unmatched.sort((a, b) => a.line - b.line);
+      setCsvReport({ imported: matched.length, unmatched });
+    } finally {
+      setCsvImporting(false);
+    }
+  };
+
+  const handleCsvExport = () => {
+    const csv = portfolioToCsv({ inputMode, currency, totalPortfolioValue, positions });
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "seetf-portfolio.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /* ─── Broker statement import ─── */
+  const openBrokerModal = () => {
+    setShowBrokerModal(true);
+    setBrokerFileName("");
+    setBrokerError("");
+    brokerPreview.reset();
+  };
+
+  const handleBrokerFile = async (file: File) => {
+    setBrokerError("");
+    setBrokerFileName(file.name);
+    brokerPreview.reset();
+    brokerPreview.mutate({ broker, content: await file.text() });
+  };
+
+  const handleBrokerApply = () => {
+    const preview = brokerPreview.data;
+    if (!preview) return;
+    const usable = preview.positions.filter((p) => {
+      const v = brokerMode === "shares" ? p.quantity : p.value;
+      return v !== null && v > 0;
+    });
+    if (usable.length === 0) {
+      setBrokerError(
+        `None of the matched positions has ${brokerMode === "shares" ? "a share count" : "a value"}. Try the other mode.`,
+      );
+      return;
+    }
+
+    let id = 1;
+    const importedPositions: Position[] = usable.map((p) => ({
+      id: id++,
+      name: p.security.name,
+      isin: p.security.isin,
+      ticker: p.security.ticker,
+      security: p.security,
+      value: brokerMode === "shares" ? String(parseFloat(p.quantity!.toFixed(6))) : p.value!.toFixed(2),
+      currency: isSupportedCurrency(p.currency) ? p.currency : currency,
+      ...(p.transactions && p.transactions.length > 0 && { transactions: p.transactions }),
+    }));
+    nextId = id;
+    setPositions(importedPositions);
+    setInputMode(brokerMode);
+    setTotalPortfolioValue("");
+    setSubmitted(false);
+    setShowBrokerModal(false);
+  };
+
   /** Show field-level errors only after the user has tried to submit */
   const showErrors = submitted;
 
@@ -336,6 +691,7 @@ function PortfolioPageInner() {
               <h1 className="text-base font-bold text-white sm:text-xl">
                 Build Your Portfolio
               </h1>
+              <PortfolioSwitcher onSwitch={handlePortfolioSwitch} />
             </div>
 
             <div className="flex items-center gap-2 sm:gap-3">
@@ -354,6 +710,35 @@ function PortfolioPageInner() {
                 <span className="sm:hidden">Import</span>
               </button>
 
+              {/* ── CSV Import / Export ── */}
+              <button
+                type="button"
+                onClick={openCsvModal}
+                className="inline-flex h-9 items-center gap-1.5 rounded-lg border border-white/10 bg-gray-900 px-3 text-sm font-semibold text-gray-300 transition hover:border-emerald-500/30 hover:text-emerald-400"
+              >
+                <FileSpreadsheetIcon className="h-4 w-4" />
+                <span className="hidden sm:inline">Import CSV</span>
+              </button>
+              <button
+                type="button"
+                onClick={openBrokerModal}
+                className="inline-flex h-9 items-center gap-1.5 rounded-lg border border-white/10 bg-gray-900 px-3 text-sm font-semibold text-gray-300 transition hover:border-emerald-500/30 hover:text-emerald-400"
+                title="Import a DEGIRO, Interactive Brokers or Trading 212 statement"
+              >
+                <LandmarkIcon className="h-4 w-4" />
+                <span className="hidden sm:inline">Import from broker</span>
+              </button>
+              <button
+                type="button"
+                onClick={handleCsvExport}
+                disabled={!positions.some((p) => p.security)}
+                className="inline-flex h-9 items-center gap-1.5 rounded-lg border border-white/10 bg-gray-900 px-3 text-sm font-semibold text-gray-300 transition hover:border-emerald-500/30 hover:text-emerald-400 disabled:cursor-not-allowed disabled:opacity-40"
+                title="Export positions as CSV"
+              >
+                <UploadIcon className="h-4 w-4" />
+                <span className="hidden sm:inline">Export CSV</span>
+              </button>
+
               {/* ── Clear Portfolio ── */}
               <button
                 type="button"
@@ -396,13 +781,26 @@ function PortfolioPageInner() {
                 <span className="sm:hidden">%</span>
                 <span className="hidden sm:inline">Percentage</span>
               </button>
+              <button
+                type="button"
+                onClick={() => setInputMode("shares")}
+                className={`px-2.5 text-sm font-semibold transition sm:px-3 ${
+                  inputMode === "shares"
+                    ? "bg-emerald-500 text-gray-950"
+                    : "text-gray-400 hover:text-white hover:bg-white/5"
+                }`}
+                title="Enter share counts — valued from live prices on the overview"
+              >
+                <span className="sm:hidden">Qty</span>
+                <span className="hidden sm:inline">Shares</span>
+              </button>
             </div>
 
             {/* ── Currency Selector ── */}
             <CustomSelect
               options={CURRENCY_OPTIONS}
               value={currency}
-              onChange={setCurrency}
+              onChange={handleCurrencyChange}
               ariaLabel="Portfolio currency"
               className="w-28"
             />
@@ -427,6 +825,30 @@ function PortfolioPageInner() {
                 {totalPercentage.toFixed(2)}%
               </span>
             </div>
+
+            {/* ── Undo / Redo ── */}
+            <div className="ml-auto inline-flex h-9 shrink-0 overflow-hidden rounded-lg border border-white/10 bg-gray-900">
+              <button
+                type="button"
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                className="px-2.5 text-gray-400 transition hover:bg-white/5 hover:text-white disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+                title="Undo (Ctrl+Z / ⌘Z)"
+                aria-label="Undo"
+              >
+                <Undo2Icon className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                className="border-l border-white/10 px-2.5 text-gray-400 transition hover:bg-white/5 hover:text-white disabled:cursor-not-allowed disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+                title="Redo (Ctrl+Shift+Z / ⌘⇧Z)"
+                aria-label="Redo"
+              >
+                <Redo2Icon className="h-4 w-4" />
+              </button>
+            </div>
           </div>
         </div>
       </section>
@@ -554,32 +976,53 @@ function PortfolioPageInner() {
                 </div>
 
                 {/* Value input */}
-                <div className="flex w-full flex-col gap-1.5 sm:w-44">
+                <div
+                  className={`flex w-full flex-col gap-1.5 ${
+                    inputMode === "amount" ? "sm:w-64" : "sm:w-44"
+                  }`}
+                >
                   <label className="text-xs font-medium uppercase tracking-wider text-gray-500">
                     {inputMode === "amount"
-                      ? `Amount (${currency})`
-                      : "Allocation (%)"}
+                      ? `Amount (${pos.currency})`
+                      : inputMode === "shares"
+                        ? "Shares"
+                        : "Allocation (%)"}
                   </label>
-                  <div className="relative">
-                    <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">
-                      {inputMode === "amount" ? currencySymbol : "%"}
-                    </span>
-                    <input
-                      type="number"
-                      min="0"
-                      step="0.01"
-                      max={inputMode === "percentage" ? "100" : undefined}
-                      value={pos.value}
-                      onChange={(e) =>
-                        updatePosition(pos.id, { value: e.target.value })
-                      }
-                      placeholder={inputMode === "amount" ? "10000" : "25.00"}
-                      className={`h-10 w-full rounded-lg border ${
-                        showErrors && errs?.value
-                          ? "border-red-500/50 focus:border-red-500/70 focus:ring-red-500/30"
-                          : "border-white/10 focus:border-emerald-500/50 focus:ring-emerald-500/30"
-                      } bg-gray-800 pl-8 pr-3 text-sm text-white placeholder-gray-600 outline-none transition focus:ring-1`}
-                    />
+                  <div className="flex gap-2">
+                    {inputMode === "amount" && (
+                      <CustomSelect
+                        options={POSITION_CURRENCY_OPTIONS}
+                        value={pos.currency}
+                        onChange={(c) => updatePosition(pos.id, { currency: c })}
+                        ariaLabel={`Currency for position ${idx + 1}`}
+                        className="w-24 shrink-0"
+                      />
+                    )}
+                    <div className="relative min-w-0 flex-1">
+                      <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">
+                        {inputMode === "amount"
+                          ? (CURRENCY_SYMBOLS[pos.currency] ?? pos.currency)
+                          : inputMode === "shares"
+                            ? "#"
+                            : "%"}
+                      </span>
+                      <input
+                        type="number"
+                        min="0"
+                        step={inputMode === "shares" ? "any" : "0.01"}
+                        max={inputMode === "percentage" ? "100" : undefined}
+                        value={pos.value}
+                        onChange={(e) =>
+                          updatePosition(pos.id, { value: e.target.value })
+                        }
+                        placeholder={inputMode === "amount" ? "10000" : inputMode === "shares" ? "12" : "25.00"}
+                        className={`h-10 w-full rounded-lg border ${
+                          showErrors && errs?.value
+                            ? "border-red-500/50 focus:border-red-500/70 focus:ring-red-500/30"
+                            : "border-white/10 focus:border-emerald-500/50 focus:ring-emerald-500/30"
+                        } bg-gray-800 pl-8 pr-3 text-sm text-white placeholder-gray-600 outline-none transition focus:ring-1`}
+                      />
+                    </div>
                   </div>
                   {showErrors && errs?.value && (
                     <p className="text-xs text-red-400">{errs.value}</p>
@@ -662,7 +1105,7 @@ function PortfolioPageInner() {
               <h2 className="text-lg font-semibold text-white">Clear Portfolio</h2>
             </div>
             <p className="mb-6 text-sm leading-relaxed text-gray-400">
-              Are you sure you want to clear your portfolio? This action cannot be undone.
+              Are you sure you want to clear your portfolio? You can still bring it back with Undo during this session.
             </p>
             <div className="flex items-center justify-end gap-3">
               <button
@@ -799,6 +1242,375 @@ function PortfolioPageInner() {
           </div>
         </div>
       )}
+
+      {/* ─── CSV Import Modal ─── */}
+      {showCsvModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={() => {
+              if (!csvImporting) setShowCsvModal(false);
+            }}
+          />
+          {/* Dialog */}
+          <div className="relative z-10 mx-4 max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl border border-white/10 bg-gray-900 p-6 shadow-2xl shadow-black/50">
+            <div className="mb-4 flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-emerald-500/15">
+                <FileSpreadsheetIcon className="h-5 w-5 text-emerald-400" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">Import from CSV</h2>
+                <p className="text-xs text-gray-500">Spreadsheets and broker exports with ISIN, ticker or name columns</p>
+              </div>
+            </div>
+
+            {/* File picker */}
+            <label className="mb-4 flex cursor-pointer items-center gap-3 rounded-lg border border-dashed border-white/10 bg-gray-800/50 px-4 py-3 text-sm text-gray-400 transition hover:border-emerald-500/30 hover:text-emerald-400">
+              <UploadIcon className="h-4 w-4 shrink-0" />
+              <span className="truncate">{csvFileName || "Choose a .csv file…"}</span>
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                disabled={csvImporting}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void handleCsvFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+
+            {/* Column mapping */}
+            {csvTable && !csvReport && (
+              <div className="mb-4">
+                <p className="mb-2 text-xs font-medium uppercase tracking-wider text-gray-500">
+                  Column mapping ({csvTable.rows.length} {csvTable.rows.length === 1 ? "row" : "rows"})
+                </p>
+                <div className="custom-scrollbar overflow-x-auto rounded-lg border border-white/5">
+                  <table className="w-full text-left text-xs">
+                    <thead>
+                      <tr className="border-b border-white/5 bg-gray-800/60">
+                        {csvTable.headers.map((h, i) => (
+                          <th key={i} className="min-w-[8rem] px-2 py-2 align-top">
+                            <p className="mb-1.5 truncate font-semibold text-gray-300">{h || `Column ${i + 1}`}</p>
+                            <CustomSelect
+                              options={CSV_COLUMN_ROLE_OPTIONS}
+                              value={csvRoles[i] ?? "ignore"}
+                              onChange={(v) =>
+                                setCsvRoles((prev) => {
+                                  const next = [...prev];
+                                  const role = v as CsvColumnRole;
+                                  // Each role can only be mapped once; there is a single value column
+                                  for (let j = 0; j < next.length; j++) {
+                                    const clashes =
+                                      next[j] === role ||
+                                      (isValueRole(role) && isValueRole(next[j] ?? "ignore"));
+                                    if (j !== i && role !== "ignore" && clashes) next[j] = "ignore";
+                                  }
+                                  next[i] = role;
+                                  return next;
+                                })
+                              }
+                              ariaLabel={`Mapping for column ${h || i + 1}`}
+                              className="w-full"
+                            />
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/[0.03]">
+                      {csvTable.rows.slice(0, 3).map((row, r) => (
+                        <tr key={r}>
+                          {csvTable.headers.map((_, c) => (
+                            <td key={c} className="max-w-[12rem] truncate px-2 py-1.5 text-gray-400">
+                              {row[c] ?? ""}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Import report */}
+            {csvReport && (
+              <div className="mb-4 space-y-3">
+                <p className="text-sm text-gray-300">
+                  <span className="font-semibold text-emerald-400">{csvReport.imported}</span>{" "}
+                  {csvReport.imported === 1 ? "position" : "positions"} imported
+                  {csvReport.unmatched.length > 0 && (
+                    <>
+                      , <span className="font-semibold text-yellow-400">{csvReport.unmatched.length}</span>{" "}
+                      {csvReport.unmatched.length === 1 ? "row" : "rows"} skipped
+                    </>
+                  )}
+                  .
+                </p>
+                {csvReport.unmatched.length > 0 && (
+                  <div className="custom-scrollbar max-h-48 overflow-auto rounded-lg border border-yellow-500/20 bg-yellow-500/5">
+                    <table className="w-full text-left text-xs">
+                      <tbody className="divide-y divide-white/[0.03]">
+                        {csvReport.unmatched.map((row) => (
+                          <tr key={row.line}>
+                            <td className="whitespace-nowrap px-3 py-1.5 text-gray-500">Line {row.line}</td>
+                            <td className="max-w-[14rem] truncate px-3 py-1.5 text-gray-300">
+                              {row.name || row.ticker || row.isin}
+                              {row.isin && row.name && <span className="ml-1 font-mono text-gray-500">{row.isin}</span>}
+                            </td>
+                            <td className="whitespace-nowrap px-3 py-1.5 text-yellow-200/70">{row.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Warning */}
+            {csvTable && !csvReport && (
+              <div className="mb-5 flex items-start gap-2.5 rounded-lg border border-yellow-500/20 bg-yellow-500/5 px-3.5 py-2.5">
+                <AlertCircleIcon className="mt-0.5 h-4 w-4 shrink-0 text-yellow-500/70" />
+                <p className="text-xs leading-relaxed text-yellow-200/70">
+                  <span className="font-medium text-yellow-200/90">This will overwrite your current portfolio.</span>{" "}
+                  Matched rows replace all existing positions. Rows that cannot be matched to a security are listed afterwards.
+                </p>
+              </div>
+            )}
+
+            {/* Error message */}
+            {csvError && (
+              <div className="mb-4 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/5 px-3.5 py-2.5">
+                <AlertCircleIcon className="mt-0.5 h-4 w-4 shrink-0 text-red-400" />
+                <p className="text-xs leading-relaxed text-red-300">{csvError}</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setShowCsvModal(false)}
+                disabled={csvImporting}
+                className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm font-medium text-gray-300 transition hover:bg-white/10 hover:text-white disabled:opacity-50"
+              >
+                {csvReport ? "Close" : "Cancel"}
+              </button>
+              {!csvReport && (
+                <button
+                  type="button"
+                  onClick={() => void handleCsvImport()}
+                  disabled={csvImporting || !csvTable}
+                  className="inline-flex items-center gap-2 rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-gray-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {csvImporting ? (
+                    <>
+                      <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-900/30 border-t-gray-900" />
+                      Matching…
+                    </>
+                  ) : (
+                    <>
+                      <DownloadIcon className="h-4 w-4" />
+                      Import Positions
+                    </>
+                  )}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* ─── Broker Statement Import Modal ─── */}
+      {showBrokerModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          {/* Backdrop */}
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={() => {
+              if (!brokerPreview.isPending) setShowBrokerModal(false);
+            }}
+          />
+          {/* Dialog */}
+          <div className="relative z-10 mx-4 max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl border border-white/10 bg-gray-900 p-6 shadow-2xl shadow-black/50">
+            <div className="mb-4 flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-full bg-emerald-500/15">
+                <LandmarkIcon className="h-5 w-5 text-emerald-400" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-white">Import from broker</h2>
+                <p className="text-xs text-gray-500">DEGIRO portfolio CSV, Interactive Brokers Flex XML or Trading 212 history CSV</p>
+              </div>
+            </div>
+
+            {/* Broker + file picker */}
+            <div className="mb-4 flex flex-wrap items-center gap-3">
+              <CustomSelect
+                options={[...BROKER_OPTIONS]}
+                value={broker}
+                onChange={(v) => setBroker(v as BrokerChoice)}
+                ariaLabel="Broker"
+                className="w-full sm:w-64"
+              />
+              <label className="flex min-w-0 flex-1 cursor-pointer items-center gap-3 rounded-lg border border-dashed border-white/10 bg-gray-800/50 px-4 py-2.5 text-sm text-gray-400 transition hover:border-emerald-500/30 hover:text-emerald-400">
+                <UploadIcon className="h-4 w-4 shrink-0" />
+                <span className="truncate">{brokerFileName || "Choose a .csv or .xml statement…"}</span>
+                <input
+                  type="file"
+                  accept=".csv,.xml,text/csv,text/xml,application/xml,text/plain"
+                  className="hidden"
+                  disabled={brokerPreview.isPending}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void handleBrokerFile(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+
+            {brokerPreview.isPending && (
+              <div className="mb-4 flex items-center gap-2 text-sm text-gray-400">
+                <div className="h-4 w-4 animate-spin rounded-full border-2 border-gray-600 border-t-emerald-400" />
+                Reading statement and matching securities…
+              </div>
+            )}
+
+            {/* Preview */}
+            {brokerPreview.data && (
+              <div className="mb-4 space-y-3">
+                <p className="text-sm text-gray-300">
+                  {brokerPreview.data.broker.label}:{" "}
+                  <span className="font-semibold text-emerald-400">{brokerPreview.data.positions.length}</span>{" "}
+                  {brokerPreview.data.positions.length === 1 ? "position" : "positions"} matched
+                  {brokerPreview.data.unmatched.length > 0 && (
+                    <>
+                      , <span className="font-semibold text-yellow-400">{brokerPreview.data.unmatched.length}</span>{" "}
+                      {brokerPreview.data.unmatched.length === 1 ? "row" : "rows"} not imported
+                    </>
+                  )}
+                  .
+                </p>
+
+                {brokerPreview.data.positions.length > 0 && (
+                  <div className="custom-scrollbar max-h-64 overflow-auto rounded-lg border border-white/5">
+                    <table className="w-full text-left text-xs">
+                      <thead>
+                        <tr className="border-b border-white/5 bg-gray-800/60 text-gray-500">
+                          <th className="px-3 py-2 font-medium">Security</th>
+                          <th className="px-3 py-2 text-right font-medium">Shares</th>
+                          <th className="px-3 py-2 text-right font-medium">Value</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-white/[0.03]">
+                        {brokerPreview.data.positions.map((p) => (
+                          <tr key={p.line}>
+                            <td className="max-w-[16rem] truncate px-3 py-1.5 text-gray-300">
+                              {p.security.name}
+                              <span className="ml-1 font-mono text-gray-500">{p.security.isin || p.security.ticker}</span>
+                            </td>
+                            <td className="whitespace-nowrap px-3 py-1.5 text-right tabular-nums text-gray-400">
+                              {p.quantity !== null ? p.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 }) : "—"}
+                            </td>
+                            <td className="whitespace-nowrap px-3 py-1.5 text-right tabular-nums text-gray-400">
+                              {p.value !== null
+                                ? `${p.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${p.currency}`
+                                : "—"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {brokerPreview.data.unmatched.length > 0 && (
+                  <div className="custom-scrollbar max-h-48 overflow-auto rounded-lg border border-yellow-500/20 bg-yellow-500/5">
+                    <table className="w-full text-left text-xs">
+                      <tbody className="divide-y divide-white/[0.03]">
+                        {brokerPreview.data.unmatched.map((row) => (
+                          <tr key={`${row.line}-${row.label}`}>
+                            <td className="whitespace-nowrap px-3 py-1.5 text-gray-500">Line {row.line}</td>
+                            <td className="max-w-[14rem] truncate px-3 py-1.5 text-gray-300">{row.label}</td>
+                            <td className="whitespace-nowrap px-3 py-1.5 text-yellow-200/70">{row.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {brokerPreview.data.positions.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-xs font-medium uppercase tracking-wider text-gray-500">Import as</span>
+                    <div className="inline-flex h-8 shrink-0 overflow-hidden rounded-lg border border-white/10 bg-gray-900">
+                      {(["shares", "amount"] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => setBrokerMode(mode)}
+                          className={`px-3 text-xs font-semibold transition ${
+                            brokerMode === mode
+                              ? "bg-emerald-500 text-gray-950"
+                              : "text-gray-400 hover:bg-white/5 hover:text-white"
+                          }`}
+                        >
+                          {mode === "shares" ? "Shares" : "Amount"}
+                        </button>
+                      ))}
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {brokerMode === "shares" ? "Valued from live prices on the overview" : "Statement values as of the export"}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Warning */}
+            {brokerPreview.data && brokerPreview.data.positions.length > 0 && (
+              <div className="mb-5 flex items-start gap-2.5 rounded-lg border border-yellow-500/20 bg-yellow-500/5 px-3.5 py-2.5">
+                <AlertCircleIcon className="mt-0.5 h-4 w-4 shrink-0 text-yellow-500/70" />
+                <p className="text-xs leading-relaxed text-yellow-200/70">
+                  <span className="font-medium text-yellow-200/90">This will overwrite your current portfolio.</span>{" "}
+                  Matched positions replace all existing ones. Trade histories are kept as each position&apos;s transaction ledger.
+                </p>
+              </div>
+            )}
+
+            {/* Error message */}
+            {brokerError && (
+              <div className="mb-4 flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/5 px-3.5 py-2.5">
+                <AlertCircleIcon className="mt-0.5 h-4 w-4 shrink-0 text-red-400" />
+                <p className="text-xs leading-relaxed text-red-300">{brokerError}</p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setShowBrokerModal(false)}
+                disabled={brokerPreview.isPending}
+                className="rounded-lg border border-white/10 bg-white/5 px-4 py-2 text-sm font-medium text-gray-300 transition hover:bg-white/10 hover:text-white disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleBrokerApply}
+                disabled={brokerPreview.isPending || !brokerPreview.data?.positions.length}
+                className="inline-flex items-center gap-2 rounded-lg bg-emerald-500 px-4 py-2 text-sm font-semibold text-gray-950 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                <DownloadIcon className="h-4 w-4" />
+                Apply Import
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </main>
   );
 }
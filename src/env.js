@@ -8,6 +8,10 @@ export const env = createEnv({
    */
   server: {
     NODE_ENV: z.enum(["development", "test", "production"]),
+    CACHE_BACKEND: z.enum(["memory", "fs"]).default("memory"),
+    CACHE_DIR: z.string().default(".cache/seetf"),
+    CACHE_DIR_MAX_ENTRIES: z.coerce.number().int().positive().optional(),
+    ADMIN_TOKEN: z.string().min(16).optional(),
   },
 
   /**
@@ -25,6 +29,10 @@ export const env = createEnv({
    */
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
+    CACHE_BACKEND: process.env.CACHE_BACKEND,
+    CACHE_DIR: process.env.CACHE_DIR,
+    CACHE_DIR_MAX_ENTRIES: process.env.CACHE_DIR_MAX_ENTRIES,
+    ADMIN_TOKEN: process.env.ADMIN_TOKEN,
     // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
   },
   /**
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeBacktest,
+  convertSeries,
+  type PriceSeries,
+} from "~/lib/backtest";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Closes on the given UTC day numbers */
+function series(
+  key: string,
+  closes: Array<[day: number, close: number]>,
+): PriceSeries {
+  return {
+    key,
+    points: closes.map(([day, close]) => ({
+      t: day * DAY_MS + 16 * 60 * 60 * 1000,
+      close,
+    })),
+  };
+}
+
+describe("computeBacktest", () => {
+  it("buys each position at its weight on the first common day and holds", () => {
+    const result = computeBacktest(
+      [
+        series("A", [
+          [1, 10],
+          [2, 11],
+          [3, 12],
+        ]),
+        series("B", [
+          [1, 50],
+          [2, 50],
+          [3, 40],
+        ]),
+      ],
+      { A: 60, B: 40 },
+    );
+
+    expect(result.points.map((p) => p.value)).toEqual([100, 106, 104]);
+    expect(result.returnPct).toBeCloseTo(4);
+    expect(result.included).toEqual(["A", "B"]);
+    expect(result.missing).toEqual([]);
+  });
+
+  it("seeds a series without a close on the start day from its previous close", () => {
+    // B starts on day 3; A trades on another calendar and has no close that day
+    const result = computeBacktest(
+      [
+        series("A", [
+          [1, 10],
+          [2, 20],
+          [4, 22],
+        ]),
+        series("B", [
+          [3, 5],
+          [4, 5],
+        ]),
+      ],
+      { A: 1, B: 1 },
+    );
+
+    expect(result.points.map((p) => p.t / DAY_MS)).toEqual([3, 4]);
+    expect(result.points.every((p) => Number.isFinite(p.value))).toBe(true);
+    expect(result.points[0]!.value).toBeCloseTo(100);
+    // A is seeded at 20 (day 2) and rises 10%, B is flat
+    expect(result.points[1]!.value).toBeCloseTo(105);
+  });
+
+  it("forward-fills across holidays of one series", () => {
+    const result = computeBacktest(
+      [
+        series("A", [
+          [1, 10],
+          [3, 20],
+        ]),
+        series("B", [
+          [1, 10],
+          [2, 10],
+          [3, 10],
+        ]),
+      ],
+      { A: 1, B: 1 },
+    );
+
+    expect(result.points.map((p) => p.value)).toEqual([100, 100, 150]);
+  });
+
+  it("drops positions without history and rescales the rest", () => {
+    const result = computeBacktest(
+      [
+        series("A", [
+          [1, 10],
+          [2, 12],
+        ]),
+        series("B", [[1, 10]]),
+      ],
+      { A: 50, B: 25, C: 25 },
+    );
+
+    expect(result.included).toEqual(["A"]);
+    expect(result.missing).toEqual(["B", "C"]);
+    expect(result.returnPct).toBeCloseTo(20);
+  });
+
+  it("returns no points without usable series", () => {
+    expect(computeBacktest([], { A: 1 })).toEqual({
+      points: [],
+      returnPct: null,
+      included: [],
+      missing: ["A"],
+    });
+  });
+});
+
+describe("convertSeries", () => {
+  it("applies the latest rate on or before each day and drops closes before the first rate", () => {
+    const prices = series("A", [
+      [1, 10],
+      [2, 10],
+      [3, 10],
+      [5, 10],
+    ]).points;
+    const rates = series("USDEUR=X", [
+      [2, 0.9],
+      [3, 0.8],
+      [4, 0.85],
+    ]).points;
+
+    expect(
+      convertSeries(prices, rates).map((p) => [
+        Math.floor(p.t / DAY_MS),
+        p.close,
+      ]),
+    ).toEqual([
+      [2, 9],
+      [3, 8],
+      [5, 8.5],
+    ]);
+  });
+});
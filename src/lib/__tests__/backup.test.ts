@@ -0,0 +1,114 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { type PortfolioCollection } from "~/types/portfolio";
+import {
+  backupFileName,
+  createBackup,
+  diffCollections,
+  readBackup,
+} from "~/lib/backup";
+import { CURRENT_VERSION, normalizeCollection } from "~/lib/storage";
+
+const readFixture = (file: string) =>
+  readFileSync(new URL(`./fixtures/${file}`, import.meta.url), "utf8");
+
+const COLLECTION: PortfolioCollection = normalizeCollection(
+  JSON.parse(readFixture("storage-v4.json")),
+)!;
+
+describe("readBackup", () => {
+  it("round-trips a backup file", () => {
+    const now = new Date("2026-03-14T10:00:00Z");
+    const text = JSON.stringify(createBackup(COLLECTION, now));
+
+    expect(backupFileName(now)).toBe("seetf-backup-2026-03-14.json");
+    expect(readBackup(text)).toEqual({
+      ok: true,
+      collection: COLLECTION,
+      exportedAt: "2026-03-14T10:00:00.000Z",
+    });
+  });
+
+  it("accepts a bare collection from an older version", () => {
+    const result = readBackup(readFixture("storage-v2.json"));
+
+    expect(result.ok && result.collection.version).toBe(CURRENT_VERSION);
+    expect(result.ok && result.exportedAt).toBeNull();
+  });
+
+  it("rejects files from a newer version", () => {
+    const newer = "This backup was made by a newer version of SeeTF.";
+
+    expect(
+      readBackup(
+        JSON.stringify({ ...createBackup(COLLECTION), formatVersion: 2 }),
+      ),
+    ).toEqual({ ok: false, error: newer });
+    expect(
+      readBackup(
+        JSON.stringify(
+          createBackup({ ...COLLECTION, version: CURRENT_VERSION + 1 }),
+        ),
+      ),
+    ).toEqual({ ok: false, error: newer });
+    expect(
+      readBackup(
+        JSON.stringify({ ...COLLECTION, version: CURRENT_VERSION + 1 }),
+      ),
+    ).toEqual({ ok: false, error: newer });
+  });
+
+  it("rejects files that are not readable backups", () => {
+    expect(readBackup("{")).toEqual({
+      ok: false,
+      error: "The file is not valid JSON.",
+    });
+    expect(readBackup('{"hello": "world"}')).toEqual({
+      ok: false,
+      error: "The file is not a SeeTF backup.",
+    });
+    expect(
+      readBackup(
+        JSON.stringify(createBackup({ ...COLLECTION, portfolios: [] })),
+      ),
+    ).toEqual({
+      ok: false,
+      error: "The backup does not contain any readable portfolio.",
+    });
+  });
+});
+
+describe("diffCollections", () => {
+  it("lists added, removed and changed portfolios", () => {
+    const [home, work] = COLLECTION.portfolios;
+    const incoming: PortfolioCollection = {
+      ...COLLECTION,
+      activeId: home!.id,
+      portfolios: [
+        { ...home!, name: "House", costBasisMethod: "average" },
+        { ...home!, id: "pnew", name: "New" },
+      ],
+    };
+
+    expect(diffCollections(COLLECTION, incoming)).toEqual({
+      portfolios: [
+        {
+          id: home!.id,
+          name: "House",
+          change: "changed",
+          details: ["Renamed from “Home”", "Cost basis method changed"],
+        },
+        { id: "pnew", name: "New", change: "added", details: ["1 position"] },
+        {
+          id: work!.id,
+          name: "Work",
+          change: "removed",
+          details: ["1 position"],
+        },
+      ],
+      activeChanged: true,
+      hasChanges: true,
+    });
+    expect(diffCollections(COLLECTION, COLLECTION).hasChanges).toBe(false);
+  });
+});
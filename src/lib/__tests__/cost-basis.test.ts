@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { type Transaction } from "~/types/portfolio";
+import { computeCostBasis, sortTransactions } from "~/lib/cost-basis";
+
+let nextId = 0;
+function trade(
+  type: Transaction["type"],
+  date: string,
+  quantity: number,
+  price: number,
+  fees = 0,
+  currency = "EUR",
+): Transaction {
+  return { id: `t${nextId++}`, type, date, quantity, price, fees, currency };
+}
+
+// Entered out of order: the sale is replayed after both buys
+const LEDGER = [
+  trade("sell", "2024-03-01", 15, 130, 10),
+  trade("buy", "2024-01-01", 10, 100, 5),
+  trade("buy", "2024-02-01", 10, 120, 5),
+];
+
+describe("computeCostBasis", () => {
+  it("FIFO: sells the oldest shares first, fees included", () => {
+    const basis = computeCostBasis(LEDGER, "fifo", 140);
+
+    // Sold 10 @ 100.50 + 5 @ 120.50 = 1607.50 for 1950 − 10 fees
+    expect(basis.realizedGain).toBeCloseTo(332.5);
+    expect(basis.quantity).toBe(5);
+    expect(basis.costBasis).toBeCloseTo(602.5);
+    expect(basis.averageCost).toBeCloseTo(120.5);
+    expect(basis.marketValue).toBe(700);
+    expect(basis.unrealizedGain).toBeCloseTo(97.5);
+    expect(basis.unrealizedPct).toBeCloseTo((97.5 / 602.5) * 100);
+    expect(basis.fees).toBe(20);
+    expect(basis.oversold).toBe(false);
+  });
+
+  it("average cost: sells at the running average cost per share", () => {
+    const basis = computeCostBasis(LEDGER, "average", 140);
+
+    // 20 shares at 2210 / 20 = 110.50; 15 sold cost 1657.50
+    expect(basis.realizedGain).toBeCloseTo(282.5);
+    expect(basis.quantity).toBe(5);
+    expect(basis.costBasis).toBeCloseTo(552.5);
+    expect(basis.averageCost).toBeCloseTo(110.5);
+    expect(basis.unrealizedGain).toBeCloseTo(147.5);
+  });
+
+  it("both methods agree once everything is sold", () => {
+    const ledger = [...LEDGER, trade("sell", "2024-04-01", 5, 150)];
+    const fifo = computeCostBasis(ledger, "fifo", 150);
+    const average = computeCostBasis(ledger, "average", 150);
+
+    expect(fifo.quantity).toBe(0);
+    expect(fifo.costBasis).toBe(0);
+    expect(fifo.averageCost).toBeNull();
+    expect(fifo.realizedGain).toBeCloseTo(average.realizedGain);
+    // Total proceeds 1940 + 750 minus total cost 2210
+    expect(fifo.realizedGain).toBeCloseTo(480);
+  });
+
+  it("flags sales beyond the shares held and charges their fees pro rata", () => {
+    const basis = computeCostBasis(
+      [
+        trade("buy", "2024-01-01", 5, 10),
+        trade("sell", "2024-02-01", 8, 10, 8),
+      ],
+      "fifo",
+      10,
+    );
+
+    expect(basis.oversold).toBe(true);
+    expect(basis.quantity).toBe(0);
+    // 5 of 8 shares matched: proceeds 50 − 5 fees against a cost of 50
+    expect(basis.realizedGain).toBeCloseTo(-5);
+  });
+
+  it("converts trades into the reporting currency", () => {
+    const basis = computeCostBasis(
+      [trade("buy", "2024-01-01", 10, 100, 10, "USD")],
+      "fifo",
+      100,
+      (c) => (c === "USD" ? 0.9 : 1),
+    );
+
+    expect(basis.costBasis).toBeCloseTo(909);
+    expect(basis.fees).toBeCloseTo(9);
+    expect(basis.unrealizedGain).toBeCloseTo(91);
+  });
+
+  it("has no market value without a price", () => {
+    const basis = computeCostBasis(LEDGER, "fifo", null);
+
+    expect(basis.marketValue).toBeNull();
+    expect(basis.unrealizedGain).toBeNull();
+    expect(basis.unrealizedPct).toBeNull();
+  });
+});
+
+describe("sortTransactions", () => {
+  it("orders by date and keeps the entry order within a day", () => {
+    const first = trade("buy", "2024-05-01", 1, 1);
+    const second = trade("sell", "2024-05-01", 1, 1);
+    const earlier = trade("buy", "2024-04-01", 1, 1);
+
+    expect(sortTransactions([first, second, earlier])).toEqual([
+      earlier,
+      first,
+      second,
+    ]);
+  });
+});
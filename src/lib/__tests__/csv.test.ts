@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import { type Position, type SecurityResult } from "~/types/portfolio";
+import {
+  detectColumnRoles,
+  extractPositionRows,
+  inputModeForRoles,
+  parseCsv,
+  pickSecurityMatch,
+  portfolioToCsv,
+  searchQueryForRow,
+  type CsvPositionRow,
+} from "~/lib/csv";
+
+const VWCE: SecurityResult = {
+  ticker: "VWCE.DE",
+  isin: "IE00BK5BQT80",
+  name: "Vanguard FTSE All-World UCITS ETF (USD) Accumulating",
+  type: "etf",
+};
+const AAPL: SecurityResult = {
+  ticker: "AAPL",
+  isin: "",
+  name: "Apple Inc.",
+  type: "stock",
+};
+
+function position(security: SecurityResult, value: string): Position {
+  const { name, isin, ticker } = security;
+  return { id: 1, name, isin, ticker, security, value, currency: "EUR" };
+}
+
+function row(fields: Partial<CsvPositionRow>): CsvPositionRow {
+  return {
+    line: 2,
+    isin: "",
+    ticker: "",
+    name: "",
+    value: null,
+    currency: "",
+    ...fields,
+  };
+}
+
+describe("parseCsv", () => {
+  it("detects the delimiter and handles quotes, BOMs and blank lines", () => {
+    const table = parseCsv(
+      '﻿Name;Amount\r\n"Vanguard; All-World";"1.234,56"\r\n\r\n"He said ""hi""";5\n',
+    );
+
+    expect(table.headers).toEqual(["Name", "Amount"]);
+    expect(table.rows).toEqual([
+      ["Vanguard; All-World", "1.234,56"],
+      ['He said "hi"', "5"],
+    ]);
+  });
+
+  it("keeps newlines inside quoted fields", () => {
+    expect(parseCsv('a,b\n"line 1\nline 2",x').rows).toEqual([
+      ["line 1\nline 2", "x"],
+    ]);
+  });
+});
+
+describe("detectColumnRoles", () => {
+  it("maps known headers and keeps only the first value column", () => {
+    const roles = detectColumnRoles([
+      "Product",
+      "ISIN",
+      "Symbol",
+      "Anzahl",
+      "Marktwert",
+      "Währung",
+      "Notes",
+    ]);
+
+    expect(roles).toEqual([
+      "name",
+      "isin",
+      "ticker",
+      "shares",
+      "ignore",
+      "currency",
+      "ignore",
+    ]);
+    expect(inputModeForRoles(roles)).toBe("shares");
+    expect(inputModeForRoles(["name", "ignore"])).toBeNull();
+  });
+});
+
+describe("extractPositionRows", () => {
+  it("applies the mapping, parses values and skips rows without identifiers", () => {
+    const table = parseCsv(
+      'ISIN,Ticker,Weight,Currency\nie00bk5bqt80,VWCE,"12,5 %",eur\n,,30,USD\n,AAPL,,usd',
+    );
+
+    expect(
+      extractPositionRows(table, detectColumnRoles(table.headers)),
+    ).toEqual([
+      row({
+        isin: "IE00BK5BQT80",
+        ticker: "VWCE",
+        value: 12.5,
+        currency: "EUR",
+      }),
+      row({ line: 4, ticker: "AAPL", currency: "USD" }),
+    ]);
+  });
+});
+
+describe("searchQueryForRow", () => {
+  it("prefers a valid ISIN, then the ticker, then the name", () => {
+    expect(
+      searchQueryForRow(row({ isin: "IE00BK5BQT80", ticker: "VWCE" })),
+    ).toBe("IE00BK5BQT80");
+    expect(searchQueryForRow(row({ isin: "N/A", ticker: "VWCE" }))).toBe(
+      "VWCE",
+    );
+    expect(searchQueryForRow(row({ name: "Apple" }))).toBe("Apple");
+  });
+});
+
+describe("pickSecurityMatch", () => {
+  it("matches by ISIN, exact ticker, ticker without suffix, then name", () => {
+    expect(pickSecurityMatch(row({ isin: VWCE.isin }), [AAPL, VWCE])).toBe(
+      VWCE,
+    );
+    expect(pickSecurityMatch(row({ ticker: "aapl" }), [VWCE, AAPL])).toBe(AAPL);
+    expect(pickSecurityMatch(row({ ticker: "VWCE.AS" }), [AAPL, VWCE])).toBe(
+      VWCE,
+    );
+    expect(pickSecurityMatch(row({ name: "apple inc." }), [VWCE, AAPL])).toBe(
+      AAPL,
+    );
+    expect(pickSecurityMatch(row({ name: "Tesla" }), [VWCE, AAPL])).toBeNull();
+  });
+
+  it("fills in the row's ISIN for results without one", () => {
+    expect(
+      pickSecurityMatch(row({ isin: "US0378331005", ticker: "AAPL" }), [AAPL]),
+    ).toEqual({ ...AAPL, isin: "US0378331005" });
+    // A single result for an ISIN query is accepted even without a match
+    expect(
+      pickSecurityMatch(row({ isin: "US0378331005" }), [
+        { ...AAPL, ticker: "APC.F" },
+      ])?.isin,
+    ).toBe("US0378331005");
+  });
+});
+
+describe("portfolioToCsv", () => {
+  it("writes a header named after the input mode and skips unresolved rows", () => {
+    const csv = portfolioToCsv({
+      inputMode: "percentage",
+      currency: "EUR",
+      totalPortfolioValue: "",
+      positions: [
+        position(VWCE, "60"),
+        { ...position(AAPL, "40"), security: null },
+      ],
+    });
+
+    expect(csv).toBe(
+      "ISIN,Ticker,Name,Type,Percentage,Currency\n" +
+        "IE00BK5BQT80,VWCE.DE,Vanguard FTSE All-World UCITS ETF (USD) Accumulating,etf,60,EUR\n",
+    );
+  });
+
+  it("round-trips through the parser and column detection", () => {
+    const csv = portfolioToCsv({
+      inputMode: "amount",
+      currency: "EUR",
+      totalPortfolioValue: "",
+      positions: [position({ ...AAPL, name: 'Apple, "Inc."' }, "1500.5")],
+    });
+    const table = parseCsv(csv);
+
+    expect(
+      extractPositionRows(table, detectColumnRoles(table.headers)),
+    ).toEqual([
+      row({
+        ticker: "AAPL",
+        name: 'Apple, "Inc."',
+        value: 1500.5,
+        currency: "EUR",
+      }),
+    ]);
+  });
+
+  it("prefixes cells that would start a spreadsheet formula", () => {
+    const csv = portfolioToCsv({
+      inputMode: "amount",
+      currency: "EUR",
+      totalPortfolioValue: "",
+      positions: [
+        position({ ...AAPL, name: '=HYPERLINK("http://x","y")' }, "-5"),
+        position({ ...AAPL, name: "+1 Fund" }, "10"),
+        position({ ...AAPL, name: "@SUM(A1)" }, "10"),
+        position({ ...AAPL, name: "-Short" }, "10"),
+      ],
+    });
+    const names = parseCsv(csv).rows.map((r) => r[2]);
+
+    expect(names).toEqual([
+      `'=HYPERLINK("http://x","y")`,
+      "'+1 Fund",
+      "'@SUM(A1)",
+      "'-Short",
+    ]);
+    // Plain numbers are left alone
+    expect(parseCsv(csv).rows[0]![4]).toBe("-5");
+  });
+});
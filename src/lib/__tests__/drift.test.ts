@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { type DriftSettings } from "~/types/portfolio";
+import {
+  DEFAULT_DRIFT_SETTINGS,
+  checkDrift,
+  driftBand,
+  evaluateExposureDrift,
+} from "~/lib/drift";
+
+describe("driftBand", () => {
+  it("uses the tighter of the absolute and relative bands", () => {
+    // 5/25 rule: ±5pp, or ±25% of the target when that is tighter
+    expect(driftBand(40, DEFAULT_DRIFT_SETTINGS)).toEqual({
+      lower: 35,
+      upper: 45,
+    });
+    expect(driftBand(20, DEFAULT_DRIFT_SETTINGS)).toEqual({
+      lower: 15,
+      upper: 25,
+    });
+    expect(driftBand(8, DEFAULT_DRIFT_SETTINGS)).toEqual({
+      lower: 6,
+      upper: 10,
+    });
+  });
+
+  it("never goes below zero and can use a single band", () => {
+    expect(driftBand(2, { absolutePp: 5, relativePct: null })).toEqual({
+      lower: 0,
+      upper: 7,
+    });
+    expect(driftBand(40, { absolutePp: null, relativePct: 10 })).toEqual({
+      lower: 36,
+      upper: 44,
+    });
+  });
+
+  it("returns null when both bands are off", () => {
+    expect(driftBand(40, { absolutePp: null, relativePct: null })).toBeNull();
+  });
+});
+
+describe("checkDrift", () => {
+  it("flags weights outside the band only", () => {
+    expect(
+      checkDrift("position", "1", "VWRL", 44, 40, DEFAULT_DRIFT_SETTINGS),
+    ).toBeNull();
+    expect(
+      checkDrift("position", "1", "VWRL", 45, 40, DEFAULT_DRIFT_SETTINGS),
+    ).toBeNull();
+    expect(
+      checkDrift("position", "1", "VWRL", 46, 40, DEFAULT_DRIFT_SETTINGS),
+    ).toEqual({
+      kind: "position",
+      key: "1",
+      name: "VWRL",
+      current: 46,
+      target: 40,
+      lower: 35,
+      upper: 45,
+      drift: 6,
+    });
+    expect(
+      checkDrift("position", "2", "IEAC", 5, 8, DEFAULT_DRIFT_SETTINGS)?.drift,
+    ).toBe(-3);
+  });
+
+  it("tolerates float noise at the band edge", () => {
+    expect(
+      checkDrift(
+        "position",
+        "1",
+        "A",
+        0.1 + 0.2 + 44.7,
+        40,
+        DEFAULT_DRIFT_SETTINGS,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("evaluateExposureDrift", () => {
+  const settings: DriftSettings = {
+    ...DEFAULT_DRIFT_SETTINGS,
+    exposureTargets: [
+      { dimension: "country", name: "united states ", target: 60 },
+      { dimension: "country", name: "Japan", target: 6 },
+      { dimension: "sector", name: "Technology", target: 30 },
+    ],
+  };
+
+  it("matches buckets by name and sorts by the largest drift", () => {
+    const alerts = evaluateExposureDrift(
+      {
+        country: [
+          { name: "United States", weight: 66 },
+          { name: "Japan", weight: 5 },
+        ],
+        sector: [],
+      },
+      settings,
+    );
+
+    // Japan (5% vs 4.5–7.5%) is inside its band; a missing sector counts as 0%
+    expect(alerts.map((a) => [a.kind, a.name, a.drift])).toEqual([
+      ["sector", "Technology", -30],
+      ["country", "united states ", 6],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { type ExposureRule } from "~/types/portfolio";
+import {
+  RULE_PRESETS,
+  evaluateRule,
+  evaluateRules,
+  limitStatus,
+  type RuleExposure,
+} from "~/lib/exposure-rules";
+
+function rule(fields: Partial<ExposureRule>): ExposureRule {
+  return {
+    id: "r1",
+    label: "",
+    scope: "holding",
+    match: [],
+    min: null,
+    max: null,
+    warnPp: 0,
+    ...fields,
+  };
+}
+
+const HOLDINGS: RuleExposure[] = [
+  {
+    name: "Apple Inc",
+    isin: "US0378331005",
+    ticker: "AAPL",
+    weight: 6,
+    sources: [
+      { label: "VWRL", weight: 2.5 },
+      { label: "AAPL", weight: 3.5 },
+    ],
+  },
+  { name: "Microsoft Corp", ticker: "MSFT", weight: 4.5 },
+  { name: "Nvidia Corp", weight: 3 },
+  { name: "Other", weight: 40 },
+];
+
+describe("limitStatus", () => {
+  it("fails beyond a limit and warns within warnPp of it", () => {
+    const limits = { min: 10, max: 15, warnPp: 1 };
+
+    expect(limitStatus(12, limits)).toBe("pass");
+    expect(limitStatus(14.5, limits)).toBe("warn");
+    expect(limitStatus(15, limits)).toBe("warn");
+    expect(limitStatus(15.1, limits)).toBe("fail");
+    expect(limitStatus(10.5, limits)).toBe("warn");
+    expect(limitStatus(9.9, limits)).toBe("fail");
+  });
+});
+
+describe("evaluateRule", () => {
+  it("checks every bucket without a match list, ignoring Other", () => {
+    const result = evaluateRule(rule({ max: 5, warnPp: 1 }), HOLDINGS);
+
+    expect(result.status).toBe("fail");
+    expect(result.value).toBe(6);
+    expect(result.offenders).toEqual([
+      {
+        name: "Apple Inc",
+        weight: 6,
+        sources: [
+          { label: "AAPL", weight: 3.5 },
+          { label: "VWRL", weight: 2.5 },
+        ],
+      },
+      { name: "Microsoft Corp", weight: 4.5, sources: [] },
+    ]);
+  });
+
+  it("sums the buckets matched by name, ISIN or ticker", () => {
+    const result = evaluateRule(
+      rule({ match: [" msft", "US0378331005"], max: 12, warnPp: 2 }),
+      HOLDINGS,
+    );
+
+    expect(result.value).toBe(10.5);
+    expect(result.status).toBe("warn");
+    expect(result.offenders.map((o) => o.name)).toEqual([
+      "Apple Inc",
+      "Microsoft Corp",
+    ]);
+  });
+
+  it("fails a minimum when nothing matches and reports no offenders on pass", () => {
+    const emerging = RULE_PRESETS[1]!;
+    const countries = [
+      { name: "United States", weight: 60 },
+      { name: "China", weight: 3 },
+    ];
+
+    expect(evaluateRule({ id: "em", ...emerging }, countries)).toMatchObject({
+      status: "fail",
+      value: 3,
+    });
+    expect(
+      evaluateRule(rule({ scope: "country", match: ["Japan"], min: 0 }), []),
+    ).toMatchObject({ status: "pass", value: 0, offenders: [] });
+  });
+});
+
+describe("evaluateRules", () => {
+  it("checks each rule against its scope, failures first", () => {
+    const results = evaluateRules(
+      [
+        rule({ id: "tech", scope: "sector", match: ["Technology"], max: 30 }),
+        rule({ id: "single", max: 5 }),
+      ],
+      {
+        holding: HOLDINGS,
+        country: [],
+        sector: [{ name: "Technology", weight: 25 }],
+      },
+    );
+
+    expect(results.map((r) => [r.rule.id, r.status])).toEqual([
+      ["single", "fail"],
+      ["tech", "pass"],
+    ]);
+  });
+});
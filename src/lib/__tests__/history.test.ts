@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { type Position } from "~/types/portfolio";
+import {
+  HISTORY_LIMIT,
+  editGroup,
+  emptyHistory,
+  pushHistory,
+  redoHistory,
+  sameSnapshot,
+  undoHistory,
+  type BuilderSnapshot,
+} from "~/lib/history";
+
+function position(id: number, fields: Partial<Position> = {}): Position {
+  return {
+    id,
+    name: "",
+    isin: "",
+    ticker: "",
+    security: null,
+    value: "",
+    currency: "EUR",
+    ...fields,
+  };
+}
+
+function snapshot(
+  positions: Position[],
+  fields: Partial<BuilderSnapshot> = {},
+): BuilderSnapshot {
+  return {
+    inputMode: "amount",
+    currency: "EUR",
+    totalPortfolioValue: "",
+    positions,
+    ...fields,
+  };
+}
+
+describe("undo / redo", () => {
+  it("walks back and forth through the recorded states", () => {
+    let history = pushHistory(emptyHistory<string>(), "a");
+    history = pushHistory(history, "b");
+
+    const undo1 = undoHistory(history, "c")!;
+    expect(undo1.state).toBe("b");
+    const undo2 = undoHistory(undo1.history, undo1.state)!;
+    expect(undo2.state).toBe("a");
+    expect(undoHistory(undo2.history, undo2.state)).toBeNull();
+
+    const redo = redoHistory(undo2.history, undo2.state)!;
+    expect(redo.state).toBe("b");
+    expect(redo.history).toEqual({ past: ["a"], future: ["c"] });
+  });
+
+  it("clears the redo steps on a new edit", () => {
+    const undone = undoHistory(pushHistory(emptyHistory<string>(), "a"), "b")!;
+    expect(undone.history.future).toEqual(["b"]);
+
+    expect(pushHistory(undone.history, "a")).toEqual({
+      past: ["a"],
+      future: [],
+    });
+    expect(redoHistory(emptyHistory<string>(), "a")).toBeNull();
+  });
+
+  it("keeps at most HISTORY_LIMIT steps, dropping the oldest", () => {
+    let history = emptyHistory<number>();
+    for (let i = 0; i < HISTORY_LIMIT + 5; i++) {
+      history = pushHistory(history, i);
+    }
+
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0]).toBe(5);
+    expect(history.past.at(-1)).toBe(HISTORY_LIMIT + 4);
+  });
+});
+
+describe("sameSnapshot", () => {
+  it("compares positions by content", () => {
+    const a = snapshot([position(1, { value: "10" })]);
+
+    expect(sameSnapshot(a, snapshot([position(1, { value: "10" })]))).toBe(
+      true,
+    );
+    expect(sameSnapshot(a, snapshot([position(1, { value: "11" })]))).toBe(
+      false,
+    );
+    expect(sameSnapshot(a, { ...a, totalPortfolioValue: "5" })).toBe(false);
+  });
+});
+
+describe("editGroup", () => {
+  const base = snapshot([position(1, { value: "1" }), position(2)]);
+
+  it("groups typing in one value or target field", () => {
+    expect(
+      editGroup(base, snapshot([position(1, { value: "10" }), position(2)])),
+    ).toBe("value:1");
+    expect(
+      editGroup(
+        base,
+        snapshot([position(1, { value: "1" }), position(2, { target: "5" })]),
+      ),
+    ).toBe("target:2");
+    expect(editGroup(base, { ...base, totalPortfolioValue: "100" })).toBe(
+      "total",
+    );
+  });
+
+  it("makes larger changes a step of their own", () => {
+    // Two positions at once
+    expect(
+      editGroup(
+        base,
+        snapshot([position(1, { value: "2" }), position(2, { value: "3" })]),
+      ),
+    ).toBeNull();
+    // Two fields of one position
+    expect(
+      editGroup(
+        base,
+        snapshot([position(1, { value: "2", target: "5" }), position(2)]),
+      ),
+    ).toBeNull();
+    // Picking a currency, adding a row, switching mode
+    expect(
+      editGroup(
+        base,
+        snapshot([position(1, { value: "1", currency: "USD" }), position(2)]),
+      ),
+    ).toBeNull();
+    expect(
+      editGroup(base, snapshot([...base.positions, position(3)])),
+    ).toBeNull();
+    expect(editGroup(base, { ...base, inputMode: "percentage" })).toBeNull();
+    // The total together with a position
+    expect(
+      editGroup(base, {
+        ...snapshot([position(1, { value: "2" }), position(2)]),
+        totalPortfolioValue: "100",
+      }),
+    ).toBeNull();
+  });
+});
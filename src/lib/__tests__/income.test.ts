@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  isDistributing,
+  payoutMonths,
+  payoutsPerYear,
+  projectIncome,
+  type IncomeInput,
+} from "~/lib/income";
+
+function fund(fields: Partial<IncomeInput>): IncomeInput {
+  return {
+    key: "k",
+    name: "Fund",
+    value: null,
+    weight: 0,
+    policy: "Distributing",
+    yieldPct: null,
+    frequency: "",
+    ...fields,
+  };
+}
+
+describe("policy and frequency", () => {
+  it("recognises distributing funds", () => {
+    expect(isDistributing("Distributing")).toBe(true);
+    expect(isDistributing("Dividend")).toBe(true);
+    expect(isDistributing("Accumulating")).toBe(false);
+    expect(isDistributing("Capitalisation")).toBe(false);
+    expect(isDistributing("")).toBe(false);
+  });
+
+  it("maps displayed frequencies to payouts per year", () => {
+    expect(payoutsPerYear("Monthly")).toBe(12);
+    expect(payoutsPerYear("Quarterly")).toBe(4);
+    expect(payoutsPerYear("Semi-annually")).toBe(2);
+    expect(payoutsPerYear("Twice a year")).toBe(2);
+    expect(payoutsPerYear("Annually")).toBe(1);
+    expect(payoutsPerYear("Irregular")).toBeNull();
+  });
+
+  it("spaces payouts evenly, ending in December", () => {
+    expect(payoutMonths(1)).toEqual([11]);
+    expect(payoutMonths(2)).toEqual([5, 11]);
+    expect(payoutMonths(4)).toEqual([2, 5, 8, 11]);
+    expect(payoutMonths(12)).toHaveLength(12);
+  });
+});
+
+describe("projectIncome", () => {
+  it("projects annual and monthly income for distributing funds only", () => {
+    const projection = projectIncome([
+      fund({
+        key: "VWRL",
+        value: 10_000,
+        weight: 0.5,
+        yieldPct: 2,
+        frequency: "Quarterly",
+      }),
+      fund({
+        key: "IEAC",
+        value: 8_000,
+        weight: 0.4,
+        yieldPct: 3,
+        frequency: "Semi-annually",
+      }),
+      fund({ key: "VWCE", value: 2_000, weight: 0.1, policy: "Accumulating" }),
+    ]);
+
+    expect(projection.rows.map((r) => [r.key, r.annualIncome])).toEqual([
+      ["IEAC", 240],
+      ["VWRL", 200],
+    ]);
+    expect(projection.totalAnnual).toBe(440);
+    expect(projection.portfolioYieldPct).toBeCloseTo(2.2);
+    expect(projection.monthly).toEqual([
+      0, 0, 50, 0, 0, 170, 0, 0, 50, 0, 0, 170,
+    ]);
+  });
+
+  it("assumes one payout when the frequency is unknown", () => {
+    const [row] = projectIncome([
+      fund({ value: 1_000, weight: 1, yieldPct: 4, frequency: "" }),
+    ]).rows;
+
+    expect(row).toMatchObject({
+      payoutsPerYear: 1,
+      frequencyAssumed: true,
+      annualIncome: 40,
+    });
+    expect(row!.monthly[11]).toBe(40);
+  });
+
+  it("has no amounts when only weights are known, but still a yield", () => {
+    const projection = projectIncome([
+      fund({ key: "a", weight: 0.6, yieldPct: 1, frequency: "Annually" }),
+      fund({ key: "b", weight: 0.4, yieldPct: 5, frequency: "Annually" }),
+    ]);
+
+    expect(projection.totalAnnual).toBeNull();
+    expect(projection.rows.map((r) => r.key)).toEqual(["b", "a"]);
+    expect(projection.portfolioYieldPct).toBeCloseTo(2.6);
+    expect(projection.monthly.every((m) => m === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  moneyAmountValue,
+  parseDisplayNumber,
+  parseLocaleNumber,
+  parseMoneyAmount,
+} from "~/lib/number";
+
+describe("parseLocaleNumber", () => {
+  it.each([
+    ["0,123", 0.123],
+    ["-0,123", -0.123],
+    ["1,234", 1234],
+    ["1,234,567", 1234567],
+    ["12,5", 12.5],
+    ["1234,5", 1234.5],
+    ["1.234,56", 1234.56],
+    ["1,234.56", 1234.56],
+    ["1.234.567", 1234567],
+    ["12.5 %", 12.5],
+    ["€ 10 000", 10000],
+    ["1'234.5", 1234.5],
+  ])("%s → %d", (raw, expected) => {
+    expect(parseLocaleNumber(raw)).toBe(expected);
+  });
+
+  it("returns null without digits", () => {
+    expect(parseLocaleNumber("")).toBeNull();
+    expect(parseLocaleNumber("n/a")).toBeNull();
+  });
+});
+
+describe("parseDisplayNumber", () => {
+  it("isolates the signed number from surrounding text", () => {
+    expect(parseDisplayNumber("0.20% p.a.")).toBe(0.2);
+    expect(parseDisplayNumber("−3,5 %")).toBe(-3.5);
+    expect(parseDisplayNumber("+12.34%")).toBe(12.34);
+    expect(parseDisplayNumber("1,234, then more")).toBe(1234);
+    expect(parseDisplayNumber("-")).toBeNull();
+    expect(parseDisplayNumber(undefined)).toBeNull();
+  });
+});
+
+describe("parseMoneyAmount", () => {
+  it("reads amount, currency and unit", () => {
+    const fundSize = parseMoneyAmount("EUR 110,458 m");
+    expect(fundSize).toEqual({ amount: 110458, currency: "EUR", unit: "m" });
+    expect(moneyAmountValue(fundSize!)).toBe(110_458_000_000);
+    expect(parseMoneyAmount("USD 1.2 bn")).toEqual({
+      amount: 1.2,
+      currency: "USD",
+      unit: "bn",
+    });
+    expect(parseMoneyAmount("2.345 Mio. €")).toEqual({
+      amount: 2.345,
+      currency: "EUR",
+      unit: "m",
+    });
+  });
+});
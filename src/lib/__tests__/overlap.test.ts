@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  holdingsOverlap,
+  overlapMatrix,
+  type WeightedHolding,
+} from "~/lib/overlap";
+
+const WORLD: WeightedHolding[] = [
+  { name: "Apple Inc", isin: "US0378331005", weight: 5 },
+  { name: "Microsoft Corp", ticker: "MSFT", weight: 4 },
+  { name: "Alphabet Inc Class A", isin: "US02079K3059", weight: 2 },
+  { name: "Nestle", weight: 2 },
+  { name: "Other", weight: 87 },
+];
+
+const US: WeightedHolding[] = [
+  { name: "APPLE INC", isin: "US0378331005", weight: 3 },
+  { name: "MICROSOFT CORP", ticker: "MSFT.MX", weight: 6 },
+  { name: "Alphabet Inc Class C", isin: "US02079K1079", weight: 2 },
+  { name: "NESTLE SA", weight: 1 },
+  { name: "Toyota Motor Corp", weight: 2 },
+  { name: "Others", weight: 86 },
+];
+
+describe("holdingsOverlap", () => {
+  it("sums the smaller weight of every holding both funds share", () => {
+    const { overlapPct, common } = holdingsOverlap(WORLD, US);
+
+    expect(overlapPct).toBe(8);
+    expect(common).toEqual([
+      { name: "Microsoft Corp", weights: [4, 6], matchedBy: "ticker" },
+      { name: "Apple Inc", weights: [5, 3], matchedBy: "isin" },
+      { name: "Nestle", weights: [2, 1], matchedBy: "name" },
+    ]);
+  });
+
+  it("keeps share classes with different ISINs apart and skips Other", () => {
+    const { common } = holdingsOverlap(WORLD, US);
+
+    expect(common.some((c) => c.name.startsWith("Alphabet"))).toBe(false);
+    expect(common.some((c) => c.name.startsWith("Other"))).toBe(false);
+  });
+
+  it("adds up duplicate lines of the same security within a fund", () => {
+    const { overlapPct, common } = holdingsOverlap(
+      [
+        { name: "Samsung Electronics Co Ltd", isin: "KR7005930003", weight: 1 },
+        { name: "SAMSUNG ELECTRONICS", isin: "KR7005930003", weight: 1.5 },
+      ],
+      [{ name: "Samsung Electronics", weight: 4 }],
+    );
+
+    expect(overlapPct).toBe(2.5);
+    expect(common[0]?.weights).toEqual([2.5, 4]);
+  });
+});
+
+describe("overlapMatrix", () => {
+  it("is symmetric with 100 on the diagonal for funds with holdings", () => {
+    const full = WORLD.filter((h) => h.name !== "Other");
+    const matrix = overlapMatrix([full, US, []]);
+
+    expect(matrix).toEqual([
+      [100, 8, 0],
+      [8, 100, 0],
+      [0, 0, 0],
+    ]);
+  });
+});
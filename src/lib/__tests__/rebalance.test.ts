@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { computeRebalance, type RebalanceInput } from "~/lib/rebalance";
+
+const NO_OPTIONS = { contribution: 0, allowSell: false, minTrade: 0 };
+
+function position(
+  id: number,
+  value: number,
+  targetPct: number | null,
+  price: number | null = null,
+): RebalanceInput {
+  return { id, value, targetPct, price };
+}
+
+describe("computeRebalance", () => {
+  it("moves every targeted position to its target when selling is allowed", () => {
+    const result = computeRebalance(
+      [position(1, 600, 50), position(2, 400, 50)],
+      { ...NO_OPTIONS, allowSell: true },
+    );
+
+    expect(result.trades.map((t) => [t.id, t.amount, t.targetValue])).toEqual([
+      [1, -100, 500],
+      [2, 100, 500],
+    ]);
+    expect(result.trades.map((t) => t.afterPct)).toEqual([50, 50]);
+    expect(result.totalTargetPct).toBe(100);
+    expect(result.unallocatedCash).toBe(0);
+  });
+
+  it("buy-only: invests new cash into the shortfalls and never sells", () => {
+    const result = computeRebalance(
+      [position(1, 600, 50), position(2, 300, 50)],
+      {
+        ...NO_OPTIONS,
+        contribution: 100,
+      },
+    );
+
+    expect(result.trades.map((t) => t.amount)).toEqual([0, 100]);
+    expect(result.trades.map((t) => t.afterPct)).toEqual([60, 40]);
+    expect(result.unallocatedCash).toBe(0);
+  });
+
+  it("buy-only: splits cash by shortfall when it cannot close every gap", () => {
+    const result = computeRebalance(
+      [position(1, 0, 50), position(2, 100, 25), position(3, 700, 25)],
+      {
+        ...NO_OPTIONS,
+        contribution: 200,
+      },
+    );
+
+    // Investable 1000 → desired 500 / 250 / 250; gaps 500, 150 and none
+    const [a, b, c] = result.trades.map((t) => t.amount);
+    expect(a).toBeCloseTo((200 * 500) / 650);
+    expect(b).toBeCloseTo((200 * 150) / 650);
+    expect(c).toBe(0);
+    expect(result.unallocatedCash).toBeCloseTo(0);
+  });
+
+  it("rounds buys and sells towards zero to whole shares", () => {
+    const result = computeRebalance(
+      [position(1, 600, 50, 30), position(2, 400, 50, 30)],
+      {
+        ...NO_OPTIONS,
+        allowSell: true,
+      },
+    );
+
+    expect(result.trades.map((t) => [t.shares, t.amount])).toEqual([
+      [-3, -90],
+      [3, 90],
+    ]);
+  });
+
+  it("reports cash left over after rounding", () => {
+    const result = computeRebalance([position(1, 0, 100, 30)], {
+      ...NO_OPTIONS,
+      contribution: 100,
+    });
+
+    expect(result.trades[0]).toMatchObject({ shares: 3, amount: 90 });
+    expect(result.unallocatedCash).toBeCloseTo(10);
+  });
+
+  it("skips trades below the minimum size", () => {
+    const result = computeRebalance(
+      [position(1, 520, 50), position(2, 480, 50, 10)],
+      {
+        ...NO_OPTIONS,
+        allowSell: true,
+        minTrade: 50,
+      },
+    );
+
+    expect(result.trades.map((t) => [t.amount, t.shares])).toEqual([
+      [0, null],
+      [0, 0],
+    ]);
+  });
+
+  it("leaves untargeted positions alone but counts them in the weights after", () => {
+    const result = computeRebalance(
+      [position(1, 600, 50), position(2, 400, 50), position(3, 1000, null)],
+      {
+        ...NO_OPTIONS,
+        allowSell: true,
+      },
+    );
+
+    expect(result.trades.map((t) => t.id)).toEqual([1, 2]);
+    expect(result.trades.map((t) => t.amount)).toEqual([-100, 100]);
+    expect(result.trades.map((t) => t.afterPct)).toEqual([25, 25]);
+  });
+
+  it("scales targets that do not add up to 100%", () => {
+    const result = computeRebalance(
+      [position(1, 500, 30), position(2, 500, 10)],
+      {
+        ...NO_OPTIONS,
+        allowSell: true,
+      },
+    );
+
+    expect(result.totalTargetPct).toBe(40);
+    expect(result.trades.map((t) => t.targetValue)).toEqual([750, 250]);
+  });
+
+  it("returns the whole contribution as cash without targets", () => {
+    expect(
+      computeRebalance([position(1, 100, null)], {
+        ...NO_OPTIONS,
+        contribution: 50,
+      }),
+    ).toEqual({
+      trades: [],
+      totalTargetPct: 0,
+      unallocatedCash: 50,
+    });
+  });
+});
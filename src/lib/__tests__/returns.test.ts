@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  RETURN_HORIZONS,
+  computeWeightedReturns,
+  type ReturnHorizon,
+  type ReturnPosition,
+  type ReturnsByHorizon,
+} from "~/lib/returns";
+
+function returns(values: Partial<ReturnsByHorizon>): ReturnsByHorizon {
+  return Object.fromEntries(
+    RETURN_HORIZONS.map(({ key }) => [key, values[key] ?? null]),
+  ) as ReturnsByHorizon;
+}
+
+const POSITIONS: ReturnPosition[] = [
+  {
+    key: "IE00B3RBWM25",
+    name: "World",
+    weight: 0.6,
+    returns: returns({ oneYear: 10, threeYears: 20 }),
+  },
+  {
+    key: "IE00B3F81R35",
+    name: "Bonds",
+    weight: 0.3,
+    returns: returns({ oneYear: -5 }),
+  },
+  { key: "AAPL", name: "Apple", ticker: "AAPL", weight: 0.1, returns: null },
+  {
+    key: "IE00B579F325",
+    name: "Gold",
+    weight: 0,
+    returns: returns({ oneYear: 40 }),
+  },
+];
+
+function horizon(key: ReturnHorizon) {
+  return computeWeightedReturns(POSITIONS).find((h) => h.horizon === key)!;
+}
+
+describe("computeWeightedReturns", () => {
+  it("returns one entry per horizon in display order", () => {
+    expect(computeWeightedReturns(POSITIONS).map((h) => h.label)).toEqual(
+      RETURN_HORIZONS.map((h) => h.label),
+    );
+  });
+
+  it("weights each return by the positions that report it", () => {
+    const oneYear = horizon("oneYear");
+
+    // (0.6 × 10 − 0.3 × 5) / 0.9
+    expect(oneYear.totalPct).toBeCloseTo(5);
+    expect(oneYear.coverage).toBeCloseTo(0.9);
+    expect(
+      oneYear.contributions.map((c) => [c.key, c.contributionPct]),
+    ).toEqual([
+      ["IE00B3RBWM25", expect.closeTo(6.67, 2)],
+      ["IE00B3F81R35", expect.closeTo(-1.67, 2)],
+    ]);
+    expect(
+      oneYear.contributions.reduce((s, c) => s + c.contributionPct, 0),
+    ).toBeCloseTo(oneYear.totalPct!);
+  });
+
+  it("lists positions without a figure, heaviest first, and ignores zero weights", () => {
+    const threeYears = horizon("threeYears");
+
+    expect(threeYears.totalPct).toBeCloseTo(20);
+    expect(threeYears.coverage).toBeCloseTo(0.6);
+    expect(threeYears.missing.map((m) => m.key)).toEqual([
+      "IE00B3F81R35",
+      "AAPL",
+    ]);
+    expect(
+      horizon("oneYear").contributions.some((c) => c.key === "IE00B579F325"),
+    ).toBe(false);
+  });
+
+  it("has no total when no position reports the horizon", () => {
+    expect(horizon("oneMonth")).toMatchObject({
+      totalPct: null,
+      coverage: 0,
+      contributions: [],
+    });
+    expect(horizon("oneMonth").missing).toHaveLength(3);
+  });
+});
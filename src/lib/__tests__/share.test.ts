@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { type Position } from "~/types/portfolio";
+import {
+  SHARE_HASH_KEY,
+  buildShareUrl,
+  decodeSharedPortfolio,
+  encodeSharedPortfolio,
+  readShareHash,
+} from "~/lib/share";
+
+const POSITIONS: Position[] = [
+  {
+    id: 7,
+    name: "Vanguard FTSE All-World UCITS ETF",
+    isin: "IE00B3RBWM25",
+    ticker: "VWRL",
+    security: {
+      ticker: "VWRL",
+      isin: "IE00B3RBWM25",
+      name: "Vanguard FTSE All-World UCITS ETF",
+      type: "etf",
+    },
+    value: "1500",
+    currency: "EUR",
+  },
+  {
+    id: 9,
+    name: "Apple Inc",
+    isin: "US0378331005",
+    ticker: "AAPL",
+    security: {
+      ticker: "AAPL",
+      isin: "US0378331005",
+      name: "Apple Inc",
+      type: "stock",
+    },
+    value: "800",
+    currency: "USD",
+  },
+  {
+    id: 10,
+    name: "",
+    isin: "",
+    ticker: "",
+    security: null,
+    value: "",
+    currency: "EUR",
+  },
+];
+
+describe("shared portfolio links", () => {
+  it("round-trips positions, input mode and currencies", async () => {
+    const encoded = await encodeSharedPortfolio({
+      inputMode: "amount",
+      currency: "EUR",
+      positions: POSITIONS,
+    });
+    const decoded = await decodeSharedPortfolio(encoded);
+
+    expect(encoded).toMatch(/^1\.[\w-]+$/);
+    expect(decoded?.inputMode).toBe("amount");
+    expect(decoded?.currency).toBe("EUR");
+    // Empty rows are left out and IDs are renumbered
+    expect(decoded?.positions).toEqual([
+      { ...POSITIONS[0], id: 1 },
+      { ...POSITIONS[1], id: 2 },
+    ]);
+  });
+
+  it("returns null for unknown versions and malformed data", async () => {
+    const encoded = await encodeSharedPortfolio({
+      inputMode: "percentage",
+      currency: "EUR",
+      positions: POSITIONS,
+    });
+
+    expect(
+      await decodeSharedPortfolio(encoded.replace(/^1\./, "2.")),
+    ).toBeNull();
+    expect(await decodeSharedPortfolio("1.not-deflate")).toBeNull();
+    expect(await decodeSharedPortfolio("no-version")).toBeNull();
+    expect(
+      await decodeSharedPortfolio(
+        await encodeSharedPortfolio({
+          inputMode: "amount",
+          currency: "EUR",
+          positions: [],
+        }),
+      ),
+    ).toBeNull();
+  });
+
+  it("builds the URL and reads the fragment back", async () => {
+    const data = {
+      inputMode: "shares" as const,
+      currency: "GBP",
+      positions: POSITIONS.slice(0, 1),
+    };
+    const url = await buildShareUrl("https://seetf.example", data);
+    const hash = new URL(url).hash;
+
+    expect(url.startsWith("https://seetf.example/portfolio/overview#")).toBe(
+      true,
+    );
+    expect(readShareHash(hash)).toBe(await encodeSharedPortfolio(data));
+    expect(readShareHash(`#other=1&${SHARE_HASH_KEY}=1.abc`)).toBe("1.abc");
+    expect(readShareHash("")).toBeNull();
+  });
+});
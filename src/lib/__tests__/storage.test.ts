@@ -0,0 +1,324 @@
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { type PortfolioData } from "~/types/portfolio";
+import {
+  emptyHistory,
+  pushHistory,
+  undoHistory,
+  type BuilderSnapshot,
+} from "~/lib/history";
+import {
+  CURRENT_VERSION,
+  DEFAULT_PORTFOLIO_NAME,
+  QUARANTINE_KEY,
+  STORAGE_KEY,
+  clearPortfolio,
+  discardQuarantined,
+  exportCollection,
+  loadPortfolio,
+  loadQuarantine,
+  normalizeCollection,
+  restoreCollection,
+  savePortfolio,
+} from "~/lib/storage";
+
+const readFixture = (file: string) =>
+  readFileSync(new URL(`./fixtures/${file}`, import.meta.url), "utf8");
+
+/** In-memory stand-in for the browser's localStorage */
+class MemoryStorage {
+  items = new Map<string, string>();
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", new MemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const PORTFOLIO: Omit<PortfolioData, "version"> = {
+  inputMode: "amount",
+  currency: "EUR",
+  totalPortfolioValue: "",
+  positions: [
+    {
+      id: 1,
+      name: "Vanguard FTSE All-World",
+      isin: "IE00B3RBWM25",
+      ticker: "VWRL",
+      security: {
+        ticker: "VWRL",
+        isin: "IE00B3RBWM25",
+        name: "Vanguard FTSE All-World",
+        type: "etf",
+      },
+      value: "1000",
+      currency: "EUR",
+      target: "100",
+      transactions: [
+        {
+          id: "t1",
+          type: "buy",
+          date: "2024-01-02",
+          quantity: 10,
+          price: 100,
+          fees: 1,
+          currency: "EUR",
+        },
+      ],
+    },
+  ],
+  drift: {
+    absolutePp: 5,
+    relativePct: 25,
+    exposureTargets: [{ dimension: "country", name: "Japan", target: 6 }],
+  },
+  rules: [
+    {
+      id: "r1",
+      label: "Single stock cap",
+      scope: "holding",
+      match: [],
+      min: null,
+      max: 5,
+      warnPp: 1,
+    },
+  ],
+  costBasisMethod: "average",
+};
+
+describe("clearPortfolio", () => {
+  it("can be undone without losing drift alerts, rules or the cost basis method", () => {
+    savePortfolio(PORTFOLIO);
+    const { inputMode, currency, totalPortfolioValue, positions } = PORTFOLIO;
+    const before: BuilderSnapshot = {
+      inputMode,
+      currency,
+      totalPortfolioValue,
+      positions,
+    };
+
+    // What the builder does on "Clear Portfolio"
+    clearPortfolio();
+    const cleared: BuilderSnapshot = {
+      ...before,
+      currency: "USD",
+      positions: [],
+    };
+    savePortfolio(cleared);
+    expect(loadPortfolio()).toBeNull();
+
+    // …and on undo
+    const step = undoHistory(
+      pushHistory(emptyHistory<BuilderSnapshot>(), before),
+      cleared,
+    );
+    savePortfolio(step!.state);
+
+    expect(loadPortfolio()).toEqual({ version: 5, ...PORTFOLIO });
+  });
+});
+
+describe("loading older schema versions", () => {
+  it("v1: lifts the single portfolio into a collection with position fields", () => {
+    localStorage.setItem(STORAGE_KEY, readFixture("storage-v1.json"));
+    const collection = exportCollection();
+
+    expect(collection.version).toBe(CURRENT_VERSION);
+    expect(collection.portfolios).toHaveLength(1);
+    const [portfolio] = collection.portfolios;
+    expect(portfolio).toMatchObject({
+      id: collection.activeId,
+      name: DEFAULT_PORTFOLIO_NAME,
+      inputMode: "percentage",
+      currency: "EUR",
+      totalPortfolioValue: "25000",
+    });
+    expect(portfolio!.positions).toEqual([
+      {
+        id: 1,
+        name: "Vanguard FTSE All-World UCITS ETF (USD) Accumulating",
+        isin: "IE00BK5BQT80",
+        ticker: "VWCE",
+        security: {
+          ticker: "VWCE",
+          isin: "IE00BK5BQT80",
+          name: "Vanguard FTSE All-World UCITS ETF (USD) Accumulating",
+          type: "etf",
+        },
+        value: "80",
+        currency: "EUR",
+      },
+      {
+        id: 2,
+        name: "Apple Inc.",
+        isin: "",
+        ticker: "AAPL",
+        security: {
+          ticker: "AAPL",
+          isin: "",
+          name: "Apple Inc.",
+          type: "stock",
+        },
+        value: "20",
+        currency: "EUR",
+      },
+    ]);
+  });
+
+  it("v2: keeps empty rows and gives every position the portfolio currency", () => {
+    localStorage.setItem(STORAGE_KEY, readFixture("storage-v2.json"));
+    const data = loadPortfolio();
+
+    expect(data?.currency).toBe("GBP");
+    expect(data?.positions.map((p) => [p.id, p.ticker, p.currency])).toEqual([
+      [3, "VWRL", "GBP"],
+      [7, "", "GBP"],
+    ]);
+  });
+
+  it("v4: drops malformed ledgers and trades, keeps the rest", () => {
+    localStorage.setItem(STORAGE_KEY, readFixture("storage-v4.json"));
+    const collection = exportCollection();
+
+    expect(collection.activeId).toBe("pwork");
+    const [home, work] = collection.portfolios;
+    expect(home!.positions[0]).not.toHaveProperty("transactions");
+    expect(work!.positions[0]).toMatchObject({ target: "40", currency: "USD" });
+    expect(work!.positions[0]!.transactions).toEqual([
+      {
+        id: "t1",
+        type: "buy",
+        date: "2023-06-01",
+        quantity: 12,
+        price: 180.5,
+        fees: 1,
+        currency: "USD",
+      },
+    ]);
+  });
+
+  it("writes the migrated collection back and keeps a copy of what was dropped", () => {
+    const raw = readFixture("storage-v4.json");
+    localStorage.setItem(STORAGE_KEY, raw);
+    exportCollection();
+
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY)!) as {
+      version: number;
+      portfolios: unknown[];
+    };
+    expect(stored.version).toBe(CURRENT_VERSION);
+    expect(stored.portfolios).toHaveLength(2);
+    // The entry without an ID could not be read; the original is quarantined
+    expect(loadQuarantine()).toMatchObject([
+      {
+        key: STORAGE_KEY,
+        reason: "1 of 3 saved portfolios could not be read",
+        raw,
+      },
+    ]);
+  });
+});
+
+describe("quarantine", () => {
+  it("moves corrupt JSON aside instead of deleting it", () => {
+    localStorage.setItem(STORAGE_KEY, '{"version": 5, "portfolios": [');
+
+    expect(loadPortfolio()).toBeNull();
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(loadQuarantine()).toMatchObject([
+      {
+        key: STORAGE_KEY,
+        reason: "The saved data is not valid JSON",
+        raw: '{"version": 5, "portfolios": [',
+      },
+    ]);
+  });
+
+  it("quarantines data without a single readable portfolio", () => {
+    localStorage.setItem(STORAGE_KEY, "[1, 2, 3]");
+    loadPortfolio();
+    localStorage.setItem(STORAGE_KEY, '{"version": 5, "portfolios": [{}]}');
+    loadPortfolio();
+
+    expect(loadQuarantine().map((e) => e.reason)).toEqual([
+      "None of the saved portfolios could be read",
+      "The saved data is not a portfolio collection",
+    ]);
+  });
+
+  it("leaves the data in place when the quarantine cannot be written", () => {
+    const storage = new MemoryStorage();
+    vi.spyOn(storage, "setItem").mockImplementation((key) => {
+      if (key === QUARANTINE_KEY) throw new Error("QuotaExceededError");
+    });
+    vi.stubGlobal("localStorage", storage);
+    storage.items.set(STORAGE_KEY, "not json");
+
+    expect(loadPortfolio()).toBeNull();
+    expect(storage.getItem(STORAGE_KEY)).toBe("not json");
+  });
+
+  it("keeps each copy once and can discard entries", () => {
+    localStorage.setItem(STORAGE_KEY, "not json");
+    loadPortfolio();
+    localStorage.setItem(STORAGE_KEY, "not json");
+    loadPortfolio();
+
+    const [entry] = loadQuarantine();
+    expect(loadQuarantine()).toHaveLength(1);
+    discardQuarantined(entry!.id);
+    expect(loadQuarantine()).toEqual([]);
+    expect(localStorage.getItem(QUARANTINE_KEY)).toBeNull();
+  });
+});
+
+describe("normalizeCollection", () => {
+  it("migrates old blobs without modifying the input", () => {
+    const blob = JSON.parse(readFixture("storage-v2.json")) as unknown;
+    const copy = structuredClone(blob);
+    const collection = normalizeCollection(blob);
+
+    expect(blob).toEqual(copy);
+    expect(collection?.version).toBe(CURRENT_VERSION);
+    expect(collection?.portfolios[0]?.positions).toHaveLength(2);
+  });
+
+  it("returns null when nothing is usable", () => {
+    expect(normalizeCollection(null)).toBeNull();
+    expect(normalizeCollection([])).toBeNull();
+    expect(normalizeCollection({ version: 5, portfolios: [] })).toBeNull();
+  });
+});
+
+describe("restoreCollection", () => {
+  it("replaces the stored data and quarantines what it replaced", () => {
+    savePortfolio(PORTFOLIO);
+    const previous = localStorage.getItem(STORAGE_KEY);
+    const restored = normalizeCollection(
+      JSON.parse(readFixture("storage-v4.json")),
+    )!;
+
+    restoreCollection(restored);
+
+    expect(exportCollection()).toEqual(restored);
+    expect(loadQuarantine()).toMatchObject([
+      {
+        key: STORAGE_KEY,
+        reason: "Replaced by a backup restore",
+        raw: previous,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Allocation backtest
+   ─────────────────────────────────────────────────────────────────────────────
+   Replays the current allocation over historical daily closes: each
+   position is bought at its current weight on the first day every series
+   has a price and then held (no rebalancing). Series are aligned by
+   calendar day and forward-filled across exchange holidays. Closes in
+   another currency are converted with `convertSeries` before replaying.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/* ─── Types ─── */
+
+export type BacktestRange = "1y" | "3y" | "5y" | "max";
+
+export const BACKTEST_RANGES: Array<{ key: BacktestRange; label: string }> = [
+  { key: "1y", label: "1Y" },
+  { key: "3y", label: "3Y" },
+  { key: "5y", label: "5Y" },
+  { key: "max", label: "Max" },
+];
+
+export interface PriceSeries {
+  /** Position key (`isin || ticker`) */
+  key: string;
+  /** Daily closes, oldest first; `t` in epoch ms */
+  points: Array<{ t: number; close: number }>;
+}
+
+export interface BacktestPoint {
+  /** Epoch ms at midnight UTC of the day */
+  t: number;
+  value: number;
+}
+
+export interface BacktestResult {
+  points: BacktestPoint[];
+  /** Cumulative return over the whole series in percent; `null` without data */
+  returnPct: number | null;
+  /** Position keys that were replayed */
+  included: string[];
+  /** Position keys with a weight but no usable price history */
+  missing: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Computation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Closes keyed by UTC day number; the last close of a day wins */
+function closesByDay(points: PriceSeries["points"]): Map<number, number> {
+  const byDay = new Map<number, number>();
+  for (const p of points) byDay.set(Math.floor(p.t / DAY_MS), p.close);
+  return byDay;
+}
+
+/** Latest close on or before `day`; series on other exchange calendars may skip it */
+function closeOnOrBefore(byDay: Map<number, number>, day: number): number | undefined {
+  let best: { day: number; close: number } | undefined;
+  for (const [d, close] of byDay) {
+    if (d <= day && (!best || d > best.day)) best = { day: d, close };
+  }
+  return best?.close;
+}
+
+/**
+ * Convert closes with a daily FX series (units of the target currency per
+ * unit of the series' currency), using the latest rate on or before each
+ * day. Closes older than the first rate are dropped.
+ */
+export function convertSeries(
+  points: PriceSeries["points"],
+  rates: PriceSeries["points"],
+): PriceSeries["points"] {
+  const byDay = closesByDay(rates);
+  const rateDays = [...byDay.keys()].sort((a, b) => a - b);
+  const converted: PriceSeries["points"] = [];
+  let i = -1;
+  for (const p of points) {
+    const day = Math.floor(p.t / DAY_MS);
+    while (i + 1 < rateDays.length && rateDays[i + 1]! <= day) i++;
+    if (i < 0) continue;
+    converted.push({ t: p.t, close: p.close * byDay.get(rateDays[i]!)! });
+  }
+  return converted;
+}
+
+/**
+ * Replay `weights` (by position key, any scale) over `series`, starting at
+ * `initialValue`. Positions without history are dropped and the remaining
+ * weights rescaled; they are listed in `missing`.
+ */
+export function computeBacktest(
+  series: PriceSeries[],
+  weights: Record<string, number>,
+  initialValue = 100,
+): BacktestResult {
+  const weighted = Object.entries(weights).filter(([, w]) => w > 0);
+  const usable = series
+    .filter((s) => (weights[s.key] ?? 0) > 0 && s.points.length >= 2)
+    .map((s) => ({ key: s.key, weight: weights[s.key]!, byDay: closesByDay(s.points) }));
+  const included = usable.map((s) => s.key);
+  const missing = weighted.map(([key]) => key).filter((key) => !included.includes(key));
+
+  if (usable.length === 0) return { points: [], returnPct: null, included, missing };
+
+  // Start on the first day every series has a price (the youngest fund's inception for "max")
+  const startDay = Math.max(...usable.map((s) => Math.min(...s.byDay.keys())));
+  const days = [...new Set(usable.flatMap((s) => [...s.byDay.keys()]))]
+    .filter((d) => d >= startDay)
+    .sort((a, b) => a - b);
+
+  const totalWeight = usable.reduce((sum, s) => sum + s.weight, 0);
+  const holdings = usable.map((s) => {
+    // Every series has a close on or before the start day, by construction of `startDay`
+    const start = closeOnOrBefore(s.byDay, startDay) ?? 0;
+    return {
+      byDay: s.byDay,
+      // Units bought on the start day so that the position is worth its weight
+      units: start > 0 ? (initialValue * (s.weight / totalWeight)) / start : 0,
+      last: start,
+    };
+  });
+
+  const points: BacktestPoint[] = days.map((day) => {
+    let value = 0;
+    for (const h of holdings) {
+      h.last = h.byDay.get(day) ?? h.last; // forward-fill across holidays
+      value += h.units * h.last;
+    }
+    return { t: day * DAY_MS, value };
+  });
+
+  const last = points[points.length - 1]?.value ?? initialValue;
+  return {
+    points,
+    returnPct: (last / initialValue - 1) * 100,
+    included,
+    missing,
+  };
+}
@@ -0,0 +1,198 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Backup & restore
+   ─────────────────────────────────────────────────────────────────────────────
+   Builds and reads the JSON backup file:
+     { format: "seetf-backup", formatVersion, exportedAt, portfolios }
+   `portfolios` is the persisted collection as-is; settings stored outside
+   it get their own top-level key (and a formatVersion bump) when added.
+   Restoring runs the file through the same migrations and validation as
+   localStorage, so backups from older versions keep working. A bare
+   collection (e.g. a quarantined copy) is accepted as well.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { type NamedPortfolio, type PortfolioCollection, type Position } from "~/types/portfolio";
+import { CURRENT_VERSION, normalizeCollection } from "~/lib/storage";
+
+/* ─── Constants ─── */
+export const BACKUP_FORMAT = "seetf-backup";
+const BACKUP_FORMAT_VERSION = 1;
+
+/* ─── Types ─── */
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  /** ISO timestamp */
+  exportedAt: string;
+  portfolios: PortfolioCollection;
+}
+
+export type BackupReadResult =
+  | { ok: true; collection: PortfolioCollection; exportedAt: string | null }
+  | { ok: false; error: string };
+
+export type PortfolioChange = "added" | "removed" | "changed" | "unchanged";
+
+export interface PortfolioDiff {
+  id: string;
+  name: string;
+  change: PortfolioChange;
+  /** Human-readable changes, e.g. "2 positions added" */
+  details: string[];
+}
+
+export interface BackupDiff {
+  /** Restored portfolios in file order, then the ones that would be removed */
+  portfolios: PortfolioDiff[];
+  /** Whether a different portfolio becomes active */
+  activeChanged: boolean;
+  hasChanges: boolean;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Reading & writing
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+export function createBackup(collection: PortfolioCollection, now = new Date()): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    portfolios: collection,
+  };
+}
+
+/** e.g. "seetf-backup-2026-03-14.json" */
+export function backupFileName(now = new Date()): string {
+  return `${BACKUP_FORMAT}-${now.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Parse and validate a backup file's text. Never throws; unreadable files,
+ * files from a newer version and files without a usable portfolio are
+ * reported as errors.
+ */
+export function readBackup(text: string): BackupReadResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." };
+  }
+  if (parsed == null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { ok: false, error: "The file is not a SeeTF backup." };
+  }
+
+  const obj = parsed as Record<string, unknown>;
+  let blob: unknown = obj;
+  let exportedAt: string | null = null;
+  if (obj.format === BACKUP_FORMAT) {
+    if (typeof obj.formatVersion !== "number" || obj.formatVersion > BACKUP_FORMAT_VERSION) {
+      return { ok: false, error: "This backup was made by a newer version of SeeTF." };
+    }
+    blob = obj.portfolios;
+    exportedAt = typeof obj.exportedAt === "string" ? obj.exportedAt : null;
+  } else if (!("portfolios" in obj) && !("positions" in obj)) {
+    return { ok: false, error: "The file is not a SeeTF backup." };
+  }
+
+  const version = (blob as Record<string, unknown> | null)?.version;
+  if (typeof version === "number" && version > CURRENT_VERSION) {
+    return { ok: false, error: "This backup was made by a newer version of SeeTF." };
+  }
+
+  const collection = normalizeCollection(blob);
+  if (!collection) {
+    return { ok: false, error: "The backup does not contain any readable portfolio." };
+  }
+  return { ok: true, collection, exportedAt };
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Diff
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+/** Positions are matched by security, so re-ordered or re-numbered rows compare equal */
+function positionKey(p: Position): string {
+  return p.security ? `${p.security.isin}|${p.security.ticker}` : `#${p.id}`;
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return (
+    a.value === b.value &&
+    a.currency === b.currency &&
+    (a.target ?? "") === (b.target ?? "") &&
+    JSON.stringify(a.transactions ?? []) === JSON.stringify(b.transactions ?? [])
+  );
+}
+
+/** What restoring `next` over `prev` changes, one line per kind of change */
+function describePortfolioChanges(prev: NamedPortfolio, next: NamedPortfolio): string[] {
+  const details: string[] = [];
+  if (prev.name !== next.name) details.push(`Renamed from “${prev.name}”`);
+  if (prev.inputMode !== next.inputMode) details.push(`Input mode ${prev.inputMode} → ${next.inputMode}`);
+  if (prev.currency !== next.currency) details.push(`Currency ${prev.currency} → ${next.currency}`);
+  if (prev.totalPortfolioValue !== next.totalPortfolioValue) details.push("Total portfolio value changed");
+
+  const before = new Map(prev.positions.map((p) => [positionKey(p), p]));
+  const after = new Map(next.positions.map((p) => [positionKey(p), p]));
+  let added = 0;
+  let changed = 0;
+  for (const [key, pos] of after) {
+    const old = before.get(key);
+    if (!old) added++;
+    else if (!samePosition(old, pos)) changed++;
+  }
+  const removed = [...before.keys()].filter((key) => !after.has(key)).length;
+  if (added > 0) details.push(`${plural(added, "position")} added`);
+  if (removed > 0) details.push(`${plural(removed, "position")} removed`);
+  if (changed > 0) details.push(`${plural(changed, "position")} changed`);
+
+  if (JSON.stringify(prev.drift ?? null) !== JSON.stringify(next.drift ?? null)) details.push("Drift alerts changed");
+  if (JSON.stringify(prev.rules ?? []) !== JSON.stringify(next.rules ?? [])) details.push("Exposure rules changed");
+  if ((prev.costBasisMethod ?? "fifo") !== (next.costBasisMethod ?? "fifo")) details.push("Cost basis method changed");
+  return details;
+}
+
+/**
+ * Compare the stored collection with one about to be restored. Portfolios
+ * are matched by ID; those missing from the backup would be removed.
+ */
+export function diffCollections(current: PortfolioCollection, incoming: PortfolioCollection): BackupDiff {
+  const currentById = new Map(current.portfolios.map((p) => [p.id, p]));
+  const incomingIds = new Set(incoming.portfolios.map((p) => p.id));
+
+  const portfolios: PortfolioDiff[] = incoming.portfolios.map((next) => {
+    const prev = currentById.get(next.id);
+    if (!prev) {
+      return {
+        id: next.id,
+        name: next.name,
+        change: "added",
+        details: [plural(next.positions.filter((p) => p.security).length, "position")],
+      };
+    }
+    const details = describePortfolioChanges(prev, next);
+    return { id: next.id, name: next.name, change: details.length > 0 ? "changed" : "unchanged", details };
+  });
+  for (const prev of current.portfolios) {
+    if (incomingIds.has(prev.id)) continue;
+    portfolios.push({
+      id: prev.id,
+      name: prev.name,
+      change: "removed",
+      details: [plural(prev.positions.filter((p) => p.security).length, "position")],
+    });
+  }
+
+  const activeChanged = current.activeId !== incoming.activeId;
+  return {
+    portfolios,
+    activeChanged,
+    hasChanges: activeChanged || portfolios.some((p) => p.change !== "unchanged"),
+  };
+}
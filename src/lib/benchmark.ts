@@ -0,0 +1,110 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Benchmark comparison
+   ─────────────────────────────────────────────────────────────────────────────
+   Lines up the aggregated portfolio exposures with a benchmark ETF's
+   composition bucket by bucket and reports over- and underweights in
+   percentage points.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/* ─── Types ─── */
+
+/** A bucket (country, sector, holding) with its weight in percent */
+export interface ExposureItem {
+  /** Matching key; defaults to the name (used for merged holdings) */
+  key?: string;
+  name: string;
+  weight: number;
+}
+
+export interface ExposureDiff {
+  key: string;
+  name: string;
+  /** Portfolio weight in percent (0 when absent) */
+  portfolio: number;
+  /** Benchmark weight in percent (0 when absent) */
+  benchmark: number;
+  /** portfolio − benchmark, in percentage points */
+  diff: number;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Comparison
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** "Others" and "Other" are the same catch-all bucket across sources */
+function bucketKey(item: ExposureItem): string {
+  if (item.key) return item.key;
+  return item.name === "Others" ? "Other" : item.name;
+}
+
+/**
+ * Compare two exposure lists. Buckets present on only one side count as 0
+ * on the other. Sorted by absolute difference, largest first; the
+ * catch-all "Other" bucket always goes last.
+ */
+export function compareExposures(
+  portfolio: ExposureItem[],
+  benchmark: ExposureItem[],
+): ExposureDiff[] {
+  const rows = new Map<string, ExposureDiff>();
+  const row = (item: ExposureItem) => {
+    const key = bucketKey(item);
+    let existing = rows.get(key);
+    if (!existing) {
+      existing = { key, name: item.name === "Others" ? "Other" : item.name, portfolio: 0, benchmark: 0, diff: 0 };
+      rows.set(key, existing);
+    }
+    return existing;
+  };
+
+  for (const item of portfolio) row(item).portfolio += item.weight;
+  for (const item of benchmark) row(item).benchmark += item.weight;
+
+  return [...rows.values()]
+    .map((r) => ({ ...r, diff: r.portfolio - r.benchmark }))
+    .sort((a, b) => {
+      if (a.key === "Other") return 1;
+      if (b.key === "Other") return -1;
+      return Math.abs(b.diff) - Math.abs(a.diff);
+    });
+}
+
+/** Difference of two optional figures, `null` when either is missing */
+export function figureDelta(portfolio: number | null, benchmark: number | null): number | null {
+  return portfolio === null || benchmark === null ? null : portfolio - benchmark;
+}
+
+export interface AlignedBucket {
+  name: string;
+  /** Weight per list in percent (0 when absent), in input order */
+  weights: number[];
+  /** Largest minus smallest weight, in percentage points */
+  spread: number;
+}
+
+/**
+ * Line up several exposure lists (e.g. funds on the compare page) bucket by
+ * bucket. Sorted by spread, largest first; "Other" always goes last.
+ */
+export function alignExposures(lists: ExposureItem[][]): AlignedBucket[] {
+  const rows = new Map<string, AlignedBucket>();
+  lists.forEach((list, i) => {
+    for (const item of list) {
+      const key = bucketKey(item);
+      let existing = rows.get(key);
+      if (!existing) {
+        existing = { name: item.name === "Others" ? "Other" : item.name, weights: lists.map(() => 0), spread: 0 };
+        rows.set(key, existing);
+      }
+      existing.weights[i]! += item.weight;
+    }
+  });
+
+  return [...rows.values()]
+    .map((r) => ({ ...r, spread: Math.max(...r.weights) - Math.min(...r.weights) }))
+    .sort((a, b) => {
+      if (a.name === "Other") return 1;
+      if (b.name === "Other") return -1;
+      return b.spread - a.spread;
+    });
+}
@@ -0,0 +1,153 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Cost basis
+   ─────────────────────────────────────────────────────────────────────────────
+   Replays a position's buy / sell ledger in date order:
+     • Buy fees are added to the cost of the shares bought
+     • Sell fees reduce the proceeds of the shares sold
+     • FIFO matches a sale against the oldest remaining buys; average cost
+       charges it at the running average cost per share
+     • Shares sold beyond what is held are ignored and flagged
+   Trade amounts are converted with the caller's rates, so gains are in the
+   reporting currency at those rates.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { type CostBasisMethod, type Transaction } from "~/types/portfolio";
+
+/* ─── Types ─── */
+
+export interface CostBasis {
+  /** Shares still held after all trades */
+  quantity: number;
+  /** Cost of the shares still held, buy fees included */
+  costBasis: number;
+  /** Cost per held share; `null` when nothing is held */
+  averageCost: number | null;
+  /** Gains locked in by sales, net of fees */
+  realizedGain: number;
+  /** All fees paid, buys and sells */
+  fees: number;
+  /** Held shares at the current price; `null` without a price */
+  marketValue: number | null;
+  unrealizedGain: number | null;
+  /** Unrealized gain in percent of the cost basis */
+  unrealizedPct: number | null;
+  /** True when a sale exceeded the shares held at the time */
+  oversold: boolean;
+}
+
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO",
+  average: "Average cost",
+};
+
+/** Short unique id for a new transaction */
+export function createTransactionId(): string {
+  return `t${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Ledger in date order; trades on the same day keep their entry order */
+export function sortTransactions(transactions: Transaction[]): Transaction[] {
+  return transactions
+    .map((t, i) => ({ t, i }))
+    .sort((a, b) => a.t.date.localeCompare(b.t.date) || a.i - b.i)
+    .map(({ t }) => t);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Computation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Shares still to be matched and their cost per share */
+interface Lot {
+  quantity: number;
+  unitCost: number;
+}
+
+/** Remove `quantity` shares from the lots and return their cost */
+function consumeLots(lots: Lot[], quantity: number, method: CostBasisMethod): number {
+  if (method === "average") {
+    // A single pooled lot holds everything at the running average
+    const pool = lots[0];
+    if (!pool) return 0;
+    pool.quantity -= quantity;
+    return quantity * pool.unitCost;
+  }
+
+  let cost = 0;
+  let remaining = quantity;
+  while (remaining > 1e-9 && lots.length > 0) {
+    const lot = lots[0]!;
+    const taken = Math.min(lot.quantity, remaining);
+    cost += taken * lot.unitCost;
+    lot.quantity -= taken;
+    remaining -= taken;
+    if (lot.quantity <= 1e-9) lots.shift();
+  }
+  return cost;
+}
+
+function addLot(lots: Lot[], lot: Lot, method: CostBasisMethod): void {
+  const pool = lots[0];
+  if (method === "fifo" || !pool) {
+    lots.push(lot);
+    return;
+  }
+  const quantity = pool.quantity + lot.quantity;
+  pool.unitCost = (pool.quantity * pool.unitCost + lot.quantity * lot.unitCost) / quantity;
+  pool.quantity = quantity;
+}
+
+/**
+ * Replay a ledger into holdings, cost basis and gains.
+ * `price` is the current price per share in the reporting currency;
+ * `rateFor` converts a trade currency into it (1 when omitted).
+ */
+export function computeCostBasis(
+  transactions: Transaction[],
+  method: CostBasisMethod,
+  price: number | null,
+  rateFor: (currency: string) => number = () => 1,
+): CostBasis {
+  const lots: Lot[] = [];
+  let held = 0;
+  let realizedGain = 0;
+  let fees = 0;
+  let oversold = false;
+
+  for (const t of sortTransactions(transactions)) {
+    const rate = rateFor(t.currency);
+    const tradeFees = t.fees * rate;
+    fees += tradeFees;
+
+    if (t.type === "buy") {
+      addLot(lots, { quantity: t.quantity, unitCost: (t.quantity * t.price * rate + tradeFees) / t.quantity }, method);
+      held += t.quantity;
+      continue;
+    }
+
+    const sold = Math.min(t.quantity, held);
+    if (sold < t.quantity - 1e-9) oversold = true;
+    if (sold <= 0) continue;
+    // Fees of a partially matched sale are charged pro rata
+    const proceeds = sold * t.price * rate - tradeFees * (sold / t.quantity);
+    realizedGain += proceeds - consumeLots(lots, sold, method);
+    held -= sold;
+  }
+
+  const quantity = held > 1e-9 ? held : 0;
+  const costBasis = quantity > 0 ? lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0) : 0;
+  const marketValue = price !== null ? quantity * price : null;
+  const unrealizedGain = marketValue !== null ? marketValue - costBasis : null;
+
+  return {
+    quantity,
+    costBasis,
+    averageCost: quantity > 0 ? costBasis / quantity : null,
+    realizedGain,
+    fees,
+    marketValue,
+    unrealizedGain,
+    unrealizedPct: unrealizedGain !== null && costBasis > 0 ? (unrealizedGain / costBasis) * 100 : null,
+    oversold,
+  };
+}
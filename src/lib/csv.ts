@@ -0,0 +1,302 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   CSV import / export for portfolio positions
+   ─────────────────────────────────────────────────────────────────────────────
+   Used by the portfolio builder's import and export buttons:
+     • Tolerant CSV parsing (comma / semicolon / tab, quoted fields)
+     • Header-based column role detection with manual override
+     • Locale-aware value cells ("1.234,56", "1,234.56", "12.5 %") via ~/lib/number
+     • Matching parsed rows against search results
+     • Serialising the current portfolio back to CSV
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { parseLocaleNumber } from "~/lib/number";
+import {
+  type InputMode,
+  type PortfolioData,
+  type SecurityResult,
+} from "~/types/portfolio";
+
+/* ─── Types ─── */
+
+/** What a CSV column is mapped to in the portfolio */
+export type CsvColumnRole =
+  | "isin"
+  | "ticker"
+  | "name"
+  | "amount"
+  | "percentage"
+  | "shares"
+  | "currency"
+  | "ignore";
+
+export const CSV_COLUMN_ROLE_OPTIONS: Array<{ value: CsvColumnRole; label: string }> = [
+  { value: "ignore", label: "Ignore" },
+  { value: "isin", label: "ISIN" },
+  { value: "ticker", label: "Ticker" },
+  { value: "name", label: "Name" },
+  { value: "amount", label: "Amount" },
+  { value: "percentage", label: "Percentage" },
+  { value: "shares", label: "Shares" },
+  { value: "currency", label: "Currency" },
+];
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** A data row after column mapping, before it is resolved to a security */
+export interface CsvPositionRow {
+  /** 1-based line number in the source file (header is line 1) */
+  line: number;
+  isin: string;
+  ticker: string;
+  name: string;
+  /** Parsed amount, percentage or share count; `null` if the cell was empty or invalid */
+  value: number | null;
+  /** Upper-cased currency code, or "" when no currency column is mapped */
+  currency: string;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Parsing
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Pick the delimiter that occurs most often in the header line (outside quotes) */
+function detectDelimiter(firstLine: string): string {
+  const counts: Record<string, number> = { ",": 0, ";": 0, "\t": 0 };
+  let inQuotes = false;
+  for (const ch of firstLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch in counts) counts[ch] = (counts[ch] ?? 0) + 1;
+  }
+  return Object.entries(counts).sort((a, b) => b[1] - a[1])[0]![0];
+}
+
+/**
+ * Parse CSV text into a header row and data rows.
+ * Supports quoted fields with embedded delimiters, quotes ("") and newlines.
+ * Blank lines are skipped.
+ */
+export function parseCsv(text: string): CsvTable {
+  const clean = text.replace(/^﻿/, ""); // strip BOM from Excel exports
+  const firstLine = clean.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = detectDelimiter(firstLine);
+
+  const records: string[][] = [];
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < clean.length; i++) {
+    const ch = clean[i]!;
+    if (inQuotes) {
+      if (ch === '"' && clean[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field.trim());
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && clean[i + 1] === "\n") i++;
+      record.push(field.trim());
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  record.push(field.trim());
+  records.push(record);
+
+  const nonEmpty = records.filter((r) => r.some((c) => c !== ""));
+  return {
+    headers: nonEmpty[0] ?? [],
+    rows: nonEmpty.slice(1),
+  };
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Column mapping
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+const ROLE_HEADER_PATTERNS: Array<[CsvColumnRole, RegExp]> = [
+  ["isin", /\bisin\b/i],
+  ["ticker", /\b(ticker|symbol|ticker symbol)\b/i],
+  ["currency", /\b(currency|ccy|währung|devise|valuta)\b/i],
+  ["percentage", /(%|percent|weight|allocation|gewicht|poids)/i],
+  ["shares", /\b(shares|quantity|qty|units|aantal|anzahl|stück|quantité)\b/i],
+  ["amount", /\b(amount|value|market value|marktwert|waarde|valeur|total|position)\b/i],
+  ["name", /\b(name|product|security|description|holding|instrument|fund)\b/i],
+];
+
+/** Roles that carry the position value; at most one is mapped at a time */
+const VALUE_ROLES: CsvColumnRole[] = ["amount", "percentage", "shares"];
+
+export function isValueRole(role: CsvColumnRole): boolean {
+  return VALUE_ROLES.includes(role);
+}
+
+/**
+ * Guess each column's role from its header. Each role is assigned at most
+ * once (first matching column wins); unrecognised columns are ignored.
+ */
+export function detectColumnRoles(headers: string[]): CsvColumnRole[] {
+  const roles: CsvColumnRole[] = headers.map(() => "ignore");
+
+  for (const [role, pattern] of ROLE_HEADER_PATTERNS) {
+    const idx = headers.findIndex(
+      (h, i) => roles[i] === "ignore" && pattern.test(h),
+    );
+    if (idx >= 0) roles[idx] = role;
+  }
+
+  // Amount, percentage and shares are mutually exclusive value columns — keep the first
+  const valueIdx = roles.findIndex((r) => VALUE_ROLES.includes(r));
+  roles.forEach((r, i) => {
+    if (i !== valueIdx && VALUE_ROLES.includes(r)) roles[i] = "ignore";
+  });
+
+  return roles;
+}
+
+/** The input mode implied by the mapped value column, or `null` if none is mapped */
+export function inputModeForRoles(roles: CsvColumnRole[]): InputMode | null {
+  if (roles.includes("amount")) return "amount";
+  if (roles.includes("percentage")) return "percentage";
+  if (roles.includes("shares")) return "shares";
+  return null;
+}
+
+/** Apply a column mapping to the data rows, skipping rows without any identifier */
+export function extractPositionRows(
+  table: CsvTable,
+  roles: CsvColumnRole[],
+): CsvPositionRow[] {
+  const col = (role: CsvColumnRole) => roles.indexOf(role);
+  const isinCol = col("isin");
+  const tickerCol = col("ticker");
+  const nameCol = col("name");
+  const valueCol = roles.findIndex((r) => VALUE_ROLES.includes(r));
+  const currencyCol = col("currency");
+
+  const cell = (row: string[], idx: number) => (idx >= 0 ? (row[idx] ?? "").trim() : "");
+
+  const result: CsvPositionRow[] = [];
+  table.rows.forEach((row, i) => {
+    const isin = cell(row, isinCol).toUpperCase();
+    const ticker = cell(row, tickerCol);
+    const name = cell(row, nameCol);
+    if (!isin && !ticker && !name) return;
+    const rawValue = cell(row, valueCol);
+    result.push({
+      line: i + 2,
+      isin,
+      ticker,
+      name,
+      value: rawValue ? parseLocaleNumber(rawValue) : null,
+      currency: cell(row, currencyCol).toUpperCase(),
+    });
+  });
+  return result;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Resolution
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}\d$/;
+
+/** Search query to resolve a row: ISIN first, then ticker, then name */
+export function searchQueryForRow(row: CsvPositionRow): string {
+  if (ISIN_PATTERN.test(row.isin)) return row.isin;
+  return row.ticker || row.name || row.isin;
+}
+
+/** Strip an exchange suffix from a ticker ("VWCE.DE" → "VWCE") */
+function baseTicker(ticker: string): string {
+  return ticker.toUpperCase().split(/[.:]/)[0] ?? "";
+}
+
+/**
+ * Pick the security matching a CSV row from a list of candidates.
+ * Matches by ISIN, then exact ticker, then ticker without exchange suffix,
+ * then exact name. An ISIN query with a single result is accepted as-is
+ * (Yahoo stock results carry no ISIN). Returns `null` when nothing matches.
+ */
+export function pickSecurityMatch(
+  row: CsvPositionRow,
+  candidates: SecurityResult[],
+): SecurityResult | null {
+  const withRowIsin = (s: SecurityResult): SecurityResult =>
+    s.isin || !row.isin ? s : { ...s, isin: row.isin };
+
+  if (row.isin) {
+    const byIsin = candidates.find((s) => s.isin.toUpperCase() === row.isin);
+    if (byIsin) return byIsin;
+  }
+  if (row.ticker) {
+    const t = row.ticker.toUpperCase();
+    const exact = candidates.find((s) => s.ticker.toUpperCase() === t);
+    if (exact) return withRowIsin(exact);
+    const base = candidates.find((s) => baseTicker(s.ticker) === baseTicker(t));
+    if (base) return withRowIsin(base);
+  }
+  if (row.name) {
+    const n = row.name.toLowerCase();
+    const byName = candidates.find((s) => s.name.toLowerCase() === n);
+    if (byName) return withRowIsin(byName);
+  }
+  if (ISIN_PATTERN.test(row.isin) && candidates.length === 1) {
+    return withRowIsin(candidates[0]!);
+  }
+  return null;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Export
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Text a spreadsheet would evaluate as a formula (plain numbers are safe) */
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or newline. Fields
+ * that would start a formula (security names come from scraped pages) are
+ * prefixed with `'` and quoted, so spreadsheets show them as text.
+ */
+function escapeCsvField(value: string): string {
+  if (FORMULA_START.test(value) && !PLAIN_NUMBER.test(value)) {
+    return `"'${value.replace(/"/g, '""')}"`;
+  }
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const VALUE_HEADERS: Record<InputMode, string> = {
+  amount: "Amount",
+  percentage: "Percentage",
+  shares: "Shares",
+};
+
+/**
+ * Serialise a portfolio to CSV. The value column is named after the input
+ * mode so the file round-trips through `detectColumnRoles`.
+ */
+export function portfolioToCsv(data: Omit<PortfolioData, "version">): string {
+  const valueHeader = VALUE_HEADERS[data.inputMode];
+  const lines = [["ISIN", "Ticker", "Name", "Type", valueHeader, "Currency"]];
+  for (const p of data.positions) {
+    if (!p.security) continue;
+    lines.push([p.isin, p.ticker, p.name, p.security.type, p.value, p.currency]);
+  }
+  return lines.map((l) => l.map(escapeCsvField).join(",")).join("\n") + "\n";
+}
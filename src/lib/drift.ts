@@ -0,0 +1,95 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Drift alerts
+   ─────────────────────────────────────────────────────────────────────────────
+   Compares current weights with their targets. A weight drifts when it
+   leaves the tolerance band around its target: the absolute band
+   (± percentage points) or the relative band (± percent of the target),
+   whichever is exceeded first.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import {
+  type DriftSettings,
+  type ExposureDimension,
+  type ExposureTarget,
+} from "~/types/portfolio";
+
+/* ─── Types ─── */
+
+/** Defaults applied the first time alerts are configured (the "5/25 rule") */
+export const DEFAULT_DRIFT_SETTINGS: DriftSettings = {
+  absolutePp: 5,
+  relativePct: 25,
+  exposureTargets: [],
+};
+
+export type DriftKind = "position" | ExposureDimension;
+
+export interface DriftAlert {
+  kind: DriftKind;
+  /** Position id or exposure bucket name */
+  key: string;
+  name: string;
+  /** Current weight in percent */
+  current: number;
+  /** Target weight in percent */
+  target: number;
+  /** Band the weight should stay within, in percent */
+  lower: number;
+  upper: number;
+  /** current − target, in percentage points */
+  drift: number;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Evaluation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Band around `target`: the tighter of the configured bands wins, so a
+ * weight is flagged as soon as either tolerance is exceeded. `null` when
+ * no band is configured.
+ */
+export function driftBand(
+  target: number,
+  settings: Pick<DriftSettings, "absolutePp" | "relativePct">,
+): { lower: number; upper: number } | null {
+  const widths = [
+    settings.absolutePp,
+    settings.relativePct !== null ? (target * settings.relativePct) / 100 : null,
+  ].filter((w): w is number => w !== null);
+  if (widths.length === 0) return null;
+  const width = Math.min(...widths);
+  return { lower: Math.max(0, target - width), upper: target + width };
+}
+
+/** Alert for one weight, or `null` when it is inside its band */
+export function checkDrift(
+  kind: DriftKind,
+  key: string,
+  name: string,
+  current: number,
+  target: number,
+  settings: DriftSettings,
+): DriftAlert | null {
+  const band = driftBand(target, settings);
+  if (!band) return null;
+  // Tolerate float noise at the band edge
+  if (current >= band.lower - 1e-9 && current <= band.upper + 1e-9) return null;
+  return { kind, key, name, current, target, ...band, drift: current - target };
+}
+
+/** Alerts for aggregated country / sector exposures with a target */
+export function evaluateExposureDrift(
+  exposures: Record<ExposureDimension, Array<{ name: string; weight: number }>>,
+  settings: DriftSettings,
+): DriftAlert[] {
+  return settings.exposureTargets
+    .map((t: ExposureTarget) => {
+      const current = exposures[t.dimension]
+        .filter((e) => e.name.toLowerCase() === t.name.trim().toLowerCase())
+        .reduce((sum, e) => sum + e.weight, 0);
+      return checkDrift(t.dimension, t.name, t.name, current, t.target, settings);
+    })
+    .filter((a): a is DriftAlert => a !== null)
+    .sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+}
@@ -0,0 +1,131 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Exposure rules
+   ─────────────────────────────────────────────────────────────────────────────
+   Declarative concentration limits, checked against the aggregated
+   look-through exposures:
+     • A rule with `match` sums the matching buckets (e.g. all emerging
+       market countries) and checks the total
+     • A rule without `match` checks every bucket on its own (e.g. any
+       single company); the catch-all "Other" bucket is never checked
+     • Beyond a limit fails, within `warnPp` of a limit warns
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { type ExposureRule, type ExposureRuleScope } from "~/types/portfolio";
+
+/* ─── Types ─── */
+
+export type RuleStatus = "pass" | "warn" | "fail";
+
+/** Share of a bucket that comes from one ETF (or a direct stock position) */
+export interface ExposureSource {
+  label: string;
+  /** Contribution in percent of the exposure */
+  weight: number;
+}
+
+/** A bucket of an aggregated exposure, weight in percent */
+export interface RuleExposure {
+  name: string;
+  weight: number;
+  isin?: string;
+  ticker?: string;
+  sources?: ExposureSource[];
+}
+
+export interface RuleOffender {
+  name: string;
+  weight: number;
+  sources: ExposureSource[];
+}
+
+export interface RuleResult {
+  rule: ExposureRule;
+  status: RuleStatus;
+  /** Checked weight: the matched total, or the largest bucket without `match` */
+  value: number;
+  /** Buckets behind a warn / fail, largest first (empty on pass) */
+  offenders: RuleOffender[];
+}
+
+/** MSCI Emerging Markets countries, with the name variants providers use */
+export const EMERGING_MARKETS = [
+  "Brazil", "Chile", "China", "Colombia", "Czech Republic", "Czechia", "Egypt",
+  "Greece", "Hungary", "India", "Indonesia", "Korea", "South Korea", "Kuwait",
+  "Malaysia", "Mexico", "Peru", "Philippines", "Poland", "Qatar", "Saudi Arabia",
+  "South Africa", "Taiwan", "Thailand", "Turkey", "Türkiye", "United Arab Emirates",
+];
+
+/** Starting points offered in the rule editor */
+export const RULE_PRESETS: Array<Omit<ExposureRule, "id">> = [
+  { label: "No single company above 5%", scope: "holding", match: [], min: null, max: 5, warnPp: 1 },
+  { label: "Emerging markets 10–15%", scope: "country", match: EMERGING_MARKETS, min: 10, max: 15, warnPp: 1 },
+  { label: "Technology at most 30%", scope: "sector", match: ["Technology"], min: null, max: 30, warnPp: 1 },
+];
+
+/** Short unique id for a new rule */
+export function createRuleId(): string {
+  return `r${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Evaluation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+const STATUS_RANK: Record<RuleStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+/** Status of one weight against the rule's limits */
+export function limitStatus(weight: number, rule: Pick<ExposureRule, "min" | "max" | "warnPp">): RuleStatus {
+  const { min, max, warnPp } = rule;
+  if ((max !== null && weight > max) || (min !== null && weight < min)) return "fail";
+  if ((max !== null && weight > max - warnPp) || (min !== null && weight < min + warnPp)) return "warn";
+  return "pass";
+}
+
+function matches(bucket: RuleExposure, match: string[]): boolean {
+  const ids = [bucket.name, bucket.isin, bucket.ticker]
+    .filter((id): id is string => !!id)
+    .map((id) => id.toLowerCase());
+  return match.some((m) => ids.includes(m.trim().toLowerCase()));
+}
+
+/** Offending bucket with its contributing sources, largest first */
+function toOffender(bucket: RuleExposure): RuleOffender {
+  const sources = [...(bucket.sources ?? [])].sort((a, b) => b.weight - a.weight);
+  return { name: bucket.name, weight: bucket.weight, sources };
+}
+
+/** Check one rule against the exposure its scope refers to */
+export function evaluateRule(rule: ExposureRule, exposure: RuleExposure[]): RuleResult {
+  const buckets = exposure.filter((b) => b.name !== "Other");
+
+  if (rule.match.length > 0) {
+    const matched = buckets.filter((b) => matches(b, rule.match)).sort((a, b) => b.weight - a.weight);
+    const value = matched.reduce((sum, b) => sum + b.weight, 0);
+    const status = limitStatus(value, rule);
+    return { rule, status, value, offenders: status === "pass" ? [] : matched.map(toOffender) };
+  }
+
+  const checked = buckets
+    .map((b) => ({ bucket: b, status: limitStatus(b.weight, rule) }))
+    .sort((a, b) => b.bucket.weight - a.bucket.weight);
+  const status = checked.reduce<RuleStatus>(
+    (worst, c) => (STATUS_RANK[c.status] > STATUS_RANK[worst] ? c.status : worst),
+    "pass",
+  );
+  return {
+    rule,
+    status,
+    value: checked[0]?.bucket.weight ?? 0,
+    offenders: checked.filter((c) => c.status !== "pass").map((c) => toOffender(c.bucket)),
+  };
+}
+
+/** Check every rule; failures first, then warnings, then passes */
+export function evaluateRules(
+  rules: ExposureRule[],
+  exposures: Record<ExposureRuleScope, RuleExposure[]>,
+): RuleResult[] {
+  return rules
+    .map((rule) => evaluateRule(rule, exposures[rule.scope]))
+    .sort((a, b) => STATUS_RANK[b.status] - STATUS_RANK[a.status]);
+}
@@ -0,0 +1,113 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Undo / redo history
+   ─────────────────────────────────────────────────────────────────────────────
+   The builder keeps a bounded history of snapshots:
+     • `past` holds the states to go back to, most recent last
+     • `future` holds the states undone, most recent last; any new edit
+       clears it
+     • Consecutive edits of the same field form one step, so typing an
+       amount is undone in one go rather than character by character
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { type PortfolioData } from "~/types/portfolio";
+
+/* ─── Constants ─── */
+
+/** Steps kept in each direction; the oldest are dropped first */
+export const HISTORY_LIMIT = 50;
+
+/** Edits of the same field further apart than this start a new step */
+export const HISTORY_GROUP_MS = 1500;
+
+/* ─── Types ─── */
+
+/** Everything the builder edits, i.e. one undoable state */
+export type BuilderSnapshot = Pick<PortfolioData, "inputMode" | "currency" | "totalPortfolioValue" | "positions">;
+
+export interface UndoHistory<T> {
+  past: T[];
+  future: T[];
+}
+
+export function emptyHistory<T>(): UndoHistory<T> {
+  return { past: [], future: [] };
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Steps
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Record `previous` as the state to return to; redo is no longer possible */
+export function pushHistory<T>(history: UndoHistory<T>, previous: T): UndoHistory<T> {
+  return { past: [...history.past, previous].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/** Step back from `current`; `null` when there is nothing to undo */
+export function undoHistory<T>(
+  history: UndoHistory<T>,
+  current: T,
+): { history: UndoHistory<T>; state: T } | null {
+  const state = history.past.at(-1);
+  if (state === undefined) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, current].slice(-HISTORY_LIMIT),
+    },
+    state,
+  };
+}
+
+/** Step forward from `current`; `null` when there is nothing to redo */
+export function redoHistory<T>(
+  history: UndoHistory<T>,
+  current: T,
+): { history: UndoHistory<T>; state: T } | null {
+  const state = history.future.at(-1);
+  if (state === undefined) return null;
+  return {
+    history: {
+      past: [...history.past, current].slice(-HISTORY_LIMIT),
+      future: history.future.slice(0, -1),
+    },
+    state,
+  };
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Builder snapshots
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+export function sameSnapshot(a: BuilderSnapshot, b: BuilderSnapshot): boolean {
+  return (
+    a.inputMode === b.inputMode &&
+    a.currency === b.currency &&
+    a.totalPortfolioValue === b.totalPortfolioValue &&
+    a.positions.length === b.positions.length &&
+    a.positions.every((p, i) => JSON.stringify(p) === JSON.stringify(b.positions[i]))
+  );
+}
+
+/**
+ * The field a change touched, when it is a plain edit of one field
+ * (e.g. "value:3" for position 3's amount); `null` for anything larger,
+ * such as adding, removing or importing positions, or switching mode.
+ * Successive edits with the same key can be grouped into one step.
+ */
+export function editGroup(prev: BuilderSnapshot, next: BuilderSnapshot): string | null {
+  if (prev.inputMode !== next.inputMode || prev.currency !== next.currency) return null;
+  if (prev.positions.length !== next.positions.length) return null;
+
+  const changed = next.positions.filter((p, i) => JSON.stringify(p) !== JSON.stringify(prev.positions[i]));
+  if (prev.totalPortfolioValue !== next.totalPortfolioValue) return changed.length === 0 ? "total" : null;
+  if (changed.length !== 1) return null;
+
+  const pos = changed[0]!;
+  const old = prev.positions.find((p) => p.id === pos.id);
+  if (!old) return null;
+  const fields = (Object.keys(pos) as Array<keyof typeof pos>).filter(
+    (k) => JSON.stringify(pos[k]) !== JSON.stringify(old[k]),
+  );
+  // Picking a security or a currency is a step of its own; only typed fields group
+  return fields.length === 1 && (fields[0] === "value" || fields[0] === "target") ? `${fields[0]}:${pos.id}` : null;
+}
@@ -0,0 +1,156 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Holding matching
+   ─────────────────────────────────────────────────────────────────────────────
+   Decides when entries reported by different ETFs (or direct stock
+   positions) are the same security, so look-through weights can be merged
+   and overlaps measured.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Normalize a holding name for deduplication.
+ * Converts to uppercase, strips dots, class/share designations,
+ * trailing suffixes like Inc, Corp, Ltd, etc., removes punctuation,
+ * and collapses whitespace so that
+ * "Apple Inc" / "APPLE INC" / "Apple Inc." all map to "APPLE",
+ * "Amazon.com Inc" / "AMAZON COM INC" both map to "AMAZON COM",
+ * "Alphabet Inc Class A" / "ALPHABET INC" both map to "ALPHABET".
+ */
+function normalizeHoldingName(name: string): string {
+  let n = name.trim().toUpperCase();
+
+  // Replace dots with spaces ("AMAZON.COM" → "AMAZON COM", "N.V." → "N V")
+  n = n.replace(/\./g, " ");
+
+  // Strip share-class designations: "CLASS A", "CL A", "SERIES A", "SER A", etc.
+  n = n.replace(/\s+(CLASS|CL|SERIES|SER)[\s-]+[A-Z]\b/g, "");
+
+  // Strip common corporate suffixes (order matters: longer first)
+  const suffixes = [
+    "INCORPORATED",
+    "CORPORATION",
+    "LIMITED",
+    "COMPANY",
+    "HOLDINGS",
+    "GROUP",
+    "INC",
+    "CORP",
+    "LTD",
+    "CO",
+    "PLC",
+    "AG",
+    "SA",
+    "SE",
+    "NV",
+    "N V",
+  ];
+  const suffixPattern = new RegExp(
+    `\\s+(${suffixes.join("|")})\\s*$`,
+  );
+  // Apply suffix removal up to 2 times to handle e.g. "Holdings Inc"
+  for (let i = 0; i < 2; i++) {
+    n = n.replace(suffixPattern, "");
+  }
+  // Remove trailing commas, dots, dashes
+  n = n.replace(/[,.\-]+$/, "");
+  // Collapse multiple spaces
+  n = n.replace(/\s+/g, " ").trim();
+  return n;
+}
+
+/**
+ * Pick the better display name between two variants.
+ * Prefers title-case (mixed case) over ALL-CAPS.
+ */
+export function pickDisplayName(existing: string, incoming: string): string {
+  const isAllUpper = (s: string) => s === s.toUpperCase();
+  // If existing is all-caps and incoming is not, prefer incoming
+  if (isAllUpper(existing) && !isAllUpper(incoming)) return incoming;
+  // Otherwise keep existing (first-seen or already nice)
+  return existing;
+}
+
+/** A holding as reported by a data source, with identifiers when available */
+export interface HoldingRef {
+  name: string;
+  isin?: string;
+  ticker?: string;
+}
+
+/** Strongest identifier used to merge entries into one holding */
+export type HoldingMatch = "isin" | "ticker" | "name";
+
+const MATCH_RANK: Record<HoldingMatch, number> = { isin: 3, ticker: 2, name: 1 };
+
+/** Strip an exchange suffix so "AAPL" and "AAPL.MX" compare equal */
+function baseTicker(ticker: string): string {
+  return ticker.trim().toUpperCase().split(/[.:\s]/)[0] ?? "";
+}
+
+/**
+ * Create a resolver that assigns holdings to merge groups.
+ * Lookup order is ISIN → ticker → normalized name; the name fallback never
+ * merges two holdings whose ISINs are both known and differ (e.g. share
+ * classes). Every identifier seen is registered on its group, so a later
+ * name-only entry can still join a group first keyed by ISIN.
+ */
+export function createHoldingResolver() {
+  let nextGroup = 0;
+  const byIsin = new Map<string, number>();
+  const byTicker = new Map<string, number>();
+  const byName = new Map<string, number>();
+  const groupIsins = new Map<number, Set<string>>();
+
+  return (ref: HoldingRef): { group: string; matchedBy: HoldingMatch | null } => {
+    const isin = ref.isin?.trim().toUpperCase() ?? "";
+    const ticker = ref.ticker ? baseTicker(ref.ticker) : "";
+    const name = normalizeHoldingName(ref.name);
+
+    let group: number | undefined;
+    let matchedBy: HoldingMatch | null = null;
+    if (isin && byIsin.has(isin)) {
+      group = byIsin.get(isin);
+      matchedBy = "isin";
+    } else if (ticker && byTicker.has(ticker)) {
+      group = byTicker.get(ticker);
+      matchedBy = "ticker";
+    } else if (name && byName.has(name)) {
+      const candidate = byName.get(name)!;
+      const known = groupIsins.get(candidate);
+      if (!isin || !known || known.size === 0 || known.has(isin)) {
+        group = candidate;
+        matchedBy = "name";
+      }
+    }
+
+    group ??= nextGroup++;
+    if (isin) {
+      if (!byIsin.has(isin)) byIsin.set(isin, group);
+      const known = groupIsins.get(group) ?? new Set<string>();
+      known.add(isin);
+      groupIsins.set(group, known);
+    }
+    if (ticker && !byTicker.has(ticker)) byTicker.set(ticker, group);
+    if (name && !byName.has(name)) byName.set(name, group);
+
+    return { group: String(group), matchedBy };
+  };
+}
+
+/** Keep the strongest of two match methods (ISIN > ticker > name) */
+export function strongerMatch(a: HoldingMatch | null, b: HoldingMatch | null): HoldingMatch | null {
+  if (!a) return b;
+  if (!b) return a;
+  return MATCH_RANK[b] > MATCH_RANK[a] ? b : a;
+}
+
+/**
+ * Share of a fund explained by its listed holdings, in percent (0–100).
+ * Catch-all "Other" rows don't count: a top-10 list typically explains
+ * 20–40% of a broad index fund, a full list close to 100%.
+ */
+export function listedWeight(holdings: Array<{ name: string; weight: number }>): number {
+  const listed = holdings
+    .filter((h) => h.name !== "Other" && h.name !== "Others")
+    .reduce((sum, h) => sum + h.weight, 0);
+  return Math.min(100, Math.max(0, listed));
+}
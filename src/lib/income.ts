@@ -0,0 +1,117 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Distribution income
+   ─────────────────────────────────────────────────────────────────────────────
+   Projects a year of payouts from each fund's trailing dividend yield:
+     • Annual income = position value × trailing yield; accumulating funds
+       reinvest and pay nothing
+     • Each fund's income is split evenly over its payouts per year
+     • Payout months are not scraped, so they follow the usual calendar
+       (quarterly → Mar / Jun / Sep / Dec, semi-annual → Jun / Dec, annual →
+       Dec), so the monthly split is rougher than the annual total
+   Funds without a reported frequency are treated as paying once a year.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/* ─── Types ─── */
+
+export interface IncomeInput {
+  key: string;
+  name: string;
+  ticker?: string;
+  /** Position value in the reporting currency; `null` when only weights are known */
+  value: number | null;
+  /** Share of the portfolio as a fraction (0–1) */
+  weight: number;
+  /** Distribution policy as displayed (e.g. "Distributing") */
+  policy: string;
+  /** Trailing dividend yield in percent; `null` when not reported */
+  yieldPct: number | null;
+  /** Payout frequency as displayed (e.g. "Quarterly") */
+  frequency: string;
+}
+
+export interface IncomeRow extends IncomeInput {
+  payoutsPerYear: number;
+  /** True when the frequency was not reported and one payout was assumed */
+  frequencyAssumed: boolean;
+  /** Projected income per year; `null` without a value or yield */
+  annualIncome: number | null;
+  /** Projected income per calendar month (January first) */
+  monthly: number[];
+}
+
+export interface IncomeProjection {
+  /** Distributing funds, largest income (or yield) first */
+  rows: IncomeRow[];
+  /** Sum of annual income; `null` when no position has a value */
+  totalAnnual: number | null;
+  /** Income in percent of the whole portfolio (non-payers count as 0%) */
+  portfolioYieldPct: number;
+  /** Projected income per calendar month across all funds */
+  monthly: number[];
+}
+
+export const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Projection
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Whether a displayed policy means the fund pays out */
+export function isDistributing(policy: string): boolean {
+  return /distribut|dividend|income/i.test(policy) && !/accumulat|capitali[sz]/i.test(policy);
+}
+
+/** Payouts per year for a displayed frequency; `null` when unrecognised */
+export function payoutsPerYear(frequency: string): number | null {
+  const f = frequency.toLowerCase();
+  if (f.includes("month")) return 12;
+  if (f.includes("quarter")) return 4;
+  if (/semi|half|twice|bi-?annual/.test(f)) return 2;
+  if (/annual|year/.test(f)) return 1;
+  return null;
+}
+
+/** Month indices (0 = January) of `perYear` evenly spaced payouts ending in December */
+export function payoutMonths(perYear: number): number[] {
+  const step = 12 / perYear;
+  return Array.from({ length: perYear }, (_, i) => 11 - i * step).reverse();
+}
+
+/** Project annual and monthly income for every distributing position */
+export function projectIncome(inputs: IncomeInput[]): IncomeProjection {
+  const monthly = Array.from({ length: 12 }, () => 0);
+  let totalAnnual: number | null = null;
+  let portfolioYieldPct = 0;
+
+  const rows: IncomeRow[] = [];
+  for (const input of inputs) {
+    if (!isDistributing(input.policy)) continue;
+    const known = payoutsPerYear(input.frequency);
+    const perYear = known ?? 1;
+    const annualIncome =
+      input.value !== null && input.yieldPct !== null ? (input.value * input.yieldPct) / 100 : null;
+
+    const rowMonthly = Array.from({ length: 12 }, () => 0);
+    if (annualIncome !== null) {
+      for (const m of payoutMonths(perYear)) {
+        rowMonthly[m] = annualIncome / perYear;
+        monthly[m]! += annualIncome / perYear;
+      }
+      totalAnnual = (totalAnnual ?? 0) + annualIncome;
+    }
+    portfolioYieldPct += input.weight * (input.yieldPct ?? 0);
+
+    rows.push({
+      ...input,
+      payoutsPerYear: perYear,
+      frequencyAssumed: known === null,
+      annualIncome,
+      monthly: rowMonthly,
+    });
+  }
+
+  rows.sort(
+    (a, b) => (b.annualIncome ?? 0) - (a.annualIncome ?? 0) || (b.yieldPct ?? 0) - (a.yieldPct ?? 0),
+  );
+  return { rows, totalAnnual, portfolioYieldPct, monthly };
+}
@@ -0,0 +1,106 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Locale-aware number parsing
+   ─────────────────────────────────────────────────────────────────────────────
+   Shared by the server (scraped fund facts, broker statements) and the
+   client (CSV import). Scraped values mix English and continental
+   notation and carry units and suffixes ("0.20% p.a.", "EUR 110,458 m",
+   "+12.34%"), so the number is isolated first and then parsed.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/* ─── Types ─── */
+
+/** Magnitude suffix of a displayed amount; `null` means units */
+export type AmountUnit = "k" | "m" | "bn" | null;
+
+export interface MoneyAmount {
+  /** Amount in `unit`s (e.g. 110458 for "EUR 110,458 m") */
+  amount: number;
+  /** ISO currency code, or "" when the text has none */
+  currency: string;
+  unit: AmountUnit;
+}
+
+const UNIT_MULTIPLIERS: Record<Exclude<AmountUnit, null>, number> = {
+  k: 1e3,
+  m: 1e6,
+  bn: 1e9,
+};
+
+/** Leading sign plus the first run of digits and separators */
+const NUMBER_TOKEN = /([-+−–]?)\s*(\d[\d.,'’  ]*)/;
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Parsing
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Parse a number written in either English or continental notation.
+ * "1,234.56" / "1.234,56" / "1234,5" / "12.5 %" / "€ 10 000" are all accepted.
+ * Returns `null` when no number can be extracted.
+ */
+export function parseLocaleNumber(raw: string): number | null {
+  let s = raw.replace(/[\s '’]/g, "").replace(/[^\d.,\-]/g, "");
+  if (!/\d/.test(s)) return null;
+
+  const lastComma = s.lastIndexOf(",");
+  const lastDot = s.lastIndexOf(".");
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Whichever separator comes last is the decimal separator
+    s = lastComma > lastDot
+      ? s.replace(/\./g, "").replace(",", ".")
+      : s.replace(/,/g, "");
+  } else if (lastComma >= 0) {
+    // "1,234" / "1,234,567" are thousands; "12,5" and "0,123" are decimals
+    // (a leading group of "0" is never written with thousands separators)
+    s = /^-?[1-9]\d{0,2}(,\d{3})+$/.test(s) ? s.replace(/,/g, "") : s.replace(",", ".");
+  } else if ((s.match(/\./g) ?? []).length > 1) {
+    // "1.234.567" — dots can only be thousands separators
+    s = s.replace(/\./g, "");
+  }
+
+  const num = parseFloat(s);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Extract the first signed number from display text, ignoring surrounding
+ * words and units: "0.20% p.a." → 0.2, "−3,5 %" → -3.5, "-" → null.
+ */
+export function parseDisplayNumber(raw: string | null | undefined): number | null {
+  if (!raw) return null;
+  const match = NUMBER_TOKEN.exec(raw);
+  if (!match) return null;
+  // Trailing separators belong to the surrounding text ("12.5. ", "1,234, ")
+  const value = parseLocaleNumber(match[2]!.replace(/[.,'’  ]+$/, ""));
+  if (value === null) return null;
+  return match[1] && match[1] !== "+" ? -value : value;
+}
+
+/**
+ * Parse a displayed money amount such as "EUR 110,458 m", "USD 1.2 bn"
+ * or "2.345 Mio. €". Returns `null` when the text has no number.
+ */
+export function parseMoneyAmount(raw: string | null | undefined): MoneyAmount | null {
+  const amount = parseDisplayNumber(raw);
+  const match = raw ? NUMBER_TOKEN.exec(raw) : null;
+  if (amount === null || !raw || !match) return null;
+
+  const currency =
+    /\b([A-Z]{3})\b/.exec(raw)?.[1] ??
+    (raw.includes("€") ? "EUR" : raw.includes("$") ? "USD" : raw.includes("£") ? "GBP" : "");
+
+  // Unit word after the number: "m", "mn", "Mio.", "bn", "Mrd.", "k", "thousand", …
+  const suffix = raw.slice(match.index + match[0].length);
+  const word = /^\s*([a-z]+)/i.exec(suffix)?.[1]?.toLowerCase() ?? "";
+  let unit: AmountUnit = null;
+  if (/^(k|thousand|tsd)$/.test(word)) unit = "k";
+  else if (/^(m|mn|mm|mio|million|millions)$/.test(word)) unit = "m";
+  else if (/^(b|bn|billion|billions|mrd)$/.test(word)) unit = "bn";
+
+  return { amount, currency, unit };
+}
+
+/** Absolute value of a parsed amount (e.g. 110458 m → 110 458 000 000) */
+export function moneyAmountValue(money: MoneyAmount): number {
+  return money.unit ? money.amount * UNIT_MULTIPLIERS[money.unit] : money.amount;
+}
@@ -0,0 +1,94 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Holdings overlap
+   ─────────────────────────────────────────────────────────────────────────────
+   How much two funds hold in common. The overlap is weight-based: for
+   every security held by both, the smaller of the two weights counts, so
+   two identical funds overlap 100% and two funds sharing many tiny
+   positions overlap little. Partial holdings lists (top 10 only) make
+   this a lower bound.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import {
+  createHoldingResolver,
+  pickDisplayName,
+  strongerMatch,
+  type HoldingMatch,
+  type HoldingRef,
+} from "~/lib/holdings";
+
+/* ─── Types ─── */
+
+export interface WeightedHolding extends HoldingRef {
+  /** Weight in percent of the fund */
+  weight: number;
+}
+
+export interface CommonHolding {
+  name: string;
+  /** Weight in the first and the second fund, in percent */
+  weights: [number, number];
+  matchedBy: HoldingMatch | null;
+}
+
+export interface HoldingsOverlap {
+  /** Σ min(weight in A, weight in B) over common holdings, in percent */
+  overlapPct: number;
+  /** Common holdings, largest shared weight first */
+  common: CommonHolding[];
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Computation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Weights by merge group for each fund; "Other" buckets are skipped */
+function groupHoldings(funds: WeightedHolding[][]) {
+  const resolve = createHoldingResolver();
+  const names = new Map<string, string>();
+  const matches = new Map<string, HoldingMatch | null>();
+  const weights = funds.map((holdings) => {
+    const byGroup = new Map<string, number>();
+    for (const h of holdings) {
+      if (h.name === "Other" || h.name === "Others") continue;
+      const { group, matchedBy } = resolve(h);
+      byGroup.set(group, (byGroup.get(group) ?? 0) + h.weight);
+      names.set(group, pickDisplayName(names.get(group) ?? h.name, h.name));
+      matches.set(group, strongerMatch(matches.get(group) ?? null, matchedBy));
+    }
+    return byGroup;
+  });
+  return { weights, names, matches };
+}
+
+/** Weight-based overlap between two funds' holdings */
+export function holdingsOverlap(a: WeightedHolding[], b: WeightedHolding[]): HoldingsOverlap {
+  const { weights, names, matches } = groupHoldings([a, b]);
+  const [wa, wb] = weights as [Map<string, number>, Map<string, number>];
+
+  const common: CommonHolding[] = [];
+  for (const [group, weightA] of wa) {
+    const weightB = wb.get(group);
+    if (weightB === undefined) continue;
+    common.push({
+      name: names.get(group) ?? group,
+      weights: [weightA, weightB],
+      matchedBy: matches.get(group) ?? null,
+    });
+  }
+  common.sort((x, y) => Math.min(...y.weights) - Math.min(...x.weights));
+
+  return {
+    overlapPct: common.reduce((sum, c) => sum + Math.min(...c.weights), 0),
+    common,
+  };
+}
+
+/** Pairwise overlap percentages; the diagonal is 100 for funds with holdings */
+export function overlapMatrix(funds: WeightedHolding[][]): number[][] {
+  return funds.map((a, i) =>
+    funds.map((b, j) => {
+      if (i === j) return a.length > 0 ? 100 : 0;
+      return holdingsOverlap(a, b).overlapPct;
+    }),
+  );
+}
@@ -0,0 +1,127 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Rebalancing calculator
+   ─────────────────────────────────────────────────────────────────────────────
+   Turns current position values and target weights into buy / sell
+   amounts:
+     • With selling allowed, every targeted position moves to its target
+     • Buy-only, new cash fills the largest shortfalls first and any cash
+       left after that is spread by target weight
+     • Trades below the minimum size are skipped
+     • With a price per share, trades are rounded down to whole shares
+   Positions without a target are left untouched and excluded from the base.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/* ─── Types ─── */
+
+export interface RebalanceInput {
+  id: number;
+  /** Current value in the portfolio currency */
+  value: number;
+  /** Target weight in percent; `null` when no target is set */
+  targetPct: number | null;
+  /** Price per share in the portfolio currency, when a quote is available */
+  price: number | null;
+}
+
+export interface RebalanceOptions {
+  /** New cash to invest, in the portfolio currency */
+  contribution: number;
+  allowSell: boolean;
+  /** Trades smaller than this (absolute, portfolio currency) are skipped */
+  minTrade: number;
+}
+
+export interface RebalanceTrade {
+  id: number;
+  current: number;
+  /** Value the position should have at its target weight */
+  targetValue: number;
+  /** Signed trade amount: positive buys, negative sells */
+  amount: number;
+  /** Whole shares to trade (signed), when a price is available */
+  shares: number | null;
+  /** Weight after the trade in percent of the new total */
+  afterPct: number;
+}
+
+export interface RebalanceResult {
+  trades: RebalanceTrade[];
+  /** Sum of all target weights in percent (100 when fully specified) */
+  totalTargetPct: number;
+  /** Contribution that remains uninvested after skipping and rounding */
+  unallocatedCash: number;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Computation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Raw (unrounded) amounts per targeted position */
+function idealAmounts(
+  targeted: Array<RebalanceInput & { targetPct: number }>,
+  desired: number[],
+  { contribution, allowSell }: RebalanceOptions,
+): number[] {
+  if (allowSell) return targeted.map((p, i) => desired[i]! - p.value);
+
+  const gaps = targeted.map((p, i) => Math.max(0, desired[i]! - p.value));
+  const totalGap = gaps.reduce((s, g) => s + g, 0);
+  if (totalGap >= contribution) {
+    return totalGap > 0 ? gaps.map((g) => (g / totalGap) * contribution) : gaps;
+  }
+
+  // Every shortfall is covered; the rest follows the targets
+  const rest = contribution - totalGap;
+  const totalTarget = targeted.reduce((s, p) => s + p.targetPct, 0);
+  return gaps.map((g, i) => g + (rest * targeted[i]!.targetPct) / totalTarget);
+}
+
+/** Compute trades that bring targeted positions to their target weights */
+export function computeRebalance(
+  positions: RebalanceInput[],
+  options: RebalanceOptions,
+): RebalanceResult {
+  const targeted = positions.filter(
+    (p): p is RebalanceInput & { targetPct: number } => p.targetPct !== null && p.targetPct > 0,
+  );
+  const totalTargetPct = targeted.reduce((s, p) => s + p.targetPct, 0);
+  const contribution = Math.max(0, options.contribution);
+
+  if (targeted.length === 0) {
+    return { trades: [], totalTargetPct: 0, unallocatedCash: contribution };
+  }
+
+  // Untargeted positions keep their value and are not part of the base
+  const investable = targeted.reduce((s, p) => s + p.value, 0) + contribution;
+  const desired = targeted.map((p) => (investable * p.targetPct) / totalTargetPct);
+  const ideal = idealAmounts(targeted, desired, { ...options, contribution });
+
+  const rounded = targeted.map((p, i) => {
+    const raw = ideal[i]!;
+    if (Math.abs(raw) < options.minTrade || Math.abs(raw) < 0.005) {
+      return { amount: 0, shares: p.price ? 0 : null };
+    }
+    if (!p.price) return { amount: raw, shares: null };
+    // Round towards zero: never overspend on buys or oversell
+    const shares = Math.trunc(raw / p.price);
+    return { amount: shares * p.price, shares };
+  });
+
+  const traded = rounded.reduce((s, r) => s + r.amount, 0);
+  const totalAfter =
+    positions.reduce((s, p) => s + p.value, 0) + traded;
+
+  const trades = targeted.map((p, i): RebalanceTrade => {
+    const after = p.value + rounded[i]!.amount;
+    return {
+      id: p.id,
+      current: p.value,
+      targetValue: desired[i]!,
+      amount: rounded[i]!.amount,
+      shares: rounded[i]!.shares,
+      afterPct: totalAfter > 0 ? (after / totalAfter) * 100 : 0,
+    };
+  });
+
+  return { trades, totalTargetPct, unallocatedCash: contribution - traded };
+}
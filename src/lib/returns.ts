@@ -0,0 +1,126 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Portfolio-level trailing returns
+   ─────────────────────────────────────────────────────────────────────────────
+   Combines the per-ETF trailing returns scraped from the provider profiles
+   into position-weighted portfolio returns, one per horizon. Positions
+   without a figure for a horizon are left out and reported, and the
+   remaining weights are rescaled so contributions always add up to the
+   total.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/* ─── Types ─── */
+
+export type ReturnHorizon =
+  | "oneMonth"
+  | "threeMonths"
+  | "sixMonths"
+  | "ytd"
+  | "oneYear"
+  | "threeYears"
+  | "fiveYears"
+  | "max";
+
+/** Signed cumulative returns in percent; `null` when not reported */
+export type ReturnsByHorizon = Record<ReturnHorizon, number | null>;
+
+export const RETURN_HORIZONS: Array<{ key: ReturnHorizon; label: string }> = [
+  { key: "oneMonth", label: "1M" },
+  { key: "threeMonths", label: "3M" },
+  { key: "sixMonths", label: "6M" },
+  { key: "ytd", label: "YTD" },
+  { key: "oneYear", label: "1Y" },
+  { key: "threeYears", label: "3Y" },
+  { key: "fiveYears", label: "5Y" },
+  { key: "max", label: "Max" },
+];
+
+export interface ReturnPosition {
+  /** Stable key (ISIN, or ticker for positions without one) */
+  key: string;
+  name: string;
+  ticker?: string;
+  /** Fraction of the portfolio, 0–1 */
+  weight: number;
+  /** `null` when no return data is available at all (e.g. single stocks) */
+  returns: ReturnsByHorizon | null;
+}
+
+export interface ReturnContribution {
+  key: string;
+  name: string;
+  ticker?: string;
+  /** Fraction of the portfolio, 0–1 */
+  weight: number;
+  /** The position's own return for the horizon */
+  returnPct: number;
+  /** Percentage points this position adds to the portfolio return */
+  contributionPct: number;
+}
+
+export interface HorizonReturn {
+  horizon: ReturnHorizon;
+  label: string;
+  /** Weighted portfolio return in percent; `null` when no position has data */
+  totalPct: number | null;
+  /** Share of the portfolio weight that has data for this horizon, 0–1 */
+  coverage: number;
+  /** Largest absolute contribution first */
+  contributions: ReturnContribution[];
+  /** Positions without a figure for this horizon */
+  missing: Array<{ key: string; name: string; ticker?: string; weight: number }>;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Computation
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Weighted return for one horizon over the positions that report it */
+function computeHorizon(
+  positions: ReturnPosition[],
+  horizon: ReturnHorizon,
+  label: string,
+): HorizonReturn {
+  const totalWeight = positions.reduce((s, p) => s + p.weight, 0);
+  const withData: Array<ReturnPosition & { returnPct: number }> = [];
+  const missing: HorizonReturn["missing"] = [];
+
+  for (const p of positions) {
+    const value = p.returns?.[horizon] ?? null;
+    if (value === null) {
+      missing.push({ key: p.key, name: p.name, ticker: p.ticker, weight: p.weight });
+    } else {
+      withData.push({ ...p, returnPct: value });
+    }
+  }
+
+  const coveredWeight = withData.reduce((s, p) => s + p.weight, 0);
+  if (coveredWeight <= 0) {
+    return { horizon, label, totalPct: null, coverage: 0, contributions: [], missing };
+  }
+
+  const contributions = withData
+    .map((p): ReturnContribution => ({
+      key: p.key,
+      name: p.name,
+      ticker: p.ticker,
+      weight: p.weight,
+      returnPct: p.returnPct,
+      contributionPct: (p.weight / coveredWeight) * p.returnPct,
+    }))
+    .sort((a, b) => Math.abs(b.contributionPct) - Math.abs(a.contributionPct));
+
+  return {
+    horizon,
+    label,
+    totalPct: contributions.reduce((s, c) => s + c.contributionPct, 0),
+    coverage: totalWeight > 0 ? coveredWeight / totalWeight : 0,
+    contributions,
+    missing: missing.sort((a, b) => b.weight - a.weight),
+  };
+}
+
+/** Position-weighted trailing returns for every horizon, in display order */
+export function computeWeightedReturns(positions: ReturnPosition[]): HorizonReturn[] {
+  const weighted = positions.filter((p) => p.weight > 0);
+  return RETURN_HORIZONS.map(({ key, label }) => computeHorizon(weighted, key, label));
+}
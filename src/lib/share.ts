@@ -0,0 +1,144 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Shareable portfolio links
+   ─────────────────────────────────────────────────────────────────────────────
+   Encodes positions, input mode and currency into a URL fragment:
+     #share=<version>.<base64url(deflate-raw(JSON))>
+   The fragment never reaches the server, so shared portfolios stay as
+   private as the link itself. Bump SHARE_FORMAT_VERSION when the payload
+   shape changes and keep decoding older versions.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { type InputMode, type PortfolioData } from "~/types/portfolio";
+import { normalizePortfolioData } from "~/lib/storage";
+
+/* ─── Constants ─── */
+export const SHARE_HASH_KEY = "share";
+const SHARE_FORMAT_VERSION = 1;
+
+/**
+ * Compact v1 payload: single-letter keys and one tuple per position
+ * (ISIN, ticker, name, type "e" | "s", value, currency). The currency is
+ * only written when it differs from the portfolio currency `c`.
+ */
+interface SharePayloadV1 {
+  m: "a" | "p" | "s";
+  c: string;
+  p: Array<[string, string, string, "e" | "s", string, string?]>;
+}
+
+const SHARE_MODE_CODES: Record<InputMode, SharePayloadV1["m"]> = {
+  amount: "a",
+  percentage: "p",
+  shares: "s",
+};
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Byte helpers
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Public API
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Encode a portfolio into the value of the `#share=` fragment */
+export async function encodeSharedPortfolio(
+  data: Pick<PortfolioData, "inputMode" | "currency" | "positions">,
+): Promise<string> {
+  const payload: SharePayloadV1 = {
+    m: SHARE_MODE_CODES[data.inputMode],
+    c: data.currency,
+    p: data.positions
+      .filter((p) => p.security)
+      .map((p) => {
+        const tuple: SharePayloadV1["p"][number] = [
+          p.isin,
+          p.ticker,
+          p.name,
+          p.security?.type === "stock" ? "s" : "e",
+          p.value,
+        ];
+        if (p.currency !== data.currency) tuple.push(p.currency);
+        return tuple;
+      }),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await pipeBytes(json, new CompressionStream("deflate-raw"));
+  return `${SHARE_FORMAT_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Decode a `#share=` fragment value. Returns `null` for unknown versions,
+ * malformed data, or payloads without usable positions — never throws.
+ */
+export async function decodeSharedPortfolio(
+  encoded: string,
+): Promise<PortfolioData | null> {
+  const dot = encoded.indexOf(".");
+  if (dot < 0) return null;
+  const version = Number(encoded.slice(0, dot));
+  if (version !== SHARE_FORMAT_VERSION) return null;
+
+  try {
+    const bytes = await pipeBytes(
+      fromBase64Url(encoded.slice(dot + 1)),
+      new DecompressionStream("deflate-raw"),
+    );
+    const payload = JSON.parse(new TextDecoder().decode(bytes)) as Partial<SharePayloadV1>;
+    if (!Array.isArray(payload.p)) return null;
+
+    return normalizePortfolioData({
+      inputMode: payload.m === "a" ? "amount" : payload.m === "s" ? "shares" : "percentage",
+      currency: payload.c,
+      totalPortfolioValue: "",
+      positions: payload.p.map(([isin, ticker, name, type, value, currency], i) => ({
+        id: i + 1,
+        name,
+        isin,
+        ticker,
+        security: { ticker, isin, name, type: type === "s" ? "stock" : "etf" },
+        value,
+        currency,
+      })),
+    });
+  } catch {
+    return null;
+  }
+}
+
+/** Read the share fragment from a location hash ("#share=1.abc…"), if any */
+export function readShareHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(SHARE_HASH_KEY);
+}
+
+/** Build an absolute share URL for the overview page */
+export async function buildShareUrl(
+  origin: string,
+  data: Pick<PortfolioData, "inputMode" | "currency" | "positions">,
+): Promise<string> {
+  const encoded = await encodeSharedPortfolio(data);
+  return `${origin}/portfolio/overview#${SHARE_HASH_KEY}=${encoded}`;
+}
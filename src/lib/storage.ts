@@ -2,38 +2,52 @@
    localStorage utilities for portfolio data
    ─────────────────────────────────────────────────────────────────────────────
    Centralises save / load / clear logic with:
+     • A collection of named portfolios, one of which is active
      • Schema versioning (bump CURRENT_VERSION when the shape changes)
      • Validation of required fields and types on load
      • Graceful handling of corrupted / missing / migrated data
+     • A quarantine that keeps unreadable data instead of deleting it
    ═══════════════════════════════════════════════════════════════════════════════ */
 
 import {
-  CURRENCIES,
+  isSupportedCurrency,
+  type DriftSettings,
+  type ExposureRule,
+  type ExposureTarget,
   type InputMode,
+  type NamedPortfolio,
+  type PortfolioCollection,
   type PortfolioData,
+  type PortfolioSummary,
   type Position,
+  type QuarantinedData,
   type SecurityResult,
+  type Transaction,
 } from "~/types/portfolio";
+import { type BuilderSnapshot, type UndoHistory, HISTORY_LIMIT, emptyHistory } from "~/lib/history";
 
 /* ─── Constants ─── */
 export const STORAGE_KEY = "seetf-portfolio";
+export const QUARANTINE_KEY = "seetf-quarantine";
+
+/** Oldest quarantined entries are dropped beyond this many */
+const QUARANTINE_LIMIT = 5;
 
 /**
  * Bump this whenever the persisted schema changes.
  * The `migratePortfolio` function should handle all older versions.
  */
-export const CURRENT_VERSION = 2;
+export const CURRENT_VERSION = 5;
+
+/** Name given to the portfolio lifted from the pre-collection (v2) format */
+export const DEFAULT_PORTFOLIO_NAME = "My Portfolio";
 
 /* ═══════════════════════════════════════════════════════════════════════════════
    Validation helpers
    ═══════════════════════════════════════════════════════════════════════════════ */
 
 function isInputMode(v: unknown): v is InputMode {
-  return v === "amount" || v === "percentage";
-}
-
-function isValidCurrency(v: unknown): v is string {
-  return typeof v === "string" && CURRENCIES.some((c) => c.value === v);
+  return v === "amount" || v === "percentage" || v === "shares";
 }
 
 /** Validate and normalise a single SecurityResult blob (raw data only) */
@@ -52,7 +66,11 @@ function validateSecurity(raw: unknown): SecurityResult | null {
 }
 
 /** Validate and normalise a single position */
-function validatePosition(raw: unknown, fallbackId: number): Position | null {
+function validatePosition(
+  raw: unknown,
+  fallbackId: number,
+  fallbackCurrency: string,
+): Position | null {
   if (raw == null || typeof raw !== "object") return null;
   const obj = raw as Record<string, unknown>;
 
@@ -67,10 +85,160 @@ function validatePosition(raw: unknown, fallbackId: number): Position | null {
   const ticker =
     typeof obj.ticker === "string" ? obj.ticker : (security?.ticker ?? "");
   const value = typeof obj.value === "string" ? obj.value : "";
+  const currency = isSupportedCurrency(obj.currency) ? obj.currency : fallbackCurrency;
+  const target = typeof obj.target === "string" && obj.target.trim() ? obj.target : undefined;
+  const transactions = validateTransactions(obj.transactions, currency);
 
   // A position that has no security AND no name/ticker is effectively empty;
   // we still keep it so the user doesn't silently lose rows.
-  return { id, name, isin, ticker, security, value };
+  return {
+    id,
+    name,
+    isin,
+    ticker,
+    security,
+    value,
+    currency,
+    ...(target && { target }),
+    ...(transactions && { transactions }),
+  };
+}
+
+/** Validate a position's ledger; trades without a date or quantity are dropped */
+function validateTransactions(raw: unknown, fallbackCurrency: string): Transaction[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const transactions: Transaction[] = [];
+  for (const item of raw as Array<Record<string, unknown> | null>) {
+    if (item == null || typeof item !== "object") continue;
+    const { type, date } = item;
+    if (type !== "buy" && type !== "sell") continue;
+    if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date)) continue;
+    const quantity = finiteOrNull(item.quantity);
+    const price = finiteOrNull(item.price);
+    if (!quantity || price === null) continue;
+    transactions.push({
+      id: typeof item.id === "string" && item.id ? item.id : `t${transactions.length + 1}`,
+      type,
+      date,
+      quantity,
+      price,
+      fees: finiteOrNull(item.fees) ?? 0,
+      currency: isSupportedCurrency(item.currency) ? item.currency : fallbackCurrency,
+    });
+  }
+  return transactions;
+}
+
+function finiteOrNull(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0 ? v : null;
+}
+
+/** Validate drift alert settings; invalid exposure targets are dropped */
+function validateDriftSettings(raw: unknown): DriftSettings | undefined {
+  if (raw == null || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  const obj = raw as Record<string, unknown>;
+
+  const exposureTargets: ExposureTarget[] = [];
+  if (Array.isArray(obj.exposureTargets)) {
+    for (const item of obj.exposureTargets as Array<Record<string, unknown> | null>) {
+      if (item == null || typeof item !== "object") continue;
+      const { dimension, name, target } = item;
+      if (dimension !== "country" && dimension !== "sector") continue;
+      if (typeof name !== "string" || !name.trim()) continue;
+      if (typeof target !== "number" || !Number.isFinite(target) || target < 0) continue;
+      exposureTargets.push({ dimension, name, target });
+    }
+  }
+
+  return {
+    absolutePp: finiteOrNull(obj.absolutePp),
+    relativePct: finiteOrNull(obj.relativePct),
+    exposureTargets,
+  };
+}
+
+/** Validate exposure rules; rules without a scope or any limit are dropped */
+function validateExposureRules(raw: unknown): ExposureRule[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const rules: ExposureRule[] = [];
+  for (const item of raw as Array<Record<string, unknown> | null>) {
+    if (item == null || typeof item !== "object") continue;
+    const { scope } = item;
+    if (scope !== "holding" && scope !== "country" && scope !== "sector") continue;
+    const min = finiteOrNull(item.min);
+    const max = finiteOrNull(item.max);
+    if (min === null && max === null) continue;
+    const match = Array.isArray(item.match)
+      ? (item.match as unknown[]).filter((m): m is string => typeof m === "string" && m.trim() !== "")
+      : [];
+    rules.push({
+      id: typeof item.id === "string" && item.id ? item.id : `r${rules.length + 1}`,
+      label: typeof item.label === "string" ? item.label : "",
+      scope,
+      match,
+      min,
+      max,
+      warnPp: finiteOrNull(item.warnPp) ?? 0,
+    });
+  }
+  return rules;
+}
+
+/** Validate the fields shared by every portfolio (mode, currency, positions) */
+function validatePortfolioFields(
+  obj: Record<string, unknown>,
+): Omit<PortfolioData, "version"> {
+  const inputMode: InputMode = isInputMode(obj.inputMode)
+    ? obj.inputMode
+    : "amount";
+  const currency: string = isSupportedCurrency(obj.currency)
+    ? obj.currency
+    : "USD";
+  const totalPortfolioValue =
+    typeof obj.totalPortfolioValue === "string"
+      ? obj.totalPortfolioValue
+      : "";
+
+  const positions: Position[] = [];
+  if (Array.isArray(obj.positions)) {
+    let nextId = 1;
+    for (const item of obj.positions) {
+      const pos = validatePosition(item, nextId, currency);
+      if (pos) {
+        positions.push(pos);
+        if (pos.id >= nextId) nextId = pos.id + 1;
+      }
+    }
+  }
+
+  const drift = validateDriftSettings(obj.drift);
+  const rules = validateExposureRules(obj.rules);
+  const costBasisMethod =
+    obj.costBasisMethod === "fifo" || obj.costBasisMethod === "average" ? obj.costBasisMethod : undefined;
+
+  return {
+    inputMode,
+    currency,
+    totalPortfolioValue,
+    positions,
+    ...(drift && { drift }),
+    ...(rules && { rules }),
+    ...(costBasisMethod && { costBasisMethod }),
+  };
+}
+
+/** Validate a single named portfolio inside the collection */
+function validateNamedPortfolio(raw: unknown): NamedPortfolio | null {
+  if (raw == null || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.id !== "string" || obj.id === "") return null;
+  const name =
+    typeof obj.name === "string" && obj.name.trim()
+      ? obj.name
+      : DEFAULT_PORTFOLIO_NAME;
+  return { id: obj.id, name, ...validatePortfolioFields(obj) };
 }
 
 /* ═══════════════════════════════════════════════════════════════════════════════
@@ -79,7 +247,9 @@ function validatePosition(raw: unknown, fallbackId: number): Position | null {
 
 /**
  * Migrate data from an older version to `CURRENT_VERSION`.
- * Currently only v0 (no version field) → v1 is supported.
+ * v0 → v1 → v2 operate on the single-portfolio blob; v2 → v3 lifts that
+ * blob into a named portfolio collection; later steps operate on each
+ * entry of `raw.portfolios`.
  */
 function migratePortfolio(
   raw: Record<string, unknown>,
@@ -94,9 +264,6 @@ function migratePortfolio(
     }
   }
 
-  // Future migrations go here:
-  // if (version < 3) { ... }
-
   if (version < 2) {
     // v1 → v2: add name, isin, ticker as top-level position fields
     raw.version = 2;
@@ -116,18 +283,124 @@ function migratePortfolio(
     }
   }
 
+  if (version < 3) {
+    // v2 → v3: wrap the single portfolio into a collection and make it active
+    const id = generatePortfolioId();
+    raw = {
+      version: 3,
+      activeId: id,
+      portfolios: [
+        {
+          id,
+          name: DEFAULT_PORTFOLIO_NAME,
+          inputMode: raw.inputMode,
+          currency: raw.currency,
+          totalPortfolioValue: raw.totalPortfolioValue,
+          positions: raw.positions,
+        },
+      ],
+    };
+  }
+
+  if (version < 4) {
+    // v3 → v4: positions get their own currency, defaulting to the portfolio's
+    raw.version = 4;
+    if (Array.isArray(raw.portfolios)) {
+      for (const entry of raw.portfolios as Record<string, unknown>[]) {
+        if (entry == null || typeof entry !== "object") continue;
+        if (!Array.isArray(entry.positions)) continue;
+        for (const pos of entry.positions as Record<string, unknown>[]) {
+          if (pos != null && typeof pos === "object" && typeof pos.currency !== "string") {
+            pos.currency = entry.currency;
+          }
+        }
+      }
+    }
+  }
+
+  if (version < 5) {
+    // v4 → v5: positions may carry a transaction ledger; anything that isn't
+    // a list under that key predates it and is dropped
+    raw.version = 5;
+    if (Array.isArray(raw.portfolios)) {
+      for (const entry of raw.portfolios as Record<string, unknown>[]) {
+        if (entry == null || typeof entry !== "object") continue;
+        if (!Array.isArray(entry.positions)) continue;
+        for (const pos of entry.positions as Record<string, unknown>[]) {
+          if (pos != null && typeof pos === "object" && "transactions" in pos && !Array.isArray(pos.transactions)) {
+            delete pos.transactions;
+          }
+        }
+      }
+    }
+  }
+
+  // Future migrations go here (operating on each entry of raw.portfolios):
+  // if (version < 6) { ... }
+
   return raw;
 }
 
 /* ═══════════════════════════════════════════════════════════════════════════════
-   Public API
+   Collection persistence
    ═══════════════════════════════════════════════════════════════════════════════ */
 
+/** Generate a short, collision-resistant portfolio ID */
+function generatePortfolioId(): string {
+  return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Build an empty portfolio with default settings */
+function createEmptyPortfolio(name: string): NamedPortfolio {
+  return {
+    id: generatePortfolioId(),
+    name,
+    inputMode: "amount",
+    currency: "USD",
+    totalPortfolioValue: "",
+    positions: [],
+  };
+}
+
 /**
- * Load, validate, and (if necessary) migrate the persisted portfolio.
- * Returns `null` when no data exists or the data is irrecoverably corrupt.
+ * Migrate and validate a decoded collection blob. Portfolios that fail
+ * validation are dropped; returns `null` when none are left.
  */
-export function loadPortfolio(): PortfolioData | null {
+function parseCollection(parsed: Record<string, unknown>): PortfolioCollection | null {
+  const obj = migratePortfolio(parsed);
+
+  const portfolios: NamedPortfolio[] = [];
+  const seenIds = new Set<string>();
+  if (Array.isArray(obj.portfolios)) {
+    for (const item of obj.portfolios) {
+      const portfolio = validateNamedPortfolio(item);
+      if (portfolio && !seenIds.has(portfolio.id)) {
+        seenIds.add(portfolio.id);
+        portfolios.push(portfolio);
+      }
+    }
+  }
+
+  if (portfolios.length === 0) return null;
+
+  const activeId =
+    typeof obj.activeId === "string" && seenIds.has(obj.activeId)
+      ? obj.activeId
+      : portfolios[0]!.id;
+
+  return {
+    version: CURRENT_VERSION,
+    activeId,
+    portfolios,
+  };
+}
+
+/**
+ * Load, validate, and (if necessary) migrate the persisted collection.
+ * Returns `null` when no data exists or the data is irrecoverably corrupt;
+ * corrupt data is moved to the quarantine rather than deleted.
+ */
+function loadCollection(): PortfolioCollection | null {
   try {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) return null;
@@ -136,92 +409,340 @@ export function loadPortfolio(): PortfolioData | null {
     try {
       parsed = JSON.parse(raw);
     } catch {
-      // JSON is corrupted – wipe it
-      localStorage.removeItem(STORAGE_KEY);
+      quarantineStoredData(STORAGE_KEY, raw, "The saved data is not valid JSON");
       return null;
     }
 
     if (parsed == null || typeof parsed !== "object" || Array.isArray(parsed)) {
-      localStorage.removeItem(STORAGE_KEY);
+      quarantineStoredData(STORAGE_KEY, raw, "The saved data is not a portfolio collection");
       return null;
     }
 
-    const obj = migratePortfolio(parsed as Record<string, unknown>);
-
-    // Validate top-level fields
-    const inputMode: InputMode = isInputMode(obj.inputMode)
-      ? obj.inputMode
-      : "amount";
-    const currency: string = isValidCurrency(obj.currency)
-      ? obj.currency
-      : "USD";
-    const totalPortfolioValue =
-      typeof obj.totalPortfolioValue === "string"
-        ? obj.totalPortfolioValue
-        : "";
-
-    // Validate positions
-    const positions: Position[] = [];
-    if (Array.isArray(obj.positions)) {
-      let nextId = 1;
-      for (const item of obj.positions) {
-        const pos = validatePosition(item, nextId);
-        if (pos) {
-          positions.push(pos);
-          if (pos.id >= nextId) nextId = pos.id + 1;
-        }
-      }
-    }
-
-    if (positions.length === 0) {
-      // No usable positions — treat as empty
+    const storedCount = Array.isArray((parsed as Record<string, unknown>).portfolios)
+      ? ((parsed as Record<string, unknown>).portfolios as unknown[]).length
+      : 1; // pre-collection (v2) data holds a single portfolio
+    const collection = parseCollection(parsed as Record<string, unknown>);
+    if (!collection) {
+      quarantineStoredData(STORAGE_KEY, raw, "None of the saved portfolios could be read");
       return null;
     }
-
-    const data: PortfolioData = {
-      version: CURRENT_VERSION,
-      inputMode,
-      currency,
-      totalPortfolioValue,
-      positions,
-    };
+    if (collection.portfolios.length < storedCount) {
+      // Keep the original before the write-back below drops the unreadable entries
+      const lost = storedCount - collection.portfolios.length;
+      quarantineCopy(
+        STORAGE_KEY,
+        raw,
+        `${lost} of ${storedCount} saved portfolios could not be read`,
+      );
+    }
 
     // Persist the (possibly migrated / corrected) version back
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    } catch {
-      // quota exceeded — not critical
-    }
+    saveCollection(collection);
 
-    return data;
+    return collection;
   } catch {
     // localStorage entirely unavailable
     return null;
   }
 }
 
-/**
- * Save a portfolio to localStorage.
- * Automatically stamps the current schema version.
- */
-export function savePortfolio(data: Omit<PortfolioData, "version">): void {
+/** Load the collection, creating a fresh one with a single empty portfolio if none exists */
+function loadOrCreateCollection(): PortfolioCollection {
+  const existing = loadCollection();
+  if (existing) return existing;
+  const portfolio = createEmptyPortfolio(DEFAULT_PORTFOLIO_NAME);
+  return {
+    version: CURRENT_VERSION,
+    activeId: portfolio.id,
+    portfolios: [portfolio],
+  };
+}
+
+function saveCollection(collection: PortfolioCollection): void {
   try {
-    const payload: PortfolioData = { ...data, version: CURRENT_VERSION };
+    const payload: PortfolioCollection = {
+      ...collection,
+      version: CURRENT_VERSION,
+    };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
   } catch {
     // localStorage full or unavailable – silently ignore
   }
 }
 
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Quarantine
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Add a verbatim copy of stored data to the quarantine. Identical copies are
+ * only kept once. Returns `false` when the quarantine could not be written.
+ */
+function quarantineCopy(key: string, raw: string, reason: string): boolean {
+  try {
+    const entries = loadQuarantine();
+    if (entries.some((e) => e.key === key && e.raw === raw)) return true;
+    const entry: QuarantinedData = {
+      id: `q${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      key,
+      reason,
+      quarantinedAt: new Date().toISOString(),
+      raw,
+    };
+    localStorage.setItem(QUARANTINE_KEY, JSON.stringify([entry, ...entries].slice(0, QUARANTINE_LIMIT)));
+    return true;
+  } catch {
+    // localStorage full or unavailable
+    return false;
+  }
+}
+
 /**
- * Remove the portfolio from localStorage entirely.
+ * Move unreadable data out of `key` into the quarantine. If the copy
+ * cannot be written the data is left in place, so nothing is lost.
+ */
+function quarantineStoredData(key: string, raw: string, reason: string): void {
+  if (quarantineCopy(key, raw, reason)) localStorage.removeItem(key);
+}
+
+/** Quarantined data, newest first */
+export function loadQuarantine(): QuarantinedData[] {
+  try {
+    const raw = localStorage.getItem(QUARANTINE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return (parsed as Array<Record<string, unknown> | null>).filter(
+      (e): e is Record<string, unknown> & QuarantinedData =>
+        e != null &&
+        typeof e === "object" &&
+        typeof e.id === "string" &&
+        typeof e.key === "string" &&
+        typeof e.reason === "string" &&
+        typeof e.quarantinedAt === "string" &&
+        typeof e.raw === "string",
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** Permanently delete a quarantined entry */
+export function discardQuarantined(id: string): void {
+  try {
+    const entries = loadQuarantine().filter((e) => e.id !== id);
+    if (entries.length > 0) localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+    else localStorage.removeItem(QUARANTINE_KEY);
+  } catch {
+    // localStorage unavailable
+  }
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Public API — active portfolio
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/**
+ * Load the active portfolio from the persisted collection.
+ * Returns `null` when no data exists, the data is irrecoverably corrupt,
+ * or the active portfolio has no positions yet.
+ */
+export function loadPortfolio(): PortfolioData | null {
+  const collection = loadCollection();
+  if (!collection) return null;
+
+  const active = collection.portfolios.find((p) => p.id === collection.activeId);
+  if (!active || active.positions.length === 0) {
+    // No usable positions — treat as empty
+    return null;
+  }
+
+  return {
+    version: CURRENT_VERSION,
+    inputMode: active.inputMode,
+    currency: active.currency,
+    totalPortfolioValue: active.totalPortfolioValue,
+    positions: active.positions,
+    ...(active.drift && { drift: active.drift }),
+    ...(active.rules && { rules: active.rules }),
+    ...(active.costBasisMethod && { costBasisMethod: active.costBasisMethod }),
+  };
+}
+
+/**
+ * Save the active portfolio to localStorage.
+ * Creates the collection on first save; other portfolios are left untouched.
+ * Drift settings, exposure rules and the cost basis method are only
+ * replaced when `data` carries them, so the builder (which doesn't edit
+ * them) never wipes them.
+ */
+export function savePortfolio(data: Omit<PortfolioData, "version">): void {
+  const collection = loadOrCreateCollection();
+  collection.portfolios = collection.portfolios.map((p) =>
+    p.id === collection.activeId
+      ? {
+          ...p,
+          inputMode: data.inputMode,
+          currency: data.currency,
+          totalPortfolioValue: data.totalPortfolioValue,
+          positions: data.positions,
+          ...("drift" in data && { drift: data.drift }),
+          ...("rules" in data && { rules: data.rules }),
+          ...("costBasisMethod" in data && { costBasisMethod: data.costBasisMethod }),
+        }
+      : p,
+  );
+  saveCollection(collection);
+}
+
+/**
+ * Empty the active portfolio. Its name and slot in the collection are kept;
+ * use `deletePortfolio` to remove it entirely. Drift alerts, exposure rules
+ * and the cost basis method are kept too: the builder's undo only restores
+ * what the builder edits, so they could not be brought back otherwise.
  */
 export function clearPortfolio(): void {
+  const collection = loadCollection();
+  if (!collection) return;
+  collection.portfolios = collection.portfolios.map((p) =>
+    p.id === collection.activeId
+      ? {
+          ...createEmptyPortfolio(p.name),
+          id: p.id,
+          ...(p.drift && { drift: p.drift }),
+          ...(p.rules && { rules: p.rules }),
+          ...(p.costBasisMethod && { costBasisMethod: p.costBasisMethod }),
+        }
+      : p,
+  );
+  saveCollection(collection);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Public API — portfolio collection
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** List all saved portfolios in their stored order */
+export function listPortfolios(): PortfolioSummary[] {
+  return loadOrCreateCollection().portfolios.map((p) => ({
+    id: p.id,
+    name: p.name,
+    positionCount: p.positions.filter((pos) => pos.security !== null).length,
+  }));
+}
+
+/** ID of the portfolio currently used by the builder and overview */
+export function getActivePortfolioId(): string {
+  return loadOrCreateCollection().activeId;
+}
+
+/** Make another portfolio active. Unknown IDs are ignored. */
+export function setActivePortfolio(id: string): void {
+  const collection = loadOrCreateCollection();
+  if (!collection.portfolios.some((p) => p.id === id)) return;
+  saveCollection({ ...collection, activeId: id });
+}
+
+/** Create a new empty portfolio, make it active, and return its ID */
+export function createPortfolio(name: string): string {
+  const collection = loadOrCreateCollection();
+  const portfolio = createEmptyPortfolio(name.trim() || DEFAULT_PORTFOLIO_NAME);
+  saveCollection({
+    ...collection,
+    activeId: portfolio.id,
+    portfolios: [...collection.portfolios, portfolio],
+  });
+  return portfolio.id;
+}
+
+/** Rename a portfolio. Blank names are ignored. */
+export function renamePortfolio(id: string, name: string): void {
+  const trimmed = name.trim();
+  if (!trimmed) return;
+  const collection = loadOrCreateCollection();
+  saveCollection({
+    ...collection,
+    portfolios: collection.portfolios.map((p) =>
+      p.id === id ? { ...p, name: trimmed } : p,
+    ),
+  });
+}
+
+/**
+ * Copy a portfolio (positions included), make the copy active, and return
+ * its ID. A blank name falls back to "<source> (copy)". Returns `null` if
+ * the source portfolio does not exist.
+ */
+export function duplicatePortfolio(id: string, name?: string): string | null {
+  const collection = loadOrCreateCollection();
+  const source = collection.portfolios.find((p) => p.id === id);
+  if (!source) return null;
+  const trimmed = name?.trim() ?? "";
+  const copy: NamedPortfolio = {
+    ...structuredClone(source),
+    id: generatePortfolioId(),
+    name: trimmed || `${source.name} (copy)`,
+  };
+  saveCollection({
+    ...collection,
+    activeId: copy.id,
+    portfolios: [...collection.portfolios, copy],
+  });
+  return copy.id;
+}
+
+/**
+ * Delete a portfolio. The last remaining portfolio cannot be deleted.
+ * If the active portfolio is removed, the first remaining one becomes active.
+ */
+export function deletePortfolio(id: string): void {
+  const collection = loadOrCreateCollection();
+  if (collection.portfolios.length <= 1) return;
+  const portfolios = collection.portfolios.filter((p) => p.id !== id);
+  const activeId =
+    collection.activeId === id ? portfolios[0]!.id : collection.activeId;
+  saveCollection({ ...collection, activeId, portfolios });
+}
+
+/**
+ * Validate an untrusted portfolio blob (e.g. decoded from a share link)
+ * with the same rules used when loading from localStorage.
+ * Returns `null` if it has no usable positions.
+ */
+export function normalizePortfolioData(raw: unknown): PortfolioData | null {
+  if (raw == null || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const fields = validatePortfolioFields(raw as Record<string, unknown>);
+  if (fields.positions.length === 0) return null;
+  return { version: CURRENT_VERSION, ...fields };
+}
+
+/**
+ * Validate an untrusted collection blob (e.g. read from a backup file) with
+ * the same migrations and rules used when loading from localStorage.
+ * Returns `null` if it holds no usable portfolio.
+ */
+export function normalizeCollection(raw: unknown): PortfolioCollection | null {
+  if (raw == null || typeof raw !== "object" || Array.isArray(raw)) return null;
+  return parseCollection(structuredClone(raw) as Record<string, unknown>);
+}
+
+/** The full persisted collection, e.g. for a backup */
+export function exportCollection(): PortfolioCollection {
+  return loadOrCreateCollection();
+}
+
+/**
+ * Replace every portfolio with a restored collection. The data being
+ * replaced is quarantined first, so a restore can itself be undone.
+ */
+export function restoreCollection(collection: PortfolioCollection): void {
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    const current = localStorage.getItem(STORAGE_KEY);
+    if (current) quarantineCopy(STORAGE_KEY, current, "Replaced by a backup restore");
   } catch {
-    // ignore
+    // localStorage unavailable; saveCollection ignores it as well
   }
+  saveCollection(collection);
 }
 
 /**
@@ -233,6 +754,50 @@ export function highestPositionId(positions: Position[]): number {
   return Math.max(...positions.map((p) => p.id));
 }
 
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Builder undo history (sessionStorage, one entry per portfolio)
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+const UNDO_HISTORY_KEY_PREFIX = "seetf-undo-history:";
+
+function validateSnapshots(raw: unknown): BuilderSnapshot[] {
+  if (!Array.isArray(raw)) return [];
+  const snapshots: BuilderSnapshot[] = [];
+  for (const item of raw.slice(-HISTORY_LIMIT)) {
+    if (item == null || typeof item !== "object" || Array.isArray(item)) continue;
+    const { inputMode, currency, totalPortfolioValue, positions } = validatePortfolioFields(
+      item as Record<string, unknown>,
+    );
+    snapshots.push({ inputMode, currency, totalPortfolioValue, positions });
+  }
+  return snapshots;
+}
+
+/**
+ * Load the builder's undo history for a portfolio. It lives for the
+ * browser session only; missing or corrupt entries give an empty history.
+ */
+export function loadUndoHistory(portfolioId: string): UndoHistory<BuilderSnapshot> {
+  try {
+    const raw = sessionStorage.getItem(UNDO_HISTORY_KEY_PREFIX + portfolioId);
+    if (!raw) return emptyHistory();
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return emptyHistory();
+    const obj = parsed as Record<string, unknown>;
+    return { past: validateSnapshots(obj.past), future: validateSnapshots(obj.future) };
+  } catch {
+    return emptyHistory();
+  }
+}
+
+export function saveUndoHistory(portfolioId: string, history: UndoHistory<BuilderSnapshot>): void {
+  try {
+    sessionStorage.setItem(UNDO_HISTORY_KEY_PREFIX + portfolioId, JSON.stringify(history));
+  } catch {
+    // sessionStorage full or unavailable – the history just won't survive a reload
+  }
+}
+
 /* ═══════════════════════════════════════════════════════════════════════════════
    Securities list cache (localStorage, 24-hour TTL)
    ═══════════════════════════════════════════════════════════════════════════════ */
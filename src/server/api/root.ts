@@ -1,3 +1,4 @@
+import { adminRouter } from "~/server/api/routers/admin";
 import { postRouter } from "~/server/api/routers/post";
 import { securitiesRouter } from "~/server/api/routers/securities";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
@@ -8,6 +9,7 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  * All routers added in /api/routers should be manually added here.
  */
 export const appRouter = createTRPCRouter({
+  admin: adminRouter,
   post: postRouter,
   securities: securitiesRouter,
 });
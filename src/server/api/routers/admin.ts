@@ -0,0 +1,29 @@
+import { adminProcedure, createTRPCRouter } from "~/server/api/trpc";
+import { getCacheStats } from "~/server/cache";
+
+export const adminRouter = createTRPCRouter({
+  /**
+   * Hit / miss / eviction counters and sizes of every server cache in this
+   * process. Counters reset when the process restarts.
+   */
+  cacheStats: adminProcedure.query(() => {
+    const caches = getCacheStats();
+    const totals = caches.reduce(
+      (acc, c) => ({
+        hits: acc.hits + c.hits,
+        staleHits: acc.staleHits + c.staleHits,
+        misses: acc.misses + c.misses,
+        evictions: acc.evictions + c.evictions,
+      }),
+      { hits: 0, staleHits: 0, misses: 0, evictions: 0 },
+    );
+    const lookups = totals.hits + totals.staleHits + totals.misses;
+    return {
+      caches,
+      totals: {
+        ...totals,
+        hitRate: lookups > 0 ? (totals.hits + totals.staleHits) / lookups : null,
+      },
+    };
+  }),
+});
@@ -2,6 +2,22 @@ import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import * as cheerio from "cheerio";
 import { createTRPCRouter, publicProcedure } from "~/server/api/trpc";
+import { createServerCache } from "~/server/cache";
+import { parseDisplayNumber, parseMoneyAmount, type MoneyAmount } from "~/lib/number";
+import {
+  resolveComposition,
+  type CompositionSource,
+  type EtfProfile,
+  type EtfReturns,
+  type HoldingItem,
+  type ResolveOptions,
+  type ResolvedComposition,
+  type WeightedItem,
+} from "~/server/holdings";
+import { fetchInvestEngineSecuritiesList } from "~/server/holdings/providers/investengine";
+import { BROKER_IMPORTERS, parseBrokerStatement, type BrokerRow } from "~/server/importers";
+import { pickSecurityMatch, searchQueryForRow } from "~/lib/csv";
+import { type Transaction } from "~/types/portfolio";
 
 /* ─── Types (raw data only — no display formatting) ─── */
 export interface Security {
@@ -41,6 +57,11 @@ interface YahooBulkQuote {
   shortName?: string;
   longName?: string;
   quoteType?: string;
+  /** Last traded price, in `currency` */
+  regularMarketPrice?: number;
+  currency?: string;
+  /** Unix timestamp (seconds) of `regularMarketPrice` */
+  regularMarketTime?: number;
 }
 
 interface YahooBulkQuoteResponse {
@@ -59,12 +80,6 @@ interface YahooScreenerResponse {
   };
 }
 
-/* ─── Simple in-memory cache ─── */
-interface CacheEntry<T> {
-  data: T;
-  expiresAt: number;
-}
-
 /* ─── JustETF ETF database ─── */
 
 interface JustEtfEntry {
@@ -74,20 +89,29 @@ interface JustEtfEntry {
 }
 
 const ETF_DB_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-let etfDatabaseCache: CacheEntry<JustEtfEntry[]> | null = null;
+const etfDatabaseCache = createServerCache<JustEtfEntry[]>({
+  namespace: "justetf-database",
+  maxEntries: 1,
+  staleWhileRevalidateMs: 7 * 24 * 60 * 60 * 1000, // list is usable for a week while refreshing
+});
 
 /** Ticker cache populated lazily when ETF profile pages are scraped */
-const etfTickerCache = new Map<string, string>();
+const ETF_TICKER_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const ETF_TICKER_FALLBACK_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours when only the ISIN is known
+const etfTickerCache = createServerCache<string>({
+  namespace: "etf-tickers",
+  maxEntries: 5000,
+});
 
 /**
  * Fetch the full JustETF ETF database by parsing the embedded JSON
  * on the "List of all ETFs" overview page. Cached for 24 hours.
  */
-async function fetchJustEtfDatabase(): Promise<JustEtfEntry[]> {
-  if (etfDatabaseCache && Date.now() < etfDatabaseCache.expiresAt) {
-    return etfDatabaseCache.data;
-  }
+function fetchJustEtfDatabase(): Promise<JustEtfEntry[]> {
+  return etfDatabaseCache.getOrLoad("all", loadJustEtfDatabase, ETF_DB_CACHE_TTL_MS);
+}
 
+async function loadJustEtfDatabase(): Promise<JustEtfEntry[]> {
   const res = await fetch(
     "https://www.justetf.com/en/etf-list-overview.html",
     {
@@ -129,22 +153,22 @@ async function fetchJustEtfDatabase(): Promise<JustEtfEntry[]> {
     }
   }
 
-  etfDatabaseCache = {
-    data: entries,
-    expiresAt: Date.now() + ETF_DB_CACHE_TTL_MS,
-  };
-
   return entries;
 }
 
 /**
  * Resolve an ETF ticker symbol by scraping the JustETF profile page.
- * Results are cached permanently in memory.
+ * Falls back to the ISIN itself, which is cached for a shorter time.
  */
-async function resolveEtfTicker(isin: string): Promise<string> {
-  const cached = etfTickerCache.get(isin);
-  if (cached !== undefined) return cached;
+function resolveEtfTicker(isin: string): Promise<string> {
+  return etfTickerCache.getOrLoad(
+    isin,
+    () => scrapeEtfTicker(isin),
+    (ticker) => (ticker === isin ? ETF_TICKER_FALLBACK_TTL_MS : ETF_TICKER_CACHE_TTL_MS),
+  );
+}
 
+async function scrapeEtfTicker(isin: string): Promise<string> {
   try {
     const res = await fetch(
       `https://www.justetf.com/en/etf-profile.html?isin=${encodeURIComponent(isin)}`,
@@ -153,10 +177,7 @@ async function resolveEtfTicker(isin: string): Promise<string> {
         signal: AbortSignal.timeout(10_000),
       },
     );
-    if (!res.ok) {
-      etfTickerCache.set(isin, isin);
-      return isin;
-    }
+    if (!res.ok) return isin;
 
     const html = await res.text();
     const $ = cheerio.load(html);
@@ -166,11 +187,8 @@ async function resolveEtfTicker(isin: string): Promise<string> {
       .text()
       .trim();
 
-    const resolved = ticker || isin;
-    etfTickerCache.set(isin, resolved);
-    return resolved;
+    return ticker || isin;
   } catch {
-    etfTickerCache.set(isin, isin);
     return isin;
   }
 }
@@ -211,8 +229,8 @@ async function searchJustEtfEtfs(query: string): Promise<Security[]> {
   // If we already have a ticker from InvestEngine, seed the cache to avoid scraping
   for (const e of matches) {
     const ieTicker = isinToTicker.get(e.isin);
-    if (ieTicker && !etfTickerCache.has(e.isin)) {
-      etfTickerCache.set(e.isin, ieTicker);
+    if (ieTicker && !(await etfTickerCache.peek(e.isin))) {
+      await etfTickerCache.set(e.isin, ieTicker, ETF_TICKER_CACHE_TTL_MS);
     }
   }
 
@@ -233,28 +251,18 @@ async function searchJustEtfEtfs(query: string): Promise<Security[]> {
 /* ─── JustETF search cache ─── */
 const JUSTETF_SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 const JUSTETF_SEARCH_CACHE_MAX_SIZE = 500;
-const justEtfSearchCache = new Map<string, CacheEntry<Security[]>>();
-
-async function cachedSearchJustEtfEtfs(
-  query: string,
-): Promise<Security[]> {
-  const key = query.toLowerCase();
-  const cached = justEtfSearchCache.get(key);
-  if (cached && Date.now() < cached.expiresAt) return cached.data;
-
-  const data = await searchJustEtfEtfs(query);
-
-  if (justEtfSearchCache.size >= JUSTETF_SEARCH_CACHE_MAX_SIZE) {
-    const firstKey = justEtfSearchCache.keys().next().value;
-    if (firstKey !== undefined) justEtfSearchCache.delete(firstKey);
-  }
-
-  justEtfSearchCache.set(key, {
-    data,
-    expiresAt: Date.now() + JUSTETF_SEARCH_CACHE_TTL_MS,
-  });
+const justEtfSearchCache = createServerCache<Security[]>({
+  namespace: "justetf-search",
+  maxEntries: JUSTETF_SEARCH_CACHE_MAX_SIZE,
+  staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+});
 
-  return data;
+function cachedSearchJustEtfEtfs(query: string): Promise<Security[]> {
+  return justEtfSearchCache.getOrLoad(
+    query.toLowerCase(),
+    () => searchJustEtfEtfs(query),
+    JUSTETF_SEARCH_CACHE_TTL_MS,
+  );
 }
 
 /* ─── Yahoo Finance helpers ─── */
@@ -370,915 +378,147 @@ function quoteToSecurity(q: YahooBulkQuote): Security | null {
 }
 
 /* ═══════════════════════════════════════════════════════════════════════════════
-   ETF Composition (JustETF scraping)
+   ETF Composition (resolved across holdings providers)
    ═══════════════════════════════════════════════════════════════════════════════ */
 
-interface WeightedItem {
-  name: string;
-  weight: number;
-}
-
 interface EtfComposition {
-  holdings: WeightedItem[];
+  holdings: HoldingItem[];
   countries: WeightedItem[];
   sectors: WeightedItem[];
   /** Asset class label scraped from the profile page (e.g. "Equity", "Precious Metals", "Bonds") */
   assetClass: string;
   /** Whether the profile page has a holdings section at all */
   hasHoldingsSection: boolean;
+  /** Which provider each field was taken from */
+  provenance: ResolvedComposition["provenance"];
+  /** Every provider that returned data, highest priority first */
+  sources: CompositionSource[];
 }
 
-interface EtfReturns {
-  oneMonth: string;
-  threeMonths: string;
-  sixMonths: string;
-  ytd: string;
-  oneYear: string;
-  threeYears: string;
-  fiveYears: string;
-  max: string;
+/** Typed values parsed from the profile's display strings */
+interface EtfFigures {
+  /** TER in percent per year (0.2 for "0.20% p.a."), `null` when not reported */
+  terPct: number | null;
+  /** Fund size split into amount, currency and unit */
+  fundSizeValue: MoneyAmount | null;
+  /** Trailing dividend yield in percent; `null` when not reported */
+  distributionYieldPct: number | null;
+  /** Signed cumulative returns in percent; `null` when not reported */
+  returnsPct: Record<keyof EtfReturns, number | null>;
 }
 
-interface EtfFullComposition extends EtfComposition {
-  /** Full ETF name scraped from the profile page header */
-  etfName: string;
-  /** Number of total holdings (e.g. "3,624 holdings") */
-  totalHoldings: string;
-  /** Extended holdings from cbonds.com (~100 items) — empty if unavailable (kept for later) */
-  cbondsHoldings: WeightedItem[];
-  /** cbonds.com numeric ETF ID (for attribution link) — empty if unavailable (kept for later) */
-  cbondsId: string;
-  /** ALL holdings from investengine.com — empty if ETF not found on InvestEngine */
-  investEngineHoldings: WeightedItem[];
-  /** Full URL to the ETF page on investengine.com — empty if unavailable */
-  investEngineUrl: string;
-  /** Fund size as displayed (e.g. "EUR 110,458") */
-  fundSize: string;
-  /** TER as displayed (e.g. "0.20% p.a.") */
-  ter: string;
-  /** Replication method (e.g. "Physical") */
-  replication: string;
-  /** Distribution policy (e.g. "Accumulating") */
-  distributionPolicy: string;
-  /** Cumulative return data scraped from the returns section */
-  returns: EtfReturns;
-}
-
-const ETF_COMP_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const ETF_COMP_CACHE_MAX_SIZE = 500;
-const etfCompositionCache = new Map<string, CacheEntry<EtfComposition>>();
-const etfFullCompositionCache = new Map<string, CacheEntry<EtfFullComposition>>();
-
-/** Parse a percentage string like "5.21%" into a number 5.21 */
-function parsePct(raw: string): number {
-  const num = parseFloat(raw.replace(",", ".").replace("%", "").trim());
-  return isNaN(num) ? 0 : num;
-}
-
-const JUSTETF_UA =
-  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
-
-/** Extract cookies from a fetch Response's Set-Cookie headers */
-function extractCookiesFromResponse(res: Response): string {
-  try {
-    const setCookies = res.headers.getSetCookie?.() ?? [];
-    if (setCookies.length > 0) {
-      return setCookies.map((c) => c.split(";")[0]).join("; ");
-    }
-  } catch {
-    // getSetCookie() may not be available in all environments
-  }
-  // Fallback: try raw header
-  const raw = res.headers.get("set-cookie");
-  if (raw) {
-    return raw
-      .split(/,(?=\s*\w+=)/)
-      .map((c) => c.split(";")[0]!.trim())
-      .filter(Boolean)
-      .join("; ");
-  }
-  return "";
-}
-
-/**
- * Parse a Wicket AJAX XML response and extract table rows as WeightedItem[].
- * The AJAX response wraps HTML inside CDATA sections.
- */
-function parseWicketAjaxTable(
-  ajaxXml: string,
-  rowTestId: string,
-  nameTestId: string,
-  pctTestId: string,
-): WeightedItem[] {
-  const items: WeightedItem[] = [];
-  // Extract content from CDATA sections, stripping the <![CDATA[ ... ]]> wrappers
-  const cdataMatches = ajaxXml.match(/<!\[CDATA\[([\s\S]*?)\]\]>/g);
-  if (!cdataMatches) return items;
-
-  const htmlContent = cdataMatches
-    .map((s) => s.slice(9, -3)) // strip "<![CDATA[" (9 chars) and "]]>" (3 chars)
-    .join("");
-
-  const $ = cheerio.load(htmlContent);
-  $(`tr[data-testid="${rowTestId}"]`).each((_, row) => {
-    const name = $(row)
-      .find(`[data-testid="${nameTestId}"]`)
-      .text()
-      .trim();
-    const weight = parsePct(
-      $(row).find(`[data-testid="${pctTestId}"]`).text(),
-    );
-    if (name) items.push({ name, weight });
-  });
-
-  return items;
-}
-
-/**
- * Fetch expanded countries & sectors from JustETF via Wicket AJAX calls.
- * Requires the main profile page HTML (to extract AJAX URLs) and session cookies.
- * Returns empty arrays if the AJAX calls fail (callers should fall back to main page data).
- */
-async function fetchExpandedCompositionData(
-  html: string,
-  cookies: string,
-  isin: string,
-): Promise<{ countries: WeightedItem[]; sectors: WeightedItem[] }> {
-  // Extract Wicket AJAX URLs from the page's inline JavaScript
-  const ajaxCalls = html.match(/Wicket\.Ajax\.ajax\(\{[^}]+\}/g) ?? [];
-  let countriesUrl = "";
-  let sectorsUrl = "";
-  for (const call of ajaxCalls) {
-    const urlMatch = /"u":"([^"]+)"/.exec(call);
-    if (!urlMatch) continue;
-    const url = urlMatch[1]!;
-    if (url.includes("loadMoreCountries")) countriesUrl = url;
-    if (url.includes("loadMoreSectors")) sectorsUrl = url;
-  }
-
-  const ajaxHeaders = {
-    "User-Agent": JUSTETF_UA,
-    "Wicket-Ajax": "true",
-    "Wicket-Ajax-BaseURL": `en/etf-profile.html?isin=${encodeURIComponent(isin)}`,
-    Cookie: cookies,
-  };
-
-  let countries: WeightedItem[] = [];
-  let sectors: WeightedItem[] = [];
-
-  const tasks: Promise<void>[] = [];
-
-  if (countriesUrl && cookies) {
-    tasks.push(
-      fetch(`https://www.justetf.com${countriesUrl}`, {
-        headers: ajaxHeaders,
-        signal: AbortSignal.timeout(10_000),
-      })
-        .then((r) => (r.ok ? r.text() : ""))
-        .then((xml) => {
-          if (xml) {
-            countries = parseWicketAjaxTable(
-              xml,
-              "etf-holdings_countries_row",
-              "tl_etf-holdings_countries_value_name",
-              "tl_etf-holdings_countries_value_percentage",
-            );
-          }
-        })
-        .catch(() => {
-          /* silently fall back to main page data */
-        }),
-    );
-  }
-
-  if (sectorsUrl && cookies) {
-    tasks.push(
-      fetch(`https://www.justetf.com${sectorsUrl}`, {
-        headers: ajaxHeaders,
-        signal: AbortSignal.timeout(10_000),
-      })
-        .then((r) => (r.ok ? r.text() : ""))
-        .then((xml) => {
-          if (xml) {
-            sectors = parseWicketAjaxTable(
-              xml,
-              "etf-holdings_sectors_row",
-              "tl_etf-holdings_sectors_value_name",
-              "tl_etf-holdings_sectors_value_percentage",
-            );
-          }
-        })
-        .catch(() => {
-          /* silently fall back to main page data */
-        }),
-    );
-  }
-
-  await Promise.all(tasks);
-  return { countries, sectors };
-}
-
-/* ═══════════════════════════════════════════════════════════════════════════════
-   cbonds.com extended holdings (via Python helper)
-   ═══════════════════════════════════════════════════════════════════════════════ */
-
-/**
- * Convert an ALL-CAPS holding name to Title Case for display.
- * Only transforms if the entire name is uppercase (to avoid mangling already well-cased names).
- * Handles common abbreviations (PLC, AG, etc.), corporate suffixes (Inc, Corp),
- * and lowercase articles/prepositions.
- */
-function toTitleCase(name: string): string {
-  const trimmed = name.trim();
-  // Only transform if the entire name is uppercase
-  if (!/[a-zA-Z]/.test(trimmed)) return trimmed;
-  if (trimmed !== trimmed.toUpperCase()) return trimmed;
-  // Skip very short names (likely abbreviations like "AMD", "SAP")
-  if (trimmed.length <= 4 && !/\s/.test(trimmed)) return trimmed;
-
-  // Words that should stay lowercase (when not the first word)
-  const lowercaseWords = new Set([
-    "OF", "THE", "AND", "IN", "FOR", "DE", "DU", "VON", "VAN", "DER", "DEL", "LA", "LE",
-  ]);
-
-  // Words/abbreviations that should stay UPPERCASE
-  const keepUppercase = new Set([
-    "PLC", "AG", "SA", "SE", "NV", "LLC", "LP", "ASA", "OYJ", "AB", "KK",
-    "ETF", "ADR", "REIT",
-    "II", "III", "IV", "VI", "VII", "VIII", "IX", "XI", "XII",
-    "USA", "US", "UK", "EU",
-    "N.V.", "S.A.", "A.G.",
-  ]);
-
-  return trimmed
-    .split(/\s+/)
-    .map((word, i) => {
-      if (keepUppercase.has(word)) return word;
-      if (i > 0 && lowercaseWords.has(word)) return word.toLowerCase();
-      // Title case: first letter uppercase, rest lowercase
-      return word.charAt(0) + word.slice(1).toLowerCase();
-    })
-    .join(" ");
-}
-
-interface CbondsResult {
-  holdings: WeightedItem[];
-  cbondsId: string;
-}
-
-const CBONDS_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const CBONDS_CACHE_MAX_SIZE = 200;
-const cbondsHoldingsCache = new Map<string, CacheEntry<CbondsResult>>();
-
-/**
- * Fetch extended ETF holdings (~100 items) from cbonds.com.
- * Uses got-scraping to impersonate Chrome's TLS fingerprint and
- * bypass Cloudflare protection. Pure TypeScript — no Python dependency.
- * Returns empty result on failure — never throws.
- */
-async function fetchCbondsHoldings(isin: string): Promise<CbondsResult> {
-  const empty: CbondsResult = { holdings: [], cbondsId: "" };
-
-  // Check cache first
-  const key = isin.toUpperCase();
-  const cached = cbondsHoldingsCache.get(key);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.data;
-  }
-
-  try {
-    // Dynamic import (impit is ESM-only with native bindings)
-    const { Impit } = await import("impit");
-    const impit = new Impit({ browser: "chrome" });
-
-    // Realistic Chrome headers to avoid WAF / Cloudflare blocks on datacenter IPs
-    const browserHeaders: Record<string, string> = {
-      "Accept-Language": "en-US,en;q=0.9",
-      "Cache-Control": "no-cache",
-      "Pragma": "no-cache",
-      "Sec-Ch-Ua": '"Chromium";v="136", "Google Chrome";v="136", "Not.A/Brand";v="99"',
-      "Sec-Ch-Ua-Mobile": "?0",
-      "Sec-Ch-Ua-Platform": '"Windows"',
-      "Sec-Fetch-Dest": "empty",
-      "Sec-Fetch-Mode": "cors",
-      "Sec-Fetch-Site": "same-origin",
-      "User-Agent":
-        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36",
-    };
-
-    // Step 1: Resolve ISIN → cbonds numeric ETF ID via suggest API
-    const suggestUrl = `https://cbonds.com/api/etf/exchange_traded_funds/suggest/${encodeURIComponent(key)}/`;
-    const suggestResp = await impit.fetch(suggestUrl, {
-      headers: {
-        ...browserHeaders,
-        "Accept": "application/json",
-        "Referer": "https://cbonds.com/etf/",
-      },
-      signal: AbortSignal.timeout(15_000),
-    });
-
-    if (!suggestResp.ok) {
-      console.warn(`[cbonds] suggest API returned status ${suggestResp.status}`);
-      return empty;
-    }
-
-    const suggestData = (await suggestResp.json()) as {
-      response?: { items?: Array<{ id: string }> };
-    };
-    const items = suggestData?.response?.items ?? [];
-    if (items.length === 0) {
-      console.warn(`[cbonds] no ETF found for ISIN ${key}`);
-      return empty;
-    }
-    const cbondsId = String(items[0]!.id);
-
-    // Step 2: Fetch the ETF detail page
-    const pageResp = await impit.fetch(`https://cbonds.com/etf/${cbondsId}/`, {
-      headers: {
-        ...browserHeaders,
-        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
-        "Sec-Fetch-Dest": "document",
-        "Sec-Fetch-Mode": "navigate",
-        "Sec-Fetch-Site": "none",
-        "Sec-Fetch-User": "?1",
-        "Upgrade-Insecure-Requests": "1",
-      },
-      signal: AbortSignal.timeout(30_000),
-    });
-
-    if (!pageResp.ok) {
-      console.warn(`[cbonds] ETF page returned status ${pageResp.status}`);
-      return empty;
-    }
-
-    const html = await pageResp.text();
-
-    // Step 3: Extract the embedded `structure` JSON variable from the page
-    const structureMatch = /(?:var\s+)?structure\s*[:=]\s*(\[[\s\S]*?\])\s*[,;]/.exec(html);
-    if (!structureMatch) {
-      console.warn("[cbonds] could not find structure data in page");
-      return { holdings: [], cbondsId };
-    }
-
-    const structure = JSON.parse(structureMatch[1]!) as Array<Record<string, unknown>>;
-
-    // Step 4: Parse holdings from structure
-    const holdings: WeightedItem[] = [];
-    for (const item of structure) {
-      const rawName = item["asset_name"]; // eslint-disable-line @typescript-eslint/dot-notation
-      const name = typeof rawName === "string" ? rawName.trim() : "";
-      if (!name) continue;
-
-      const weightNumeric = item["weight.numeric"];
-      const weightRounded = item["weight.rounded"];
-
-      let weight = 0;
-      if (weightNumeric != null) {
-        const parsed = Number(weightNumeric);
-        weight = isNaN(parsed) ? 0 : Math.round(parsed * 100 * 100) / 100; // convert decimal → percentage
-      } else if (weightRounded != null) {
-        const parsed = Number(weightRounded);
-        weight = isNaN(parsed) ? 0 : parsed;
-      }
-
-      holdings.push({ name: toTitleCase(name), weight });
-    }
-
-    // Sort by weight descending
-    holdings.sort((a, b) => b.weight - a.weight);
-
-    const result: CbondsResult = { holdings, cbondsId };
-
-    // Cache successful results for 24h; cache empty holdings only briefly (5 min)
-    // so transient failures don't block retries for a full day
-    const ttl = holdings.length > 0 ? CBONDS_CACHE_TTL_MS : 5 * 60 * 1000;
-    if (cbondsHoldingsCache.size >= CBONDS_CACHE_MAX_SIZE) {
-      const firstKey = cbondsHoldingsCache.keys().next().value;
-      if (firstKey !== undefined) cbondsHoldingsCache.delete(firstKey);
-    }
-    cbondsHoldingsCache.set(key, {
-      data: result,
-      expiresAt: Date.now() + ttl,
-    });
-
-    return result;
-  } catch (e) {
-    console.error("[cbonds] unexpected error:", e);
-    return empty;
-  }
-}
-
-/* ═══════════════════════════════════════════════════════════════════════════════
-   InvestEngine.com extended holdings
-   ═══════════════════════════════════════════════════════════════════════════════ */
-
-/** Provider name → URL slug mapping (from investengine.com/etfs/ filter links) */
-const INVEST_ENGINE_PROVIDER_SLUGS: Record<string, string> = {
-  "Vanguard": "vanguard",
-  "Invesco": "invesco",
-  "Amundi": "amundi",
-  "State Street SPDR": "state-street-spdr",
-  "Global X": "global-x",
-  "Xtrackers DWS": "xtrackers",
-  "Blackrock iShares": "blackrock-ishares",
-  "VanEck": "vaneck",
-  "Independent": "independent",
-  "UBS": "ubs",
-  "Legal & General (L&G)": "legal-general-lg",
-  "JP Morgan": "jp-morgan",
-  "HSBC": "hsbc",
-  "WisdomTree": "wisdomtree",
-  "ARK": "ark",
-  "Franklin Templeton": "franklin-templeton",
-  "HANetf": "hanetf",
-  "Pimco": "pimco",
-  "Fidelity": "fidelity",
-  "Goldman Sachs": "goldman-sachs",
-  "Ossiam": "ossiam",
+type EtfFullComposition = EtfComposition &
+  Omit<EtfProfile, "assetClass" | "hasHoldingsSection"> &
+  EtfFigures;
+
+const EMPTY_PROFILE: EtfProfile = {
+  etfName: "",
+  totalHoldings: "",
+  fundSize: "",
+  ter: "",
+  replication: "",
+  distributionPolicy: "",
+  distributionYield: "",
+  distributionFrequency: "",
+  returns: {
+    oneMonth: "",
+    threeMonths: "",
+    sixMonths: "",
+    ytd: "",
+    oneYear: "",
+    threeYears: "",
+    fiveYears: "",
+    max: "",
+  },
+  assetClass: "",
+  hasHoldingsSection: false,
 };
 
-interface InvestEngineSecurityEntry {
-  isin: string;
-  ticker: string;
-  provider_filter_name: string;
-}
-
-const IE_LIST_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days — list barely changes
-let investEngineListCache: CacheEntry<InvestEngineSecurityEntry[]> | null = null;
-let investEngineListInflight: Promise<InvestEngineSecurityEntry[]> | null = null;
-
 /**
- * Fetch the InvestEngine securities list (835+ ETFs) from their /etfs/ page.
- * Parses the embedded __NEXT_DATA__ JSON to extract ISIN, ticker, and provider.
- * Cached for 24 hours.
+ * Parse the display strings once on the server. Done here rather than in
+ * each provider so every source (and already-cached profiles) get them.
  */
-async function fetchInvestEngineSecuritiesList(): Promise<InvestEngineSecurityEntry[]> {
-  if (investEngineListCache && Date.now() < investEngineListCache.expiresAt) {
-    return investEngineListCache.data;
-  }
-
-  // Deduplicate concurrent requests
-  if (investEngineListInflight) return investEngineListInflight;
-  investEngineListInflight = _fetchInvestEngineSecuritiesListInner();
-  try {
-    return await investEngineListInflight;
-  } finally {
-    investEngineListInflight = null;
-  }
-}
-
-async function _fetchInvestEngineSecuritiesListInner(): Promise<InvestEngineSecurityEntry[]> {
-
-  const res = await fetch("https://investengine.com/etfs/", {
-    headers: { "User-Agent": JUSTETF_UA },
-    signal: AbortSignal.timeout(30_000),
-  });
-
-  if (!res.ok) {
-    console.warn(`[investengine] listing page returned status ${res.status}`);
-    return [];
+function parseEtfFigures(profile: EtfProfile): EtfFigures {
+  const returnsPct = {} as EtfFigures["returnsPct"];
+  for (const key of Object.keys(profile.returns) as Array<keyof EtfReturns>) {
+    returnsPct[key] = parseDisplayNumber(profile.returns[key]);
   }
-
-  const html = await res.text();
-  const $ = cheerio.load(html);
-  const nextDataJson = $("#__NEXT_DATA__").text();
-  if (!nextDataJson) {
-    console.warn("[investengine] could not find __NEXT_DATA__ on listing page");
-    return [];
-  }
-
-  const data = JSON.parse(nextDataJson) as {
-    props?: {
-      pageProps?: {
-        defaultSecurities?: Array<{
-          isin: string;
-          ticker: string;
-          provider_filter_name: string;
-        }>;
-      };
-    };
-  };
-
-  const entries = (data.props?.pageProps?.defaultSecurities ?? []).map(
-    (s): InvestEngineSecurityEntry => ({
-      isin: s.isin,
-      ticker: s.ticker,
-      provider_filter_name: s.provider_filter_name,
-    }),
-  );
-
-  investEngineListCache = {
-    data: entries,
-    expiresAt: Date.now() + IE_LIST_CACHE_TTL_MS,
+  return {
+    terPct: parseDisplayNumber(profile.ter),
+    fundSizeValue: parseMoneyAmount(profile.fundSize),
+    distributionYieldPct: parseDisplayNumber(profile.distributionYield),
+    returnsPct,
   };
-
-  return entries;
 }
 
-interface InvestEngineResult {
-  holdings: WeightedItem[];
-  investEngineUrl: string;
-}
-
-const IE_HOLDINGS_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const IE_HOLDINGS_EMPTY_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour for empty results
-const IE_HOLDINGS_CACHE_MAX_SIZE = 500;
-const investEngineHoldingsCache = new Map<string, CacheEntry<InvestEngineResult>>();
-const investEngineHoldingsInflight = new Map<string, Promise<InvestEngineResult>>();
-
 /**
- * Fetch ALL ETF holdings from investengine.com.
- * Uses the __NEXT_DATA__ JSON embedded in the ETF detail page (SSR, no API calls needed).
- * Returns holdings sorted by weight descending. Never throws — returns empty on failure.
+ * Resolve an ETF's composition through the provider registry. Providers
+ * cache their own results; this only fails when every provider that was
+ * asked errored and none returned data.
  */
-async function fetchInvestEngineHoldings(isin: string): Promise<InvestEngineResult> {
-  const empty: InvestEngineResult = { holdings: [], investEngineUrl: "" };
-
-  const key = isin.toUpperCase();
-  const cached = investEngineHoldingsCache.get(key);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.data;
-  }
-
-  // Deduplicate concurrent requests for the same ISIN
-  const inflight = investEngineHoldingsInflight.get(key);
-  if (inflight) return inflight;
-
-  const promise = _fetchInvestEngineHoldingsInner(key, empty);
-  investEngineHoldingsInflight.set(key, promise);
-  try {
-    return await promise;
-  } finally {
-    investEngineHoldingsInflight.delete(key);
-  }
-}
-
-async function _fetchInvestEngineHoldingsInner(
-  key: string,
-  empty: InvestEngineResult,
-): Promise<InvestEngineResult> {
-  try {
-    // Step 1: Resolve ISIN → investengine URL
-    const securities = await fetchInvestEngineSecuritiesList();
-    const entry = securities.find((s) => s.isin.toUpperCase() === key);
-    if (!entry) {
-      console.warn(`[investengine] ETF not found for ISIN ${key}`);
-      return empty;
-    }
-
-    const providerSlug = INVEST_ENGINE_PROVIDER_SLUGS[entry.provider_filter_name];
-    if (!providerSlug) {
-      console.warn(`[investengine] unknown provider: ${entry.provider_filter_name}`);
-      return empty;
-    }
-
-    const tickerSlug = entry.ticker.toLowerCase();
-    const etfUrl = `https://investengine.com/etfs/${providerSlug}/${tickerSlug}/`;
-
-    // Step 2: Fetch the ETF detail page
-    const res = await fetch(etfUrl, {
-      headers: { "User-Agent": JUSTETF_UA },
-      signal: AbortSignal.timeout(30_000),
-    });
-
-    if (!res.ok) {
-      console.warn(`[investengine] page returned status ${res.status} for ${etfUrl}`);
-      return empty;
-    }
-
-    const html = await res.text();
-
-    // Step 3: Extract __NEXT_DATA__ and parse equities
-    const $ = cheerio.load(html);
-    const nextDataJson = $("#__NEXT_DATA__").text();
-    if (!nextDataJson) {
-      console.warn("[investengine] could not find __NEXT_DATA__ on ETF page");
-      return empty;
-    }
-
-    const pageData = JSON.parse(nextDataJson) as {
-      props?: {
-        pageProps?: {
-          security?: {
-            equities?: Array<{
-              name: string;
-              actual_weight: string;
-            }>;
-          };
-        };
-      };
-    };
-
-    const equities = pageData.props?.pageProps?.security?.equities ?? [];
-
-    // Step 4: Map to WeightedItem[], filter out zero-weight entries
-    const holdings: WeightedItem[] = equities
-      .map((e) => ({
-        name: e.name,
-        weight: Math.round(parseFloat(e.actual_weight) * 100) / 100,
-      }))
-      .filter((h) => h.name && h.weight > 0)
-      .sort((a, b) => b.weight - a.weight);
-
-    const result: InvestEngineResult = { holdings, investEngineUrl: etfUrl };
-
-    // Cache: successful results for 24h, empty results for 1h
-    const ttl = holdings.length > 0 ? IE_HOLDINGS_CACHE_TTL_MS : IE_HOLDINGS_EMPTY_CACHE_TTL_MS;
-    if (investEngineHoldingsCache.size >= IE_HOLDINGS_CACHE_MAX_SIZE) {
-      const firstKey = investEngineHoldingsCache.keys().next().value;
-      if (firstKey !== undefined) investEngineHoldingsCache.delete(firstKey);
-    }
-    investEngineHoldingsCache.set(key, {
-      data: result,
-      expiresAt: Date.now() + ttl,
-    });
-
-    return result;
-  } catch (e) {
-    console.error("[investengine] unexpected error:", e);
-    return empty;
-  }
-}
-
-/** Parse countries from the main profile page HTML (fallback when AJAX is unavailable) */
-function parseCountriesFromPage($: cheerio.CheerioAPI): WeightedItem[] {
-  const countries: WeightedItem[] = [];
-  $('tr[data-testid="etf-holdings_countries_row"]').each((_, row) => {
-    const name = $(row)
-      .find('[data-testid="tl_etf-holdings_countries_value_name"]')
-      .text()
-      .trim();
-    const weight = parsePct(
-      $(row)
-        .find('[data-testid="tl_etf-holdings_countries_value_percentage"]')
-        .text(),
-    );
-    if (name) countries.push({ name, weight });
-  });
-  return countries;
-}
-
-/** Parse sectors from the main profile page HTML (fallback when AJAX is unavailable) */
-function parseSectorsFromPage($: cheerio.CheerioAPI): WeightedItem[] {
-  const sectors: WeightedItem[] = [];
-  $('tr[data-testid="etf-holdings_sectors_row"]').each((_, row) => {
-    const name = $(row)
-      .find('[data-testid="tl_etf-holdings_sectors_value_name"]')
-      .text()
-      .trim();
-    const weight = parsePct(
-      $(row)
-        .find('[data-testid="tl_etf-holdings_sectors_value_percentage"]')
-        .text(),
-    );
-    if (name) sectors.push({ name, weight });
-  });
-  return sectors;
-}
-
-/** Fetch & parse ETF composition from JustETF (with expanded countries/sectors via Wicket AJAX) */
-async function fetchEtfComposition(isin: string): Promise<EtfComposition> {
-  const url = `https://www.justetf.com/en/etf-profile.html?isin=${encodeURIComponent(isin)}`;
-  const res = await fetch(url, {
-    headers: { "User-Agent": JUSTETF_UA },
-    signal: AbortSignal.timeout(15_000),
-  });
-
-  if (!res.ok) {
-    throw new TRPCError({
-      code: "INTERNAL_SERVER_ERROR",
-      message: `JustETF returned status ${res.status} for ISIN ${isin}`,
-    });
-  }
-
-  const html = await res.text();
-  const cookies = extractCookiesFromResponse(res);
-  const $ = cheerio.load(html);
-
-  // ── Asset class & holdings-section detection ──
-  const assetClass = $('[data-testid="etf-quote-section_tag-link-0"]')
-    .text()
-    .replace(/\s*\(\d+\)\s*$/, "")
-    .trim();
-  const hasHoldingsSection =
-    $('[data-testid="etf-profile-tabs_holdings-tab-link"]').length > 0 ||
-    $('[data-testid="etf-holdings_top-holdings_container"]').length > 0;
-
-  // ── Top 10 Holdings ──
-  const holdings: WeightedItem[] = [];
-  $('tr[data-testid="etf-holdings_top-holdings_row"]').each((_, row) => {
-    const name = $(row)
-      .find('[data-testid="tl_etf-holdings_top-holdings_link_name"] span')
-      .text()
-      .trim();
-    const weight = parsePct(
-      $(row)
-        .find('[data-testid="tl_etf-holdings_top-holdings_value_percentage"]')
-        .text(),
-    );
-    if (name) holdings.push({ name, weight });
-  });
-
-  // ── Countries & Sectors via Wicket AJAX (expanded data) ──
-  const { countries: ajaxCountries, sectors: ajaxSectors } =
-    await fetchExpandedCompositionData(html, cookies, isin);
-
-  // Fallback: parse from main page if AJAX didn't return data
-  const countries = ajaxCountries.length > 0 ? ajaxCountries : parseCountriesFromPage($);
-  const sectors = ajaxSectors.length > 0 ? ajaxSectors : parseSectorsFromPage($);
-
-  return { holdings, countries, sectors, assetClass, hasHoldingsSection };
-}
-
-/**
- * Fetch FULL ETF composition by:
- * 1. Fetching the main profile page (getting session cookies + top 10 holdings)
- * 2. Making Wicket AJAX calls for expanded countries & sectors
- */
-async function fetchEtfFullComposition(isin: string): Promise<EtfFullComposition> {
-  const profileUrl = `https://www.justetf.com/en/etf-profile.html?isin=${encodeURIComponent(isin)}`;
-
-  const mainRes = await fetch(profileUrl, {
-    headers: { "User-Agent": JUSTETF_UA },
-    signal: AbortSignal.timeout(15_000),
-  });
-
-  if (!mainRes.ok) {
+async function fetchEtfFullComposition(
+  isin: string,
+  options: ResolveOptions = {},
+): Promise<EtfFullComposition> {
+  const resolved = await resolveComposition(isin, options);
+  if (resolved.sources.length === 0 && resolved.failed.length > 0) {
     throw new TRPCError({
       code: "INTERNAL_SERVER_ERROR",
-      message: `JustETF returned status ${mainRes.status} for ISIN ${isin}`,
+      message: `No holdings provider could be reached for ISIN ${isin} (${resolved.failed.join(", ")})`,
     });
   }
 
-  const html = await mainRes.text();
-  const cookies = extractCookiesFromResponse(mainRes);
-  const $ = cheerio.load(html);
-
-  // ── ETF name ──
-  const etfName = $('[data-testid="etf-profile-header_etf-name"]').text().trim();
-
-  // ── Key facts from profile header ──
-  const fundSize = $('[data-testid="etf-profile-header_fund-size-value-wrapper"]').text().trim();
-  const ter = $('[data-testid="etf-profile-header_ter-value"]').text().trim();
-  const replication = $('[data-testid="etf-profile-header_replication-value"]').text().trim();
-  const distributionPolicy = $('[data-testid="etf-profile-header_distribution-policy-value"]').text().trim();
-
-  // ── Returns ──
-  const returns: EtfReturns = {
-    oneMonth: $('[data-testid="etf-returns-section_month-return"]').text().trim(),
-    threeMonths: $('[data-testid="etf-returns-section_3month-return"]').text().trim(),
-    sixMonths: $('[data-testid="etf-returns-section_6month-return"]').text().trim(),
-    ytd: $('[data-testid="etf-returns-section_ytd-return"]').text().trim(),
-    oneYear: $('[data-testid="etf-returns-section_1year-return"]').text().trim(),
-    threeYears: $('[data-testid="etf-returns-section_3year-return"]').text().trim(),
-    fiveYears: $('[data-testid="etf-returns-section_5year-return"]').text().trim(),
-    max: $('[data-testid="etf-returns-section_max-return"]').text().trim(),
-  };
-
-  // ── Asset class & holdings-section detection ──
-  const assetClass = $('[data-testid="etf-quote-section_tag-link-0"]')
-    .text()
-    .replace(/\s*\(\d+\)\s*$/, "")
-    .trim();
-  const hasHoldingsSection =
-    $('[data-testid="etf-profile-tabs_holdings-tab-link"]').length > 0 ||
-    $('[data-testid="etf-holdings_top-holdings_container"]').length > 0;
-
-  // ── Total holdings count ──
-  const rawTotalHoldings = $('[data-testid="tl_etf-holdings_top-holdings_count"]').text().trim();
-  // Raw text is e.g. "out of 3,624" — extract just the number and reformat
-  const totalHoldingsMatch = /([\d,.]+)/.exec(rawTotalHoldings);
-  const totalHoldings = totalHoldingsMatch ? `${totalHoldingsMatch[1]} holdings` : rawTotalHoldings;
-
-  // ── Top 10 Holdings ──
-  const holdings: WeightedItem[] = [];
-  $('tr[data-testid="etf-holdings_top-holdings_row"]').each((_, row) => {
-    const name = $(row)
-      .find('[data-testid="tl_etf-holdings_top-holdings_link_name"] span')
-      .text()
-      .trim();
-    const weight = parsePct(
-      $(row)
-        .find('[data-testid="tl_etf-holdings_top-holdings_value_percentage"]')
-        .text(),
-    );
-    if (name) holdings.push({ name, weight });
-  });
-
-  // ── Countries & Sectors via Wicket AJAX (expanded data) ──
-  const [{ countries: ajaxCountries, sectors: ajaxSectors }, investEngineResult] =
-    await Promise.all([
-      fetchExpandedCompositionData(html, cookies, isin),
-      fetchInvestEngineHoldings(isin),
-    ]);
-
-  // Fallback: if InvestEngine returned no holdings, try cbonds as backup
-  let cbondsResult: CbondsResult = { holdings: [], cbondsId: "" };
-  if (investEngineResult.holdings.length === 0) {
-    cbondsResult = await fetchCbondsHoldings(isin);
-  }
-
-  // Fallback: parse from main page if AJAX didn't return data
-  const countries = ajaxCountries.length > 0 ? ajaxCountries : parseCountriesFromPage($);
-  const sectors = ajaxSectors.length > 0 ? ajaxSectors : parseSectorsFromPage($);
-
+  // Profiles cached before a field was added get its empty default
+  const profile = { ...EMPTY_PROFILE, ...resolved.profile };
   return {
-    holdings,
-    countries,
-    sectors,
-    assetClass,
-    hasHoldingsSection,
-    etfName,
-    totalHoldings,
-    cbondsHoldings: cbondsResult.holdings,
-    cbondsId: cbondsResult.cbondsId,
-    investEngineHoldings: investEngineResult.holdings,
-    investEngineUrl: investEngineResult.investEngineUrl,
-    fundSize,
-    ter,
-    replication,
-    distributionPolicy,
-    returns,
+    ...profile,
+    ...parseEtfFigures(profile),
+    holdings: resolved.holdings,
+    countries: resolved.countries,
+    sectors: resolved.sectors,
+    provenance: resolved.provenance,
+    sources: resolved.sources,
   };
 }
 
-/** Cached wrapper for full ETF composition fetching */
-async function cachedFetchEtfFullComposition(isin: string): Promise<EtfFullComposition> {
-  const key = isin.toUpperCase();
-  const cached = etfFullCompositionCache.get(key);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.data;
-  }
-
-  const data = await fetchEtfFullComposition(isin);
-
-  if (etfFullCompositionCache.size >= ETF_COMP_CACHE_MAX_SIZE) {
-    const firstKey = etfFullCompositionCache.keys().next().value;
-    if (firstKey !== undefined) etfFullCompositionCache.delete(firstKey);
-  }
-
-  etfFullCompositionCache.set(key, {
-    data,
-    expiresAt: Date.now() + ETF_COMP_CACHE_TTL_MS,
-  });
-
-  return data;
-}
-
-/** Cached wrapper for ETF composition fetching */
-async function cachedFetchEtfComposition(isin: string): Promise<EtfComposition> {
-  const key = isin.toUpperCase();
-  const cached = etfCompositionCache.get(key);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.data;
-  }
-
-  const data = await fetchEtfComposition(isin);
-
-  if (etfCompositionCache.size >= ETF_COMP_CACHE_MAX_SIZE) {
-    const firstKey = etfCompositionCache.keys().next().value;
-    if (firstKey !== undefined) etfCompositionCache.delete(firstKey);
-  }
-
-  etfCompositionCache.set(key, {
-    data,
-    expiresAt: Date.now() + ETF_COMP_CACHE_TTL_MS,
-  });
-
-  return data;
+/** Light composition for table rows: only providers that are cheap to query */
+async function fetchEtfComposition(isin: string): Promise<EtfComposition> {
+  const full = await fetchEtfFullComposition(isin, { cheapOnly: true });
+  return {
+    holdings: full.holdings,
+    countries: full.countries,
+    sectors: full.sectors,
+    assetClass: full.assetClass,
+    hasHoldingsSection: full.hasHoldingsSection,
+    provenance: full.provenance,
+    sources: full.sources,
+  };
 }
 
 /* ─── Per-query search cache (cached server-side for 24 hours) ─── */
 const SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 const SEARCH_CACHE_MAX_SIZE = 500;
-const searchCache = new Map<string, CacheEntry<Security[]>>();
-
-async function cachedSearchYahooFinance(query: string): Promise<Security[]> {
-  const key = query.toLowerCase();
-  const cached = searchCache.get(key);
-  if (cached && Date.now() < cached.expiresAt) {
-    return cached.data;
-  }
-
-  const data = await searchYahooFinance(query);
-
-  // Evict oldest entries if cache is full
-  if (searchCache.size >= SEARCH_CACHE_MAX_SIZE) {
-    const firstKey = searchCache.keys().next().value;
-    if (firstKey !== undefined) searchCache.delete(firstKey);
-  }
-
-  searchCache.set(key, {
-    data,
-    expiresAt: Date.now() + SEARCH_CACHE_TTL_MS,
-  });
+const searchCache = createServerCache<Security[]>({
+  namespace: "yahoo-search",
+  maxEntries: SEARCH_CACHE_MAX_SIZE,
+  staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+});
 
-  return data;
+function cachedSearchYahooFinance(query: string): Promise<Security[]> {
+  return searchCache.getOrLoad(
+    query.toLowerCase(),
+    () => searchYahooFinance(query),
+    SEARCH_CACHE_TTL_MS,
+  );
 }
 
 /* ─── Bulk securities list (dynamic, cached server-side for 24 hours) ─── */
 
-let allSecuritiesCache: CacheEntry<Security[]> | null = null;
+const allSecuritiesCache = createServerCache<Security[]>({
+  namespace: "all-securities",
+  maxEntries: 1,
+  staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+});
 const ALL_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
 
 /**
@@ -1288,11 +528,11 @@ const ALL_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
  * Then resolves full quote details via the bulk quote API.
  * No hardcoded ticker lists are used.
  */
-async function fetchAllSecurities(): Promise<Security[]> {
-  if (allSecuritiesCache && Date.now() < allSecuritiesCache.expiresAt) {
-    return allSecuritiesCache.data;
-  }
+function fetchAllSecurities(): Promise<Security[]> {
+  return allSecuritiesCache.getOrLoad("all", loadAllSecurities, ALL_CACHE_TTL_MS);
+}
 
+async function loadAllSecurities(): Promise<Security[]> {
   // ── Step 1: gather candidate symbols from dynamic sources ────────────
   const [trendingSymbols, mostActiveQuotes, dayGainerQuotes] =
     await Promise.allSettled([
@@ -1340,14 +580,7 @@ async function fetchAllSecurities(): Promise<Security[]> {
   }
 
   // ── Step 3: assemble deduplicated list ───────────────────────────────
-  const securities = [...screenerSecurities.values()];
-
-  allSecuritiesCache = {
-    data: securities,
-    expiresAt: Date.now() + ALL_CACHE_TTL_MS,
-  };
-
-  return securities;
+  return [...screenerSecurities.values()];
 }
 
 /* ─── JustETF Portfolio Scraping ─── */
@@ -1365,18 +598,17 @@ interface JustEtfPortfolioResult {
 
 /**
  * Scrape a published JustETF portfolio page and extract the ETF positions
- * with their ISIN and weight percentage.
+ * with their ISIN and weight percentage. Pass `http` to replay a recorded
+ * response instead of going through impit.
  *
  * Example URL: https://www.justetf.com/en-be/portfolio/d5643
  */
-async function scrapeJustEtfPortfolio(
+export async function scrapeJustEtfPortfolio(
   url: string,
+  http?: typeof fetch,
 ): Promise<JustEtfPortfolioResult> {
-  // Dynamic import (impit is ESM-only with native bindings)
-  const { Impit } = await import("impit");
-  const impit = new Impit({ browser: "chrome" });
-
-  const res = await impit.fetch(url, {
+  let res: Pick<Response, "ok" | "status" | "text">;
+  const init = {
     headers: {
       "Accept":
         "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
@@ -1385,7 +617,15 @@ async function scrapeJustEtfPortfolio(
         "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36",
     },
     signal: AbortSignal.timeout(15_000),
-  });
+  };
+  if (http) {
+    res = await http(url, init);
+  } else {
+    // Dynamic import (impit is ESM-only with native bindings)
+    const { Impit } = await import("impit");
+    const impit = new Impit({ browser: "chrome" });
+    res = await impit.fetch(url, init);
+  }
 
   if (!res.ok) {
     throw new TRPCError({
@@ -1394,7 +634,14 @@ async function scrapeJustEtfPortfolio(
     });
   }
 
-  const html = await res.text();
+  return parseJustEtfPortfolioPage(await res.text());
+}
+
+/**
+ * Extract the title and ETF positions from a published JustETF portfolio page.
+ * Throws BAD_REQUEST when the page contains no positions.
+ */
+export function parseJustEtfPortfolioPage(html: string): JustEtfPortfolioResult {
   const $ = cheerio.load(html);
 
   // Extract portfolio title from the <h1> inside #ppprofile
@@ -1449,6 +696,387 @@ async function scrapeJustEtfPortfolio(
   return { title, entries };
 }
 
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Broker statement import (parsed in ~/server/importers, resolved here)
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Most holdings a single statement may contain */
+const BROKER_IMPORT_MAX_ROWS = 300;
+/** Rows resolved concurrently; each may hit JustETF and Yahoo on a cache miss */
+const BROKER_IMPORT_BATCH_SIZE = 8;
+
+/** A statement row resolved to a security, ready to become a position */
+interface ImportedBrokerPosition {
+  line: number;
+  security: Security;
+  quantity: number | null;
+  value: number | null;
+  currency: string;
+  transactions?: Transaction[];
+}
+
+/**
+ * Resolve a statement row to a security. ISINs listed in the JustETF
+ * database are ETFs; anything else goes through the same search as the
+ * builder's autocomplete and is matched like a CSV row.
+ */
+async function resolveBrokerRow(
+  row: BrokerRow,
+  etfsByIsin: Map<string, JustEtfEntry>,
+): Promise<Security | null> {
+  const dbEntry = row.isin ? etfsByIsin.get(row.isin) : undefined;
+  if (dbEntry) {
+    let ticker: string;
+    try {
+      ticker = await resolveEtfTicker(row.isin);
+    } catch {
+      ticker = row.isin;
+    }
+    return { isin: row.isin, name: dbEntry.name, ticker, type: "etf" };
+  }
+
+  const query = searchQueryForRow(row).slice(0, 100);
+  if (!query) return null;
+  const [etfResult, stockResult] = await Promise.allSettled([
+    cachedSearchJustEtfEtfs(query),
+    cachedSearchYahooFinance(query),
+  ]);
+  return pickSecurityMatch(row, [
+    ...(etfResult.status === "fulfilled" ? etfResult.value : []),
+    ...(stockResult.status === "fulfilled" ? stockResult.value : []),
+  ]);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   FX rates (Yahoo Finance currency pairs, e.g. "GBPEUR=X")
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+interface FxRates {
+  /** Reporting currency every rate converts into */
+  base: string;
+  /** Units of `base` per one unit of each currency (`base` itself is always 1) */
+  rates: Record<string, number>;
+  /** Requested currencies for which no rate could be fetched */
+  missing: string[];
+  /** Epoch ms of the oldest rate in `rates` */
+  fetchedAt: number;
+}
+
+interface FxRate {
+  rate: number;
+  fetchedAt: number;
+}
+
+const FX_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const FX_CACHE_MAX_SIZE = 200;
+const fxRateCache = createServerCache<FxRate>({
+  namespace: "fx-rates",
+  maxEntries: FX_CACHE_MAX_SIZE,
+});
+
+/** Yahoo symbol of the pair quoting `from` in units of `to` */
+function fxPairSymbol(from: string, to: string): string {
+  return `${from}${to}=X`;
+}
+
+/**
+ * Resolve conversion rates from each currency into `base`.
+ * Pairs are cached individually; only expired or unknown pairs are fetched,
+ * in a single bulk quote request. Failed pairs are reported, not cached.
+ */
+async function cachedFetchFxRates(base: string, currencies: string[]): Promise<FxRates> {
+  const now = Date.now();
+  const rates: Record<string, number> = { [base]: 1 };
+  let fetchedAt = now;
+  const toFetch: string[] = [];
+
+  for (const currency of new Set(currencies)) {
+    if (currency === base) continue;
+    const cached = await fxRateCache.get(fxPairSymbol(currency, base));
+    if (cached) {
+      rates[currency] = cached.rate;
+      fetchedAt = Math.min(fetchedAt, cached.fetchedAt);
+    } else {
+      toFetch.push(currency);
+    }
+  }
+
+  if (toFetch.length > 0) {
+    const quotes = await fetchBulkQuotes(toFetch.map((c) => fxPairSymbol(c, base)));
+    for (const currency of toFetch) {
+      const symbol = fxPairSymbol(currency, base);
+      const quote = quotes.find((q) => q.symbol.toUpperCase() === symbol);
+      const rate = quote?.regularMarketPrice;
+      if (!rate || !Number.isFinite(rate) || rate <= 0) continue;
+
+      await fxRateCache.set(symbol, { rate, fetchedAt: now }, FX_CACHE_TTL_MS);
+      rates[currency] = rate;
+    }
+  }
+
+  const missing = [...new Set(currencies)].filter((c) => rates[c] === undefined);
+  if (missing.length > 0) {
+    console.warn(`[fx] No FX rate for ${missing.join(", ")} → ${base}`);
+  }
+
+  return { base, rates, missing, fetchedAt };
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Live quotes (Yahoo Finance, used to value share-count positions)
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+interface SecurityRef {
+  ticker: string;
+  isin: string;
+  type: "stock" | "etf";
+}
+
+interface PriceQuote {
+  /** Identifier of the requested security (`isin || ticker`) */
+  key: string;
+  /** Yahoo symbol the price was read from */
+  symbol: string;
+  /** Last price in `currency` (minor units already converted, e.g. GBp → GBP) */
+  price: number;
+  currency: string;
+  /** Epoch ms of the last trade */
+  marketTime: number;
+  /** Epoch ms at which the server fetched the price */
+  fetchedAt: number;
+}
+
+const QUOTE_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const QUOTE_CACHE_MAX_SIZE = 500;
+const quoteCache = createServerCache<Omit<PriceQuote, "key">>({
+  namespace: "quotes",
+  maxEntries: QUOTE_CACHE_MAX_SIZE,
+  // Keep the last price around as a fallback when a refresh fails
+  staleWhileRevalidateMs: 7 * 24 * 60 * 60 * 1000,
+  persist: false,
+});
+
+/** ISIN → Yahoo symbol for ETFs */
+const YAHOO_SYMBOL_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const yahooSymbolCache = createServerCache<string>({
+  namespace: "yahoo-symbols",
+  maxEntries: 5000,
+});
+
+/** Yahoo quotes some exchanges in minor units (pence, cents, agorot) */
+const MINOR_UNIT_CURRENCIES: Record<string, string> = {
+  GBp: "GBP",
+  GBX: "GBP",
+  ZAc: "ZAR",
+  ILA: "ILS",
+};
+
+/**
+ * Resolve the Yahoo symbol for an ETF. JustETF tickers carry no exchange
+ * suffix ("VWCE"), so the ISIN is searched on Yahoo and the listing whose
+ * base symbol matches the ticker is preferred ("VWCE.DE").
+ */
+async function resolveYahooSymbol(isin: string, ticker: string): Promise<string> {
+  const cached = await yahooSymbolCache.get(isin);
+  if (cached !== undefined) return cached;
+
+  try {
+    const url = new URL(YAHOO_SEARCH_URL);
+    url.searchParams.set("q", isin);
+    url.searchParams.set("quotesCount", "10");
+    url.searchParams.set("newsCount", "0");
+    url.searchParams.set("listsCount", "0");
+
+    const res = await fetch(url.toString(), {
+      headers: YAHOO_HEADERS,
+      signal: AbortSignal.timeout(YAHOO_TIMEOUT),
+    });
+    if (!res.ok) return ticker || isin;
+
+    const data = (await res.json()) as YahooSearchResponse;
+    const listings = data.quotes.filter((q) => q.isYahooFinance);
+    const base = ticker.toUpperCase();
+    const match =
+      listings.find((q) => q.symbol.toUpperCase().split(".")[0] === base) ??
+      listings[0];
+
+    const resolved = match?.symbol ?? (ticker || isin);
+    await yahooSymbolCache.set(isin, resolved, YAHOO_SYMBOL_CACHE_TTL_MS);
+    return resolved;
+  } catch {
+    return ticker || isin;
+  }
+}
+
+/**
+ * Fetch the latest price for each security. Symbols are resolved first,
+ * cached prices are reused, and the rest are fetched in one bulk request.
+ * If a refresh fails the previous (stale) price is returned; securities that
+ * were never priced are omitted from the result.
+ */
+async function cachedFetchQuotes(securities: SecurityRef[]): Promise<PriceQuote[]> {
+  const resolved = await Promise.all(
+    securities.map(async (sec) => ({
+      key: sec.isin || sec.ticker,
+      symbol:
+        sec.type === "etf" && sec.isin
+          ? await resolveYahooSymbol(sec.isin, sec.ticker)
+          : sec.ticker,
+    })),
+  );
+
+  const now = Date.now();
+  const known = new Map<string, Omit<PriceQuote, "key">>();
+  const toFetch: string[] = [];
+  for (const symbol of new Set(resolved.map((r) => r.symbol))) {
+    const cached = await quoteCache.peek(symbol);
+    if (cached) known.set(symbol, cached.data);
+    if (!cached?.fresh) toFetch.push(symbol);
+  }
+
+  if (toFetch.length > 0) {
+    const quotes = await fetchBulkQuotes(toFetch);
+    for (const q of quotes) {
+      const rawPrice = q.regularMarketPrice;
+      if (!rawPrice || !Number.isFinite(rawPrice) || !q.currency) continue;
+      const majorCurrency = MINOR_UNIT_CURRENCIES[q.currency];
+
+      const quote: Omit<PriceQuote, "key"> = {
+        symbol: q.symbol,
+        price: majorCurrency ? rawPrice / 100 : rawPrice,
+        currency: majorCurrency ?? q.currency.toUpperCase(),
+        marketTime: q.regularMarketTime ? q.regularMarketTime * 1000 : now,
+        fetchedAt: now,
+      };
+      await quoteCache.set(q.symbol, quote, QUOTE_CACHE_TTL_MS);
+      known.set(q.symbol, quote);
+    }
+  }
+
+  const result: PriceQuote[] = [];
+  for (const { key, symbol } of resolved) {
+    const quote = known.get(symbol);
+    if (quote) result.push({ key, ...quote });
+  }
+  return result;
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Price history (Yahoo Finance chart API, daily closes)
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+const PRICE_HISTORY_RANGES = ["1y", "3y", "5y", "max"] as const;
+export type PriceHistoryRange = (typeof PRICE_HISTORY_RANGES)[number];
+
+interface YahooChartResponse {
+  chart: {
+    result?: Array<{
+      meta: { symbol: string; currency?: string };
+      timestamp?: number[];
+      indicators: {
+        quote: Array<{ close?: Array<number | null> }>;
+        adjclose?: Array<{ adjclose?: Array<number | null> }>;
+      };
+    }> | null;
+    error?: { description?: string } | null;
+  };
+}
+
+interface PricePoint {
+  /** Epoch ms of the trading day */
+  t: number;
+  /** Close adjusted for splits and distributions, in `currency` */
+  close: number;
+}
+
+interface PriceHistory {
+  /** Identifier of the requested security (`isin || ticker`) */
+  key: string;
+  /** Yahoo symbol the series was read from */
+  symbol: string;
+  currency: string;
+  range: PriceHistoryRange;
+  /** Oldest first */
+  points: PricePoint[];
+  /** Epoch ms at which the server fetched the series */
+  fetchedAt: number;
+}
+
+const PRICE_HISTORY_CACHE_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours — daily closes
+const priceHistoryCache = createServerCache<Omit<PriceHistory, "key">>({
+  namespace: "price-history",
+  maxEntries: 300,
+  staleWhileRevalidateMs: 7 * 24 * 60 * 60 * 1000,
+});
+
+/**
+ * Download daily closes for a Yahoo symbol. Adjusted closes are preferred so
+ * distributing and accumulating funds are comparable; throws on an empty
+ * series so a failed refresh never replaces a cached one.
+ */
+async function fetchPriceHistory(
+  symbol: string,
+  range: PriceHistoryRange,
+): Promise<Omit<PriceHistory, "key">> {
+  const url = new URL(`https://query2.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}`);
+  url.searchParams.set("range", range === "3y" ? "5y" : range);
+  url.searchParams.set("interval", "1d");
+  url.searchParams.set("events", "div,split");
+
+  const res = await fetch(url.toString(), {
+    headers: YAHOO_HEADERS,
+    signal: AbortSignal.timeout(15_000),
+  });
+  if (!res.ok) throw new Error(`Yahoo chart API returned status ${res.status} for ${symbol}`);
+
+  const data = (await res.json()) as YahooChartResponse;
+  const result = data.chart.result?.[0];
+  if (!result?.timestamp) {
+    throw new Error(`No price history for ${symbol}: ${data.chart.error?.description ?? "empty result"}`);
+  }
+
+  const rawCurrency = result.meta.currency ?? "";
+  const majorCurrency = MINOR_UNIT_CURRENCIES[rawCurrency];
+  const divisor = majorCurrency ? 100 : 1;
+  const closes = result.indicators.adjclose?.[0]?.adjclose ?? result.indicators.quote[0]?.close ?? [];
+  // Yahoo has no 3y range; trim the 5y series instead
+  const since = range === "3y" ? Date.now() - 3 * 365.25 * 24 * 60 * 60 * 1000 : 0;
+
+  const points: PricePoint[] = [];
+  result.timestamp.forEach((ts, i) => {
+    const close = closes[i];
+    const t = ts * 1000;
+    if (close == null || !Number.isFinite(close) || close <= 0 || t < since) return;
+    points.push({ t, close: close / divisor });
+  });
+  if (points.length === 0) throw new Error(`No usable closes for ${symbol}`);
+
+  return {
+    symbol: result.meta.symbol,
+    currency: majorCurrency ?? rawCurrency.toUpperCase(),
+    range,
+    points,
+    fetchedAt: Date.now(),
+  };
+}
+
+/** Daily closes for one security, cached per symbol and range */
+async function cachedFetchPriceHistory(
+  security: SecurityRef,
+  range: PriceHistoryRange,
+): Promise<PriceHistory> {
+  const symbol =
+    security.type === "etf" && security.isin
+      ? await resolveYahooSymbol(security.isin, security.ticker)
+      : security.ticker;
+  const history = await priceHistoryCache.getOrLoad(
+    `${symbol}:${range}`,
+    () => fetchPriceHistory(symbol, range),
+    PRICE_HISTORY_CACHE_TTL_MS,
+  );
+  return { key: security.isin || security.ticker, ...history };
+}
+
 /* ─── Router ─── */
 export const securitiesRouter = createTRPCRouter({
   /**
@@ -1498,8 +1126,8 @@ export const securitiesRouter = createTRPCRouter({
     }),
 
   /**
-   * Fetch ETF composition (top holdings, countries, sectors) from JustETF.
-   * Results are cached server-side for 24 hours.
+   * Fetch ETF composition (top holdings, countries, sectors) from the cheap
+   * providers only (JustETF). Each provider caches its own results.
    */
   getEtfComposition: publicProcedure
     .input(
@@ -1509,7 +1137,7 @@ export const securitiesRouter = createTRPCRouter({
     )
     .query(async ({ input }) => {
       try {
-        const data = await cachedFetchEtfComposition(input.isin);
+        const data = await fetchEtfComposition(input.isin);
         return data;
       } catch (err) {
         console.error("[securities.getEtfComposition] error:", err);
@@ -1522,9 +1150,9 @@ export const securitiesRouter = createTRPCRouter({
     }),
 
   /**
-   * Fetch FULL ETF composition (expanded countries & sectors via Wicket AJAX).
-   * Includes ETF name, top 10 holdings, all available countries, all available sectors.
-   * Results are cached server-side for 24 hours.
+   * Fetch FULL ETF composition across all holdings providers: profile facts,
+   * the most complete holdings list, countries and sectors, plus the
+   * provenance of each field. Each provider caches its own results.
    */
   getEtfFullComposition: publicProcedure
     .input(
@@ -1534,7 +1162,7 @@ export const securitiesRouter = createTRPCRouter({
     )
     .query(async ({ input }) => {
       try {
-        const data = await cachedFetchEtfFullComposition(input.isin);
+        const data = await fetchEtfFullComposition(input.isin);
         return data;
       } catch (err) {
         console.error("[securities.getEtfFullComposition] error:", err);
@@ -1618,4 +1246,167 @@ export const securitiesRouter = createTRPCRouter({
         });
       }
     }),
+
+  /**
+   * Parse an uploaded broker statement (DEGIRO portfolio CSV, IBKR Flex XML,
+   * Trading 212 history CSV) and resolve each holding to a security. Nothing
+   * is applied: the client shows the preview, including rows that could not
+   * be matched, and builds the positions itself.
+   */
+  previewBrokerImport: publicProcedure
+    .input(
+      z.object({
+        broker: z.enum(["auto", "degiro", "ibkr", "trading212"]),
+        content: z.string().min(1).max(5_000_000),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const parsed = parseBrokerStatement(input.content, input.broker === "auto" ? undefined : input.broker);
+      if (!parsed) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Unrecognised statement format. Supported exports: ${BROKER_IMPORTERS.map((i) => i.label).join(", ")}.`,
+        });
+      }
+      const { importer, statement } = parsed;
+      if (statement.rows.length > BROKER_IMPORT_MAX_ROWS) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `The statement lists ${statement.rows.length} holdings; at most ${BROKER_IMPORT_MAX_ROWS} can be imported at once.`,
+        });
+      }
+
+      try {
+        const db = await fetchJustEtfDatabase().catch(() => [] as JustEtfEntry[]);
+        const etfsByIsin = new Map(db.map((e) => [e.isin, e]));
+
+        const unmatched = statement.skipped.map((s) => ({ ...s }));
+        const positions: ImportedBrokerPosition[] = [];
+        // Resolve in small batches so a long statement does not fire
+        // hundreds of upstream searches at once
+        for (let i = 0; i < statement.rows.length; i += BROKER_IMPORT_BATCH_SIZE) {
+          await Promise.all(
+            statement.rows.slice(i, i + BROKER_IMPORT_BATCH_SIZE).map(async (row) => {
+              const label = row.name || row.ticker || row.isin;
+              if (row.quantity === null && row.value === null) {
+                unmatched.push({ line: row.line, label, reason: "No quantity or value" });
+                return;
+              }
+              const security = await resolveBrokerRow(row, etfsByIsin);
+              if (!security) {
+                unmatched.push({ line: row.line, label, reason: "No matching security found" });
+                return;
+              }
+              positions.push({
+                line: row.line,
+                security,
+                quantity: row.quantity,
+                value: row.value,
+                currency: row.currency,
+                ...(row.transactions && { transactions: row.transactions }),
+              });
+            }),
+          );
+        }
+
+        return {
+          broker: { id: importer.id, label: importer.label },
+          positions: positions.sort((a, b) => a.line - b.line),
+          unmatched: unmatched.sort((a, b) => a.line - b.line),
+        };
+      } catch (err) {
+        console.error("[securities.previewBrokerImport] error:", err);
+        if (err instanceof TRPCError) throw err;
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to import statement: ${err instanceof Error ? err.message : "Unknown error"}`,
+        });
+      }
+    }),
+
+  /**
+   * Conversion rates from each requested currency into a reporting currency.
+   * Rates are cached server-side per pair for 1 hour.
+   */
+  getFxRates: publicProcedure
+    .input(
+      z.object({
+        base: z.string().regex(/^[A-Z]{3}$/),
+        currencies: z.array(z.string().regex(/^[A-Z]{3}$/)).max(20),
+      }),
+    )
+    .query(async ({ input }) => {
+      try {
+        return await cachedFetchFxRates(input.base, input.currencies);
+      } catch (err) {
+        console.error("[securities.getFxRates] error:", err);
+        if (err instanceof TRPCError) throw err;
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to fetch FX rates into ${input.base}: ${err instanceof Error ? err.message : "Unknown error"}`,
+        });
+      }
+    }),
+
+  /**
+   * Latest prices for a list of securities, used to value share-count
+   * positions. Prices are cached server-side per symbol for 5 minutes.
+   */
+  getQuotes: publicProcedure
+    .input(
+      z.object({
+        securities: z
+          .array(
+            z.object({
+              ticker: z.string().max(20),
+              isin: z.string().max(20),
+              type: z.enum(["stock", "etf"]),
+            }),
+          )
+          .max(100),
+      }),
+    )
+    .query(async ({ input }) => {
+      try {
+        return await cachedFetchQuotes(input.securities.filter((s) => s.ticker || s.isin));
+      } catch (err) {
+        console.error("[securities.getQuotes] error:", err);
+        if (err instanceof TRPCError) throw err;
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to fetch quotes: ${err instanceof Error ? err.message : "Unknown error"}`,
+        });
+      }
+    }),
+
+  /**
+   * Daily (adjusted) closes for one security over a range, used for the
+   * ETF performance chart and the portfolio backtest. Series are cached
+   * server-side per symbol and range for 12 hours.
+   */
+  getPriceHistory: publicProcedure
+    .input(
+      z.object({
+        ticker: z.string().max(20),
+        isin: z.string().max(20),
+        type: z.enum(["stock", "etf"]),
+        range: z.enum(PRICE_HISTORY_RANGES),
+      }),
+    )
+    .query(async ({ input }) => {
+      const { range, ...security } = input;
+      if (!security.ticker && !security.isin) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A ticker or ISIN is required" });
+      }
+      try {
+        return await cachedFetchPriceHistory(security, range);
+      } catch (err) {
+        console.error("[securities.getPriceHistory] error:", err);
+        if (err instanceof TRPCError) throw err;
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: `Failed to fetch price history for ${security.isin || security.ticker}: ${err instanceof Error ? err.message : "Unknown error"}`,
+        });
+      }
+    }),
 });
@@ -6,10 +6,13 @@
  * TL;DR - This is where all the tRPC server stuff is created and plugged in. The pieces you will
  * need to use are documented accordingly near the end.
  */
-import { initTRPC } from "@trpc/server";
+import { timingSafeEqual } from "node:crypto";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
 
+import { env } from "~/env";
+
 /**
  * 1. CONTEXT
  *
@@ -101,3 +104,30 @@ const timingMiddleware = t.middleware(async ({ next, path }) => {
  * are logged in.
  */
 export const publicProcedure = t.procedure.use(timingMiddleware);
+
+/**
+ * Admin procedure
+ *
+ * For operational endpoints (cache statistics, etc.). Requests must send the `x-admin-token` header
+ * matching ADMIN_TOKEN; when no token is configured these procedures are only available in
+ * development.
+ */
+/** Constant-time comparison so the token cannot be guessed byte by byte from response times */
+function matchesAdminToken(header: string | null, token: string): boolean {
+  if (header === null) return false;
+  const given = Buffer.from(header);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+const adminMiddleware = t.middleware(({ ctx, next }) => {
+  const allowed = env.ADMIN_TOKEN
+    ? matchesAdminToken(ctx.headers.get("x-admin-token"), env.ADMIN_TOKEN)
+    : env.NODE_ENV === "development";
+  if (!allowed) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Admin token required" });
+  }
+  return next();
+});
+
+export const adminProcedure = t.procedure.use(timingMiddleware).use(adminMiddleware);
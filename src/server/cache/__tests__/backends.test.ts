@@ -0,0 +1,69 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFsBackend } from "~/server/cache/backends";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "seetf-cache-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function entry(data: string, ttlMs: number) {
+  return { data, expiresAt: Date.now() + ttlMs };
+}
+
+const files = async (namespace: string) =>
+  (await readdir(path.join(dir, namespace))).filter((n) => n.endsWith(".json"));
+
+describe("createFsBackend", () => {
+  it("round-trips entries and deletes expired ones on read", async () => {
+    const backend = createFsBackend(dir);
+    await backend.set("ns", "fresh", entry("a", 60_000));
+    await backend.set("ns", "old", entry("b", -1));
+
+    expect((await backend.get("ns", "fresh"))?.data).toBe("a");
+    expect(await backend.get("ns", "old")).toBeUndefined();
+    expect(await files("ns")).toHaveLength(1);
+  });
+
+  it("keeps at most maxEntries files, dropping those that expire soonest", async () => {
+    const backend = createFsBackend(dir, 3);
+    for (const [key, ttl] of [
+      ["a", 40_000],
+      ["b", 10_000],
+      ["c", 50_000],
+      ["d", 20_000],
+      ["e", 30_000],
+    ] as const) {
+      await backend.set("ns", key, entry(key, ttl));
+    }
+
+    expect(await files("ns")).toHaveLength(3);
+    expect(await backend.get("ns", "b")).toBeUndefined();
+    expect(await backend.get("ns", "d")).toBeUndefined();
+    expect((await backend.get("ns", "e"))?.data).toBe("e");
+  });
+
+  it("prunes expired files when writing", async () => {
+    const backend = createFsBackend(dir, 3);
+    await backend.set("ns", "stale", entry("x", -1));
+    await backend.set("ns", "live", entry("y", 60_000));
+
+    expect(await files("ns")).toHaveLength(1);
+  });
+
+  it("bounds each namespace separately", async () => {
+    const backend = createFsBackend(dir, 1);
+    await backend.set("one", "a", entry("a", 60_000));
+    await backend.set("two", "b", entry("b", 60_000));
+
+    expect((await backend.get("one", "a"))?.data).toBe("a");
+    expect((await backend.get("two", "b"))?.data).toBe("b");
+  });
+});
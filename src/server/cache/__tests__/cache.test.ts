@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServerCache, getCacheStats } from "~/server/cache";
+
+let nextNamespace = 0;
+const namespace = () => `test-${nextNamespace++}`;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: 0 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createServerCache", () => {
+  it("evicts the least recently used entry when full", async () => {
+    const ns = namespace();
+    const cache = createServerCache<string>({ namespace: ns, maxEntries: 2 });
+    await cache.set("a", "A", 1_000);
+    await cache.set("b", "B", 1_000);
+    await cache.get("a"); // "b" is now the oldest
+    await cache.set("c", "C", 1_000);
+
+    expect(await cache.get("a")).toBe("A");
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("c")).toBe("C");
+    expect(getCacheStats().find((s) => s.namespace === ns)).toMatchObject({
+      size: 2,
+      evictions: 1,
+      hits: 3,
+      misses: 1,
+    });
+  });
+
+  it("does not serve expired entries without a stale window", async () => {
+    const cache = createServerCache<string>({
+      namespace: namespace(),
+      maxEntries: 10,
+    });
+    await cache.set("a", "A", 1_000);
+    vi.setSystemTime(1_000);
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.peek("a")).toBeUndefined();
+  });
+
+  it("serves a stale value while refreshing it in the background", async () => {
+    const ns = namespace();
+    const cache = createServerCache<string>({
+      namespace: ns,
+      maxEntries: 10,
+      staleWhileRevalidateMs: 5_000,
+    });
+    await cache.set("a", "old", 1_000);
+    vi.setSystemTime(2_000);
+
+    let resolve!: (value: string) => void;
+    const loader = vi.fn(() => new Promise<string>((r) => (resolve = r)));
+
+    expect(await cache.get("a")).toBeUndefined();
+    expect(await cache.peek("a")).toEqual({ data: "old", fresh: false });
+    expect(await cache.getOrLoad("a", loader, 1_000)).toBe("old");
+    // A second caller during the refresh shares the same load
+    expect(await cache.getOrLoad("a", loader, 1_000)).toBe("old");
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(getCacheStats().find((s) => s.namespace === ns)?.staleHits).toBe(4);
+
+    resolve("new");
+    await vi.waitFor(async () => expect(await cache.get("a")).toBe("new"));
+  });
+
+  it("keeps the stale value when the background refresh fails", async () => {
+    const ns = namespace();
+    const cache = createServerCache<string>({
+      namespace: ns,
+      maxEntries: 10,
+      staleWhileRevalidateMs: 5_000,
+    });
+    await cache.set("a", "old", 1_000);
+    vi.setSystemTime(2_000);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+    expect(
+      await cache.getOrLoad(
+        "a",
+        () => Promise.reject(new Error("down")),
+        1_000,
+      ),
+    ).toBe("old");
+    await vi.waitFor(() =>
+      expect(
+        getCacheStats().find((s) => s.namespace === ns)?.refreshErrors,
+      ).toBe(1),
+    );
+    expect(await cache.peek("a")).toEqual({ data: "old", fresh: false });
+
+    vi.setSystemTime(6_000);
+    expect(await cache.peek("a")).toBeUndefined();
+    warn.mockRestore();
+  });
+
+  it("loads on a miss and uses a data-dependent TTL", async () => {
+    const cache = createServerCache<string[]>({
+      namespace: namespace(),
+      maxEntries: 10,
+    });
+    const ttl = (data: string[]) => (data.length ? 10_000 : 1_000);
+
+    expect(
+      await cache.getOrLoad("empty", () => Promise.resolve([]), ttl),
+    ).toEqual([]);
+    expect(
+      await cache.getOrLoad("full", () => Promise.resolve(["x"]), ttl),
+    ).toEqual(["x"]);
+
+    vi.setSystemTime(1_000);
+    expect(await cache.get("empty")).toBeUndefined();
+    expect(await cache.get("full")).toEqual(["x"]);
+  });
+});
@@ -0,0 +1,120 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Persistent cache backends
+   ─────────────────────────────────────────────────────────────────────────────
+   A backend stores serialised entries outside the Node process so they
+   survive restarts and can be shared by every server instance on the host.
+   Backends never throw: I/O errors are logged and treated as misses.
+   The file-system backend is bounded per namespace: expired files are
+   removed when read or pruned, and the entries closest to expiry are
+   dropped once a namespace holds more than its cap.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface CacheEntry<T> {
+  data: T;
+  expiresAt: number;
+  /** Expired entries may still be served until this time (stale-while-revalidate) */
+  staleUntil?: number;
+}
+
+export interface CacheBackend {
+  get(namespace: string, key: string): Promise<CacheEntry<unknown> | undefined>;
+  set(namespace: string, key: string, entry: CacheEntry<unknown>): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+}
+
+/* ─── File system ─── */
+
+interface StoredEntry extends CacheEntry<unknown> {
+  /** Original key, kept so hash collisions can be detected */
+  key: string;
+}
+
+/** Default cap on the number of files kept per namespace */
+export const DEFAULT_FS_MAX_ENTRIES = 5_000;
+
+/**
+ * One JSON file per entry under `<dir>/<namespace>/<sha1(key)>.json`.
+ * Writes go to a temporary file first and are renamed into place, so
+ * concurrent readers in other processes never see a half-written entry.
+ *
+ * Each file's mtime is set to the moment the entry stops being servable,
+ * so pruning only needs a `stat` per file: past deadlines are deleted,
+ * and beyond `maxEntries` the entries that expire soonest go first. A
+ * namespace is pruned on its first write and then every tenth of the cap.
+ */
+export function createFsBackend(dir: string, maxEntries = DEFAULT_FS_MAX_ENTRIES): CacheBackend {
+  const fileFor = (namespace: string, key: string) =>
+    path.join(dir, namespace, `${createHash("sha1").update(key).digest("hex")}.json`);
+  const pruneInterval = Math.max(1, Math.ceil(maxEntries / 10));
+  const writes = new Map<string, number>();
+
+  const prune = async (namespace: string) => {
+    const folder = path.join(dir, namespace);
+    try {
+      const now = Date.now();
+      const names = (await readdir(folder)).filter((n) => n.endsWith(".json"));
+      const files = await Promise.all(
+        names.map(async (name) => {
+          const file = path.join(folder, name);
+          const deadline = await stat(file).then((st) => st.mtimeMs, () => null);
+          return { file, deadline };
+        }),
+      );
+      const live = files.filter((f): f is { file: string; deadline: number } => f.deadline !== null);
+      const expired = live.filter((f) => f.deadline <= now);
+      const kept = live.filter((f) => f.deadline > now).sort((a, b) => a.deadline - b.deadline);
+      const excess = kept.slice(0, Math.max(0, kept.length - maxEntries));
+      await Promise.all([...expired, ...excess].map((f) => rm(f.file, { force: true })));
+    } catch (e) {
+      console.warn(`[cache] could not prune ${namespace} entries:`, e);
+    }
+  };
+
+  return {
+    async get(namespace, key) {
+      const file = fileFor(namespace, key);
+      try {
+        const stored = JSON.parse(await readFile(file, "utf8")) as StoredEntry;
+        if (stored.key !== key) return undefined;
+        if (Date.now() >= (stored.staleUntil ?? stored.expiresAt)) {
+          await rm(file, { force: true });
+          return undefined;
+        }
+        return { data: stored.data, expiresAt: stored.expiresAt, staleUntil: stored.staleUntil };
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+          console.warn(`[cache] could not read ${namespace} entry:`, e);
+        }
+        return undefined;
+      }
+    },
+
+    async set(namespace, key, entry) {
+      const file = fileFor(namespace, key);
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      try {
+        await mkdir(path.dirname(file), { recursive: true });
+        const stored: StoredEntry = { key, ...entry };
+        await writeFile(tmp, JSON.stringify(stored), "utf8");
+        await utimes(tmp, new Date(), new Date(entry.staleUntil ?? entry.expiresAt));
+        await rename(tmp, file);
+      } catch (e) {
+        console.warn(`[cache] could not write ${namespace} entry:`, e);
+        await rm(tmp, { force: true }).catch(() => undefined);
+        return;
+      }
+
+      const count = writes.get(namespace) ?? 0;
+      writes.set(namespace, count + 1);
+      if (count % pruneInterval === 0) await prune(namespace);
+    },
+
+    async delete(namespace, key) {
+      await rm(fileFor(namespace, key), { force: true }).catch(() => undefined);
+    },
+  };
+}
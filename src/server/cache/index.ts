@@ -0,0 +1,200 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Server-side cache
+   ─────────────────────────────────────────────────────────────────────────────
+   Each cache keeps a bounded in-process LRU layer for hot reads. When
+   CACHE_BACKEND is "fs", entries are also written to CACHE_DIR so they
+   survive restarts and deploys and are shared by all instances on the host;
+   in-process misses fall through to that backend.
+
+   Caches may serve an expired entry for a grace period
+   (`staleWhileRevalidateMs`) while `getOrLoad` refreshes it in the
+   background. Hit / miss / eviction counters are exposed via getCacheStats().
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { env } from "~/env";
+import { createFsBackend, type CacheBackend, type CacheEntry } from "./backends";
+
+export type { CacheEntry } from "./backends";
+
+/* ─── Types ─── */
+
+export interface ServerCacheOptions {
+  /** Unique name; also the sub-directory used by the file-system backend */
+  namespace: string;
+  /** Size of the in-process LRU layer (the persistent backend has its own cap) */
+  maxEntries: number;
+  /** How long after expiry an entry may still be served while it is refreshed */
+  staleWhileRevalidateMs?: number;
+  /** Set to false for short-lived data that is not worth writing to disk */
+  persist?: boolean;
+}
+
+export interface ServerCache<T> {
+  /** Fresh value for `key`, or `undefined` when missing or expired */
+  get(key: string): Promise<T | undefined>;
+  /** Fresh or still-servable stale value, flagged accordingly */
+  peek(key: string): Promise<{ data: T; fresh: boolean } | undefined>;
+  set(key: string, data: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Return the cached value or load it. A stale value is returned immediately
+   * and refreshed in the background; concurrent loads of a key share one call.
+   * `ttlMs` may depend on the loaded value (e.g. shorter for empty results).
+   */
+  getOrLoad(key: string, load: () => Promise<T>, ttlMs: number | ((data: T) => number)): Promise<T>;
+}
+
+export interface CacheStats {
+  namespace: string;
+  backend: "memory" | "fs";
+  size: number;
+  maxEntries: number;
+  /** Fresh values served */
+  hits: number;
+  /** Expired values served while a refresh was started */
+  staleHits: number;
+  /** Lookups that found nothing usable */
+  misses: number;
+  /** Entries dropped from the in-process layer to make room */
+  evictions: number;
+  /** Background refreshes that failed (the stale value was kept) */
+  refreshErrors: number;
+}
+
+/* ─── Backend selection ─── */
+
+let backend: CacheBackend | null | undefined;
+
+/** The configured persistent backend, or `null` for memory-only caching */
+function getBackend(): CacheBackend | null {
+  backend ??=
+    env.CACHE_BACKEND === "fs" ? createFsBackend(env.CACHE_DIR, env.CACHE_DIR_MAX_ENTRIES) : null;
+  return backend;
+}
+
+/** Stats readers for every cache created in this process, by namespace */
+const registeredCaches = new Map<string, () => CacheStats>();
+
+/** Snapshot of the counters of all caches, sorted by namespace */
+export function getCacheStats(): CacheStats[] {
+  return [...registeredCaches.values()]
+    .map((read) => read())
+    .sort((a, b) => a.namespace.localeCompare(b.namespace));
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Factory
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+export function createServerCache<T>({
+  namespace,
+  maxEntries,
+  staleWhileRevalidateMs = 0,
+  persist = true,
+}: ServerCacheOptions): ServerCache<T> {
+  // Map iteration order doubles as recency order: oldest first
+  const memory = new Map<string, CacheEntry<T>>();
+  const inflight = new Map<string, Promise<T>>();
+  const counters = { hits: 0, staleHits: 0, misses: 0, evictions: 0, refreshErrors: 0 };
+  const store = () => (persist ? getBackend() : null);
+
+  registeredCaches.set(namespace, () => ({
+    namespace,
+    backend: store() ? "fs" : "memory",
+    size: memory.size,
+    maxEntries,
+    ...counters,
+  }));
+
+  const remember = (key: string, entry: CacheEntry<T>) => {
+    memory.delete(key);
+    if (memory.size >= maxEntries) {
+      const oldest = memory.keys().next().value;
+      if (oldest !== undefined) {
+        memory.delete(oldest);
+        counters.evictions++;
+      }
+    }
+    memory.set(key, entry);
+  };
+
+  /** Look up an entry that is fresh or within its stale window, without counting */
+  const lookup = async (key: string): Promise<CacheEntry<T> | undefined> => {
+    const now = Date.now();
+    const hit = memory.get(key);
+    if (hit) {
+      if (now < (hit.staleUntil ?? hit.expiresAt)) {
+        remember(key, hit); // mark as most recently used
+        return hit;
+      }
+      memory.delete(key);
+    }
+
+    const stored = (await store()?.get(namespace, key)) as CacheEntry<T> | undefined;
+    if (!stored || now >= (stored.staleUntil ?? stored.expiresAt)) return undefined;
+    remember(key, stored);
+    return stored;
+  };
+
+  const set = async (key: string, data: T, ttlMs: number) => {
+    const expiresAt = Date.now() + ttlMs;
+    const entry: CacheEntry<T> = { data, expiresAt };
+    if (staleWhileRevalidateMs > 0) entry.staleUntil = expiresAt + staleWhileRevalidateMs;
+    remember(key, entry);
+    await store()?.set(namespace, key, entry);
+  };
+
+  const peek = async (key: string) => {
+    const entry = await lookup(key);
+    if (!entry) {
+      counters.misses++;
+      return undefined;
+    }
+    const fresh = Date.now() < entry.expiresAt;
+    if (fresh) counters.hits++;
+    else counters.staleHits++;
+    return { data: entry.data, fresh };
+  };
+
+  const load = (key: string, loader: () => Promise<T>, ttlMs: number | ((data: T) => number)) => {
+    const pending = inflight.get(key);
+    if (pending) return pending;
+
+    const promise = loader()
+      .then(async (data) => {
+        await set(key, data, typeof ttlMs === "function" ? ttlMs(data) : ttlMs);
+        return data;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async get(key) {
+      const entry = await peek(key);
+      return entry?.fresh ? entry.data : undefined;
+    },
+
+    peek,
+    set,
+
+    async delete(key) {
+      memory.delete(key);
+      await store()?.delete(namespace, key);
+    },
+
+    async getOrLoad(key, loader, ttlMs) {
+      const entry = await peek(key);
+      if (entry?.fresh) return entry.data;
+      if (entry) {
+        load(key, loader, ttlMs).catch((e) => {
+          counters.refreshErrors++;
+          console.warn(`[cache] background refresh of ${namespace}/${key} failed:`, e);
+        });
+        return entry.data;
+      }
+      return load(key, loader, ttlMs);
+    },
+  };
+}
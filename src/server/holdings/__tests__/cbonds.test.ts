@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  cbondsProvider,
+  parseCbonds,
+} from "~/server/holdings/providers/cbonds";
+import { CBONDS_ROUTES, FIXTURE_ISINS, fixtureFetch } from "./fixture-fetch";
+
+describe("cbondsProvider", () => {
+  it("resolves the ISIN through the suggest API and downloads the ETF page", async () => {
+    const http = fixtureFetch(CBONDS_ROUTES);
+    const raw = await cbondsProvider.fetch(FIXTURE_ISINS.bond, { fetch: http });
+    expect(raw?.cbondsId).toBe("7781");
+    expect(http.requests.map((r) => r.url)).toEqual([
+      `https://cbonds.com/api/etf/exchange_traded_funds/suggest/${FIXTURE_ISINS.bond}/`,
+      "https://cbonds.com/etf/7781/",
+    ]);
+  });
+
+  it("bond ETF: reads the embedded structure with title-cased names, largest first", async () => {
+    const http = fixtureFetch(CBONDS_ROUTES);
+    const raw = await cbondsProvider.fetch(FIXTURE_ISINS.bond, { fetch: http });
+    const { holdings, sourceUrl } = cbondsProvider.parse(
+      raw!,
+      FIXTURE_ISINS.bond,
+    );
+
+    expect(sourceUrl).toBe("https://cbonds.com/etf/7781/");
+    // 18 bonds and a cash line; the entry without a name is skipped
+    expect(holdings).toHaveLength(19);
+    expect(holdings![0]).toEqual({
+      name: "Banque Federative du Credit Mutuel SA 3.875% 16/06/2032",
+      weight: 0.13,
+      isin: "FR001400IQT9",
+      ticker: undefined,
+    });
+    // "weight.rounded" is already a percentage, "weight.numeric" a fraction
+    expect(holdings!.find((h) => h.isin === "XS2491738352")?.weight).toBe(0.11);
+    expect(holdings!.find((h) => h.name === "Eur Cash")).toMatchObject({
+      weight: 0.09,
+      ticker: "EUR",
+    });
+    const weights = holdings!.map((h) => h.weight);
+    expect(weights).toEqual([...weights].sort((a, b) => b - a));
+  });
+
+  it("returns null when cbonds does not know the ISIN (commodity ETC, no-holdings ETF)", async () => {
+    const http = fixtureFetch(CBONDS_ROUTES);
+    expect(
+      await cbondsProvider.fetch(FIXTURE_ISINS.commodity, { fetch: http }),
+    ).toBeNull();
+    expect(
+      await cbondsProvider.fetch(FIXTURE_ISINS.noHoldings, { fetch: http }),
+    ).toBeNull();
+  });
+
+  it("throws when the suggest API is blocked", async () => {
+    await expect(
+      cbondsProvider.fetch(FIXTURE_ISINS.bond, { fetch: fixtureFetch({}) }),
+    ).rejects.toThrow(/status 404/);
+  });
+
+  it("returns no holdings for a page without structure data", () => {
+    expect(
+      parseCbonds({
+        cbondsId: "1",
+        html: "<html><body>Just a moment...</body></html>",
+      }),
+    ).toEqual({
+      holdings: [],
+      sourceUrl: "https://cbonds.com/etf/1/",
+    });
+  });
+});
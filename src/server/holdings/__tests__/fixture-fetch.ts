@@ -0,0 +1,146 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Recorded-response fetch for scraper tests
+   ─────────────────────────────────────────────────────────────────────────────
+   `fixtureFetch` is handed to providers as `ProviderContext.fetch` (or to
+   the scrapers that take an `http` client) and answers each URL from a
+   file in ./fixtures. URLs without a route get a 404, like a delisted page.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const FIXTURES_DIR = fileURLToPath(new URL("./fixtures/", import.meta.url));
+
+const CONTENT_TYPES: Record<string, string> = {
+  html: "text/html; charset=utf-8",
+  json: "application/json",
+  xml: "text/xml; charset=utf-8",
+};
+
+export interface FixtureRoute {
+  file: string;
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+export interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export type FixtureFetch = typeof fetch & { requests: RecordedRequest[] };
+
+export function readFixture(file: string): string {
+  return readFileSync(FIXTURES_DIR + file, "utf8");
+}
+
+/** A `fetch` serving fixture files by exact URL; every request is recorded */
+export function fixtureFetch(
+  routes: Record<string, string | FixtureRoute>,
+): FixtureFetch {
+  const requests: RecordedRequest[] = [];
+
+  const http = async (
+    input: RequestInfo | URL,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const url = input instanceof Request ? input.url : input.toString();
+    requests.push({
+      url,
+      headers: { ...(init?.headers as Record<string, string> | undefined) },
+    });
+
+    const route = routes[url];
+    if (route === undefined) return new Response("Not Found", { status: 404 });
+    const {
+      file,
+      status = 200,
+      headers = {},
+    } = typeof route === "string" ? { file: route } : route;
+    const ext = file.slice(file.lastIndexOf(".") + 1);
+    return new Response(readFixture(file), {
+      status,
+      headers: {
+        "content-type": CONTENT_TYPES[ext] ?? "text/plain",
+        ...headers,
+      },
+    });
+  };
+
+  return Object.assign(http, { requests });
+}
+
+/* ─── Recorded pages ─── */
+
+/** One ISIN per page variant the scrapers have to handle */
+export const FIXTURE_ISINS = {
+  /** Vanguard FTSE All-World (distributing equity, on every source) */
+  equity: "IE00B3RBWM25",
+  /** iShares Core EUR Corp Bond (bond holdings, no sectors, not on InvestEngine) */
+  bond: "IE00B3F81R35",
+  /** Invesco Physical Gold (commodity ETC without a holdings section) */
+  commodity: "IE00B579F325",
+  /** Xtrackers EUR Overnight Rate Swap (money market ETF without holdings) */
+  noHoldings: "LU0290358497",
+} as const;
+
+const JUSTETF_SESSION = {
+  "set-cookie": "JSESSIONID=F1XTURE0001; Path=/; Secure; HttpOnly",
+};
+const justEtfUrl = (isin: string) =>
+  `https://www.justetf.com/en/etf-profile.html?isin=${isin}`;
+const justEtfAjaxUrl = (isin: string, table: "countries" | "sectors") =>
+  `https://www.justetf.com/en/etf-profile.html?0-1.0-holdingsSection-${table}-loadMore${
+    table === "countries" ? "Countries" : "Sectors"
+  }&isin=${isin}`;
+const cbondsSuggestUrl = (isin: string) =>
+  `https://cbonds.com/api/etf/exchange_traded_funds/suggest/${isin}/`;
+
+export const JUSTETF_ROUTES: Record<string, FixtureRoute> = {
+  [justEtfUrl(FIXTURE_ISINS.equity)]: {
+    file: "justetf-vwrl-profile.html",
+    headers: JUSTETF_SESSION,
+  },
+  [justEtfAjaxUrl(FIXTURE_ISINS.equity, "countries")]: {
+    file: "justetf-vwrl-countries.xml",
+  },
+  [justEtfAjaxUrl(FIXTURE_ISINS.equity, "sectors")]: {
+    file: "justetf-vwrl-sectors.xml",
+  },
+  [justEtfUrl(FIXTURE_ISINS.bond)]: {
+    file: "justetf-ieac-profile.html",
+    headers: JUSTETF_SESSION,
+  },
+  [justEtfUrl(FIXTURE_ISINS.commodity)]: {
+    file: "justetf-sgln-profile.html",
+    headers: JUSTETF_SESSION,
+  },
+  [justEtfUrl(FIXTURE_ISINS.noHoldings)]: {
+    file: "justetf-xeon-profile.html",
+    headers: JUSTETF_SESSION,
+  },
+};
+
+export const INVESTENGINE_ROUTES: Record<string, FixtureRoute> = {
+  "https://investengine.com/etfs/": { file: "investengine-etfs.html" },
+  "https://investengine.com/etfs/vanguard/vwrl/": {
+    file: "investengine-vwrl.html",
+  },
+  "https://investengine.com/etfs/invesco/sgln/": {
+    file: "investengine-sgln.html",
+  },
+};
+
+export const CBONDS_ROUTES: Record<string, FixtureRoute> = {
+  [cbondsSuggestUrl(FIXTURE_ISINS.equity)]: {
+    file: "cbonds-suggest-empty.json",
+  },
+  [cbondsSuggestUrl(FIXTURE_ISINS.bond)]: { file: "cbonds-suggest-ieac.json" },
+  [cbondsSuggestUrl(FIXTURE_ISINS.commodity)]: {
+    file: "cbonds-suggest-empty.json",
+  },
+  [cbondsSuggestUrl(FIXTURE_ISINS.noHoldings)]: {
+    file: "cbonds-suggest-empty.json",
+  },
+  "https://cbonds.com/etf/7781/": { file: "cbonds-ieac.html" },
+};
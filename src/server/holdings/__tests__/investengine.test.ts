@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  investEngineProvider,
+  parseInvestEngineSecuritiesList,
+} from "~/server/holdings/providers/investengine";
+import {
+  FIXTURE_ISINS,
+  INVESTENGINE_ROUTES,
+  fixtureFetch,
+  readFixture,
+} from "./fixture-fetch";
+
+describe("parseInvestEngineSecuritiesList", () => {
+  it("reads ISIN, ticker and provider from the listing's __NEXT_DATA__", () => {
+    const list = parseInvestEngineSecuritiesList(
+      readFixture("investengine-etfs.html"),
+    );
+    expect(list).toHaveLength(5);
+    expect(list[0]).toEqual({
+      isin: "IE00B3RBWM25",
+      ticker: "VWRL",
+      provider_filter_name: "Vanguard",
+    });
+  });
+
+  it("returns nothing for a page without __NEXT_DATA__", () => {
+    expect(
+      parseInvestEngineSecuritiesList("<html><body>Maintenance</body></html>"),
+    ).toEqual([]);
+    expect(parseInvestEngineSecuritiesList("")).toEqual([]);
+  });
+});
+
+describe("investEngineProvider", () => {
+  it("finds the ETF page through the listing and reads the full holdings list", async () => {
+    const http = fixtureFetch(INVESTENGINE_ROUTES);
+    const raw = await investEngineProvider.fetch(FIXTURE_ISINS.equity, {
+      fetch: http,
+    });
+    expect(raw?.url).toBe("https://investengine.com/etfs/vanguard/vwrl/");
+
+    const { holdings, sourceUrl } = investEngineProvider.parse(
+      raw!,
+      FIXTURE_ISINS.equity,
+    );
+    expect(sourceUrl).toBe(raw!.url);
+    // 26 named equities plus one without an ISIN; the zero-weight cash line is dropped
+    expect(holdings).toHaveLength(27);
+    expect(holdings!.some((h) => h.name.startsWith("Cash"))).toBe(false);
+    expect(holdings![0]).toEqual({
+      name: "Apple Inc",
+      weight: 4.38,
+      isin: "US0378331005",
+      ticker: "AAPL",
+    });
+    expect(holdings!.find((h) => h.name === "Reliance Industries Ltd")).toEqual(
+      {
+        name: "Reliance Industries Ltd",
+        weight: 0.22,
+        isin: undefined,
+        ticker: "RELIANCE",
+      },
+    );
+    const weights = holdings!.map((h) => h.weight);
+    expect(weights).toEqual([...weights].sort((a, b) => b - a));
+  });
+
+  it("commodity ETC: listed, but with an empty holdings list", async () => {
+    const http = fixtureFetch(INVESTENGINE_ROUTES);
+    const raw = await investEngineProvider.fetch(FIXTURE_ISINS.commodity, {
+      fetch: http,
+    });
+    expect(
+      investEngineProvider.parse(raw!, FIXTURE_ISINS.commodity).holdings,
+    ).toEqual([]);
+  });
+
+  it("returns null for ETFs InvestEngine does not list", async () => {
+    const http = fixtureFetch(INVESTENGINE_ROUTES);
+    expect(
+      await investEngineProvider.fetch(FIXTURE_ISINS.bond, { fetch: http }),
+    ).toBeNull();
+    expect(
+      await investEngineProvider.fetch(FIXTURE_ISINS.noHoldings, {
+        fetch: http,
+      }),
+    ).toBeNull();
+    // Only the listing was requested
+    expect(new Set(http.requests.map((r) => r.url))).toEqual(
+      new Set(["https://investengine.com/etfs/"]),
+    );
+  });
+
+  it("throws when the page of a listed ETF fails, so it is not cached as unlisted", async () => {
+    const http = fixtureFetch({
+      ...INVESTENGINE_ROUTES,
+      "https://investengine.com/etfs/vanguard/vwrl/": {
+        file: "investengine-vwrl.html",
+        status: 503,
+      },
+    });
+    await expect(
+      investEngineProvider.fetch(FIXTURE_ISINS.equity, { fetch: http }),
+    ).rejects.toThrow("status 503");
+  });
+});
@@ -0,0 +1,43 @@
+import { TRPCError } from "@trpc/server";
+import { describe, expect, it } from "vitest";
+import { scrapeJustEtfPortfolio } from "~/server/api/routers/securities";
+import { fixtureFetch } from "./fixture-fetch";
+
+const PORTFOLIO_URL = "https://www.justetf.com/en/portfolio/f1xture";
+const EMPTY_URL = "https://www.justetf.com/en/portfolio/empty";
+
+const http = fixtureFetch({
+  [PORTFOLIO_URL]: "justetf-portfolio.html",
+  [EMPTY_URL]: "justetf-portfolio-empty.html",
+});
+
+describe("scrapeJustEtfPortfolio", () => {
+  it("reads the title and ETF rows, skipping cash and the total", async () => {
+    const result = await scrapeJustEtfPortfolio(PORTFOLIO_URL, http);
+
+    expect(result.title).toBe("Three-fund world portfolio");
+    expect(result.entries).toEqual([
+      { isin: "IE00B3RBWM25", name: "Equity World", weight: 54.04 },
+      { isin: "IE00B3F81R35", name: "Bonds Euro Corporate", weight: 30.96 },
+      { isin: "IE00B579F325", name: "Precious Metals Gold", weight: 10 },
+    ]);
+  });
+
+  it("rejects a page without positions", async () => {
+    const error: unknown = await scrapeJustEtfPortfolio(EMPTY_URL, http).catch(
+      (e: unknown) => e,
+    );
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toBe("BAD_REQUEST");
+    expect((error as TRPCError).message).toMatch(/No ETF positions/);
+  });
+
+  it("rejects a portfolio that is not shared", async () => {
+    await expect(
+      scrapeJustEtfPortfolio(
+        "https://www.justetf.com/en/portfolio/private",
+        http,
+      ),
+    ).rejects.toThrow(/status 404/);
+  });
+});
@@ -0,0 +1,179 @@
+import * as cheerio from "cheerio";
+import { describe, expect, it } from "vitest";
+import {
+  COUNTRY_TABLE,
+  SECTOR_TABLE,
+  justEtfProvider,
+  parseWeightedTable,
+  parseWicketAjaxTable,
+} from "~/server/holdings/providers/justetf";
+import {
+  FIXTURE_ISINS,
+  JUSTETF_ROUTES,
+  fixtureFetch,
+  readFixture,
+} from "./fixture-fetch";
+
+async function fetchAndParse(isin: string, routes = JUSTETF_ROUTES) {
+  const http = fixtureFetch(routes);
+  const raw = await justEtfProvider.fetch(isin, { fetch: http });
+  return { http, composition: justEtfProvider.parse(raw!, isin) };
+}
+
+describe("parseWicketAjaxTable", () => {
+  it("reads every row of the expanded countries table", () => {
+    const countries = parseWicketAjaxTable(
+      readFixture("justetf-vwrl-countries.xml"),
+      ...COUNTRY_TABLE,
+    );
+    expect(countries).toHaveLength(12);
+    expect(countries[0]).toEqual({ name: "United States", weight: 62.51 });
+    expect(countries.at(-1)).toEqual({ name: "Other", weight: 10.82 });
+  });
+
+  it("reads every row of the expanded sectors table", () => {
+    const sectors = parseWicketAjaxTable(
+      readFixture("justetf-vwrl-sectors.xml"),
+      ...SECTOR_TABLE,
+    );
+    expect(sectors).toHaveLength(12);
+    expect(sectors.map((s) => s.name)).toContain("Real Estate");
+    expect(sectors.reduce((sum, s) => sum + s.weight, 0)).toBeCloseTo(100, 1);
+  });
+
+  it("returns nothing for an empty or non-Wicket response", () => {
+    expect(parseWicketAjaxTable("", ...COUNTRY_TABLE)).toEqual([]);
+    expect(
+      parseWicketAjaxTable(
+        "<html><body>Session expired</body></html>",
+        ...COUNTRY_TABLE,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("parseWeightedTable", () => {
+  it("reads the top-5 countries and sectors shown on the profile page", () => {
+    const $ = cheerio.load(readFixture("justetf-vwrl-profile.html"));
+    expect(parseWeightedTable($, ...COUNTRY_TABLE)).toEqual([
+      { name: "United States", weight: 62.51 },
+      { name: "Japan", weight: 5.58 },
+      { name: "United Kingdom", weight: 3.31 },
+      { name: "Canada", weight: 2.83 },
+      { name: "Other", weight: 25.77 },
+    ]);
+    expect(parseWeightedTable($, ...SECTOR_TABLE)).toHaveLength(5);
+  });
+});
+
+describe("justEtfProvider", () => {
+  it("loads the expanded tables with the session cookie and parses the profile", async () => {
+    const { http, composition } = await fetchAndParse(FIXTURE_ISINS.equity);
+
+    const ajax = http.requests.filter((r) => r.url.includes("loadMore"));
+    expect(ajax).toHaveLength(2);
+    for (const request of ajax) {
+      expect(request.headers.Cookie).toBe("JSESSIONID=F1XTURE0001");
+      expect(request.headers["Wicket-Ajax"]).toBe("true");
+    }
+
+    expect(composition.countries).toHaveLength(12);
+    expect(composition.sectors).toHaveLength(12);
+    expect(composition.holdings).toHaveLength(10);
+    expect(composition.holdings![0]).toEqual({
+      name: "Apple",
+      weight: 4.39,
+      isin: "US0378331005",
+    });
+    expect(composition.sourceUrl).toBe(
+      `https://www.justetf.com/en/etf-profile.html?isin=${FIXTURE_ISINS.equity}`,
+    );
+    expect(composition.profile).toMatchObject({
+      etfName: "Vanguard FTSE All-World UCITS ETF (USD) Distributing",
+      totalHoldings: "3,712 holdings",
+      fundSize: "EUR 36,519 m",
+      ter: "0.22% p.a.",
+      replication: "Physical",
+      distributionPolicy: "Distributing",
+      distributionYield: "1.52%",
+      distributionFrequency: "Quarterly",
+      assetClass: "Equity",
+      hasHoldingsSection: true,
+    });
+    expect(composition.profile!.returns).toMatchObject({
+      oneYear: "+17.35%",
+      max: "+302.41%",
+    });
+  });
+
+  it("falls back to the profile page tables when the AJAX calls fail", async () => {
+    const routes = Object.fromEntries(
+      Object.entries(JUSTETF_ROUTES).filter(
+        ([url]) => !url.includes("loadMore"),
+      ),
+    );
+    const { composition } = await fetchAndParse(FIXTURE_ISINS.equity, routes);
+    expect(composition.countries).toHaveLength(5);
+    expect(composition.sectors).toHaveLength(5);
+  });
+
+  it("throws when the profile page itself is missing", async () => {
+    await expect(
+      justEtfProvider.fetch("IE0000000000", { fetch: fixtureFetch({}) }),
+    ).rejects.toThrow(/status 404/);
+  });
+
+  /* ─── Page variants ─── */
+
+  it("bond ETF: bond holdings without ISIN links, countries but no sectors", async () => {
+    const { http, composition } = await fetchAndParse(FIXTURE_ISINS.bond);
+
+    // No "load more" links on this page, so no AJAX calls either
+    expect(http.requests).toHaveLength(1);
+    expect(composition.holdings).toHaveLength(10);
+    expect(composition.holdings![0]).toEqual({
+      name: "BANQUE FEDERATIVE DU CREDIT MUTUEL SA 3.875% 16/06/2032",
+      weight: 0.13,
+      isin: undefined,
+    });
+    expect(composition.countries!.map((c) => c.name)).toEqual([
+      "France",
+      "United States",
+      "Germany",
+      "Netherlands",
+      "Other",
+    ]);
+    expect(composition.sectors).toEqual([]);
+    expect(composition.profile).toMatchObject({
+      assetClass: "Bonds",
+      totalHoldings: "3,876 holdings",
+      distributionFrequency: "Semi annually",
+      hasHoldingsSection: true,
+    });
+  });
+
+  it("commodity ETC: no holdings section at all", async () => {
+    const { composition } = await fetchAndParse(FIXTURE_ISINS.commodity);
+    expect(composition.holdings).toEqual([]);
+    expect(composition.countries).toEqual([]);
+    expect(composition.sectors).toEqual([]);
+    expect(composition.profile).toMatchObject({
+      etfName: "Invesco Physical Gold A",
+      assetClass: "Precious Metals",
+      totalHoldings: "",
+      distributionYield: "",
+      hasHoldingsSection: false,
+    });
+  });
+
+  it("ETF without holdings: profile only", async () => {
+    const { composition } = await fetchAndParse(FIXTURE_ISINS.noHoldings);
+    expect(composition.holdings).toEqual([]);
+    expect(composition.countries).toEqual([]);
+    expect(composition.profile).toMatchObject({
+      assetClass: "Money Market",
+      replication: "Synthetic",
+      hasHoldingsSection: false,
+    });
+  });
+});
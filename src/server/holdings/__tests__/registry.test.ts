@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { resolveComposition } from "~/server/holdings";
+import {
+  CBONDS_ROUTES,
+  FIXTURE_ISINS,
+  INVESTENGINE_ROUTES,
+  JUSTETF_ROUTES,
+  fixtureFetch,
+} from "./fixture-fetch";
+
+const ALL_ROUTES = {
+  ...JUSTETF_ROUTES,
+  ...INVESTENGINE_ROUTES,
+  ...CBONDS_ROUTES,
+};
+
+describe("resolveComposition", () => {
+  it("equity ETF: full holdings from InvestEngine, expanded tables and profile from JustETF", async () => {
+    const resolved = await resolveComposition(FIXTURE_ISINS.equity, {
+      fetch: fixtureFetch(ALL_ROUTES),
+    });
+
+    expect(resolved.failed).toEqual([]);
+    expect(resolved.holdings).toHaveLength(27);
+    expect(resolved.provenance.holdings).toMatchObject({
+      providerId: "investengine",
+      itemCount: 27,
+    });
+    expect(resolved.countries).toHaveLength(12);
+    expect(resolved.provenance.countries?.providerId).toBe("justetf");
+    expect(resolved.sectors).toHaveLength(12);
+    expect(resolved.profile?.assetClass).toBe("Equity");
+    expect(resolved.sources.map((s) => s.providerId).sort()).toEqual([
+      "investengine",
+      "justetf",
+    ]);
+  });
+
+  it("equity ETF: skips the cbonds fallback when a full holdings list exists", async () => {
+    const http = fixtureFetch(ALL_ROUTES);
+    await resolveComposition(FIXTURE_ISINS.equity, { fetch: http });
+
+    expect(http.requests.some((r) => r.url.includes("cbonds.com"))).toBe(false);
+  });
+
+  it("bond ETF: falls back to cbonds for more than JustETF's top 10", async () => {
+    const resolved = await resolveComposition(FIXTURE_ISINS.bond, {
+      fetch: fixtureFetch(ALL_ROUTES),
+    });
+
+    expect(resolved.failed).toEqual([]);
+    expect(resolved.holdings).toHaveLength(19);
+    expect(resolved.provenance.holdings).toMatchObject({
+      providerId: "cbonds",
+      itemCount: 19,
+    });
+    expect(resolved.sources.map((s) => s.providerId).sort()).toEqual([
+      "cbonds",
+      "justetf",
+    ]);
+    expect(resolved.countries[0]).toEqual({ name: "France", weight: 21.72 });
+    expect(resolved.sectors).toEqual([]);
+    expect(resolved.profile?.assetClass).toBe("Bonds");
+  });
+
+  it("commodity ETC: empty lists, a profile and no failures", async () => {
+    const resolved = await resolveComposition(FIXTURE_ISINS.commodity, {
+      fetch: fixtureFetch(ALL_ROUTES),
+    });
+
+    expect(resolved.failed).toEqual([]);
+    expect(resolved.holdings).toEqual([]);
+    expect(resolved.countries).toEqual([]);
+    expect(resolved.sectors).toEqual([]);
+    expect(resolved.provenance.holdings).toBeUndefined();
+    expect(resolved.profile).toMatchObject({
+      assetClass: "Precious Metals",
+      hasHoldingsSection: false,
+    });
+  });
+
+  it("ETF without holdings: empty lists, a profile and no failures", async () => {
+    const resolved = await resolveComposition(FIXTURE_ISINS.noHoldings, {
+      fetch: fixtureFetch(ALL_ROUTES),
+    });
+
+    expect(resolved.failed).toEqual([]);
+    expect(resolved.holdings).toEqual([]);
+    expect(resolved.profile).toMatchObject({
+      assetClass: "Money Market",
+      hasHoldingsSection: false,
+    });
+    expect(resolved.sources.map((s) => s.providerId)).toEqual(["justetf"]);
+  });
+
+  it("reports a provider whose page cannot be loaded in `failed`", async () => {
+    const resolved = await resolveComposition(FIXTURE_ISINS.equity, {
+      fetch: fixtureFetch({ ...JUSTETF_ROUTES, ...CBONDS_ROUTES }),
+    });
+
+    expect(resolved.failed).toEqual(["investengine"]);
+    expect(resolved.holdings).toHaveLength(10);
+    expect(resolved.provenance.holdings?.providerId).toBe("justetf");
+  });
+
+  it("only runs cheap providers for the light composition", async () => {
+    const http = fixtureFetch(ALL_ROUTES);
+    const resolved = await resolveComposition(FIXTURE_ISINS.equity, {
+      cheapOnly: true,
+      fetch: http,
+    });
+
+    expect(
+      http.requests.every((r) => r.url.startsWith("https://www.justetf.com/")),
+    ).toBe(true);
+    expect(resolved.sources.map((s) => s.providerId)).toEqual(["justetf"]);
+  });
+});
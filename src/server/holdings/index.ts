@@ -0,0 +1,23 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Holdings providers — entry point
+   ─────────────────────────────────────────────────────────────────────────────
+   To add a source, implement `HoldingsProvider` in ./providers and register
+   it below; the router picks it up through `resolveComposition`.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { registerHoldingsProvider } from "./registry";
+import { cbondsProvider } from "./providers/cbonds";
+import { investEngineProvider } from "./providers/investengine";
+import { justEtfProvider } from "./providers/justetf";
+
+registerHoldingsProvider(justEtfProvider);
+registerHoldingsProvider(investEngineProvider);
+registerHoldingsProvider(cbondsProvider);
+
+export {
+  getHoldingsProviders,
+  registerHoldingsProvider,
+  resolveComposition,
+  type ResolveOptions,
+} from "./registry";
+export type * from "./types";
@@ -0,0 +1,209 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   cbonds.com — extended holdings (~100 items), fallback only
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import {
+  type HoldingItem,
+  type HoldingsProvider,
+  type ProviderComposition,
+  type ProviderContext,
+} from "../types";
+import { cleanTicker, extractIsin } from "../utils";
+
+/** Raw cbonds payload: the ETF detail page and its numeric cbonds ID */
+export interface CbondsRaw {
+  cbondsId: string;
+  html: string;
+}
+
+/**
+ * Convert an ALL-CAPS holding name to Title Case for display.
+ * Only transforms if the entire name is uppercase (to avoid mangling already well-cased names).
+ * Handles common abbreviations (PLC, AG, etc.), corporate suffixes (Inc, Corp),
+ * and lowercase articles/prepositions.
+ */
+function toTitleCase(name: string): string {
+  const trimmed = name.trim();
+  // Only transform if the entire name is uppercase
+  if (!/[a-zA-Z]/.test(trimmed)) return trimmed;
+  if (trimmed !== trimmed.toUpperCase()) return trimmed;
+  // Skip very short names (likely abbreviations like "AMD", "SAP")
+  if (trimmed.length <= 4 && !/\s/.test(trimmed)) return trimmed;
+
+  // Words that should stay lowercase (when not the first word)
+  const lowercaseWords = new Set([
+    "OF", "THE", "AND", "IN", "FOR", "DE", "DU", "VON", "VAN", "DER", "DEL", "LA", "LE",
+  ]);
+
+  // Words/abbreviations that should stay UPPERCASE
+  const keepUppercase = new Set([
+    "PLC", "AG", "SA", "SE", "NV", "LLC", "LP", "ASA", "OYJ", "AB", "KK",
+    "ETF", "ADR", "REIT",
+    "II", "III", "IV", "VI", "VII", "VIII", "IX", "XI", "XII",
+    "USA", "US", "UK", "EU",
+    "N.V.", "S.A.", "A.G.",
+  ]);
+
+  return trimmed
+    .split(/\s+/)
+    .map((word, i) => {
+      if (keepUppercase.has(word)) return word;
+      if (i > 0 && lowercaseWords.has(word)) return word.toLowerCase();
+      // Title case: first letter uppercase, rest lowercase
+      return word.charAt(0) + word.slice(1).toLowerCase();
+    })
+    .join(" ");
+}
+
+function cbondsEtfUrl(cbondsId: string): string {
+  return `https://cbonds.com/etf/${cbondsId}/`;
+}
+
+/* ─── Fetching ─── */
+
+/** Chrome-impersonating fetch; impit is ESM-only with native bindings, so import lazily */
+async function impitFetch(): Promise<typeof fetch> {
+  const { Impit } = await import("impit");
+  const impit = new Impit({ browser: "chrome" });
+  return (input, init) => {
+    const url = input instanceof Request ? input.url : input.toString();
+    return impit.fetch(url, init as Parameters<typeof impit.fetch>[1]) as unknown as Promise<Response>;
+  };
+}
+
+/**
+ * Resolve the ISIN to a cbonds ETF ID and download its page. Uses impit to
+ * impersonate Chrome's TLS fingerprint and get past Cloudflare.
+ * Returns `null` when cbonds does not know the ISIN.
+ */
+async function fetchCbonds(isin: string, ctx: ProviderContext): Promise<CbondsRaw | null> {
+  const http = ctx.fetch ?? (await impitFetch());
+
+  // Realistic Chrome headers to avoid WAF / Cloudflare blocks on datacenter IPs
+  const browserHeaders: Record<string, string> = {
+    "Accept-Language": "en-US,en;q=0.9",
+    "Cache-Control": "no-cache",
+    "Pragma": "no-cache",
+    "Sec-Ch-Ua": '"Chromium";v="136", "Google Chrome";v="136", "Not.A/Brand";v="99"',
+    "Sec-Ch-Ua-Mobile": "?0",
+    "Sec-Ch-Ua-Platform": '"Windows"',
+    "Sec-Fetch-Dest": "empty",
+    "Sec-Fetch-Mode": "cors",
+    "Sec-Fetch-Site": "same-origin",
+    "User-Agent":
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36",
+  };
+
+  // Step 1: Resolve ISIN → cbonds numeric ETF ID via suggest API
+  const suggestUrl = `https://cbonds.com/api/etf/exchange_traded_funds/suggest/${encodeURIComponent(isin)}/`;
+  const suggestResp = await http(suggestUrl, {
+    headers: {
+      ...browserHeaders,
+      "Accept": "application/json",
+      "Referer": "https://cbonds.com/etf/",
+    },
+    signal: AbortSignal.timeout(15_000),
+  });
+
+  if (!suggestResp.ok) {
+    throw new Error(`suggest API returned status ${suggestResp.status}`);
+  }
+
+  const suggestData = (await suggestResp.json()) as {
+    response?: { items?: Array<{ id: string }> };
+  };
+  const items = suggestData?.response?.items ?? [];
+  if (items.length === 0) {
+    console.warn(`[cbonds] no ETF found for ISIN ${isin}`);
+    return null;
+  }
+  const cbondsId = String(items[0]!.id);
+
+  // Step 2: Fetch the ETF detail page
+  const pageResp = await http(cbondsEtfUrl(cbondsId), {
+    headers: {
+      ...browserHeaders,
+      "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+      "Sec-Fetch-Dest": "document",
+      "Sec-Fetch-Mode": "navigate",
+      "Sec-Fetch-Site": "none",
+      "Sec-Fetch-User": "?1",
+      "Upgrade-Insecure-Requests": "1",
+    },
+    signal: AbortSignal.timeout(30_000),
+  });
+
+  if (!pageResp.ok) {
+    throw new Error(`ETF page returned status ${pageResp.status}`);
+  }
+
+  return { cbondsId, html: await pageResp.text() };
+}
+
+/* ─── Parsing ─── */
+
+/** Read holdings from the `structure` JSON variable embedded in the ETF page */
+export function parseCbonds(raw: CbondsRaw): ProviderComposition {
+  const sourceUrl = cbondsEtfUrl(raw.cbondsId);
+  const structureMatch = /(?:var\s+)?structure\s*[:=]\s*(\[[\s\S]*?\])\s*[,;]/.exec(raw.html);
+  if (!structureMatch) {
+    console.warn("[cbonds] could not find structure data in page");
+    return { holdings: [], sourceUrl };
+  }
+
+  const structure = JSON.parse(structureMatch[1]!) as Array<Record<string, unknown>>;
+
+  const holdings: HoldingItem[] = [];
+  for (const item of structure) {
+    const rawName = item["asset_name"]; // eslint-disable-line @typescript-eslint/dot-notation
+    const name = typeof rawName === "string" ? rawName.trim() : "";
+    if (!name) continue;
+
+    const weightNumeric = item["weight.numeric"];
+    const weightRounded = item["weight.rounded"];
+
+    let weight = 0;
+    if (weightNumeric != null) {
+      const parsed = Number(weightNumeric);
+      weight = isNaN(parsed) ? 0 : Math.round(parsed * 100 * 100) / 100; // convert decimal → percentage
+    } else if (weightRounded != null) {
+      const parsed = Number(weightRounded);
+      weight = isNaN(parsed) ? 0 : parsed;
+    }
+
+    holdings.push({
+      name: toTitleCase(name),
+      weight,
+      isin: extractIsin(item["isin"] ?? item["asset_isin"]), // eslint-disable-line @typescript-eslint/dot-notation
+      ticker: cleanTicker(item["ticker"] ?? item["asset_ticker"]), // eslint-disable-line @typescript-eslint/dot-notation
+    });
+  }
+
+  // Sort by weight descending
+  holdings.sort((a, b) => b.weight - a.weight);
+
+  return { holdings, sourceUrl };
+}
+
+/* ─── Provider ─── */
+
+export const cbondsProvider: HoldingsProvider<CbondsRaw> = {
+  id: "cbonds",
+  label: "cbonds",
+  priority: 50,
+  capabilities: {
+    fields: ["holdings"],
+    holdingsCoverage: "partial",
+    // Slow and Cloudflare-protected: only asked when no source has the full
+    // holdings list (JustETF's top 10 alone is not enough)
+    fallbackOnly: true,
+  },
+  cachePolicy: {
+    ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+    emptyTtlMs: 5 * 60 * 1000, // 5 minutes so transient failures don't block retries
+    maxEntries: 200,
+    staleWhileRevalidateMs: 7 * 24 * 60 * 60 * 1000,
+  },
+  fetch: fetchCbonds,
+  parse: parseCbonds,
+};
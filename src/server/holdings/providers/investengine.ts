@@ -0,0 +1,224 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   InvestEngine.com — complete holdings lists
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import * as cheerio from "cheerio";
+import { createServerCache } from "~/server/cache";
+import {
+  type HoldingItem,
+  type HoldingsProvider,
+  type ProviderComposition,
+  type ProviderContext,
+} from "../types";
+import { BROWSER_UA, cleanTicker, extractIsin } from "../utils";
+
+/** Raw InvestEngine payload: the ETF detail page */
+export interface InvestEngineRaw {
+  url: string;
+  html: string;
+}
+
+/** Provider name → URL slug mapping (from investengine.com/etfs/ filter links) */
+const INVEST_ENGINE_PROVIDER_SLUGS: Record<string, string> = {
+  "Vanguard": "vanguard",
+  "Invesco": "invesco",
+  "Amundi": "amundi",
+  "State Street SPDR": "state-street-spdr",
+  "Global X": "global-x",
+  "Xtrackers DWS": "xtrackers",
+  "Blackrock iShares": "blackrock-ishares",
+  "VanEck": "vaneck",
+  "Independent": "independent",
+  "UBS": "ubs",
+  "Legal & General (L&G)": "legal-general-lg",
+  "JP Morgan": "jp-morgan",
+  "HSBC": "hsbc",
+  "WisdomTree": "wisdomtree",
+  "ARK": "ark",
+  "Franklin Templeton": "franklin-templeton",
+  "HANetf": "hanetf",
+  "Pimco": "pimco",
+  "Fidelity": "fidelity",
+  "Goldman Sachs": "goldman-sachs",
+  "Ossiam": "ossiam",
+};
+
+/* ─── Securities list ─── */
+
+interface InvestEngineSecurityEntry {
+  isin: string;
+  ticker: string;
+  provider_filter_name: string;
+}
+
+const IE_LIST_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days — list barely changes
+const investEngineListCache = createServerCache<InvestEngineSecurityEntry[]>({
+  namespace: "investengine-list",
+  maxEntries: 1,
+  staleWhileRevalidateMs: IE_LIST_CACHE_TTL_MS,
+});
+
+/**
+ * Fetch the InvestEngine securities list (835+ ETFs) from their /etfs/ page.
+ * Parses the embedded __NEXT_DATA__ JSON to extract ISIN, ticker, and provider.
+ * Cached for 7 days; an injected `http` client always bypasses the cache.
+ */
+export async function fetchInvestEngineSecuritiesList(
+  http: typeof fetch = fetch,
+): Promise<InvestEngineSecurityEntry[]> {
+  if (http !== fetch) return parseInvestEngineSecuritiesList(await fetchListingHtml(http));
+
+  return investEngineListCache.getOrLoad(
+    "all",
+    async () => {
+      const entries = parseInvestEngineSecuritiesList(await fetchListingHtml(fetch));
+      // Don't cache an empty list for a week
+      if (entries.length === 0) throw new Error("InvestEngine listing page had no securities");
+      return entries;
+    },
+    IE_LIST_CACHE_TTL_MS,
+  );
+}
+
+/** Download the /etfs/ listing page */
+async function fetchListingHtml(http: typeof fetch): Promise<string> {
+  const res = await http("https://investengine.com/etfs/", {
+    headers: { "User-Agent": BROWSER_UA },
+    signal: AbortSignal.timeout(30_000),
+  });
+
+  if (!res.ok) {
+    throw new Error(`InvestEngine listing page returned status ${res.status}`);
+  }
+  return res.text();
+}
+
+export function parseInvestEngineSecuritiesList(html: string): InvestEngineSecurityEntry[] {
+  if (!html) return [];
+  const $ = cheerio.load(html);
+  const nextDataJson = $("#__NEXT_DATA__").text();
+  if (!nextDataJson) {
+    console.warn("[investengine] could not find __NEXT_DATA__ on listing page");
+    return [];
+  }
+
+  const data = JSON.parse(nextDataJson) as {
+    props?: {
+      pageProps?: {
+        defaultSecurities?: Array<{
+          isin: string;
+          ticker: string;
+          provider_filter_name: string;
+        }>;
+      };
+    };
+  };
+
+  return (data.props?.pageProps?.defaultSecurities ?? []).map(
+    (s): InvestEngineSecurityEntry => ({
+      isin: s.isin,
+      ticker: s.ticker,
+      provider_filter_name: s.provider_filter_name,
+    }),
+  );
+}
+
+/* ─── Fetching ─── */
+
+/**
+ * Resolve the ISIN to its InvestEngine page and download it; `null` if not
+ * listed. A failing page request throws, so the registry records a provider
+ * failure instead of caching the ETF as unlisted.
+ */
+async function fetchInvestEngine(
+  isin: string,
+  ctx: ProviderContext,
+): Promise<InvestEngineRaw | null> {
+  const http = ctx.fetch ?? fetch;
+  const securities = await fetchInvestEngineSecuritiesList(http);
+  const entry = securities.find((s) => s.isin.toUpperCase() === isin);
+  if (!entry) {
+    console.warn(`[investengine] ETF not found for ISIN ${isin}`);
+    return null;
+  }
+
+  const providerSlug = INVEST_ENGINE_PROVIDER_SLUGS[entry.provider_filter_name];
+  if (!providerSlug) {
+    console.warn(`[investengine] unknown provider: ${entry.provider_filter_name}`);
+    return null;
+  }
+
+  const url = `https://investengine.com/etfs/${providerSlug}/${entry.ticker.toLowerCase()}/`;
+  const res = await http(url, {
+    headers: { "User-Agent": BROWSER_UA },
+    signal: AbortSignal.timeout(30_000),
+  });
+
+  if (!res.ok) {
+    throw new Error(`InvestEngine ETF page returned status ${res.status} for ${url}`);
+  }
+
+  return { url, html: await res.text() };
+}
+
+/* ─── Parsing ─── */
+
+/** Read ALL holdings from the __NEXT_DATA__ JSON embedded in the ETF page (SSR) */
+export function parseInvestEngine(raw: InvestEngineRaw): ProviderComposition {
+  const $ = cheerio.load(raw.html);
+  const nextDataJson = $("#__NEXT_DATA__").text();
+  if (!nextDataJson) {
+    console.warn("[investengine] could not find __NEXT_DATA__ on ETF page");
+    return { holdings: [], sourceUrl: raw.url };
+  }
+
+  const pageData = JSON.parse(nextDataJson) as {
+    props?: {
+      pageProps?: {
+        security?: {
+          equities?: Array<{
+            name: string;
+            actual_weight: string;
+            isin?: string | null;
+            ticker?: string | null;
+          }>;
+        };
+      };
+    };
+  };
+
+  const equities = pageData.props?.pageProps?.security?.equities ?? [];
+
+  // Filter out zero-weight entries, largest first
+  const holdings: HoldingItem[] = equities
+    .map((e) => ({
+      name: e.name,
+      weight: Math.round(parseFloat(e.actual_weight) * 100) / 100,
+      isin: extractIsin(e.isin),
+      ticker: cleanTicker(e.ticker),
+    }))
+    .filter((h) => h.name && h.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  return { holdings, sourceUrl: raw.url };
+}
+
+/* ─── Provider ─── */
+
+export const investEngineProvider: HoldingsProvider<InvestEngineRaw> = {
+  id: "investengine",
+  label: "InvestEngine",
+  priority: 80,
+  capabilities: {
+    fields: ["holdings"],
+    holdingsCoverage: "full",
+  },
+  cachePolicy: {
+    ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+    emptyTtlMs: 60 * 60 * 1000, // 1 hour for ETFs not listed on InvestEngine
+    maxEntries: 500,
+    staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+  },
+  fetch: fetchInvestEngine,
+  parse: parseInvestEngine,
+};
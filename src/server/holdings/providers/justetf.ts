@@ -0,0 +1,273 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   JustETF — profile facts, top 10 holdings, countries & sectors
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import * as cheerio from "cheerio";
+import {
+  type EtfProfile,
+  type HoldingItem,
+  type HoldingsProvider,
+  type ProviderComposition,
+  type ProviderContext,
+  type WeightedItem,
+} from "../types";
+import { BROWSER_UA, extractIsin, parsePct } from "../utils";
+
+/** Raw JustETF payload: the profile page plus the expanded Wicket AJAX tables */
+export interface JustEtfRaw {
+  url: string;
+  html: string;
+  /** Wicket AJAX response for "load more countries" — "" if unavailable */
+  countriesXml: string;
+  /** Wicket AJAX response for "load more sectors" — "" if unavailable */
+  sectorsXml: string;
+}
+
+export function justEtfProfileUrl(isin: string): string {
+  return `https://www.justetf.com/en/etf-profile.html?isin=${encodeURIComponent(isin)}`;
+}
+
+/* ─── Fetching ─── */
+
+/** Extract cookies from a fetch Response's Set-Cookie headers */
+function extractCookiesFromResponse(res: Response): string {
+  try {
+    const setCookies = res.headers.getSetCookie?.() ?? [];
+    if (setCookies.length > 0) {
+      return setCookies.map((c) => c.split(";")[0]).join("; ");
+    }
+  } catch {
+    // getSetCookie() may not be available in all environments
+  }
+  // Fallback: try raw header
+  const raw = res.headers.get("set-cookie");
+  if (raw) {
+    return raw
+      .split(/,(?=\s*\w+=)/)
+      .map((c) => c.split(";")[0]!.trim())
+      .filter(Boolean)
+      .join("; ");
+  }
+  return "";
+}
+
+/**
+ * Fetch the expanded countries & sectors tables via Wicket AJAX calls.
+ * Requires the main profile page HTML (to extract AJAX URLs) and session cookies.
+ * Returns "" for a table whose call fails (the parser falls back to main page data).
+ */
+async function fetchExpandedCompositionXml(
+  http: typeof fetch,
+  html: string,
+  cookies: string,
+  isin: string,
+): Promise<{ countriesXml: string; sectorsXml: string }> {
+  // Extract Wicket AJAX URLs from the page's inline JavaScript
+  const ajaxCalls = html.match(/Wicket\.Ajax\.ajax\(\{[^}]+\}/g) ?? [];
+  let countriesUrl = "";
+  let sectorsUrl = "";
+  for (const call of ajaxCalls) {
+    const urlMatch = /"u":"([^"]+)"/.exec(call);
+    if (!urlMatch) continue;
+    const url = urlMatch[1]!;
+    if (url.includes("loadMoreCountries")) countriesUrl = url;
+    if (url.includes("loadMoreSectors")) sectorsUrl = url;
+  }
+
+  const ajaxHeaders = {
+    "User-Agent": BROWSER_UA,
+    "Wicket-Ajax": "true",
+    "Wicket-Ajax-BaseURL": `en/etf-profile.html?isin=${encodeURIComponent(isin)}`,
+    Cookie: cookies,
+  };
+
+  const load = (path: string): Promise<string> =>
+    path && cookies
+      ? http(`https://www.justetf.com${path}`, {
+          headers: ajaxHeaders,
+          signal: AbortSignal.timeout(10_000),
+        })
+          .then((r) => (r.ok ? r.text() : ""))
+          .catch(() => "") // silently fall back to main page data
+      : Promise.resolve("");
+
+  const [countriesXml, sectorsXml] = await Promise.all([load(countriesUrl), load(sectorsUrl)]);
+  return { countriesXml, sectorsXml };
+}
+
+async function fetchJustEtf(isin: string, ctx: ProviderContext): Promise<JustEtfRaw> {
+  const http = ctx.fetch ?? fetch;
+  const url = justEtfProfileUrl(isin);
+  const res = await http(url, {
+    headers: { "User-Agent": BROWSER_UA },
+    signal: AbortSignal.timeout(15_000),
+  });
+
+  if (!res.ok) {
+    throw new Error(`JustETF returned status ${res.status} for ISIN ${isin}`);
+  }
+
+  const html = await res.text();
+  const cookies = extractCookiesFromResponse(res);
+  const { countriesXml, sectorsXml } = await fetchExpandedCompositionXml(
+    http,
+    html,
+    cookies,
+    isin,
+  );
+  return { url, html, countriesXml, sectorsXml };
+}
+
+/* ─── Parsing ─── */
+
+/**
+ * Parse a Wicket AJAX XML response and extract table rows as WeightedItem[].
+ * The AJAX response wraps HTML inside CDATA sections.
+ */
+export function parseWicketAjaxTable(
+  ajaxXml: string,
+  rowTestId: string,
+  nameTestId: string,
+  pctTestId: string,
+): WeightedItem[] {
+  // Extract content from CDATA sections, stripping the <![CDATA[ ... ]]> wrappers
+  const cdataMatches = ajaxXml.match(/<!\[CDATA\[([\s\S]*?)\]\]>/g);
+  if (!cdataMatches) return [];
+
+  const htmlContent = cdataMatches
+    .map((s) => s.slice(9, -3)) // strip "<![CDATA[" (9 chars) and "]]>" (3 chars)
+    .join("");
+
+  return parseWeightedTable(cheerio.load(htmlContent), rowTestId, nameTestId, pctTestId);
+}
+
+/** Read name / percentage pairs from JustETF table rows */
+export function parseWeightedTable(
+  $: cheerio.CheerioAPI,
+  rowTestId: string,
+  nameTestId: string,
+  pctTestId: string,
+): WeightedItem[] {
+  const items: WeightedItem[] = [];
+  $(`tr[data-testid="${rowTestId}"]`).each((_, row) => {
+    const name = $(row).find(`[data-testid="${nameTestId}"]`).text().trim();
+    const weight = parsePct($(row).find(`[data-testid="${pctTestId}"]`).text());
+    if (name) items.push({ name, weight });
+  });
+  return items;
+}
+
+export const COUNTRY_TABLE = [
+  "etf-holdings_countries_row",
+  "tl_etf-holdings_countries_value_name",
+  "tl_etf-holdings_countries_value_percentage",
+] as const;
+
+export const SECTOR_TABLE = [
+  "etf-holdings_sectors_row",
+  "tl_etf-holdings_sectors_value_name",
+  "tl_etf-holdings_sectors_value_percentage",
+] as const;
+
+/**
+ * Value captioned by a "vallabel" cell or box. The data table renders
+ * `<td class="vallabel">Label</td><td>Value</td>`, the dividends section
+ * `<div class="val">Value</div><div class="vallabel">Label</div>`.
+ */
+function labelledValue($: cheerio.CheerioAPI, label: RegExp): string {
+  let value = "";
+  $(".vallabel").each((_, el) => {
+    const caption = $(el);
+    if (!label.test(caption.text().trim())) return;
+    value = (caption.is("td") ? caption.next("td") : caption.siblings(".val").first()).text().trim();
+    return !value; // stop at the first caption with a value
+  });
+  return value;
+}
+
+function parseProfile($: cheerio.CheerioAPI): EtfProfile {
+  const text = (testId: string) => $(`[data-testid="${testId}"]`).text().trim();
+
+  // Raw text is e.g. "out of 3,624" — extract just the number and reformat
+  const rawTotalHoldings = text("tl_etf-holdings_top-holdings_count");
+  const totalHoldingsMatch = /([\d,.]+)/.exec(rawTotalHoldings);
+
+  return {
+    etfName: text("etf-profile-header_etf-name"),
+    totalHoldings: totalHoldingsMatch ? `${totalHoldingsMatch[1]} holdings` : rawTotalHoldings,
+    fundSize: text("etf-profile-header_fund-size-value-wrapper"),
+    ter: text("etf-profile-header_ter-value"),
+    replication: text("etf-profile-header_replication-value"),
+    distributionPolicy: text("etf-profile-header_distribution-policy-value"),
+    distributionYield: labelledValue($, /^current dividend yield$/i),
+    distributionFrequency: labelledValue($, /^distribution frequency$/i),
+    returns: {
+      oneMonth: text("etf-returns-section_month-return"),
+      threeMonths: text("etf-returns-section_3month-return"),
+      sixMonths: text("etf-returns-section_6month-return"),
+      ytd: text("etf-returns-section_ytd-return"),
+      oneYear: text("etf-returns-section_1year-return"),
+      threeYears: text("etf-returns-section_3year-return"),
+      fiveYears: text("etf-returns-section_5year-return"),
+      max: text("etf-returns-section_max-return"),
+    },
+    assetClass: text("etf-quote-section_tag-link-0").replace(/\s*\(\d+\)\s*$/, "").trim(),
+    hasHoldingsSection:
+      $('[data-testid="etf-profile-tabs_holdings-tab-link"]').length > 0 ||
+      $('[data-testid="etf-holdings_top-holdings_container"]').length > 0,
+  };
+}
+
+function parseTopHoldings($: cheerio.CheerioAPI): HoldingItem[] {
+  const holdings: HoldingItem[] = [];
+  $('tr[data-testid="etf-holdings_top-holdings_row"]').each((_, row) => {
+    const link = $(row).find('[data-testid="tl_etf-holdings_top-holdings_link_name"]');
+    const name = link.find("span").text().trim();
+    // Stock links point at "/en/stock-profiles/<ISIN>"
+    const isin = extractIsin(link.attr("href") ?? link.find("a").attr("href"));
+    const weight = parsePct(
+      $(row)
+        .find('[data-testid="tl_etf-holdings_top-holdings_value_percentage"]')
+        .text(),
+    );
+    if (name) holdings.push({ name, weight, isin });
+  });
+  return holdings;
+}
+
+export function parseJustEtf(raw: JustEtfRaw): ProviderComposition {
+  const $ = cheerio.load(raw.html);
+
+  // Prefer the expanded AJAX tables; fall back to the rows on the main page
+  const ajaxCountries = parseWicketAjaxTable(raw.countriesXml, ...COUNTRY_TABLE);
+  const ajaxSectors = parseWicketAjaxTable(raw.sectorsXml, ...SECTOR_TABLE);
+
+  return {
+    holdings: parseTopHoldings($),
+    countries: ajaxCountries.length > 0 ? ajaxCountries : parseWeightedTable($, ...COUNTRY_TABLE),
+    sectors: ajaxSectors.length > 0 ? ajaxSectors : parseWeightedTable($, ...SECTOR_TABLE),
+    profile: parseProfile($),
+    sourceUrl: raw.url,
+  };
+}
+
+/* ─── Provider ─── */
+
+export const justEtfProvider: HoldingsProvider<JustEtfRaw> = {
+  id: "justetf",
+  label: "JustETF",
+  priority: 100,
+  capabilities: {
+    fields: ["holdings", "countries", "sectors", "profile"],
+    holdingsCoverage: "top",
+    cheap: true,
+  },
+  cachePolicy: {
+    ttlMs: 24 * 60 * 60 * 1000, // 24 hours
+    emptyTtlMs: 5 * 60 * 1000, // 5 minutes — don't pin transient failures
+    maxEntries: 500,
+    staleWhileRevalidateMs: 24 * 60 * 60 * 1000,
+  },
+  fetch: fetchJustEtf,
+  parse: parseJustEtf,
+};
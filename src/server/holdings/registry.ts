@@ -0,0 +1,257 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Holdings provider registry
+   ─────────────────────────────────────────────────────────────────────────────
+   Runs the registered providers for an ISIN, caches each provider's parsed
+   result according to its own cache policy (persisted when the server
+   cache has a backend), and merges them field by field:
+   the most complete list wins (item count, then covered weight, then
+   provider priority). Providers never throw into the caller — a failing
+   source simply contributes nothing and is reported in `failed`.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { createServerCache, type ServerCache } from "~/server/cache";
+import {
+  type CompositionField,
+  type CompositionSource,
+  type FieldProvenance,
+  type HoldingsProvider,
+  type ProviderComposition,
+  type ProviderContext,
+  type ResolvedComposition,
+  type WeightedItem,
+} from "./types";
+
+/* ─── Types ─── */
+
+interface ProviderResult {
+  composition: ProviderComposition | null;
+  failed: boolean;
+}
+
+export interface ResolveOptions {
+  /** Only run providers flagged as cheap (used for the light composition) */
+  cheapOnly?: boolean;
+  /** Injected HTTP client; results fetched with it bypass the provider caches */
+  fetch?: typeof fetch;
+}
+
+const LIST_FIELDS = ["holdings", "countries", "sectors"] as const;
+type ListField = (typeof LIST_FIELDS)[number];
+
+/* ─── State ─── */
+
+const providers = new Map<string, HoldingsProvider>();
+const resultCaches = new Map<string, ServerCache<ProviderResult>>();
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Registration
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/** Register a provider; registering the same id again replaces it */
+export function registerHoldingsProvider<Raw>(provider: HoldingsProvider<Raw>): void {
+  providers.set(provider.id, provider as HoldingsProvider);
+  resultCaches.set(
+    provider.id,
+    createServerCache<ProviderResult>({
+      namespace: `holdings-${provider.id}`,
+      maxEntries: provider.cachePolicy.maxEntries,
+      staleWhileRevalidateMs: provider.cachePolicy.staleWhileRevalidateMs,
+    }),
+  );
+}
+
+/** Registered providers, highest priority first */
+export function getHoldingsProviders(): HoldingsProvider[] {
+  return [...providers.values()].sort((a, b) => b.priority - a.priority);
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Per-provider fetch + cache
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+function hasData(c: ProviderComposition | null): boolean {
+  if (!c) return false;
+  return !!c.profile || LIST_FIELDS.some((f) => (c[f]?.length ?? 0) > 0);
+}
+
+/** Fetch and parse; throws when the provider fails so stale cache entries are kept */
+async function fetchAndParse(
+  provider: HoldingsProvider,
+  isin: string,
+  ctx: ProviderContext,
+): Promise<ProviderResult> {
+  const raw = await provider.fetch(isin, ctx);
+  if (raw === null) return { composition: null, failed: false };
+  return { composition: provider.parse(raw, isin), failed: false };
+}
+
+/**
+ * Run one provider for an ISIN through its cache. A failure is cached as
+ * an empty result for `emptyTtlMs`, unless an older result is still servable.
+ */
+async function runProvider(
+  provider: HoldingsProvider,
+  isin: string,
+  ctx: ProviderContext,
+): Promise<ProviderResult> {
+  const cache = resultCaches.get(provider.id)!;
+  const { ttlMs, emptyTtlMs } = provider.cachePolicy;
+  try {
+    if (ctx.fetch) return await fetchAndParse(provider, isin, ctx);
+    return await cache.getOrLoad(
+      isin,
+      () => fetchAndParse(provider, isin, ctx),
+      (result) => (hasData(result.composition) ? ttlMs : emptyTtlMs),
+    );
+  } catch (e) {
+    console.error(`[${provider.id}] error for ISIN ${isin}:`, e);
+    const failed: ProviderResult = { composition: null, failed: true };
+    if (!ctx.fetch) await cache.set(isin, failed, emptyTtlMs);
+    return failed;
+  }
+}
+
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Resolution
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+function sumWeights(items: WeightedItem[]): number {
+  return Math.round(items.reduce((s, i) => s + i.weight, 0) * 100) / 100;
+}
+
+/** Pick the most complete list for a field across provider results */
+function pickList(
+  field: ListField,
+  results: Array<{ provider: HoldingsProvider; composition: ProviderComposition }>,
+): { items: WeightedItem[]; provenance: FieldProvenance } | null {
+  let best: { items: WeightedItem[]; provenance: FieldProvenance; priority: number } | null = null;
+
+  for (const { provider, composition } of results) {
+    const items = composition[field];
+    if (!items || items.length === 0) continue;
+    const coverage = sumWeights(items);
+    const better =
+      !best ||
+      items.length > best.items.length ||
+      (items.length === best.items.length && coverage > best.provenance.coverage) ||
+      (items.length === best.items.length &&
+        coverage === best.provenance.coverage &&
+        provider.priority > best.priority);
+    if (better) {
+      best = {
+        items,
+        priority: provider.priority,
+        provenance: {
+          providerId: provider.id,
+          label: provider.label,
+          itemCount: items.length,
+          coverage,
+          url: composition.sourceUrl ?? "",
+        },
+      };
+    }
+  }
+
+  return best && { items: best.items, provenance: best.provenance };
+}
+
+function coveredFields(composition: ProviderComposition): CompositionField[] {
+  const fields: CompositionField[] = LIST_FIELDS.filter(
+    (f) => (composition[f]?.length ?? 0) > 0,
+  );
+  if (composition.profile) fields.push("profile");
+  return fields;
+}
+
+/**
+ * Fields no fallback needs to fill. A holdings list only counts when it
+ * comes from a provider that returns the full list — a top-10 excerpt
+ * still leaves room for a longer list from a fallback.
+ */
+function completeFields(
+  results: Array<{ provider: HoldingsProvider; composition: ProviderComposition }>,
+): Set<CompositionField> {
+  return new Set(
+    results.flatMap(({ provider, composition }) =>
+      coveredFields(composition).filter(
+        (f) => f !== "holdings" || provider.capabilities.holdingsCoverage === "full",
+      ),
+    ),
+  );
+}
+
+/**
+ * Resolve the composition of an ETF across all registered providers.
+ * Regular providers run in parallel; fallback-only providers run afterwards,
+ * one at a time, and only while a field they can fill is still empty or,
+ * for holdings, only known from a partial or top-N list.
+ */
+export async function resolveComposition(
+  isin: string,
+  options: ResolveOptions = {},
+): Promise<ResolvedComposition> {
+  const key = isin.toUpperCase();
+  const ctx: ProviderContext = { fetch: options.fetch };
+  const candidates = getHoldingsProviders().filter(
+    (p) => !options.cheapOnly || p.capabilities.cheap,
+  );
+
+  const results: Array<{ provider: HoldingsProvider; composition: ProviderComposition }> = [];
+  const failed: string[] = [];
+  const collect = (provider: HoldingsProvider, result: ProviderResult) => {
+    if (result.failed) failed.push(provider.id);
+    if (result.composition) results.push({ provider, composition: result.composition });
+  };
+
+  const regular = candidates.filter((p) => !p.capabilities.fallbackOnly);
+  const regularResults = await Promise.all(regular.map((p) => runProvider(p, key, ctx)));
+  regular.forEach((p, i) => collect(p, regularResults[i]!));
+
+  for (const provider of candidates.filter((p) => p.capabilities.fallbackOnly)) {
+    const complete = completeFields(results);
+    if (provider.capabilities.fields.every((f) => complete.has(f))) continue;
+    collect(provider, await runProvider(provider, key, ctx));
+  }
+
+  const resolved: ResolvedComposition = {
+    holdings: [],
+    countries: [],
+    sectors: [],
+    profile: null,
+    provenance: {},
+    sources: [],
+    failed,
+  };
+
+  for (const field of LIST_FIELDS) {
+    const pick = pickList(field, results);
+    if (!pick) continue;
+    resolved[field] = pick.items;
+    resolved.provenance[field] = pick.provenance;
+  }
+
+  // Profile: first provider (by priority) that returned one
+  const withProfile = results.find((r) => r.composition.profile);
+  if (withProfile) {
+    resolved.profile = withProfile.composition.profile!;
+    resolved.provenance.profile = {
+      providerId: withProfile.provider.id,
+      label: withProfile.provider.label,
+      itemCount: 1,
+      coverage: 0,
+      url: withProfile.composition.sourceUrl ?? "",
+    };
+  }
+
+  resolved.sources = results
+    .map(({ provider, composition }): CompositionSource => ({
+      providerId: provider.id,
+      label: provider.label,
+      url: composition.sourceUrl ?? "",
+      fields: coveredFields(composition),
+      holdingsCoverage: provider.capabilities.holdingsCoverage,
+    }))
+    .filter((s) => s.fields.length > 0);
+
+  return resolved;
+}
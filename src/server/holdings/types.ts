@@ -0,0 +1,155 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Holdings provider contract
+   ─────────────────────────────────────────────────────────────────────────────
+   Every composition source (JustETF, InvestEngine, cbonds, …) implements
+   `HoldingsProvider`. Fetching and parsing are split so that parsers can be
+   exercised against saved pages without touching the network.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+/* ─── Data ─── */
+
+export interface WeightedItem {
+  name: string;
+  weight: number;
+}
+
+/** A fund holding, with identifiers when the source exposes them */
+export interface HoldingItem extends WeightedItem {
+  isin?: string;
+  ticker?: string;
+}
+
+export interface EtfReturns {
+  oneMonth: string;
+  threeMonths: string;
+  sixMonths: string;
+  ytd: string;
+  oneYear: string;
+  threeYears: string;
+  fiveYears: string;
+  max: string;
+}
+
+/** Fund-level facts shown next to the composition */
+export interface EtfProfile {
+  /** Full ETF name scraped from the profile page header */
+  etfName: string;
+  /** Number of total holdings (e.g. "3,624 holdings") */
+  totalHoldings: string;
+  /** Fund size as displayed (e.g. "EUR 110,458") */
+  fundSize: string;
+  /** TER as displayed (e.g. "0.20% p.a.") */
+  ter: string;
+  /** Replication method (e.g. "Physical") */
+  replication: string;
+  /** Distribution policy (e.g. "Accumulating") */
+  distributionPolicy: string;
+  /** Trailing 12-month dividend yield as displayed (e.g. "1.52%"); "" for accumulating funds */
+  distributionYield: string;
+  /** How often the fund pays out (e.g. "Quarterly"); "" when not reported */
+  distributionFrequency: string;
+  /** Cumulative return data scraped from the returns section */
+  returns: EtfReturns;
+  /** Asset class label (e.g. "Equity", "Precious Metals", "Bonds") */
+  assetClass: string;
+  /** Whether the source has a holdings section for this product at all */
+  hasHoldingsSection: boolean;
+}
+
+/** What a single provider extracted for one ISIN; absent fields are not covered */
+export interface ProviderComposition {
+  holdings?: HoldingItem[];
+  countries?: WeightedItem[];
+  sectors?: WeightedItem[];
+  profile?: EtfProfile;
+  /** Public page the data was taken from (for attribution links) */
+  sourceUrl?: string;
+}
+
+/* ─── Provider contract ─── */
+
+export type CompositionField = "holdings" | "countries" | "sectors" | "profile";
+
+export interface ProviderCapabilities {
+  /** Fields this provider can fill */
+  fields: CompositionField[];
+  /** How much of the fund's holdings list the provider usually returns */
+  holdingsCoverage?: "full" | "partial" | "top";
+  /**
+   * Only consulted when no earlier provider filled one of its fields —
+   * holdings count as filled only from a "full" provider — for slow or
+   * rate-limited sources.
+   */
+  fallbackOnly?: boolean;
+  /** Cheap enough for the light composition used by table rows */
+  cheap?: boolean;
+}
+
+export interface CachePolicy {
+  /** How long a result with data is kept */
+  ttlMs: number;
+  /** How long an empty or failed result is kept before retrying */
+  emptyTtlMs: number;
+  maxEntries: number;
+  /** How long an expired result may still be served while it is refreshed */
+  staleWhileRevalidateMs?: number;
+}
+
+/** Per-call dependencies handed to `HoldingsProvider.fetch` */
+export interface ProviderContext {
+  /**
+   * HTTP client to use instead of the provider's default. Lets parsers be
+   * driven from recorded responses without network access.
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * A composition source. `fetch` performs all network I/O and returns the raw
+ * payload (or `null` when the ISIN is not listed); `parse` is pure.
+ */
+export interface HoldingsProvider<Raw = unknown> {
+  /** Stable identifier used in provenance and logs (e.g. "justetf") */
+  id: string;
+  /** Human-readable name for attribution */
+  label: string;
+  /** Tie-breaker when two providers return equally complete data; higher wins */
+  priority: number;
+  capabilities: ProviderCapabilities;
+  cachePolicy: CachePolicy;
+  fetch(isin: string, ctx: ProviderContext): Promise<Raw | null>;
+  parse(raw: Raw, isin: string): ProviderComposition;
+}
+
+/* ─── Resolution result ─── */
+
+/** Where one field of a resolved composition came from */
+export interface FieldProvenance {
+  providerId: string;
+  label: string;
+  /** Number of items the provider returned for this field (1 for the profile) */
+  itemCount: number;
+  /** Sum of the item weights, in percent */
+  coverage: number;
+  url: string;
+}
+
+/** A provider that returned data for the ISIN, in priority order */
+export interface CompositionSource {
+  providerId: string;
+  label: string;
+  url: string;
+  fields: CompositionField[];
+  holdingsCoverage?: ProviderCapabilities["holdingsCoverage"];
+}
+
+export interface ResolvedComposition {
+  holdings: HoldingItem[];
+  countries: WeightedItem[];
+  sectors: WeightedItem[];
+  profile: EtfProfile | null;
+  provenance: Partial<Record<CompositionField, FieldProvenance>>;
+  sources: CompositionSource[];
+  /** Provider ids whose fetch or parse failed for this ISIN */
+  failed: string[];
+}
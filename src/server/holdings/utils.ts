@@ -0,0 +1,25 @@
+/* ─── Shared scraping helpers for holdings providers ─── */
+
+export const BROWSER_UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+/** Parse a percentage string like "5.21%" into a number 5.21 */
+export function parsePct(raw: string): number {
+  const num = parseFloat(raw.replace(",", ".").replace("%", "").trim());
+  return isNaN(num) ? 0 : num;
+}
+
+const ISIN_PATTERN = /\b([A-Z]{2}[A-Z0-9]{9}\d)\b/;
+
+/** Extract a well-formed ISIN from a raw value (string field, URL, …) */
+export function extractIsin(raw: unknown): string | undefined {
+  if (typeof raw !== "string") return undefined;
+  return ISIN_PATTERN.exec(raw.toUpperCase())?.[1];
+}
+
+/** Normalise a raw ticker field; empty / non-string values become undefined */
+export function cleanTicker(raw: unknown): string | undefined {
+  if (typeof raw !== "string") return undefined;
+  const t = raw.trim().toUpperCase();
+  return t || undefined;
+}
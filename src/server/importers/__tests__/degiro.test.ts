@@ -0,0 +1,80 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseBrokerStatement } from "~/server/importers";
+
+const readFixture = (file: string) =>
+  readFileSync(new URL(`./fixtures/${file}`, import.meta.url), "utf8");
+
+describe("DEGIRO portfolio export", () => {
+  it("reads the split currency and amount cells of an English export", () => {
+    const parsed = parseBrokerStatement(readFixture("degiro-portfolio-en.csv"));
+
+    expect(parsed?.importer.id).toBe("degiro");
+    expect(parsed?.statement).toEqual({
+      rows: [
+        {
+          line: 3,
+          isin: "IE00B3RBWM25",
+          ticker: "",
+          name: "VANGUARD FTSE ALL-WORLD UCITS ETF USD DIS",
+          quantity: 25,
+          value: 2960.5,
+          currency: "EUR",
+        },
+        {
+          line: 4,
+          isin: "US0378331005",
+          ticker: "",
+          name: "APPLE INC. - COMMON ST",
+          quantity: 4,
+          value: 910.08,
+          currency: "USD",
+        },
+        {
+          line: 5,
+          isin: "IE0005042456",
+          ticker: "",
+          name: "ISHARES CORE FTSE 100 UCITS ETF GBP DIS",
+          quantity: 100,
+          value: 845.6,
+          currency: "GBP",
+        },
+      ],
+      skipped: [
+        {
+          line: 2,
+          label: "CASH & CASH FUND & FTX CASH (EUR)",
+          reason: "Cash balance",
+        },
+      ],
+    });
+  });
+
+  it("reads German headers and a combined currency and amount cell", () => {
+    const parsed = parseBrokerStatement(readFixture("degiro-portfolio-de.csv"));
+
+    expect(parsed?.importer.id).toBe("degiro");
+    expect(parsed?.statement.rows).toEqual([
+      {
+        line: 3,
+        isin: "IE00B4L5Y983",
+        ticker: "",
+        name: "ISHARES CORE MSCI WORLD UCITS ETF USD (ACC)",
+        quantity: 12,
+        value: 1177.2,
+        currency: "EUR",
+      },
+      // Without an ISIN the symbol is kept for the security search
+      {
+        line: 4,
+        isin: "",
+        ticker: "NOVO B",
+        name: "NOVO NORDISK A/S",
+        quantity: 8,
+        value: 3300,
+        currency: "DKK",
+      },
+    ]);
+    expect(parsed?.statement.skipped.map((s) => s.line)).toEqual([2]);
+  });
+});
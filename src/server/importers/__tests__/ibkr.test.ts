@@ -0,0 +1,54 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseBrokerStatement } from "~/server/importers";
+
+const readFixture = (file: string) =>
+  readFileSync(new URL(`./fixtures/${file}`, import.meta.url), "utf8");
+
+describe("Interactive Brokers Flex Query", () => {
+  const parsed = parseBrokerStatement(readFixture("ibkr-flex-lots.xml"));
+
+  it("reads the summary rows once, ignoring the per-lot detail", () => {
+    expect(parsed?.importer.id).toBe("ibkr");
+    expect(parsed?.statement.rows).toEqual([
+      {
+        line: 1,
+        isin: "US9220427424",
+        ticker: "VT",
+        name: "VANGUARD TOT WORLD STK ETF",
+        quantity: 30,
+        value: 3555,
+        currency: "USD",
+      },
+      {
+        line: 4,
+        isin: "IE00B5BMR087",
+        ticker: "CSPX",
+        name: "ISHARES CORE S&P 500",
+        quantity: 5,
+        value: 2875.4,
+        currency: "EUR",
+      },
+      {
+        line: 5,
+        isin: "GB00B4PQW151",
+        ticker: "VANEA",
+        name: "VANGUARD LIFESTRATEGY 80% EQUITY A ACC",
+        quantity: 12.5,
+        value: 3765,
+        currency: "GBP",
+      },
+    ]);
+  });
+
+  it("skips derivatives and short positions", () => {
+    expect(parsed?.statement.skipped).toEqual([
+      {
+        line: 6,
+        label: "SPY 19JUN26 500 P",
+        reason: "Asset category OPT is not supported",
+      },
+      { line: 7, label: "TESLA INC", reason: "Short or closed position" },
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { parseBrokerStatement } from "~/server/importers";
+
+const readFixture = (file: string) =>
+  readFileSync(new URL(`./fixtures/${file}`, import.meta.url), "utf8");
+
+describe("Trading 212 history export", () => {
+  const parsed = parseBrokerStatement(readFixture("trading212-history.csv"));
+  const rows = parsed?.statement.rows ?? [];
+
+  it("replays buys and sells into the shares still held", () => {
+    expect(parsed?.importer.id).toBe("trading212");
+    expect(
+      rows.map(({ line, ticker, quantity, value, currency }) => ({
+        line,
+        ticker,
+        quantity,
+        value,
+        currency,
+      })),
+    ).toEqual([
+      { line: 4, ticker: "ULVR", quantity: 10, value: 450, currency: "GBP" },
+      { line: 6, ticker: "AAPL", quantity: 1.5, value: 375, currency: "USD" },
+      { line: 9, ticker: "MSFT", quantity: 1, value: 400, currency: "USD" },
+    ]);
+    expect(parsed?.statement.skipped).toContainEqual({
+      line: 8,
+      label: "Vanguard FTSE All-World",
+      reason: "Position fully sold",
+    });
+  });
+
+  it("keeps the trades, with fees converted to the trade currency", () => {
+    const apple = rows.find((r) => r.ticker === "AAPL")!;
+    const unilever = rows.find((r) => r.ticker === "ULVR")!;
+
+    expect(apple.transactions).toMatchObject([
+      { type: "buy", date: "2026-01-05", quantity: 2, price: 240 },
+      { type: "sell", date: "2026-02-10", quantity: 0.5, price: 250 },
+    ]);
+    // Conversion fees are charged in EUR; the exchange rate is USD per EUR
+    expect(apple.transactions![0]!.fees).toBeCloseTo(0.4784);
+    expect(apple.transactions![1]!.fees).toBeCloseTo(0.126);
+    // Stamp duty in GBP plus the EUR fee at 84 GBX per EUR
+    expect(unilever.transactions![0]).toMatchObject({
+      price: 45,
+      currency: "GBP",
+    });
+    expect(unilever.transactions![0]!.fees).toBeCloseTo(2.3172);
+  });
+
+  it("flags fees it cannot convert instead of dropping them silently", () => {
+    const microsoft = rows.find((r) => r.ticker === "MSFT")!;
+
+    expect(microsoft.transactions![0]!.fees).toBe(0);
+    expect(parsed?.statement.skipped).toContainEqual({
+      line: 9,
+      label: "Microsoft",
+      reason:
+        "Currency conversion fee of 0.38 EUR could not be converted to USD; not included in the cost basis",
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   DEGIRO — Portfolio.csv (Portfolio → Export → CSV)
+   ─────────────────────────────────────────────────────────────────────────────
+   One row per holding: product, symbol / ISIN, quantity, closing price, the
+   local value (currency code in one cell, amount in the unnamed next one)
+   and the value in the account currency. Headers follow the account
+   language; English, Dutch, German and French are recognised.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { parseCsv } from "~/lib/csv";
+import { parseLocaleNumber } from "~/lib/number";
+import { type BrokerImporter, type BrokerRow, type BrokerStatement, type SkippedBrokerRow } from "../types";
+import { cellAt, findColumn, isinAt, normaliseMoney, numberAt } from "../utils";
+
+const SYMBOL_ISIN_HEADER = /^symbo(l|ol|le)\/isin$/i;
+
+const COLUMNS = {
+  product: /^(product|produkt|produit)$/i,
+  quantity: /^(amount|quantity|aantal|anzahl|quantité)$/i,
+  localValue: /^(local value|lokale waarde|lokaler wert|valeur locale)$/i,
+  accountValue: /^(value in|waarde in|wert in|valeur en) [a-z]{3}$/i,
+};
+
+/** Cash, money market sweep and flatex balances are listed as products */
+const CASH_ROW = /\bcash\b|geldmarkt|flatex/i;
+
+/** "USD" + "1234.56" in two cells, or "USD 1234.56" in one */
+function localValue(row: string[], idx: number): { amount: number; currency: string } | null {
+  const first = cellAt(row, idx);
+  if (/^[A-Z]{3}$/i.test(first)) {
+    const amount = numberAt(row, idx + 1);
+    return amount !== null ? normaliseMoney(amount, first) : null;
+  }
+  const currency = /\b([A-Z]{3})\b/.exec(first)?.[1];
+  const amount = parseLocaleNumber(first);
+  return currency && amount !== null ? normaliseMoney(amount, currency) : null;
+}
+
+function parseDegiro(content: string): BrokerStatement {
+  const { headers, rows } = parseCsv(content);
+  const col = {
+    product: findColumn(headers, COLUMNS.product),
+    symbolIsin: findColumn(headers, SYMBOL_ISIN_HEADER),
+    quantity: findColumn(headers, COLUMNS.quantity),
+    localValue: findColumn(headers, COLUMNS.localValue),
+    accountValue: findColumn(headers, COLUMNS.accountValue),
+  };
+  const accountCurrency = /([A-Z]{3})$/i.exec(headers[col.accountValue] ?? "")?.[1]?.toUpperCase() ?? "";
+
+  const result: BrokerRow[] = [];
+  const skipped: SkippedBrokerRow[] = [];
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const name = cellAt(row, col.product);
+    const isin = isinAt(row, col.symbolIsin);
+    if (!isin && CASH_ROW.test(name)) {
+      skipped.push({ line, label: name, reason: "Cash balance" });
+      return;
+    }
+    if (!isin && !name) return;
+
+    const local = localValue(row, col.localValue);
+    const accountValue = numberAt(row, col.accountValue);
+    result.push({
+      line,
+      isin,
+      ticker: isin ? "" : cellAt(row, col.symbolIsin),
+      name,
+      quantity: numberAt(row, col.quantity),
+      // Prefer the listing currency; the account value is the fallback
+      value: local?.amount ?? accountValue,
+      currency: local?.currency ?? accountCurrency,
+    });
+  });
+
+  return { rows: result, skipped };
+}
+
+export const degiroImporter: BrokerImporter = {
+  id: "degiro",
+  label: "DEGIRO portfolio (CSV)",
+  extensions: [".csv"],
+  detect: (content) => parseCsv(content.slice(0, 2000)).headers.some((h) => SYMBOL_ISIN_HEADER.test(h)),
+  parse: parseDegiro,
+};
@@ -0,0 +1,71 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Interactive Brokers — Flex Query XML with an "Open Positions" section
+   ─────────────────────────────────────────────────────────────────────────────
+   Each holding is an <OpenPosition> element whose attributes carry the
+   symbol, ISIN, currency, position size, mark price and position value.
+   Queries set to "Lot" detail repeat every holding per tax lot; only the
+   summary rows are read so nothing is counted twice.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import * as cheerio from "cheerio";
+import { extractIsin } from "~/server/holdings/utils";
+import { type BrokerImporter, type BrokerRow, type BrokerStatement, type SkippedBrokerRow } from "../types";
+import { normaliseMoney } from "../utils";
+
+/** Stocks and ETFs are "STK", mutual funds "FUND"; options, futures, cash, … are skipped */
+const SUPPORTED_CATEGORIES = new Set(["STK", "FUND"]);
+
+function parseIbkr(content: string): BrokerStatement {
+  const $ = cheerio.load(content, { xml: true });
+
+  const rows: BrokerRow[] = [];
+  const skipped: SkippedBrokerRow[] = [];
+  $("OpenPosition").each((i, el) => {
+    const attr = (key: string) => ($(el).attr(key) ?? "").trim();
+    if (attr("levelOfDetail") && attr("levelOfDetail").toUpperCase() !== "SUMMARY") return;
+
+    // Positions are numbered in document order, as IBKR has no line numbers
+    const line = i + 1;
+    const symbol = attr("symbol");
+    const name = attr("description") || symbol;
+    const category = attr("assetCategory").toUpperCase();
+    if (category && !SUPPORTED_CATEGORIES.has(category)) {
+      skipped.push({ line, label: name, reason: `Asset category ${category} is not supported` });
+      return;
+    }
+
+    const number = (key: string) => {
+      const n = parseFloat(attr(key));
+      return isNaN(n) ? null : n;
+    };
+    const quantity = number("position");
+    if (quantity !== null && quantity <= 0) {
+      skipped.push({ line, label: name, reason: "Short or closed position" });
+      return;
+    }
+    const value = number("positionValue");
+    const money = value !== null ? normaliseMoney(value, attr("currency")) : null;
+
+    rows.push({
+      line,
+      isin:
+        extractIsin(attr("isin")) ??
+        (attr("securityIDType").toUpperCase() === "ISIN" ? (extractIsin(attr("securityID")) ?? "") : ""),
+      ticker: symbol,
+      name,
+      quantity,
+      value: money?.amount ?? null,
+      currency: money?.currency ?? attr("currency").toUpperCase(),
+    });
+  });
+
+  return { rows, skipped };
+}
+
+export const ibkrImporter: BrokerImporter = {
+  id: "ibkr",
+  label: "Interactive Brokers Flex Query (XML)",
+  extensions: [".xml"],
+  detect: (content) => /<(FlexQueryResponse|FlexStatement)\b/.test(content.slice(0, 2000)),
+  parse: parseIbkr,
+};
@@ -0,0 +1,135 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Trading 212 — account history CSV (History → Export)
+   ─────────────────────────────────────────────────────────────────────────────
+   The export is a trade history, not a holdings list: one row per order,
+   deposit, dividend, … Buys and sells are replayed per instrument into the
+   shares still held, and kept as the position's transaction ledger. The
+   value is the holding at the last traded price, as the export has no
+   current prices. Cash movements and dividends are not holdings and are
+   left out. Fees charged in the account currency (e.g. the currency
+   conversion fee) are converted with the row's exchange rate.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { parseCsv } from "~/lib/csv";
+import { type Transaction } from "~/types/portfolio";
+import { type BrokerImporter, type BrokerRow, type BrokerStatement, type SkippedBrokerRow } from "../types";
+import { cellAt, findColumn, isinAt, normaliseMoney, numberAt } from "../utils";
+
+const COLUMNS = {
+  action: /^action$/i,
+  time: /^time$/i,
+  isin: /^isin$/i,
+  ticker: /^ticker$/i,
+  name: /^name$/i,
+  shares: /^no\. of shares$/i,
+  price: /^price \/ share$/i,
+  priceCurrency: /^currency \(price \/ share\)$/i,
+  /** Units of the price currency per unit of the account currency */
+  exchangeRate: /^exchange rate$/i,
+  accountCurrency: /^currency \(total\)$/i,
+};
+
+/** Fee columns and the currency column next to each */
+const FEE_COLUMNS = [/^stamp duty( reserve tax)?$/i, /^currency conversion fee$/i, /^transaction fee$/i, /^finra fee$/i];
+
+interface Holding {
+  row: BrokerRow;
+  shares: number;
+  lastPrice: number | null;
+  transactions: Transaction[];
+}
+
+function parseTrading212(content: string): BrokerStatement {
+  const { headers, rows } = parseCsv(content);
+  const col = Object.fromEntries(
+    Object.entries(COLUMNS).map(([key, pattern]) => [key, findColumn(headers, pattern)]),
+  ) as Record<keyof typeof COLUMNS, number>;
+  const feeCols = FEE_COLUMNS.map((pattern) => findColumn(headers, pattern)).filter((idx) => idx >= 0);
+
+  const holdings = new Map<string, Holding>();
+  const skipped: SkippedBrokerRow[] = [];
+  rows.forEach((row, i) => {
+    const action = cellAt(row, col.action).toLowerCase();
+    const type = action.endsWith(" buy") ? "buy" : action.endsWith(" sell") ? "sell" : null;
+    if (!type) return;
+
+    const isin = isinAt(row, col.isin);
+    const ticker = cellAt(row, col.ticker);
+    const key = isin || ticker;
+    const quantity = numberAt(row, col.shares);
+    const rawPrice = numberAt(row, col.price);
+    if (!key || quantity === null || quantity <= 0 || rawPrice === null) return;
+    const rawCurrency = cellAt(row, col.priceCurrency);
+    const { amount: price, currency } = normaliseMoney(rawPrice, rawCurrency);
+
+    // Fees are in the trade currency or, like the currency conversion fee,
+    // in the account currency; the column to the right names it
+    const accountCurrency = cellAt(row, col.accountCurrency).toUpperCase();
+    const rate = numberAt(row, col.exchangeRate);
+    let fees = 0;
+    for (const idx of feeCols) {
+      const fee = numberAt(row, idx);
+      if (!fee) continue;
+      const feeCurrency = cellAt(row, idx + 1).toUpperCase();
+      if (feeCurrency === "" || feeCurrency === currency) {
+        fees += fee;
+      } else if (feeCurrency === accountCurrency && rate !== null && rate > 0) {
+        fees += normaliseMoney(fee * rate, rawCurrency).amount;
+      } else {
+        skipped.push({
+          line: i + 2,
+          label: cellAt(row, col.name) || ticker,
+          reason: `${headers[idx]?.trim()} of ${fee} ${feeCurrency} could not be converted to ${currency}; not included in the cost basis`,
+        });
+      }
+    }
+
+    const holding = holdings.get(key) ?? {
+      row: { line: 0, isin, ticker, name: cellAt(row, col.name), quantity: null, value: null, currency },
+      shares: 0,
+      lastPrice: null,
+      transactions: [],
+    };
+    holding.row.line = i + 2;
+    holding.shares += type === "buy" ? quantity : -quantity;
+    holding.lastPrice = price;
+    holding.transactions.push({
+      id: `t${holding.transactions.length + 1}`,
+      type,
+      date: cellAt(row, col.time).slice(0, 10),
+      quantity,
+      price,
+      fees,
+      currency,
+    });
+    holdings.set(key, holding);
+  });
+
+  const result: BrokerRow[] = [];
+  for (const { row, shares, lastPrice, transactions } of holdings.values()) {
+    // Fractional shares leave rounding dust after a full sale
+    if (shares <= 1e-6) {
+      skipped.push({ line: row.line, label: row.name || row.ticker, reason: "Position fully sold" });
+      continue;
+    }
+    result.push({
+      ...row,
+      quantity: shares,
+      value: lastPrice !== null ? shares * lastPrice : null,
+      transactions: transactions.filter((t) => /^\d{4}-\d{2}-\d{2}$/.test(t.date)),
+    });
+  }
+
+  return { rows: result.sort((a, b) => a.line - b.line), skipped };
+}
+
+export const trading212Importer: BrokerImporter = {
+  id: "trading212",
+  label: "Trading 212 history (CSV)",
+  extensions: [".csv"],
+  detect: (content) => {
+    const { headers } = parseCsv(content.slice(0, 2000));
+    return findColumn(headers, COLUMNS.action) >= 0 && findColumn(headers, COLUMNS.shares) >= 0;
+  },
+  parse: parseTrading212,
+};
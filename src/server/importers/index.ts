@@ -0,0 +1,31 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Broker statement importers — entry point
+   ─────────────────────────────────────────────────────────────────────────────
+   To add a broker, implement `BrokerImporter` in ./brokers and list it
+   below; the router resolves its rows through `parseBrokerStatement`.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { degiroImporter } from "./brokers/degiro";
+import { ibkrImporter } from "./brokers/ibkr";
+import { trading212Importer } from "./brokers/trading212";
+import { type BrokerId, type BrokerImporter, type BrokerStatement } from "./types";
+
+/** Checked in this order on auto-detect */
+export const BROKER_IMPORTERS: BrokerImporter[] = [ibkrImporter, trading212Importer, degiroImporter];
+
+/**
+ * Parse a statement with the given broker's importer, or the first one
+ * whose `detect` accepts it. Returns `null` for an unrecognised format.
+ */
+export function parseBrokerStatement(
+  content: string,
+  brokerId?: BrokerId,
+): { importer: BrokerImporter; statement: BrokerStatement } | null {
+  const importer = brokerId
+    ? BROKER_IMPORTERS.find((i) => i.id === brokerId)
+    : BROKER_IMPORTERS.find((i) => i.detect(content));
+  if (!importer) return null;
+  return { importer, statement: importer.parse(content) };
+}
+
+export type * from "./types";
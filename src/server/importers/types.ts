@@ -0,0 +1,49 @@
+/* ═══════════════════════════════════════════════════════════════════════════════
+   Broker statement importer contract
+   ─────────────────────────────────────────────────────────────────────────────
+   Every supported export format (DEGIRO, Interactive Brokers, Trading 212, …)
+   implements `BrokerImporter`. Parsing is pure and works on the file's text;
+   resolving rows to securities is done once by the router for all formats.
+   ═══════════════════════════════════════════════════════════════════════════════ */
+
+import { type CsvPositionRow } from "~/lib/csv";
+import { type Transaction } from "~/types/portfolio";
+
+/* ─── Data ─── */
+
+export type BrokerId = "degiro" | "ibkr" | "trading212";
+
+/** A holding read from a statement, before it is resolved to a security */
+export interface BrokerRow extends CsvPositionRow {
+  /** Shares held; `null` when the statement has none */
+  quantity: number | null;
+  /** Market value in `currency` (`value` in the CSV row), `null` when not reported */
+  value: number | null;
+  /** Trades the holding was built from, for exports that are trade histories */
+  transactions?: Transaction[];
+}
+
+/** A statement line that is not a holding (cash, options, closed positions, …) */
+export interface SkippedBrokerRow {
+  line: number;
+  label: string;
+  reason: string;
+}
+
+export interface BrokerStatement {
+  rows: BrokerRow[];
+  skipped: SkippedBrokerRow[];
+}
+
+/* ─── Importer contract ─── */
+
+export interface BrokerImporter {
+  id: BrokerId;
+  /** Human-readable broker and export name */
+  label: string;
+  /** File extensions offered in the upload dialog */
+  extensions: string[];
+  /** Whether the text looks like this broker's export (checked on auto-detect) */
+  detect(content: string): boolean;
+  parse(content: string): BrokerStatement;
+}
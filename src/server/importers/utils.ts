@@ -0,0 +1,34 @@
+/* ─── Shared parsing helpers for broker importers ─── */
+
+import { parseLocaleNumber } from "~/lib/number";
+import { extractIsin } from "~/server/holdings/utils";
+
+/** Index of the first header matching `pattern`, or -1 */
+export function findColumn(headers: string[], pattern: RegExp): number {
+  return headers.findIndex((h) => pattern.test(h.trim()));
+}
+
+/** Trimmed cell at `idx`; "" for a missing column */
+export function cellAt(row: string[], idx: number): string {
+  return idx >= 0 ? (row[idx] ?? "").trim() : "";
+}
+
+/** Locale-aware number from a cell; `null` when empty or not a number */
+export function numberAt(row: string[], idx: number): number | null {
+  const raw = cellAt(row, idx);
+  return raw ? parseLocaleNumber(raw) : null;
+}
+
+/** Well-formed ISIN from a cell, or "" */
+export function isinAt(row: string[], idx: number): string {
+  return extractIsin(cellAt(row, idx)) ?? "";
+}
+
+/**
+ * Brokers quote London listings in pence ("GBX" / "GBp"); convert such
+ * amounts to pounds so they share a currency with the rest of the app.
+ */
+export function normaliseMoney(amount: number, currency: string): { amount: number; currency: string } {
+  if (currency === "GBX" || currency === "GBp") return { amount: amount / 100, currency: "GBP" };
+  return { amount, currency: currency.toUpperCase() };
+}
@@ -2,8 +2,8 @@
    Shared types for portfolio data & localStorage persistence
    ═══════════════════════════════════════════════════════════════════════════════ */
 
-/** How values are entered: absolute amounts or percentages of total */
-export type InputMode = "amount" | "percentage";
+/** How values are entered: absolute amounts, percentages of total, or share counts valued from live quotes */
+export type InputMode = "amount" | "percentage" | "shares";
 
 /** A security returned from the server (raw data only) */
 export interface SecurityResult {
@@ -43,8 +43,82 @@ export interface Position {
   ticker: string;
   /** The full security result (for re-hydration) */
   security: SecurityResult | null;
-  /** Amount or percentage depending on mode (stored as string for input) */
+  /** Amount, percentage or share count depending on mode (stored as string for input) */
   value: string;
+  /** Currency the amount is entered in; converted to the portfolio currency for reporting */
+  currency: string;
+  /** Target weight in percent of the portfolio (stored as string for input); absent when unset */
+  target?: string;
+  /** Buy / sell history used for cost basis and gains; absent when not tracked */
+  transactions?: Transaction[];
+}
+
+export type TransactionType = "buy" | "sell";
+
+/** A single trade in a position's ledger */
+export interface Transaction {
+  id: string;
+  type: TransactionType;
+  /** Trade date as ISO `yyyy-mm-dd` */
+  date: string;
+  /** Number of shares bought or sold */
+  quantity: number;
+  /** Price per share in `currency` */
+  price: number;
+  /** Commissions and taxes paid on the trade, in `currency` */
+  fees: number;
+  currency: string;
+}
+
+/** How sold shares are matched against earlier buys */
+export type CostBasisMethod = "fifo" | "average";
+
+/** Aggregated exposure dimension a target or rule can refer to */
+export type ExposureDimension = "country" | "sector";
+
+/** Target share of an aggregated country or sector exposure */
+export interface ExposureTarget {
+  dimension: ExposureDimension;
+  /** Bucket name as reported by the providers (e.g. "United States") */
+  name: string;
+  /** Target weight in percent */
+  target: number;
+}
+
+/**
+ * Tolerance bands for drift alerts. A weight is flagged when it is further
+ * from its target than either band allows; `null` disables that band.
+ */
+export interface DriftSettings {
+  /** Allowed deviation in percentage points (e.g. 5 → 60% ± 5pp) */
+  absolutePp: number | null;
+  /** Allowed deviation relative to the target in percent (e.g. 25 → 20% ± 5pp) */
+  relativePct: number | null;
+  exposureTargets: ExposureTarget[];
+}
+
+/** What an exposure rule measures: look-through holdings or an exposure dimension */
+export type ExposureRuleScope = "holding" | ExposureDimension;
+
+/**
+ * Declarative concentration limit, e.g. "no single company above 5%" or
+ * "emerging markets between 10% and 15%".
+ */
+export interface ExposureRule {
+  id: string;
+  /** User-facing name shown in the report */
+  label: string;
+  scope: ExposureRuleScope;
+  /**
+   * Buckets whose weights are summed and checked together (names; ISINs or
+   * tickers also match holdings). Empty → every bucket is checked on its own.
+   */
+  match: string[];
+  /** Limits in percent; `null` leaves that side open */
+  min: number | null;
+  max: number | null;
+  /** Distance to a limit in percentage points that counts as a warning */
+  warnPp: number;
 }
 
 /** The full portfolio data persisted to localStorage */
@@ -52,10 +126,54 @@ export interface PortfolioData {
   /** Schema version — bump when changing the shape */
   version: number;
   inputMode: InputMode;
+  /** Reporting currency — position amounts are converted into it */
   currency: string;
   /** Total portfolio value (only relevant in percentage mode, optional) */
   totalPortfolioValue: string;
   positions: Position[];
+  /** Drift alert bands and exposure targets; absent until configured */
+  drift?: DriftSettings;
+  /** Concentration limits checked on the overview; absent until configured */
+  rules?: ExposureRule[];
+  /** Lot matching used for realized gains; FIFO when absent */
+  costBasisMethod?: CostBasisMethod;
+}
+
+/** A single named portfolio inside the persisted collection */
+export interface NamedPortfolio extends Omit<PortfolioData, "version"> {
+  /** Stable identifier, generated on creation */
+  id: string;
+  /** User-facing name shown in the portfolio switcher */
+  name: string;
+}
+
+/** All portfolios persisted to localStorage, plus the one currently in use */
+export interface PortfolioCollection {
+  /** Schema version — bump when changing the shape */
+  version: number;
+  /** ID of the portfolio the builder and overview operate on */
+  activeId: string;
+  portfolios: NamedPortfolio[];
+}
+
+/** Stored data that could not be loaded (or was replaced), kept verbatim for recovery */
+export interface QuarantinedData {
+  id: string;
+  /** localStorage key the data was read from */
+  key: string;
+  /** Why the data was set aside, shown to the user */
+  reason: string;
+  /** ISO timestamp */
+  quarantinedAt: string;
+  /** The original stored string, unparsed */
+  raw: string;
+}
+
+/** Lightweight listing entry for the portfolio switcher */
+export interface PortfolioSummary {
+  id: string;
+  name: string;
+  positionCount: number;
 }
 
 /* ─── Currency definitions ─── */
@@ -91,6 +209,11 @@ export const CURRENCY_SYMBOLS: Record<string, string> = Object.fromEntries(
   CURRENCIES.map((c) => [c.value, c.symbol]),
 );
 
+/** Whether a code is one of the supported currencies */
+export function isSupportedCurrency(code: unknown): code is string {
+  return typeof code === "string" && CURRENCIES.some((c) => c.value === code);
+}
+
 /** Get the symbol for a currency code, with a fallback */
 export function currencySymbol(code: string): string {
   return CURRENCY_SYMBOLS[code] ?? code;